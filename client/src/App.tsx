@@ -11,6 +11,7 @@ import AdminPage from "@/pages/admin-page";
 import MyReports from "@/pages/my-reports";
 import WeeklyPerformance from "@/pages/weekly-performance";
 import OperationsPerformance from "@/pages/operations-performance";
+import ExportCenter from "@/pages/export-center";
 import { Loader2 } from "lucide-react";
 
 function AuthenticatedRouter() {
@@ -20,6 +21,7 @@ function AuthenticatedRouter() {
       <Route path="/my-reports" component={MyReports} />
       <Route path="/weekly-performance" component={WeeklyPerformance} />
       <Route path="/operations-performance" component={OperationsPerformance} />
+      <Route path="/exports" component={ExportCenter} />
       <Route path="/admin" component={AdminPage} />
       <Route component={NotFound} />
     </Switch>
@@ -0,0 +1,199 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Save, X, Loader2, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ColumnInfo, ColumnMask, ColumnMaskRules, MaskedRole, RoleDefinition } from "@/lib/types";
+import { COLUMN_MASK_LABELS } from "@/lib/types";
+
+interface ColumnMaskingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  database: string;
+  tableName: string;
+  columns: ColumnInfo[];
+  // Saved rules, or undefined when masking was never configured for the table
+  rules: ColumnMaskRules | undefined;
+  onSave: (rules: ColumnMaskRules) => Promise<void>;
+}
+
+const MASKS: ColumnMask[] = ["hide", "partial", "hash", "null"];
+
+const NO_MASK = "none";
+
+const NO_RULES: ColumnMaskRules = {};
+
+const NO_ROLES: RoleDefinition[] = [];
+
+export function ColumnMaskingModal({
+  isOpen,
+  onClose,
+  database,
+  tableName,
+  columns,
+  rules,
+  onSave,
+}: ColumnMaskingModalProps) {
+  const [draft, setDraft] = useState<ColumnMaskRules>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: roles = NO_ROLES } = useQuery<RoleDefinition[]>({
+    queryKey: ["/api/admin/roles"],
+    enabled: isOpen,
+  });
+  // Roles that can view restricted data always see raw values, so they get no column
+  const maskedRoles = roles.filter((r) => !r.permissions.includes("view_restricted_data"));
+  const gridStyle = { gridTemplateColumns: `1fr repeat(${maskedRoles.length}, 160px)` };
+
+  // Suggested from each column's semantic role (emails, phone numbers, addresses)
+  const { data: suggestions = NO_RULES } = useQuery<ColumnMaskRules>({
+    queryKey: ["/api/admin/mask-suggestions", database, tableName],
+    enabled: isOpen && !!database && !!tableName,
+  });
+
+  // A table that was never configured starts from the suggestions
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraft(rules ?? suggestions);
+  }, [isOpen, rules, suggestions]);
+
+  const setMask = (column: string, role: MaskedRole, mask: ColumnMask | null) => {
+    setDraft((prev) => {
+      const byRole = { ...prev[column] };
+      if (mask) byRole[role] = mask;
+      else delete byRole[role];
+      const next = { ...prev };
+      if (Object.keys(byRole).length > 0) next[column] = byRole;
+      else delete next[column];
+      return next;
+    });
+  };
+
+  const handleApplySuggestions = () => {
+    setDraft((prev) => {
+      const next = { ...prev };
+      for (const [column, byRole] of Object.entries(suggestions)) {
+        next[column] = { ...next[column], ...byRole };
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+      onClose();
+    } catch (error) {
+      console.error("Failed to save column masks:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Column Masking for{" "}
+            <span className="font-mono text-primary">{tableName}</span>
+          </DialogTitle>
+          <DialogDescription>
+            Masks apply to rows, exports, reports and AI prompts for each role. Roles that can view
+            restricted data, such as Admin, always see raw values.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 py-2">
+          <div className="grid gap-3 px-1 text-xs font-medium text-muted-foreground" style={gridStyle}>
+            <span>Column</span>
+            {maskedRoles.map((role) => (
+              <span key={role.key}>{role.name}</span>
+            ))}
+          </div>
+          {columns.map((col) => (
+            <div
+              key={col.name}
+              className="grid gap-3 items-center rounded-md border px-3 py-2"
+              style={gridStyle}
+              data-testid={`mask-row-${col.name}`}
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-sm truncate">{col.name}</span>
+                  {suggestions[col.name] && (
+                    <Badge variant="secondary" className="text-[10px]">Suggested</Badge>
+                  )}
+                </div>
+                <span className="text-xs text-muted-foreground">{col.dataType}</span>
+              </div>
+              {maskedRoles.map(({ key: role }) => (
+                <Select
+                  key={role}
+                  value={draft[col.name]?.[role] ?? NO_MASK}
+                  onValueChange={(value) =>
+                    setMask(col.name, role, value === NO_MASK ? null : (value as ColumnMask))
+                  }
+                >
+                  <SelectTrigger className="h-8" data-testid={`select-mask-${col.name}-${role}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_MASK}>No mask</SelectItem>
+                    {MASKS.map((mask) => (
+                      <SelectItem key={mask} value={mask}>
+                        {COLUMN_MASK_LABELS[mask]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <Button
+            variant="outline"
+            onClick={handleApplySuggestions}
+            disabled={Object.keys(suggestions).length === 0}
+            data-testid="button-apply-mask-suggestions"
+          >
+            <Sparkles className="h-4 w-4 mr-2" />
+            Apply Suggestions
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose} data-testid="button-cancel-masks">
+              <X className="h-4 w-4 mr-2" />
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving} data-testid="button-save-masks">
+              {isSaving ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4 mr-2" />
+              )}
+              Save Masks
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
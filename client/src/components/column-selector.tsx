@@ -11,6 +11,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import type { ColumnInfo } from "@/lib/types";
+import { hasPermission } from "@/lib/types";
 import { useAuth } from "@/hooks/use-auth";
 
 interface ColumnSelectorProps {
@@ -31,7 +32,8 @@ export function ColumnSelector({
   disabled = false,
 }: ColumnSelectorProps) {
   const { user } = useAuth();
-  const isAdmin = user?.role === "admin";
+  // Roles that manage table settings save hidden columns for everyone; others only hide locally
+  const isAdmin = hasPermission(user, "manage_settings");
   const [localHidden, setLocalHidden] = useState<Set<string>>(new Set(hiddenColumns));
   const [search, setSearch] = useState("");
   const [isOpen, setIsOpen] = useState(false);
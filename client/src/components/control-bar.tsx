@@ -1,7 +1,10 @@
-import { RefreshCw, Download, Settings, Loader2 } from "lucide-react";
+import { useState, useEffect } from "react";
+import { RefreshCw, Download, Settings, Loader2, Search, X, ShieldCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { ColumnSelector } from "@/components/column-selector";
-import type { ColumnInfo } from "@/lib/types";
+import { ExportFormatMenu } from "@/components/export-format-menu";
+import type { ColumnInfo, ExportFormat } from "@/lib/types";
 
 interface ControlBarProps {
   selectedTable: string;
@@ -9,8 +12,11 @@ interface ControlBarProps {
   currentPage: number;
   totalPages: number;
   onReload: () => void;
-  onExport: () => void;
+  // Only passed for roles allowed to export
+  onExport?: (format: ExportFormat) => void;
   onOpenSettings: () => void;
+  // Only passed for roles that manage table settings, including PII masking rules
+  onOpenMasking?: () => void;
   isLoading: boolean;
   isExporting: boolean;
   columns: ColumnInfo[];
@@ -18,8 +24,13 @@ interface ControlBarProps {
   onSaveColumns: (hiddenColumns: string[]) => void;
   onLocalColumnsChange?: (hiddenColumns: string[]) => void;
   isSavingColumns?: boolean;
+  searchTerm?: string;
+  onSearchChange?: (term: string) => void;
 }
 
+// Wait for a pause in typing before searching every text column of the table
+const SEARCH_DEBOUNCE_MS = 400;
+
 export function ControlBar({
   selectedTable,
   totalCount,
@@ -28,6 +39,7 @@ export function ControlBar({
   onReload,
   onExport,
   onOpenSettings,
+  onOpenMasking,
   isLoading,
   isExporting,
   columns,
@@ -35,7 +47,23 @@ export function ControlBar({
   onSaveColumns,
   onLocalColumnsChange,
   isSavingColumns = false,
+  searchTerm = "",
+  onSearchChange,
 }: ControlBarProps) {
+  const [searchInput, setSearchInput] = useState(searchTerm);
+
+  // Follow outside changes, e.g. the search being cleared on a table switch
+  useEffect(() => {
+    setSearchInput(searchTerm);
+  }, [searchTerm]);
+
+  useEffect(() => {
+    const trimmed = searchInput.trim();
+    if (!onSearchChange || trimmed === searchTerm) return;
+    const timer = setTimeout(() => onSearchChange(trimmed), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput, searchTerm, onSearchChange]);
+
   return (
     <div className="flex items-center justify-between px-4 py-3 border-b bg-card gap-4">
       <div className="flex items-center gap-4">
@@ -50,6 +78,39 @@ export function ControlBar({
       </div>
 
       <div className="flex items-center gap-2">
+        {onSearchChange && (
+          <div className="relative">
+            <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") onSearchChange(searchInput.trim());
+                if (e.key === "Escape") setSearchInput("");
+              }}
+              placeholder="Search all text columns..."
+              className="h-8 w-64 pl-8 pr-8"
+              maxLength={200}
+              disabled={!selectedTable}
+              data-testid="input-table-search"
+            />
+            {searchInput && (
+              <button
+                type="button"
+                onClick={() => {
+                  setSearchInput("");
+                  onSearchChange("");
+                }}
+                className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                aria-label="Clear search"
+                data-testid="button-clear-table-search"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+        )}
+
         <ColumnSelector
           columns={columns}
           hiddenColumns={hiddenColumns}
@@ -74,20 +135,33 @@ export function ControlBar({
           <span className="ml-1">Reload</span>
         </Button>
 
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={onExport}
-          disabled={isExporting || !selectedTable}
-          data-testid="button-export-csv"
-        >
-          {isExporting ? (
-            <Loader2 className="h-4 w-4 animate-spin" />
-          ) : (
-            <Download className="h-4 w-4" />
-          )}
-          <span className="ml-1">Export CSV</span>
-        </Button>
+        {onExport && (
+          <ExportFormatMenu
+            onSelect={onExport}
+            disabled={isExporting || !selectedTable}
+            data-testid="button-export"
+          >
+            {isExporting ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4" />
+            )}
+            <span className="ml-1">Export</span>
+          </ExportFormatMenu>
+        )}
+
+        {onOpenMasking && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onOpenMasking}
+            disabled={!selectedTable}
+            data-testid="button-column-masking"
+            aria-label="Column Masking"
+          >
+            <ShieldCheck className="h-4 w-4" />
+          </Button>
+        )}
 
         <Button
           variant="ghost"
@@ -1,13 +1,24 @@
-import { Loader2, ArrowUp, ArrowDown, ArrowUpDown } from "lucide-react";
+import { useState } from "react";
+import { Loader2, ArrowUp, ArrowDown, ArrowUpDown, Link2, EyeOff } from "lucide-react";
 import {
   Table,
   TableBody,
   TableCell,
+  TableFooter,
   TableHead,
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import type { ColumnInfo } from "@/lib/types";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { JsonTree, summarizeJson } from "@/components/json-tree";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+} from "@/components/ui/select";
+import type { ColumnInfo, ForeignKeyRef, AggregateStat, ColumnAggregates } from "@/lib/types";
+import { AGGREGATE_LABELS, COLUMN_MASK_LABELS } from "@/lib/types";
 
 export interface SortColumn {
   column: string;
@@ -22,9 +33,20 @@ interface DataTableProps {
   isLoading: boolean;
   sort?: SortConfig | null;
   onSort?: (column: string, isMultiSort: boolean) => void;
+  // Tables the user can open; foreign key cells pointing elsewhere render as plain text
+  navigableTables?: Set<string>;
+  onForeignKeyClick?: (foreignKey: ForeignKeyRef, value: unknown) => void;
+  onRowClick?: (row: Record<string, unknown>) => void;
+  // Footer row with aggregates over the whole filtered result; omit to hide the footer
+  aggregates?: Record<string, ColumnAggregates> | null;
+  isLoadingAggregates?: boolean;
+  // Table-wide search term; matches are highlighted in text columns
+  searchTerm?: string;
 }
 
-function formatCellValue(value: unknown): string {
+const SEARCHABLE_TYPES = ["text", "character varying", "character", "citext"];
+
+export function formatCellValue(value: unknown): string {
   if (value === null) return "NULL";
   if (value === undefined) return "";
   if (typeof value === "object") {
@@ -33,7 +55,58 @@ function formatCellValue(value: unknown): string {
   return String(value);
 }
 
-export function DataTable({ columns, rows, isLoading, sort, onSort }: DataTableProps) {
+function formatAggregateValue(stat: AggregateStat, value: unknown): string {
+  if (value === null || value === undefined) return "—";
+  if (stat === "count" || stat === "distinct" || stat === "sum" || stat === "avg") {
+    const num = Number(value);
+    if (!isNaN(num)) return num.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  }
+  return formatCellValue(value);
+}
+
+// Wrap each case-insensitive occurrence of term in a <mark>
+function HighlightedText({ text, term }: { text: string; term: string }) {
+  const lowerText = text.toLowerCase();
+  const lowerTerm = term.toLowerCase();
+  const parts: React.ReactNode[] = [];
+  let start = 0;
+  let index = lowerText.indexOf(lowerTerm);
+  while (index !== -1) {
+    if (index > start) parts.push(text.slice(start, index));
+    parts.push(
+      <mark key={index} className="bg-yellow-200 dark:bg-yellow-700 text-inherit rounded-sm">
+        {text.slice(index, index + term.length)}
+      </mark>
+    );
+    start = index + term.length;
+    index = lowerText.indexOf(lowerTerm, start);
+  }
+  if (start < text.length) parts.push(text.slice(start));
+  return <>{parts}</>;
+}
+
+// Sum is the most useful default for numbers, distinct count for everything else
+function defaultAggregateStat(stats: ColumnAggregates): AggregateStat {
+  if ("sum" in stats) return "sum";
+  if ("distinct" in stats) return "distinct";
+  return "count";
+}
+
+export function DataTable({
+  columns,
+  rows,
+  isLoading,
+  sort,
+  onSort,
+  navigableTables,
+  onForeignKeyClick,
+  onRowClick,
+  aggregates,
+  isLoadingAggregates = false,
+  searchTerm,
+}: DataTableProps) {
+  const [footerStats, setFooterStats] = useState<Record<string, AggregateStat>>({});
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -78,14 +151,19 @@ export function DataTable({ columns, rows, isLoading, sort, onSort }: DataTableP
                   >
                     <button
                       type="button"
-                      onClick={(e) => onSort?.(col.name, e.shiftKey)}
+                      // Masked columns can't be sorted on the server
+                      onClick={(e) => !col.mask && onSort?.(col.name, e.shiftKey)}
                       className="flex flex-col items-start w-full text-left hover:bg-muted/50 rounded px-1 py-0.5 -mx-1 transition-colors"
                       data-testid={`sort-column-${col.name}`}
-                      title="Click to sort, Shift+click to add to multi-sort"
+                      title={col.mask
+                        ? `Masked for your role (${COLUMN_MASK_LABELS[col.mask].toLowerCase()})`
+                        : "Click to sort, Shift+click to add to multi-sort"}
                     >
                       <div className="flex items-center gap-1">
                         <span className="font-mono text-sm">{col.name}</span>
-                        {isSorted ? (
+                        {col.mask ? (
+                          <EyeOff className="h-3 w-3 text-muted-foreground" data-testid={`masked-column-${col.name}`} />
+                        ) : isSorted ? (
                           <span className="flex items-center">
                             {sortDirection === "asc" ? (
                               <ArrowUp className="h-3 w-3 text-primary" />
@@ -103,6 +181,7 @@ export function DataTable({ columns, rows, isLoading, sort, onSort }: DataTableP
                       <span className="text-xs text-muted-foreground font-normal">
                         {col.dataType}
                         {col.isPrimaryKey && " (PK)"}
+                        {col.foreignKey && ` → ${col.foreignKey.table}`}
                       </span>
                     </button>
                   </TableHead>
@@ -114,25 +193,121 @@ export function DataTable({ columns, rows, isLoading, sort, onSort }: DataTableP
             {rows.map((row, rowIdx) => (
               <TableRow
                 key={rowIdx}
-                className="hover-elevate"
+                className={onRowClick ? "hover-elevate cursor-pointer" : "hover-elevate"}
+                onClick={() => onRowClick?.(row)}
                 data-testid={`row-data-${rowIdx}`}
               >
-                {columns.map((col) => (
-                  <TableCell
-                    key={col.name}
-                    className="font-mono text-xs max-w-[300px] truncate"
-                    title={formatCellValue(row[col.name])}
-                  >
-                    {row[col.name] === null ? (
-                      <span className="text-muted-foreground italic">NULL</span>
-                    ) : (
-                      formatCellValue(row[col.name])
-                    )}
-                  </TableCell>
-                ))}
+                {columns.map((col) => {
+                  const value = row[col.name];
+                  const foreignKey = col.foreignKey;
+                  const isLink =
+                    !!foreignKey &&
+                    !col.mask &&
+                    !!onForeignKeyClick &&
+                    value !== null &&
+                    value !== undefined &&
+                    (!navigableTables || navigableTables.has(foreignKey.table));
+
+                  return (
+                    <TableCell
+                      key={col.name}
+                      className="font-mono text-xs max-w-[300px] truncate"
+                      title={formatCellValue(value)}
+                    >
+                      {value === null ? (
+                        <span className="text-muted-foreground italic">NULL</span>
+                      ) : typeof value === "object" && value !== undefined ? (
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <button
+                              type="button"
+                              onClick={(e) => e.stopPropagation()}
+                              className="text-primary hover:underline"
+                              data-testid={`button-json-${col.name}-${rowIdx}`}
+                            >
+                              {summarizeJson(value)}
+                            </button>
+                          </PopoverTrigger>
+                          <PopoverContent
+                            className="w-96 max-h-96 overflow-auto"
+                            align="start"
+                            onClick={(e) => e.stopPropagation()}
+                          >
+                            <JsonTree value={value} />
+                          </PopoverContent>
+                        </Popover>
+                      ) : isLink ? (
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onForeignKeyClick!(foreignKey!, value);
+                          }}
+                          className="inline-flex items-center gap-1 text-primary hover:underline"
+                          title={`Open ${foreignKey!.table} where ${foreignKey!.column} = ${formatCellValue(value)}`}
+                          data-testid={`link-fk-${col.name}-${rowIdx}`}
+                        >
+                          {formatCellValue(value)}
+                          <Link2 className="h-3 w-3 shrink-0" />
+                        </button>
+                      ) : searchTerm && SEARCHABLE_TYPES.includes(col.dataType) ? (
+                        <HighlightedText text={formatCellValue(value)} term={searchTerm} />
+                      ) : (
+                        formatCellValue(value)
+                      )}
+                    </TableCell>
+                  );
+                })}
               </TableRow>
             ))}
           </TableBody>
+          {aggregates !== undefined && (
+            <TableFooter className="sticky bottom-0 bg-card z-10">
+              <TableRow>
+                {columns.map((col) => {
+                  const stats = aggregates?.[col.name];
+                  if (!stats) {
+                    return (
+                      <TableCell key={col.name} className="text-xs text-muted-foreground">
+                        {isLoadingAggregates ? <Loader2 className="h-3 w-3 animate-spin" /> : "—"}
+                      </TableCell>
+                    );
+                  }
+                  const available = (Object.keys(AGGREGATE_LABELS) as AggregateStat[]).filter((s) => s in stats);
+                  const stat = footerStats[col.name] && footerStats[col.name] in stats
+                    ? footerStats[col.name]
+                    : defaultAggregateStat(stats);
+                  return (
+                    <TableCell key={col.name} className="py-1">
+                      <Select
+                        value={stat}
+                        onValueChange={(value) =>
+                          setFooterStats((prev) => ({ ...prev, [col.name]: value as AggregateStat }))
+                        }
+                      >
+                        <SelectTrigger
+                          className="h-7 text-xs font-mono border-none shadow-none px-1 gap-1"
+                          data-testid={`select-aggregate-${col.name}`}
+                        >
+                          <span className="truncate">
+                            <span className="text-muted-foreground">{AGGREGATE_LABELS[stat]}: </span>
+                            {isLoadingAggregates ? "…" : formatAggregateValue(stat, stats[stat])}
+                          </span>
+                        </SelectTrigger>
+                        <SelectContent>
+                          {available.map((s) => (
+                            <SelectItem key={s} value={s} className="text-xs">
+                              {AGGREGATE_LABELS[s]}: {formatAggregateValue(s, stats[s])}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            </TableFooter>
+          )}
         </Table>
       </div>
     </div>
@@ -18,7 +18,7 @@ import {
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import type { ColumnInfo, ActiveFilter, FilterHistoryEntry } from "@/lib/types";
-import { OPERATOR_LABELS } from "@/lib/types";
+import { OPERATOR_LABELS, VALUELESS_OPERATORS, JSON_OPERATORS, isJsonColumn, formatFilterColumn } from "@/lib/types";
 
 interface DynamicFilterProps {
   columns: ColumnInfo[];
@@ -30,13 +30,45 @@ interface DynamicFilterProps {
 
 const OPERATORS = [
   { value: "eq", label: "Equals" },
+  { value: "neq", label: "Not equal" },
   { value: "contains", label: "Contains" },
+  { value: "starts_with", label: "Starts with" },
+  { value: "ends_with", label: "Ends with" },
+  { value: "regex", label: "Matches regex" },
   { value: "gt", label: "Greater than" },
   { value: "gte", label: "Greater or equal" },
   { value: "lt", label: "Less than" },
   { value: "lte", label: "Less or equal" },
+  { value: "in", label: "Is one of" },
+  { value: "not_in", label: "Is not one of" },
+  { value: "is_null", label: "Is empty" },
+  { value: "is_not_null", label: "Is not empty" },
+  { value: "last_n_days", label: "In last N days" },
+  { value: "this_week", label: "This week" },
+  { value: "this_month", label: "This month" },
+  { value: "has_key", label: "Has key" },
+  { value: "array_contains", label: "Array contains" },
 ];
 
+const VALUE_PLACEHOLDERS: Record<string, string> = {
+  in: "Comma-separated values...",
+  not_in: "Comma-separated values...",
+  regex: "Regular expression...",
+  last_n_days: "Number of days...",
+  has_key: "Key name...",
+  array_contains: "JSON value, e.g. \"red\" or 42...",
+};
+
+function parseJsonPath(path: string): string[] {
+  return path.split(".").map((p) => p.trim()).filter(Boolean);
+}
+
+function formatFilterValue(filter: ActiveFilter): string {
+  if (VALUELESS_OPERATORS.includes(filter.operator)) return "";
+  const value = typeof filter.value === "string" ? filter.value : filter.value.join(", ");
+  return `"${value}"`;
+}
+
 export function DynamicFilter({
   columns,
   activeFilters,
@@ -48,6 +80,34 @@ export function DynamicFilter({
   const [selectedColumn, setSelectedColumn] = useState("");
   const [selectedOperator, setSelectedOperator] = useState("eq");
   const [filterValue, setFilterValue] = useState("");
+  const [jsonPath, setJsonPath] = useState("");
+
+  const selectedColumnInfo = columns.find((c) => c.name === selectedColumn);
+  const isJsonSelected = !!selectedColumnInfo && isJsonColumn(selectedColumnInfo);
+  const availableOperators = isJsonSelected
+    ? OPERATORS
+    : OPERATORS.filter((op) => !JSON_OPERATORS.includes(op.value as ActiveFilter["operator"]));
+
+  // Suggest keys at the level being typed: "a.b.c" looks up the keys under a.b
+  const jsonPathParts = jsonPath.split(".");
+  const jsonParentPath = parseJsonPath(jsonPathParts.slice(0, -1).join("."));
+  const jsonParentPrefix = jsonParentPath.length > 0 ? `${jsonParentPath.join(".")}.` : "";
+
+  const { data: jsonKeys = [] } = useQuery<string[]>({
+    queryKey: ["/api/json-keys", database, table, selectedColumn, jsonParentPath.join(".")],
+    queryFn: async () => {
+      const params = jsonParentPath.length > 0 ? `?path=${encodeURIComponent(jsonParentPath.join("."))}` : "";
+      const response = await fetch(
+        `/api/json-keys/${encodeURIComponent(database!)}/${encodeURIComponent(table!)}/${encodeURIComponent(selectedColumn)}${params}`,
+        { credentials: "include" }
+      );
+      if (!response.ok) {
+        throw new Error("Failed to fetch JSON keys");
+      }
+      return response.json();
+    },
+    enabled: isOpen && isJsonSelected && !!database && !!table,
+  });
 
   const { data: filterHistory = [] } = useQuery<FilterHistoryEntry[]>({
     queryKey: ["/api/filters/history", database, table],
@@ -72,14 +132,35 @@ export function DynamicFilter({
     },
   });
 
+  const needsValue = !VALUELESS_OPERATORS.includes(selectedOperator as ActiveFilter["operator"]);
+
+  const handleColumnChange = (column: string) => {
+    setSelectedColumn(column);
+    setJsonPath("");
+    const columnInfo = columns.find((c) => c.name === column);
+    if (JSON_OPERATORS.includes(selectedOperator as ActiveFilter["operator"]) && !(columnInfo && isJsonColumn(columnInfo))) {
+      setSelectedOperator("eq");
+    }
+  };
+
   const handleAddFilter = () => {
-    if (!selectedColumn || !filterValue.trim()) return;
+    if (!selectedColumn || (needsValue && !filterValue.trim())) return;
+
+    const value = !needsValue
+      ? ""
+      : selectedOperator === "in" || selectedOperator === "not_in"
+        ? filterValue.split(",").map((v) => v.trim()).filter(Boolean)
+        : filterValue.trim();
 
     const newFilter: ActiveFilter = {
       column: selectedColumn,
       operator: selectedOperator as ActiveFilter["operator"],
-      value: filterValue.trim(),
+      value,
     };
+    const path = isJsonSelected ? parseJsonPath(jsonPath) : [];
+    if (path.length > 0) {
+      newFilter.path = path;
+    }
 
     const newFilters = [...activeFilters, newFilter];
     onApplyFilters(newFilters);
@@ -91,6 +172,7 @@ export function DynamicFilter({
     setSelectedColumn("");
     setSelectedOperator("eq");
     setFilterValue("");
+    setJsonPath("");
     setIsOpen(false);
   };
 
@@ -113,7 +195,7 @@ export function DynamicFilter({
   const formatFilterSummary = (filters: ActiveFilter[]): string => {
     return filters
       .slice(0, 2)
-      .map((f) => `${f.column} ${OPERATOR_LABELS[f.operator]} "${typeof f.value === 'string' ? f.value : f.value.join('-')}"`)
+      .map((f) => `${formatFilterColumn(f)} ${OPERATOR_LABELS[f.operator]} ${formatFilterValue(f)}`.trim())
       .join(", ") + (filters.length > 2 ? ` +${filters.length - 2}` : "");
   };
 
@@ -174,7 +256,7 @@ export function DynamicFilter({
           <div className="space-y-4">
             <div className="space-y-2">
               <label className="text-sm font-medium">Column</label>
-              <Select value={selectedColumn} onValueChange={setSelectedColumn}>
+              <Select value={selectedColumn} onValueChange={handleColumnChange}>
                 <SelectTrigger data-testid="select-filter-column">
                   <SelectValue placeholder="Select column..." />
                 </SelectTrigger>
@@ -188,6 +270,24 @@ export function DynamicFilter({
               </Select>
             </div>
 
+            {isJsonSelected && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">JSON path</label>
+                <Input
+                  value={jsonPath}
+                  onChange={(e) => setJsonPath(e.target.value)}
+                  placeholder="Optional, e.g. address.city"
+                  list="json-path-suggestions"
+                  data-testid="input-filter-json-path"
+                />
+                <datalist id="json-path-suggestions">
+                  {jsonKeys.map((key) => (
+                    <option key={key} value={`${jsonParentPrefix}${key}`} />
+                  ))}
+                </datalist>
+              </div>
+            )}
+
             <div className="space-y-2">
               <label className="text-sm font-medium">Operator</label>
               <Select value={selectedOperator} onValueChange={setSelectedOperator}>
@@ -195,7 +295,7 @@ export function DynamicFilter({
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {OPERATORS.map((op) => (
+                  {availableOperators.map((op) => (
                     <SelectItem key={op.value} value={op.value}>
                       {op.label}
                     </SelectItem>
@@ -204,22 +304,26 @@ export function DynamicFilter({
               </Select>
             </div>
 
-            <div className="space-y-2">
-              <label className="text-sm font-medium">Value</label>
-              <Input
-                value={filterValue}
-                onChange={(e) => setFilterValue(e.target.value)}
-                placeholder="Enter filter value..."
-                onKeyDown={(e) => {
-                  if (e.key === "Enter") handleAddFilter();
-                }}
-                data-testid="input-filter-value"
-              />
-            </div>
+            {needsValue && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Value</label>
+                <Input
+                  type={selectedOperator === "last_n_days" ? "number" : "text"}
+                  min={selectedOperator === "last_n_days" ? 1 : undefined}
+                  value={filterValue}
+                  onChange={(e) => setFilterValue(e.target.value)}
+                  placeholder={VALUE_PLACEHOLDERS[selectedOperator] || "Enter filter value..."}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") handleAddFilter();
+                  }}
+                  data-testid="input-filter-value"
+                />
+              </div>
+            )}
 
             <Button
               onClick={handleAddFilter}
-              disabled={!selectedColumn || !filterValue.trim()}
+              disabled={!selectedColumn || (needsValue && !filterValue.trim())}
               className="w-full"
               data-testid="button-apply-filter"
             >
@@ -236,9 +340,9 @@ export function DynamicFilter({
           variant="secondary"
           className="flex items-center gap-1 py-1 px-2"
         >
-          <span className="font-medium">{filter.column}</span>
+          <span className="font-medium">{formatFilterColumn(filter)}</span>
           <span className="text-muted-foreground">{OPERATOR_LABELS[filter.operator]}</span>
-          <span>"{filter.value}"</span>
+          {formatFilterValue(filter) && <span>{formatFilterValue(filter)}</span>}
           <button
             onClick={() => handleRemoveFilter(idx)}
             className="ml-1 hover:text-destructive"
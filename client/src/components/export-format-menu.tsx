@@ -0,0 +1,52 @@
+import type { ReactNode } from "react";
+import { Button, type ButtonProps } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { EXPORT_FORMATS, EXPORT_FORMAT_LABELS, type ExportFormat } from "@/lib/types";
+
+interface ExportFormatMenuProps {
+  onSelect: (format: ExportFormat) => void;
+  disabled?: boolean;
+  variant?: ButtonProps["variant"];
+  size?: ButtonProps["size"];
+  className?: string;
+  // Trigger button contents, usually an icon and a label
+  children: ReactNode;
+  "data-testid"?: string;
+}
+
+// Export button that asks for the file format before exporting
+export function ExportFormatMenu({
+  onSelect,
+  disabled,
+  variant = "outline",
+  size = "sm",
+  className,
+  children,
+  "data-testid": testId,
+}: ExportFormatMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant={variant} size={size} disabled={disabled} className={className} data-testid={testId}>
+          {children}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {EXPORT_FORMATS.map((format) => (
+          <DropdownMenuItem
+            key={format}
+            onClick={() => onSelect(format)}
+            data-testid={testId ? `${testId}-${format}` : undefined}
+          >
+            {EXPORT_FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
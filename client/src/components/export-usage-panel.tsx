@@ -0,0 +1,334 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { AlertTriangle, Check, Loader2, Pencil } from "lucide-react";
+import type { ExportAlert, ExportUsageEntry, ExportUsageReport, RoleDefinition, RoleExportQuota } from "@/lib/types";
+
+interface QuotaLimits {
+  daily: number | null;
+  monthly: number | null;
+}
+
+// Blank means no cap for the period
+function parseQuotaInput(value: string): number | null {
+  const rows = parseInt(value, 10);
+  return Number.isNaN(rows) || rows < 1 ? null : rows;
+}
+
+function formatUsage(used: number, limit: number | null): string {
+  return limit === null ? used.toLocaleString() : `${used.toLocaleString()} / ${limit.toLocaleString()}`;
+}
+
+// Share of a quota used, for highlighting users close to their cap
+function usageTone(used: number, limit: number | null): string {
+  if (limit === null) return "";
+  if (used >= limit) return "text-destructive";
+  if (used >= limit * 0.8) return "text-amber-600 dark:text-amber-400";
+  return "";
+}
+
+// Admin tab: export volume alerts, role quotas and each user's consumption this day and month
+export function ExportUsagePanel({ roles }: { roles: RoleDefinition[] }) {
+  const { toast } = useToast();
+  const [quotaUser, setQuotaUser] = useState<ExportUsageEntry | null>(null);
+  const [quotaDaily, setQuotaDaily] = useState("");
+  const [quotaMonthly, setQuotaMonthly] = useState("");
+
+  const { data: usage, isLoading } = useQuery<ExportUsageReport>({
+    queryKey: ["/api/admin/export-usage"],
+  });
+
+  const { data: alerts = [] } = useQuery<ExportAlert[]>({
+    queryKey: ["/api/admin/export-alerts"],
+  });
+
+  const updateRoleQuotaMutation = useMutation({
+    mutationFn: async ({ key, limits }: { key: string; limits: QuotaLimits }) => {
+      return apiRequest("PUT", `/api/admin/roles/${key}/export-quota`, limits);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/export-usage"] });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err instanceof Error ? err.message : "Failed to update export quota", variant: "destructive" });
+    },
+  });
+
+  const updateUserQuotaMutation = useMutation({
+    mutationFn: async ({ userId, limits }: { userId: string; limits: QuotaLimits | null }) => {
+      return limits
+        ? apiRequest("PUT", `/api/admin/users/${userId}/export-quota`, limits)
+        : apiRequest("DELETE", `/api/admin/users/${userId}/export-quota`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/export-usage"] });
+      setQuotaUser(null);
+      toast({ title: "Quota updated", description: "The user's export quota has been saved." });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err instanceof Error ? err.message : "Failed to update export quota", variant: "destructive" });
+    },
+  });
+
+  const acknowledgeAlertMutation = useMutation({
+    mutationFn: async (alertId: string) => {
+      return apiRequest("POST", `/api/admin/export-alerts/${alertId}/acknowledge`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/export-alerts"] });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err instanceof Error ? err.message : "Failed to acknowledge alert", variant: "destructive" });
+    },
+  });
+
+  const roleQuota = (key: string): RoleExportQuota | undefined => usage?.roleQuotas.find((q) => q.role === key);
+
+  // Saved on blur; the other period keeps its current value
+  const saveRoleQuota = (key: string, period: keyof QuotaLimits, value: string) => {
+    const current = roleQuota(key);
+    const limits: QuotaLimits = { daily: current?.dailyRowLimit ?? null, monthly: current?.monthlyRowLimit ?? null };
+    const next = parseQuotaInput(value);
+    if (limits[period] === next) return;
+    updateRoleQuotaMutation.mutate({ key, limits: { ...limits, [period]: next } });
+  };
+
+  const openUserQuota = (entry: ExportUsageEntry) => {
+    setQuotaUser(entry);
+    setQuotaDaily(entry.quotaSource === "user" && entry.dailyRowLimit !== null ? String(entry.dailyRowLimit) : "");
+    setQuotaMonthly(entry.quotaSource === "user" && entry.monthlyRowLimit !== null ? String(entry.monthlyRowLimit) : "");
+  };
+
+  const roleName = (key: string) => roles.find((r) => r.key === key)?.name ?? key;
+
+  if (isLoading || !usage) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {alerts.length > 0 && (
+        <Card className="border-amber-500/50" data-testid="card-export-alerts">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-amber-500" />
+              Unusual Export Volume
+            </CardTitle>
+            <CardDescription>Days on which a user exported far more than their own daily average</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {alerts.map((alert) => (
+              <div
+                key={alert.id}
+                className="flex items-center justify-between gap-2 p-3 rounded-lg border"
+                data-testid={`export-alert-${alert.id}`}
+              >
+                <div className="min-w-0">
+                  <span className="text-sm font-medium">{alert.userEmail}</span>
+                  <p className="text-xs text-muted-foreground">
+                    {alert.rowsToday.toLocaleString()} rows on {new Date(alert.createdAt).toLocaleDateString()} against a
+                    daily average of {alert.dailyAverage.toLocaleString()}
+                    {alert.tableName && ` · last export from ${alert.database}:${alert.tableName}`}
+                  </p>
+                </div>
+                {alert.acknowledgedAt ? (
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    Acknowledged {new Date(alert.acknowledgedAt).toLocaleDateString()}
+                  </span>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => acknowledgeAlertMutation.mutate(alert.id)}
+                    disabled={acknowledgeAlertMutation.isPending}
+                    data-testid={`button-acknowledge-alert-${alert.id}`}
+                  >
+                    <Check className="h-4 w-4 mr-1" /> Acknowledge
+                  </Button>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Role Export Quotas</CardTitle>
+          <CardDescription>
+            Rows each user of a role may export per day and per month (UTC), across table, report and drill-down
+            exports. Leave empty for no cap.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <table className="w-full text-sm" data-testid="table-role-export-quotas">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left font-medium text-muted-foreground py-2 pr-4">Role</th>
+                <th className="font-medium text-muted-foreground py-2 px-3 text-center">Daily rows</th>
+                <th className="font-medium text-muted-foreground py-2 px-3 text-center">Monthly rows</th>
+              </tr>
+            </thead>
+            <tbody>
+              {roles.map((role) => {
+                const quota = roleQuota(role.key);
+                return (
+                  <tr key={role.key} className="border-b last:border-0">
+                    <td className="py-2 pr-4">{role.name}</td>
+                    {(["daily", "monthly"] as const).map((period) => {
+                      const limit = period === "daily" ? quota?.dailyRowLimit : quota?.monthlyRowLimit;
+                      return (
+                        <td key={period} className="py-2 px-3 text-center">
+                          <Input
+                            key={`${role.key}-${period}-${limit}`}
+                            type="number"
+                            min={1}
+                            defaultValue={limit ?? ""}
+                            placeholder="No cap"
+                            onBlur={(e) => saveRoleQuota(role.key, period, e.target.value)}
+                            disabled={updateRoleQuotaMutation.isPending}
+                            className="h-8 w-32 mx-auto text-right"
+                            data-testid={`input-role-${period}-quota-${role.key}`}
+                          />
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Export Consumption</CardTitle>
+          <CardDescription>Rows exported today and this month, against each user's quota</CardDescription>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <table className="w-full text-sm" data-testid="table-export-usage">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left font-medium text-muted-foreground py-2 pr-4">User</th>
+                <th className="text-left font-medium text-muted-foreground py-2 px-3">Role</th>
+                <th className="text-right font-medium text-muted-foreground py-2 px-3">Today</th>
+                <th className="text-right font-medium text-muted-foreground py-2 px-3">This month</th>
+                <th className="text-left font-medium text-muted-foreground py-2 px-3">Quota</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {usage.users.map((entry) => (
+                <tr key={entry.userId} className="border-b last:border-0" data-testid={`row-export-usage-${entry.userId}`}>
+                  <td className="py-2 pr-4">
+                    <div className="font-medium">{entry.firstName} {entry.lastName}</div>
+                    <div className="text-xs text-muted-foreground">{entry.email}</div>
+                  </td>
+                  <td className="py-2 px-3">{roleName(entry.role)}</td>
+                  <td className={`py-2 px-3 text-right tabular-nums ${usageTone(entry.rowsToday, entry.dailyRowLimit)}`}>
+                    {formatUsage(entry.rowsToday, entry.dailyRowLimit)}
+                  </td>
+                  <td className={`py-2 px-3 text-right tabular-nums ${usageTone(entry.rowsThisMonth, entry.monthlyRowLimit)}`}>
+                    {formatUsage(entry.rowsThisMonth, entry.monthlyRowLimit)}
+                  </td>
+                  <td className="py-2 px-3">
+                    {entry.quotaSource === "user" ? (
+                      <Badge variant="secondary">Own quota</Badge>
+                    ) : entry.quotaSource === "role" ? (
+                      <Badge variant="outline">Role quota</Badge>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">None</span>
+                    )}
+                  </td>
+                  <td className="py-2 pl-3 text-right">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => openUserQuota(entry)}
+                      title="Set this user's quota"
+                      data-testid={`button-edit-quota-${entry.userId}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!quotaUser} onOpenChange={(open) => !open && setQuotaUser(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Export Quota</DialogTitle>
+            <DialogDescription>
+              A quota of {quotaUser?.email}'s own replaces their role's. Leave a period empty for no cap.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="user-daily-quota">Daily rows</Label>
+              <Input
+                id="user-daily-quota"
+                type="number"
+                min={1}
+                value={quotaDaily}
+                onChange={(e) => setQuotaDaily(e.target.value)}
+                placeholder="No cap"
+                data-testid="input-user-daily-quota"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="user-monthly-quota">Monthly rows</Label>
+              <Input
+                id="user-monthly-quota"
+                type="number"
+                min={1}
+                value={quotaMonthly}
+                onChange={(e) => setQuotaMonthly(e.target.value)}
+                placeholder="No cap"
+                data-testid="input-user-monthly-quota"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            {quotaUser?.quotaSource === "user" && (
+              <Button
+                variant="outline"
+                onClick={() => updateUserQuotaMutation.mutate({ userId: quotaUser.userId, limits: null })}
+                disabled={updateUserQuotaMutation.isPending}
+                data-testid="button-use-role-quota"
+              >
+                Use role quota
+              </Button>
+            )}
+            <Button
+              onClick={() => updateUserQuotaMutation.mutate({
+                userId: quotaUser!.userId,
+                limits: { daily: parseQuotaInput(quotaDaily), monthly: parseQuotaInput(quotaMonthly) },
+              })}
+              disabled={updateUserQuotaMutation.isPending}
+              data-testid="button-save-user-quota"
+            >
+              {updateUserQuotaMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
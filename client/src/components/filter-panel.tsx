@@ -1,14 +1,43 @@
 import { useState } from "react";
-import { ChevronDown, ChevronUp, X, Clock, Trash2 } from "lucide-react";
+import { ChevronDown, ChevronUp, X, Clock, Trash2, Plus, Layers } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { FilterDefinition, ActiveFilter, FilterHistoryEntry } from "@/lib/types";
-import { OPERATOR_LABELS } from "@/lib/types";
+import type {
+  FilterDefinition,
+  ActiveFilter,
+  FilterHistoryEntry,
+  FilterGroup,
+  FilterNode,
+  FilterOperator,
+  ColumnInfo,
+} from "@/lib/types";
+import {
+  OPERATOR_LABELS,
+  VALUELESS_OPERATORS,
+  JSON_OPERATORS,
+  isJsonColumn,
+  formatFilterColumn,
+} from "@/lib/types";
 
 interface FilterPanelProps {
   filterDefinitions: FilterDefinition[];
@@ -248,3 +277,321 @@ export function FilterPanel({
     </Collapsible>
   );
 }
+
+// Operators offered inside groups ("between" needs a two-value editor the builder doesn't have)
+const GROUP_OPERATORS = (Object.keys(OPERATOR_LABELS) as FilterOperator[]).filter((op) => op !== "between");
+const MAX_GROUP_DEPTH = 3;
+
+function isFilterGroup(node: FilterNode): node is FilterGroup {
+  return (node as FilterGroup).type === "group";
+}
+
+function createCondition(): ActiveFilter {
+  return { column: "", operator: "eq", value: "" };
+}
+
+export function createGroup(connective: FilterGroup["connective"]): FilterGroup {
+  return { type: "group", connective, children: [createCondition()] };
+}
+
+// Drop incomplete conditions and any groups they leave empty
+export function pruneGroup(group: FilterGroup): FilterGroup | null {
+  const children: FilterNode[] = [];
+  for (const child of group.children) {
+    if (isFilterGroup(child)) {
+      const pruned = pruneGroup(child);
+      if (pruned) children.push(pruned);
+    } else if (
+      child.column &&
+      (VALUELESS_OPERATORS.includes(child.operator) || String(child.value).trim())
+    ) {
+      children.push(child);
+    }
+  }
+  return children.length > 0 ? { ...group, children } : null;
+}
+
+export function summarizeFilterNode(node: FilterNode): string {
+  if (isFilterGroup(node)) {
+    const inner = node.children
+      .map(summarizeFilterNode)
+      .join(node.connective === "or" ? " OR " : " AND ");
+    return `${node.negate ? "NOT " : ""}(${inner})`;
+  }
+  const value = VALUELESS_OPERATORS.includes(node.operator)
+    ? ""
+    : ` "${typeof node.value === "string" ? node.value : node.value.join(", ")}"`;
+  return `${formatFilterColumn(node)} ${OPERATOR_LABELS[node.operator]}${value}`;
+}
+
+interface FilterConditionRowProps {
+  condition: ActiveFilter;
+  columns: ColumnInfo[];
+  onChange: (condition: ActiveFilter) => void;
+  onRemove: () => void;
+}
+
+function FilterConditionRow({ condition, columns, onChange, onRemove }: FilterConditionRowProps) {
+  const needsValue = !VALUELESS_OPERATORS.includes(condition.operator);
+  const columnInfo = columns.find((c) => c.name === condition.column);
+  const isJson = !!columnInfo && isJsonColumn(columnInfo);
+  const operators = isJson ? GROUP_OPERATORS : GROUP_OPERATORS.filter((op) => !JSON_OPERATORS.includes(op));
+
+  const handleColumnChange = (column: string) => {
+    const info = columns.find((c) => c.name === column);
+    const keepsJson = !!info && isJsonColumn(info);
+    const { path: _path, ...rest } = condition;
+    onChange({
+      ...(keepsJson ? condition : rest),
+      column,
+      operator: !keepsJson && JSON_OPERATORS.includes(condition.operator) ? "eq" : condition.operator,
+    });
+  };
+
+  const handlePathChange = (value: string) => {
+    const path = value.split(".").map((p) => p.trim()).filter(Boolean);
+    const { path: _path, ...rest } = condition;
+    onChange(path.length > 0 ? { ...rest, path } : rest);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={condition.column} onValueChange={handleColumnChange}>
+        <SelectTrigger className="w-40" data-testid="select-group-condition-column">
+          <SelectValue placeholder="Column..." />
+        </SelectTrigger>
+        <SelectContent>
+          {columns.map((col) => (
+            <SelectItem key={col.name} value={col.name}>
+              {col.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {isJson && (
+        <Input
+          defaultValue={condition.path?.join(".") ?? ""}
+          onBlur={(e) => handlePathChange(e.target.value)}
+          placeholder="JSON path"
+          className="w-32"
+          data-testid="input-group-condition-json-path"
+        />
+      )}
+      <Select
+        value={condition.operator}
+        onValueChange={(operator) => onChange({ ...condition, operator: operator as FilterOperator })}
+      >
+        <SelectTrigger className="w-40" data-testid="select-group-condition-operator">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {operators.map((op) => (
+            <SelectItem key={op} value={op}>
+              {OPERATOR_LABELS[op]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {needsValue ? (
+        <Input
+          value={typeof condition.value === "string" ? condition.value : condition.value.join(",")}
+          onChange={(e) => onChange({ ...condition, value: e.target.value })}
+          placeholder={condition.operator === "in" || condition.operator === "not_in" ? "a, b, c" : "Value..."}
+          className="flex-1"
+          data-testid="input-group-condition-value"
+        />
+      ) : (
+        <div className="flex-1" />
+      )}
+      <Button variant="ghost" size="icon" onClick={onRemove} data-testid="button-remove-group-condition">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+interface FilterGroupEditorProps {
+  group: FilterGroup;
+  columns: ColumnInfo[];
+  depth: number;
+  onChange: (group: FilterGroup) => void;
+  onRemove: () => void;
+}
+
+export function FilterGroupEditor({ group, columns, depth, onChange, onRemove }: FilterGroupEditorProps) {
+  const updateChild = (index: number, child: FilterNode) => {
+    onChange({ ...group, children: group.children.map((c, i) => (i === index ? child : c)) });
+  };
+
+  const removeChild = (index: number) => {
+    onChange({ ...group, children: group.children.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="border rounded-md p-3 space-y-2 bg-muted/30">
+      <div className="flex items-center gap-2">
+        <Button
+          variant={group.negate ? "default" : "outline"}
+          size="sm"
+          onClick={() => onChange({ ...group, negate: !group.negate })}
+          title="Negate this group"
+          data-testid="button-toggle-group-negate"
+        >
+          NOT
+        </Button>
+        <Select
+          value={group.connective}
+          onValueChange={(connective) => onChange({ ...group, connective: connective as FilterGroup["connective"] })}
+        >
+          <SelectTrigger className="w-44" data-testid="select-group-connective">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="and">Match all (AND)</SelectItem>
+            <SelectItem value="or">Match any (OR)</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex-1" />
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange({ ...group, children: [...group.children, createCondition()] })}
+          data-testid="button-add-group-condition"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Condition
+        </Button>
+        {depth < MAX_GROUP_DEPTH && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ ...group, children: [...group.children, createGroup("and")] })}
+            data-testid="button-add-nested-group"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Group
+          </Button>
+        )}
+        <Button variant="ghost" size="icon" onClick={onRemove} data-testid="button-remove-group">
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-2 pl-3 border-l-2">
+        {group.children.map((child, index) =>
+          isFilterGroup(child) ? (
+            <FilterGroupEditor
+              key={index}
+              group={child}
+              columns={columns}
+              depth={depth + 1}
+              onChange={(updated) => updateChild(index, updated)}
+              onRemove={() => removeChild(index)}
+            />
+          ) : (
+            <FilterConditionRow
+              key={index}
+              condition={child}
+              columns={columns}
+              onChange={(updated) => updateChild(index, updated)}
+              onRemove={() => removeChild(index)}
+            />
+          )
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface FilterGroupBuilderProps {
+  columns: ColumnInfo[];
+  groups: FilterGroup[];
+  onApplyGroups: (groups: FilterGroup[]) => void;
+}
+
+// Builds AND/OR filter groups; each group is AND-ed with the other active filters
+export function FilterGroupBuilder({ columns, groups, onApplyGroups }: FilterGroupBuilderProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<FilterGroup[]>([]);
+
+  const handleOpen = () => {
+    setDraft(groups.length > 0 ? groups : [createGroup("or")]);
+    setIsOpen(true);
+  };
+
+  const handleApply = () => {
+    onApplyGroups(draft.map(pruneGroup).filter((g): g is FilterGroup => g !== null));
+    setIsOpen(false);
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={handleOpen} data-testid="button-filter-groups">
+        <Layers className="h-4 w-4 mr-2" />
+        Groups
+        {groups.length > 0 && (
+          <Badge variant="secondary" className="ml-2">
+            {groups.length}
+          </Badge>
+        )}
+      </Button>
+
+      {groups.map((group, idx) => (
+        <Badge key={idx} variant="secondary" className="flex items-center gap-1 py-1 px-2 max-w-md">
+          <span className="truncate" title={summarizeFilterNode(group)}>
+            {summarizeFilterNode(group)}
+          </span>
+          <button
+            onClick={() => onApplyGroups(groups.filter((_, i) => i !== idx))}
+            className="ml-1 hover:text-destructive"
+            data-testid={`button-remove-filter-group-${idx}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Filter groups</DialogTitle>
+            <DialogDescription>
+              Combine conditions with AND/OR. Groups are AND-ed with each other and with the other filters.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            {draft.map((group, index) => (
+              <FilterGroupEditor
+                key={index}
+                group={group}
+                columns={columns}
+                depth={1}
+                onChange={(updated) => setDraft(draft.map((g, i) => (i === index ? updated : g)))}
+                onRemove={() => setDraft(draft.filter((_, i) => i !== index))}
+              />
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setDraft([...draft, createGroup("or")])}
+              data-testid="button-add-filter-group"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add group
+            </Button>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)} data-testid="button-cancel-filter-groups">
+              Cancel
+            </Button>
+            <Button onClick={handleApply} data-testid="button-apply-filter-groups">
+              Apply
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
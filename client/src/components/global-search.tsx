@@ -0,0 +1,245 @@
+import { useState, useEffect } from "react";
+import { Search, Loader2, Table2, ArrowRight, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import {
+  Command,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import type {
+  FilterNode,
+  GlobalSearchEvent,
+  GlobalSearchTableResult,
+} from "@/lib/types";
+import { DEFAULT_PAGE_SIZE } from "@/lib/types";
+import { encodeViewerLink, VIEWER_LINK_PARAM } from "@/lib/viewer-link";
+
+const MIN_SEARCH_LENGTH = 3;
+const SEARCH_DEBOUNCE_MS = 400;
+
+type SearchSummary = Extract<GlobalSearchEvent, { type: "done" }>;
+
+// Viewer URL for a table filtered down to the given rows
+function buildViewerUrl(database: string, table: string, filters: FilterNode[]): string {
+  const token = encodeViewerLink({
+    database,
+    table,
+    visibleColumns: null,
+    filters,
+    sort: null,
+    pageSize: DEFAULT_PAGE_SIZE,
+    page: 1,
+  });
+  return `/?${VIEWER_LINK_PARAM}=${token}`;
+}
+
+// Every row of the table where any searched column matches the term
+function getTableMatchFilters(result: GlobalSearchTableResult, term: string): FilterNode[] {
+  const conditions = result.columns.map((column) => ({ column, operator: result.operator, value: term }));
+  return conditions.length === 1 ? conditions : [{ type: "group", connective: "or", children: conditions }];
+}
+
+export function GlobalSearch() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [input, setInput] = useState("");
+  const [term, setTerm] = useState("");
+  const [results, setResults] = useState<GlobalSearchTableResult[]>([]);
+  const [failedTables, setFailedTables] = useState(0);
+  const [summary, setSummary] = useState<SearchSummary | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Cmd/Ctrl+K opens the palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setIsOpen((open) => !open);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setTerm(input.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  // Stream results table by table; a new term (or closing the palette) cancels the old search
+  useEffect(() => {
+    setResults([]);
+    setFailedTables(0);
+    setSummary(null);
+    setError(null);
+    if (!isOpen || term.length < MIN_SEARCH_LENGTH) {
+      setIsSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsSearching(true);
+
+    (async () => {
+      try {
+        const res = await fetch(`/api/global-search?q=${encodeURIComponent(term)}`, {
+          signal: controller.signal,
+        });
+        if (!res.ok || !res.body) {
+          const data = await res.json().catch(() => ({ error: "Search failed" }));
+          throw new Error(data.error || "Search failed");
+        }
+
+        const reader = res.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split("\n");
+          buffer = lines.pop() ?? "";
+          for (const line of lines) {
+            if (!line.trim()) continue;
+            const event = JSON.parse(line) as GlobalSearchEvent;
+            if (event.type === "table") {
+              setResults((prev) => [...prev, event]);
+            } else if (event.type === "error") {
+              setFailedTables((count) => count + 1);
+            } else {
+              setSummary(event);
+            }
+          }
+        }
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : "Search failed");
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false);
+      }
+    })();
+
+    return () => controller.abort();
+  }, [term, isOpen]);
+
+  const openUrl = (url: string) => {
+    setIsOpen(false);
+    window.location.assign(url);
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="text-muted-foreground gap-2"
+        onClick={() => setIsOpen(true)}
+        data-testid="button-global-search"
+      >
+        <Search className="h-4 w-4" />
+        Search everywhere
+        <kbd className="pointer-events-none rounded border bg-muted px-1.5 font-mono text-[10px]">⌘K</kbd>
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg max-w-2xl">
+          <DialogTitle className="sr-only">Search all tables</DialogTitle>
+          <Command shouldFilter={false}>
+            <CommandInput
+              value={input}
+              onValueChange={setInput}
+              placeholder="Search every table for an email, ID, name..."
+              data-testid="input-global-search"
+            />
+            <CommandList className="max-h-[420px]">
+              {input.trim().length < MIN_SEARCH_LENGTH ? (
+                <div className="py-6 text-center text-sm text-muted-foreground">
+                  Type at least {MIN_SEARCH_LENGTH} characters
+                </div>
+              ) : error ? (
+                <div className="py-6 text-center text-sm text-destructive">{error}</div>
+              ) : (
+                results.map((result) => (
+                  <CommandGroup
+                    key={`${result.database}:${result.table}`}
+                    heading={`${result.displayName || result.table} · ${result.database}`}
+                  >
+                    {result.rows.map((row, idx) => (
+                      <CommandItem
+                        key={idx}
+                        value={`${result.database}:${result.table}:${idx}`}
+                        onSelect={() =>
+                          openUrl(
+                            buildViewerUrl(
+                              result.database,
+                              result.table,
+                              result.primaryKey && row.key !== null && row.key !== undefined
+                                ? [{ column: result.primaryKey, operator: "eq", value: String(row.key) }]
+                                : getTableMatchFilters(result, term)
+                            )
+                          )
+                        }
+                        data-testid={`global-search-row-${result.database}-${result.table}-${idx}`}
+                      >
+                        <div className="flex flex-col min-w-0">
+                          {row.matches.map((match) => (
+                            <span key={match.column} className="truncate font-mono text-xs">
+                              <span className="text-muted-foreground">{match.column}: </span>
+                              {match.value}
+                            </span>
+                          ))}
+                          {result.primaryKey && row.key !== null && row.key !== undefined && (
+                            <span className="text-xs text-muted-foreground">
+                              {result.primaryKey} = {String(row.key)}
+                            </span>
+                          )}
+                        </div>
+                        <ArrowRight className="ml-auto text-muted-foreground" />
+                      </CommandItem>
+                    ))}
+                    <CommandItem
+                      value={`${result.database}:${result.table}:all`}
+                      onSelect={() => openUrl(buildViewerUrl(result.database, result.table, getTableMatchFilters(result, term)))}
+                      className="text-muted-foreground"
+                      data-testid={`global-search-table-${result.database}-${result.table}`}
+                    >
+                      <Table2 />
+                      {result.hasMore ? "Open all matches" : "Open matches in table"}
+                    </CommandItem>
+                  </CommandGroup>
+                ))
+              )}
+            </CommandList>
+            {input.trim().length >= MIN_SEARCH_LENGTH && !error && (
+              <div className="flex items-center gap-2 border-t px-3 py-2 text-xs text-muted-foreground">
+                {isSearching || term !== input.trim() ? (
+                  <>
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    Searching... {results.length > 0 && `${results.length} tables with matches so far`}
+                  </>
+                ) : summary ? (
+                  <>
+                    {summary.tablesMatched === 0 ? "No matches" : `${summary.tablesMatched} tables with matches`}
+                    {" "}in {summary.tablesScanned} tables searched
+                    {summary.truncated && (
+                      <span className="flex items-center gap-1">
+                        <AlertTriangle className="h-3 w-3" />
+                        stopped after {summary.maxTables} tables
+                      </span>
+                    )}
+                  </>
+                ) : null}
+                {failedTables > 0 && (
+                  <span className="ml-auto">{failedTables} couldn't be searched (timed out or failed)</span>
+                )}
+              </div>
+            )}
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
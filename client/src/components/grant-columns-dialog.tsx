@@ -0,0 +1,162 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Save, X, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import type { ColumnInfo, TableGrant } from "@/lib/types";
+
+interface GrantColumnsDialogProps {
+  grant: TableGrant | null;
+  onClose: () => void;
+  onSave: (grantId: string, allowedColumns: string[] | null) => Promise<void>;
+}
+
+const NO_COLUMNS: ColumnInfo[] = [];
+
+export function GrantColumnsDialog({ grant, onClose, onSave }: GrantColumnsDialogProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [search, setSearch] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: columns = NO_COLUMNS, isLoading } = useQuery<ColumnInfo[]>({
+    queryKey: ["/api/columns", grant?.database, grant?.tableName],
+    enabled: !!grant,
+  });
+
+  // A grant without an allowlist starts with every column checked
+  useEffect(() => {
+    if (!grant) return;
+    setSearch("");
+    setSelected(new Set(grant.allowedColumns?.length ? grant.allowedColumns : columns.map((c) => c.name)));
+  }, [grant, columns]);
+
+  const filteredColumns = columns.filter((col) =>
+    col.name.toLowerCase().includes(search.toLowerCase())
+  );
+
+  const handleToggle = (columnName: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(columnName);
+    else next.delete(columnName);
+    setSelected(next);
+  };
+
+  const handleSave = async () => {
+    if (!grant) return;
+    setIsSaving(true);
+    try {
+      // Every column checked is stored as no allowlist, so columns added later are granted too
+      const allowedColumns = columns.every((c) => selected.has(c.name))
+        ? null
+        : columns.filter((c) => selected.has(c.name)).map((c) => c.name);
+      await onSave(grant.id, allowedColumns);
+      onClose();
+    } catch (error) {
+      console.error("Failed to save allowed columns:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!grant} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Columns for{" "}
+            <span className="font-mono text-primary">{grant?.tableName}</span>
+          </DialogTitle>
+          <DialogDescription>
+            The user can only read, filter on and export the checked columns.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Input
+              placeholder="Search columns..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="h-8 text-sm"
+              data-testid="input-search-grant-columns"
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setSelected(new Set(columns.map((c) => c.name)))}
+              data-testid="button-grant-all-columns"
+            >
+              All
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setSelected(new Set())}
+              data-testid="button-grant-no-columns"
+            >
+              None
+            </Button>
+          </div>
+          <ScrollArea className="h-64 rounded-md border">
+            <div className="p-2 space-y-1">
+              {isLoading ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                </div>
+              ) : (
+                filteredColumns.map((col) => (
+                  <label
+                    key={col.name}
+                    className="flex items-center gap-2 px-2 py-1.5 rounded-md cursor-pointer hover-elevate"
+                    data-testid={`checkbox-grant-column-${col.name}`}
+                  >
+                    <Checkbox
+                      checked={selected.has(col.name)}
+                      onCheckedChange={(checked) => handleToggle(col.name, checked === true)}
+                    />
+                    <div className="flex flex-col min-w-0 flex-1">
+                      <span className="font-mono text-xs truncate">{col.name}</span>
+                      <span className="text-[10px] text-muted-foreground">
+                        {col.dataType}
+                        {col.isPrimaryKey && " (PK)"}
+                      </span>
+                    </div>
+                  </label>
+                ))
+              )}
+            </div>
+          </ScrollArea>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} data-testid="button-cancel-grant-columns">
+            <X className="h-4 w-4 mr-2" />
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || isLoading || selected.size === 0}
+            data-testid="button-save-grant-columns"
+          >
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save Columns
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
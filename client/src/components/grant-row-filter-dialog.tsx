@@ -0,0 +1,113 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Save, X, Loader2, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { FilterGroupEditor, createGroup, pruneGroup } from "@/components/filter-panel";
+import type { ColumnInfo, FilterGroup, FilterNode, TableGrant } from "@/lib/types";
+
+interface GrantRowFilterDialogProps {
+  grant: TableGrant | null;
+  onClose: () => void;
+  onSave: (grantId: string, rowFilter: FilterNode[] | null) => Promise<void>;
+}
+
+// A saved predicate is edited as one top-level group
+function toEditableGroup(rowFilter: FilterNode[] | null | undefined): FilterGroup | null {
+  if (!rowFilter?.length) return null;
+  const [first] = rowFilter;
+  if (rowFilter.length === 1 && "type" in first && first.type === "group") return first;
+  return { type: "group", connective: "and", children: rowFilter };
+}
+
+export function GrantRowFilterDialog({ grant, onClose, onSave }: GrantRowFilterDialogProps) {
+  const [draft, setDraft] = useState<FilterGroup | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: columns = [] } = useQuery<ColumnInfo[]>({
+    queryKey: ["/api/columns", grant?.database, grant?.tableName],
+    enabled: !!grant,
+  });
+
+  useEffect(() => {
+    if (grant) setDraft(toEditableGroup(grant.rowFilter));
+  }, [grant]);
+
+  const handleSave = async () => {
+    if (!grant) return;
+    setIsSaving(true);
+    try {
+      const pruned = draft ? pruneGroup(draft) : null;
+      await onSave(grant.id, pruned ? [pruned] : null);
+      onClose();
+    } catch (error) {
+      console.error("Failed to save row filter:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!grant} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Row Filter for{" "}
+            <span className="font-mono text-primary">{grant?.tableName}</span>
+          </DialogTitle>
+          <DialogDescription>
+            The user only sees rows matching these conditions, in the viewer, exports, reports and AI queries.
+            Leave empty to grant every row.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2">
+          {draft ? (
+            <FilterGroupEditor
+              group={draft}
+              columns={columns}
+              depth={1}
+              onChange={setDraft}
+              onRemove={() => setDraft(null)}
+            />
+          ) : (
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <span className="text-sm text-muted-foreground">All rows are granted</span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft(createGroup("and"))}
+                data-testid="button-add-row-filter"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Restrict rows
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} data-testid="button-cancel-row-filter">
+            <X className="h-4 w-4 mr-2" />
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving} data-testid="button-save-row-filter">
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save Row Filter
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
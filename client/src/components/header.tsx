@@ -1,6 +1,7 @@
-import { Database, Shield, LogOut } from "lucide-react";
+import { Database, Shield, LogOut, FileDown } from "lucide-react";
 import { Link } from "wouter";
 import { ThemeToggle } from "./theme-toggle";
+import { GlobalSearch } from "./global-search";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
@@ -19,6 +20,7 @@ import {
 } from "@/components/ui/select";
 import { useAuth } from "@/hooks/use-auth";
 import type { DatabaseConnection, User } from "@/lib/types";
+import { ADMIN_PERMISSIONS, hasPermission } from "@/lib/types";
 
 interface HeaderProps {
   databases?: DatabaseConnection[];
@@ -77,6 +79,8 @@ export function Header({
           </Select>
         )}
 
+        <GlobalSearch />
+
         <ThemeToggle />
 
         <DropdownMenu>
@@ -97,7 +101,15 @@ export function Header({
               </p>
             </div>
             <DropdownMenuSeparator />
-            {user?.role === "admin" && (
+            {hasPermission(user, "export") && (
+              <DropdownMenuItem asChild>
+                <Link href="/exports" className="flex items-center cursor-pointer" data-testid="link-export-center">
+                  <FileDown className="mr-2 h-4 w-4" />
+                  Export Center
+                </Link>
+              </DropdownMenuItem>
+            )}
+            {ADMIN_PERMISSIONS.some((permission) => hasPermission(user, permission)) && (
               <DropdownMenuItem asChild>
                 <Link href="/admin" className="flex items-center cursor-pointer" data-testid="link-admin">
                   <Shield className="mr-2 h-4 w-4" />
@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+
+interface JsonTreeProps {
+  value: unknown;
+  // Levels expanded on first render; deeper objects start collapsed
+  defaultExpandDepth?: number;
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+  return value !== null && typeof value === "object";
+}
+
+export function summarizeJson(value: unknown): string {
+  if (Array.isArray(value)) return `[…] ${value.length} item${value.length === 1 ? "" : "s"}`;
+  if (isContainer(value)) {
+    const count = Object.keys(value).length;
+    return `{…} ${count} key${count === 1 ? "" : "s"}`;
+  }
+  return JSON.stringify(value);
+}
+
+function JsonPrimitive({ value }: { value: unknown }) {
+  if (value === null) {
+    return <span className="text-muted-foreground italic">null</span>;
+  }
+  if (typeof value === "string") {
+    return <span className="text-green-700 dark:text-green-400 break-all">"{value}"</span>;
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return <span className="text-blue-700 dark:text-blue-400">{String(value)}</span>;
+  }
+  return <span>{String(value)}</span>;
+}
+
+interface JsonNodeProps {
+  name?: string;
+  value: unknown;
+  depth: number;
+  defaultExpandDepth: number;
+}
+
+function JsonNode({ name, value, depth, defaultExpandDepth }: JsonNodeProps) {
+  const [isExpanded, setIsExpanded] = useState(depth < defaultExpandDepth);
+
+  const label = name !== undefined && (
+    <span className="text-primary">{name}: </span>
+  );
+
+  if (!isContainer(value)) {
+    return (
+      <div className="pl-4">
+        {label}
+        <JsonPrimitive value={value} />
+      </div>
+    );
+  }
+
+  const entries = Array.isArray(value)
+    ? value.map((item, index) => [String(index), item] as const)
+    : Object.entries(value);
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex items-center gap-0.5 hover:bg-muted/50 rounded text-left"
+        data-testid={`button-toggle-json-${name ?? "root"}`}
+      >
+        {isExpanded ? (
+          <ChevronDown className="h-3 w-3 shrink-0" />
+        ) : (
+          <ChevronRight className="h-3 w-3 shrink-0" />
+        )}
+        {label}
+        <span className="text-muted-foreground">{summarizeJson(value)}</span>
+      </button>
+      {isExpanded && (
+        <div className="pl-3 border-l ml-1.5">
+          {entries.map(([key, child]) => (
+            <JsonNode
+              key={key}
+              name={key}
+              value={child}
+              depth={depth + 1}
+              defaultExpandDepth={defaultExpandDepth}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function JsonTree({ value, defaultExpandDepth = 1 }: JsonTreeProps) {
+  return (
+    <div className="font-mono text-xs" data-testid="json-tree">
+      <JsonNode value={value} depth={0} defaultExpandDepth={defaultExpandDepth} />
+    </div>
+  );
+}
@@ -1,7 +1,18 @@
-import { ChevronLeft, ChevronRight } from "lucide-react";
+import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useState, useEffect } from "react";
+import type { KeysetDirection, PaginationMode } from "@/lib/types";
+import { PAGE_SIZE_OPTIONS } from "@/lib/types";
 
 interface PaginationControlsProps {
   currentPage: number;
@@ -10,6 +21,16 @@ interface PaginationControlsProps {
   pageSize: number;
   onPageChange: (page: number) => void;
   isLoading: boolean;
+  // Keyset mode: navigation is relative to the current page, so there is no page input
+  mode?: PaginationMode;
+  onModeChange?: (mode: PaginationMode) => void;
+  onNavigate?: (direction: KeysetDirection) => void;
+  hasPreviousPage?: boolean;
+  hasNextPage?: boolean;
+  rowCount?: number;
+  isApproximateCount?: boolean;
+  keysetUnavailable?: boolean;
+  onPageSizeChange?: (pageSize: number) => void;
 }
 
 export function PaginationControls({
@@ -19,8 +40,19 @@ export function PaginationControls({
   pageSize,
   onPageChange,
   isLoading,
+  mode = "offset",
+  onModeChange,
+  onNavigate,
+  hasPreviousPage = false,
+  hasNextPage = false,
+  rowCount = 0,
+  isApproximateCount = false,
+  keysetUnavailable = false,
+  onPageSizeChange,
 }: PaginationControlsProps) {
   const [inputPage, setInputPage] = useState(String(currentPage));
+  const isKeyset = mode === "keyset" && !!onNavigate;
+  const countLabel = `${isApproximateCount ? "~" : ""}${totalCount.toLocaleString()}`;
 
   useEffect(() => {
     setInputPage(String(currentPage));
@@ -45,56 +77,138 @@ export function PaginationControls({
     }
   };
 
+  const canGoBack = isKeyset ? hasPreviousPage : currentPage > 1;
+  const canGoForward = isKeyset ? hasNextPage : currentPage < totalPages;
+
+  const goFirst = () => (isKeyset ? onNavigate!("first") : onPageChange(1));
+  const goPrevious = () => (isKeyset ? onNavigate!("prev") : onPageChange(currentPage - 1));
+  const goNext = () => (isKeyset ? onNavigate!("next") : onPageChange(currentPage + 1));
+  const goLast = () => (isKeyset ? onNavigate!("last") : onPageChange(totalPages));
+
   return (
     <div className="flex items-center justify-between px-4 py-3 border-t bg-card">
       <div className="text-sm text-muted-foreground">
-        Showing {Math.min((currentPage - 1) * pageSize + 1, totalCount)} -{" "}
-        {Math.min(currentPage * pageSize, totalCount)} of {totalCount.toLocaleString()} rows
+        {isKeyset ? (
+          <>
+            Showing {rowCount.toLocaleString()} of {countLabel} rows
+          </>
+        ) : (
+          <>
+            Showing {Math.min((currentPage - 1) * pageSize + 1, totalCount)} -{" "}
+            {Math.min(currentPage * pageSize, totalCount)} of {countLabel} rows
+          </>
+        )}
       </div>
 
       <div className="flex items-center gap-2">
         <Button
           variant="outline"
           size="sm"
-          onClick={() => onPageChange(currentPage - 1)}
-          disabled={currentPage <= 1 || isLoading}
+          onClick={goFirst}
+          disabled={!canGoBack || isLoading}
+          title="First page"
+          data-testid="button-first-page"
+        >
+          <ChevronsLeft className="h-4 w-4" />
+        </Button>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={goPrevious}
+          disabled={!canGoBack || isLoading}
           data-testid="button-previous-page"
         >
           <ChevronLeft className="h-4 w-4" />
           Previous
         </Button>
 
-        <div className="flex items-center gap-2">
-          <span className="text-sm text-muted-foreground">Page</span>
-          <Input
-            type="number"
-            min={1}
-            max={totalPages}
-            value={inputPage}
-            onChange={handlePageInputChange}
-            onBlur={handlePageInputBlur}
-            onKeyDown={handlePageInputKeyDown}
-            className="w-16 h-8 text-center"
-            disabled={isLoading}
-            data-testid="input-page-number"
-          />
-          <span className="text-sm text-muted-foreground">of {totalPages}</span>
-        </div>
+        {isKeyset ? (
+          <span className="text-sm text-muted-foreground px-2" data-testid="text-keyset-page">
+            Page {currentPage.toLocaleString()}
+          </span>
+        ) : (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Page</span>
+            <Input
+              type="number"
+              min={1}
+              max={totalPages}
+              value={inputPage}
+              onChange={handlePageInputChange}
+              onBlur={handlePageInputBlur}
+              onKeyDown={handlePageInputKeyDown}
+              className="w-16 h-8 text-center"
+              disabled={isLoading}
+              data-testid="input-page-number"
+            />
+            <span className="text-sm text-muted-foreground">
+              of {isApproximateCount ? "~" : ""}{totalPages}
+            </span>
+          </div>
+        )}
 
         <Button
           variant="outline"
           size="sm"
-          onClick={() => onPageChange(currentPage + 1)}
-          disabled={currentPage >= totalPages || isLoading}
+          onClick={goNext}
+          disabled={!canGoForward || isLoading}
           data-testid="button-next-page"
         >
           Next
           <ChevronRight className="h-4 w-4" />
         </Button>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={goLast}
+          disabled={!canGoForward || isLoading}
+          title="Last page"
+          data-testid="button-last-page"
+        >
+          <ChevronsRight className="h-4 w-4" />
+        </Button>
       </div>
 
-      <div className="text-sm text-muted-foreground">
-        {pageSize} rows per page
+      <div className="flex items-center gap-4 text-sm text-muted-foreground">
+        {onModeChange && (
+          <div className="flex items-center gap-2">
+            <Switch
+              id="fast-paging"
+              checked={mode === "keyset"}
+              onCheckedChange={(checked) => onModeChange(checked ? "keyset" : "offset")}
+              data-testid="switch-fast-paging"
+            />
+            <Label htmlFor="fast-paging" className="text-sm font-normal" title="Page by primary key and use an estimated row count">
+              Fast paging
+            </Label>
+            {mode === "keyset" && keysetUnavailable && (
+              <span className="text-xs" data-testid="text-keyset-unavailable">
+                (not available for this table)
+              </span>
+            )}
+          </div>
+        )}
+        {onPageSizeChange ? (
+          <div className="flex items-center gap-2">
+            <Select value={String(pageSize)} onValueChange={(value) => onPageSizeChange(Number(value))}>
+              <SelectTrigger className="h-8 w-20" data-testid="select-page-size">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PAGE_SIZE_OPTIONS.map((size) => (
+                  <SelectItem key={size} value={String(size)}>
+                    {size}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span>rows per page</span>
+          </div>
+        ) : (
+          <span>{pageSize} rows per page</span>
+        )}
       </div>
     </div>
   );
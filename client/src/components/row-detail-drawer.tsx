@@ -0,0 +1,312 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronDown, ChevronRight, ChevronLeft, ExternalLink, Link2, Loader2 } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatCellValue } from "@/components/data-table";
+import { JsonTree } from "@/components/json-tree";
+import type {
+  ActiveFilter,
+  ColumnInfo,
+  ForeignKeyRef,
+  QueryResponse,
+  TableRelationship,
+} from "@/lib/types";
+
+interface RowDetailDrawerProps {
+  database: string;
+  table: string;
+  columns: ColumnInfo[];
+  row: Record<string, unknown> | null;
+  onClose: () => void;
+  navigableTables: Set<string>;
+  onForeignKeyClick: (foreignKey: ForeignKeyRef, value: unknown) => void;
+  getHiddenColumns: (table: string) => string[];
+}
+
+interface RelatedRowsSectionProps {
+  database: string;
+  relationship: TableRelationship;
+  value: unknown;
+  hiddenColumns: string[];
+  onOpenInViewer: () => void;
+}
+
+function RelatedRowsSection({
+  database,
+  relationship,
+  value,
+  hiddenColumns,
+  onOpenInViewer,
+}: RelatedRowsSectionProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [page, setPage] = useState(1);
+
+  const filters: ActiveFilter[] = [
+    { column: relationship.column, operator: "eq", value: String(value) },
+  ];
+
+  // Child rows go through /api/rows so the same access checks apply
+  const { data, isLoading, error } = useQuery<QueryResponse>({
+    queryKey: ["/api/rows", database, relationship.table, page, filters, null],
+    queryFn: async () => {
+      const res = await fetch("/api/rows", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          database,
+          table: relationship.table,
+          page,
+          filters,
+          sort: null,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to fetch rows");
+      }
+      return res.json();
+    },
+    enabled: isOpen,
+  });
+
+  const visibleColumns = Object.keys(data?.rows[0] || {}).filter((c) => !hiddenColumns.includes(c));
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="border rounded-md">
+      <div className="flex items-center justify-between gap-2 px-3 py-2">
+        <CollapsibleTrigger asChild>
+          <button
+            type="button"
+            className="flex items-center gap-2 text-sm font-medium text-left min-w-0"
+            data-testid={`button-toggle-related-${relationship.table}-${relationship.column}`}
+          >
+            {isOpen ? (
+              <ChevronDown className="h-4 w-4 shrink-0" />
+            ) : (
+              <ChevronRight className="h-4 w-4 shrink-0" />
+            )}
+            <span className="truncate">{relationship.displayName || relationship.table}</span>
+            <span className="font-mono text-xs text-muted-foreground truncate">
+              via {relationship.column}
+            </span>
+            {data && (
+              <Badge variant="secondary">{data.totalCount.toLocaleString()}</Badge>
+            )}
+          </button>
+        </CollapsibleTrigger>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onOpenInViewer}
+          data-testid={`button-open-related-${relationship.table}-${relationship.column}`}
+        >
+          <ExternalLink className="h-4 w-4" />
+          Open
+        </Button>
+      </div>
+
+      <CollapsibleContent className="border-t">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <div className="px-3 py-4 text-sm text-destructive">
+            {error instanceof Error ? error.message : "Failed to fetch rows"}
+          </div>
+        ) : !data || data.rows.length === 0 ? (
+          <div className="px-3 py-4 text-sm text-muted-foreground">No related rows</div>
+        ) : (
+          <>
+            <div className="overflow-auto max-h-80">
+              <Table className="min-w-max">
+                <TableHeader>
+                  <TableRow>
+                    {visibleColumns.map((col) => (
+                      <TableHead key={col} className="font-mono text-xs whitespace-nowrap">
+                        {col}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.rows.map((childRow, rowIdx) => (
+                    <TableRow key={rowIdx}>
+                      {visibleColumns.map((col) => (
+                        <TableCell
+                          key={col}
+                          className="font-mono text-xs max-w-[200px] truncate"
+                          title={formatCellValue(childRow[col])}
+                        >
+                          {childRow[col] === null ? (
+                            <span className="text-muted-foreground italic">NULL</span>
+                          ) : (
+                            formatCellValue(childRow[col])
+                          )}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {data.totalPages > 1 && (
+              <div className="flex items-center justify-between px-3 py-2 border-t">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                  data-testid="button-related-previous-page"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="text-xs text-muted-foreground">
+                  Page {page} of {data.totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= data.totalPages}
+                  data-testid="button-related-next-page"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+export function RowDetailDrawer({
+  database,
+  table,
+  columns,
+  row,
+  onClose,
+  navigableTables,
+  onForeignKeyClick,
+  getHiddenColumns,
+}: RowDetailDrawerProps) {
+  // Tables with foreign keys pointing at this one (already filtered to what the user can open)
+  const { data: relationships = [], isLoading: isLoadingRelationships } = useQuery<TableRelationship[]>({
+    queryKey: ["/api/relationships", database, table],
+    enabled: !!database && !!table && !!row,
+  });
+
+  const primaryKey = columns.find((c) => c.isPrimaryKey);
+  const title = primaryKey && row ? `${table} #${formatCellValue(row[primaryKey.name])}` : table;
+
+  return (
+    <Sheet open={!!row} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-2xl overflow-y-auto" data-testid="drawer-row-detail">
+        <SheetHeader>
+          <SheetTitle className="font-mono">{title}</SheetTitle>
+          <SheetDescription>{database}</SheetDescription>
+        </SheetHeader>
+
+        {row && (
+          <div className="mt-6 space-y-6">
+            <dl className="divide-y border rounded-md">
+              {columns.map((col) => {
+                const value = row[col.name];
+                const foreignKey = col.foreignKey;
+                const isLink =
+                  !!foreignKey &&
+                  value !== null &&
+                  value !== undefined &&
+                  navigableTables.has(foreignKey.table);
+
+                return (
+                  <div key={col.name} className="grid grid-cols-3 gap-3 px-3 py-2">
+                    <dt className="text-xs">
+                      <div className="font-mono font-medium break-all">{col.name}</div>
+                      <div className="text-muted-foreground">{col.dataType}</div>
+                    </dt>
+                    <dd className="col-span-2 font-mono text-xs whitespace-pre-wrap break-all">
+                      {value === null ? (
+                        <span className="text-muted-foreground italic">NULL</span>
+                      ) : isLink ? (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            onForeignKeyClick(foreignKey!, value);
+                            onClose();
+                          }}
+                          className="inline-flex items-center gap-1 text-primary hover:underline text-left"
+                          data-testid={`link-detail-fk-${col.name}`}
+                        >
+                          {formatCellValue(value)}
+                          <Link2 className="h-3 w-3 shrink-0" />
+                        </button>
+                      ) : typeof value === "object" && value !== undefined ? (
+                        <JsonTree value={value} defaultExpandDepth={2} />
+                      ) : (
+                        formatCellValue(value)
+                      )}
+                    </dd>
+                  </div>
+                );
+              })}
+            </dl>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold">Related records</h3>
+              {isLoadingRelationships ? (
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              ) : relationships.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No other tables reference this table.
+                </p>
+              ) : (
+                relationships
+                  .filter((rel) => row[rel.referencedColumn] !== null && row[rel.referencedColumn] !== undefined)
+                  .map((rel) => (
+                    <RelatedRowsSection
+                      key={`${rel.table}.${rel.column}`}
+                      database={database}
+                      relationship={rel}
+                      value={row[rel.referencedColumn]}
+                      hiddenColumns={getHiddenColumns(rel.table)}
+                      onOpenInViewer={() => {
+                        onForeignKeyClick(
+                          { table: rel.table, column: rel.column },
+                          row[rel.referencedColumn]
+                        );
+                        onClose();
+                      }}
+                    />
+                  ))
+              )}
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
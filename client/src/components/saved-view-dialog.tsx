@@ -0,0 +1,210 @@
+import { useState, useEffect } from "react";
+import { Loader2, Lock, Users, Globe } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { SavedView, SavedViewVisibility, ShareRecipient } from "@/lib/types";
+
+export interface SavedViewDetails {
+  name: string;
+  visibility: SavedViewVisibility;
+  sharedWith: number[];
+}
+
+interface SavedViewDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Existing view to rename/re-share; omit to save the current table state as a new view
+  view?: SavedView | null;
+  canShare: boolean;
+  isSaving: boolean;
+  onSubmit: (details: SavedViewDetails) => void;
+}
+
+export const VISIBILITY_OPTIONS: { value: SavedViewVisibility; label: string; description: string; icon: typeof Lock }[] = [
+  { value: "private", label: "Private", description: "Only you can see this view", icon: Lock },
+  { value: "shared", label: "Shared", description: "You and the people you pick", icon: Users },
+  { value: "published", label: "Published", description: "Everyone with access to this table", icon: Globe },
+];
+
+export function SavedViewDialog({
+  isOpen,
+  onClose,
+  view,
+  canShare,
+  isSaving,
+  onSubmit,
+}: SavedViewDialogProps) {
+  const [name, setName] = useState("");
+  const [visibility, setVisibility] = useState<SavedViewVisibility>("private");
+  const [sharedWith, setSharedWith] = useState<Set<number>>(new Set());
+  const [search, setSearch] = useState("");
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(view?.name ?? "");
+      setVisibility(view?.visibility ?? "private");
+      setSharedWith(new Set(view?.sharedWith ?? []));
+      setSearch("");
+    }
+  }, [isOpen, view]);
+
+  const { data: recipients = [], isLoading: isLoadingRecipients } = useQuery<ShareRecipient[]>({
+    queryKey: ["/api/saved-views/recipients"],
+    enabled: isOpen && canShare && visibility === "shared",
+  });
+
+  const filteredRecipients = recipients.filter((r) => {
+    const searchLower = search.toLowerCase();
+    const fullName = [r.firstName, r.lastName].filter(Boolean).join(" ").toLowerCase();
+    return r.email.toLowerCase().includes(searchLower) || fullName.includes(searchLower);
+  });
+
+  const handleToggleRecipient = (id: number, checked: boolean) => {
+    const next = new Set(sharedWith);
+    if (checked) {
+      next.add(id);
+    } else {
+      next.delete(id);
+    }
+    setSharedWith(next);
+  };
+
+  const handleSubmit = () => {
+    if (!name.trim()) return;
+    onSubmit({ name: name.trim(), visibility, sharedWith: Array.from(sharedWith) });
+  };
+
+  const options = canShare ? VISIBILITY_OPTIONS : VISIBILITY_OPTIONS.filter((o) => o.value === "private");
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{view ? "Edit saved view" : "Save view"}</DialogTitle>
+          <DialogDescription>
+            {view
+              ? "Rename this view or change who can see it."
+              : "Save the visible columns, filters, sort and page size of this table."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="saved-view-name">Name</Label>
+            <Input
+              id="saved-view-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Open orders this week"
+              maxLength={100}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleSubmit();
+              }}
+              data-testid="input-saved-view-name"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Who can see it</Label>
+            <RadioGroup
+              value={visibility}
+              onValueChange={(value) => setVisibility(value as SavedViewVisibility)}
+            >
+              {options.map((option) => (
+                <div key={option.value} className="flex items-start gap-2">
+                  <RadioGroupItem
+                    value={option.value}
+                    id={`saved-view-visibility-${option.value}`}
+                    className="mt-0.5"
+                    data-testid={`radio-saved-view-${option.value}`}
+                  />
+                  <Label htmlFor={`saved-view-visibility-${option.value}`} className="font-normal">
+                    <span className="flex items-center gap-1.5 font-medium">
+                      <option.icon className="h-3.5 w-3.5" />
+                      {option.label}
+                    </span>
+                    <span className="text-xs text-muted-foreground">{option.description}</span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          {visibility === "shared" && (
+            <div className="space-y-2">
+              <Label>Share with</Label>
+              <Input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search people..."
+                data-testid="input-search-recipients"
+              />
+              <ScrollArea className="h-40 rounded-md border">
+                {isLoadingRecipients ? (
+                  <div className="flex items-center justify-center py-6">
+                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                  </div>
+                ) : (
+                  <div className="p-2 space-y-1">
+                    {filteredRecipients.map((r) => (
+                      <label
+                        key={r.id}
+                        className="flex items-center gap-2 px-2 py-1 rounded-md text-sm hover:bg-muted cursor-pointer"
+                      >
+                        <Checkbox
+                          checked={sharedWith.has(r.id)}
+                          onCheckedChange={(checked) => handleToggleRecipient(r.id, checked === true)}
+                          data-testid={`checkbox-recipient-${r.id}`}
+                        />
+                        <span className="truncate">
+                          {[r.firstName, r.lastName].filter(Boolean).join(" ") || r.email}
+                        </span>
+                        {(r.firstName || r.lastName) && (
+                          <span className="text-xs text-muted-foreground truncate">{r.email}</span>
+                        )}
+                      </label>
+                    ))}
+                    {filteredRecipients.length === 0 && (
+                      <div className="text-center py-4 text-sm text-muted-foreground">No people found</div>
+                    )}
+                  </div>
+                )}
+              </ScrollArea>
+              <p className="text-xs text-muted-foreground">
+                People only see the view if they can open this table.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} data-testid="button-cancel-saved-view">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!name.trim() || isSaving}
+            data-testid="button-submit-saved-view"
+          >
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {view ? "Save changes" : "Save view"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
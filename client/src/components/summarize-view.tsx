@@ -0,0 +1,366 @@
+import { Loader2, Plus, X, ArrowUp, ArrowDown, ArrowUpDown, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatCellValue } from "@/components/data-table";
+import type {
+  ActiveFilter,
+  ColumnInfo,
+  SummarizeBucket,
+  SummarizeFunction,
+  SummarizeResponse,
+  SummarizeSpec,
+} from "@/lib/types";
+import { SUMMARIZE_FUNCTION_LABELS } from "@/lib/types";
+
+interface SummarizeViewProps {
+  columns: ColumnInfo[];
+  spec: SummarizeSpec;
+  onSpecChange: (spec: SummarizeSpec) => void;
+  result?: SummarizeResponse;
+  isLoading: boolean;
+  error?: string | null;
+  // Open the rows behind a group: receives the filters that select that group
+  onDrillDown: (filters: ActiveFilter[]) => void;
+}
+
+const MAX_GROUP_BY = 2;
+const MAX_AGGREGATES = 10;
+const NO_BUCKET = "none";
+const COUNT_ROWS = "*";
+
+// Keep in sync with the server's NUMERIC_TYPES / ORDERABLE_TYPE_PREFIXES
+const NUMERIC_TYPES = ["smallint", "integer", "bigint", "numeric", "decimal", "real", "double precision"];
+const ORDERABLE_TYPE_PREFIXES = ["timestamp", "date", "time", "text", "character", "interval"];
+const NON_DISTINCT_TYPES = ["json", "xml", "point", "line", "lseg", "box", "path", "polygon", "circle"];
+
+function isDateColumn(column: ColumnInfo | undefined): boolean {
+  return !!column && (column.dataType === "date" || column.dataType.startsWith("timestamp"));
+}
+
+function supportsFunction(column: ColumnInfo, fn: SummarizeFunction): boolean {
+  const isNumeric = NUMERIC_TYPES.includes(column.dataType);
+  switch (fn) {
+    case "count":
+      return true;
+    case "count_distinct":
+      return !NON_DISTINCT_TYPES.includes(column.dataType);
+    case "sum":
+    case "avg":
+      return isNumeric;
+    case "min":
+    case "max":
+      return isNumeric || ORDERABLE_TYPE_PREFIXES.some((t) => column.dataType.startsWith(t));
+  }
+}
+
+function shiftDate(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+// Inclusive [first, last] day of the bucket starting at `start` (YYYY-MM-DD)
+function getBucketRange(start: string, bucket: SummarizeBucket): [string, string] {
+  if (bucket === "day") return [start, start];
+  if (bucket === "week") return [start, shiftDate(start, 6)];
+  const d = new Date(`${start}T00:00:00Z`);
+  const lastDay = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0));
+  return [start, lastDay.toISOString().slice(0, 10)];
+}
+
+function formatSummaryValue(value: unknown, isAggregate: boolean): string {
+  if (isAggregate && value !== null && value !== "" && !isNaN(Number(value))) {
+    return Number(value).toLocaleString(undefined, { maximumFractionDigits: 2 });
+  }
+  return formatCellValue(value);
+}
+
+export function SummarizeView({
+  columns,
+  spec,
+  onSpecChange,
+  result,
+  isLoading,
+  error,
+  onDrillDown,
+}: SummarizeViewProps) {
+  const updateGroupBy = (index: number, update: { column?: string; bucket?: SummarizeBucket | undefined }) => {
+    const groupBy = spec.groupBy.map((g, i) => {
+      if (i !== index) return g;
+      const next = { ...g, ...update };
+      // Buckets only apply to date/timestamp columns
+      if (!isDateColumn(columns.find((c) => c.name === next.column))) delete next.bucket;
+      if (next.bucket === undefined) delete next.bucket;
+      return next;
+    });
+    onSpecChange({ ...spec, groupBy, sort: null });
+  };
+
+  const updateAggregate = (index: number, update: { function?: SummarizeFunction; column?: string }) => {
+    const aggregates = spec.aggregates.map((a, i) => {
+      if (i !== index) return a;
+      const next = { ...a, ...update };
+      if (next.column === undefined || next.column === COUNT_ROWS) delete next.column;
+      // Fall back to a plain count when the column can't take the chosen function
+      const column = columns.find((c) => c.name === next.column);
+      if (!column || !supportsFunction(column, next.function)) next.function = "count";
+      return next;
+    });
+    onSpecChange({ ...spec, aggregates, sort: null });
+  };
+
+  const handleSort = (name: string) => {
+    const current = spec.sort?.column === name ? spec.sort.direction : null;
+    const sort =
+      current === null ? { column: name, direction: "asc" as const } :
+      current === "asc" ? { column: name, direction: "desc" as const } :
+      null;
+    onSpecChange({ ...spec, sort });
+  };
+
+  const handleDrillDown = (row: Record<string, unknown>) => {
+    if (!result) return;
+    const filters: ActiveFilter[] = result.columns
+      .filter((c) => c.kind === "group" && c.column)
+      .map((c) => {
+        const value = row[c.name];
+        if (value === null || value === undefined) {
+          return { column: c.column!, operator: "is_null", value: "" };
+        }
+        if (c.bucket) {
+          return { column: c.column!, operator: "between", value: getBucketRange(String(value), c.bucket) };
+        }
+        return { column: c.column!, operator: "eq", value: typeof value === "object" ? JSON.stringify(value) : String(value) };
+      });
+    onDrillDown(filters);
+  };
+
+  return (
+    <div className="border rounded-lg bg-card flex flex-col h-full overflow-hidden">
+      <div className="flex flex-wrap items-start gap-6 p-3 border-b">
+        <div className="space-y-2">
+          <div className="text-xs font-medium text-muted-foreground">Group by</div>
+          {spec.groupBy.map((group, idx) => {
+            const column = columns.find((c) => c.name === group.column);
+            return (
+              <div key={idx} className="flex items-center gap-2">
+                <Select value={group.column} onValueChange={(value) => updateGroupBy(idx, { column: value })}>
+                  <SelectTrigger className="h-8 w-44" data-testid={`select-group-by-${idx}`}>
+                    <SelectValue placeholder="Column..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {columns.map((col) => (
+                      <SelectItem key={col.name} value={col.name}>
+                        {col.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {isDateColumn(column) && (
+                  <Select
+                    value={group.bucket ?? NO_BUCKET}
+                    onValueChange={(value) =>
+                      updateGroupBy(idx, { bucket: value === NO_BUCKET ? undefined : (value as SummarizeBucket) })
+                    }
+                  >
+                    <SelectTrigger className="h-8 w-28" data-testid={`select-group-bucket-${idx}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_BUCKET}>Exact value</SelectItem>
+                      <SelectItem value="day">By day</SelectItem>
+                      <SelectItem value="week">By week</SelectItem>
+                      <SelectItem value="month">By month</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => onSpecChange({ ...spec, groupBy: spec.groupBy.filter((_, i) => i !== idx), sort: null })}
+                  data-testid={`button-remove-group-by-${idx}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+          {spec.groupBy.length < MAX_GROUP_BY && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onSpecChange({ ...spec, groupBy: [...spec.groupBy, { column: "" }], sort: null })}
+              data-testid="button-add-group-by"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Group by
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-xs font-medium text-muted-foreground">Aggregates</div>
+          {spec.aggregates.map((agg, idx) => {
+            const column = columns.find((c) => c.name === agg.column);
+            const functions = (Object.keys(SUMMARIZE_FUNCTION_LABELS) as SummarizeFunction[]).filter((fn) =>
+              column ? supportsFunction(column, fn) : fn === "count"
+            );
+            return (
+              <div key={idx} className="flex items-center gap-2">
+                <Select
+                  value={agg.function}
+                  onValueChange={(value) => updateAggregate(idx, { function: value as SummarizeFunction })}
+                >
+                  <SelectTrigger className="h-8 w-36" data-testid={`select-aggregate-function-${idx}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {functions.map((fn) => (
+                      <SelectItem key={fn} value={fn}>
+                        {SUMMARIZE_FUNCTION_LABELS[fn]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={agg.column ?? COUNT_ROWS}
+                  onValueChange={(value) => updateAggregate(idx, { column: value })}
+                >
+                  <SelectTrigger className="h-8 w-44" data-testid={`select-aggregate-column-${idx}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={COUNT_ROWS}>All rows</SelectItem>
+                    {columns.map((col) => (
+                      <SelectItem key={col.name} value={col.name}>
+                        {col.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  disabled={spec.aggregates.length === 1}
+                  onClick={() => onSpecChange({ ...spec, aggregates: spec.aggregates.filter((_, i) => i !== idx), sort: null })}
+                  data-testid={`button-remove-aggregate-${idx}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+          {spec.aggregates.length < MAX_AGGREGATES && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onSpecChange({ ...spec, aggregates: [...spec.aggregates, { function: "count" }], sort: null })}
+              data-testid="button-add-aggregate"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Aggregate
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 px-3 py-2 text-sm text-destructive border-b">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          {error}
+        </div>
+      )}
+      {result?.truncated && (
+        <div className="flex items-center gap-2 px-3 py-2 text-xs text-muted-foreground border-b">
+          <AlertTriangle className="h-3 w-3 shrink-0" />
+          Showing the first {result.maxGroups.toLocaleString()} groups. Add filters or export for the full result.
+        </div>
+      )}
+
+      <div className="overflow-auto flex-1 scrollbar-always-visible">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : !result || spec.groupBy.every((g) => !g.column) ? (
+          <div className="flex items-center justify-center h-64 text-muted-foreground">
+            Pick a column to group by
+          </div>
+        ) : result.rows.length === 0 ? (
+          <div className="flex items-center justify-center h-64 text-muted-foreground">
+            No rows found
+          </div>
+        ) : (
+          <Table className="min-w-max">
+            <TableHeader className="sticky top-0 bg-card z-10">
+              <TableRow>
+                {result.columns.map((col) => {
+                  const direction = spec.sort?.column === col.name ? spec.sort.direction : null;
+                  return (
+                    <TableHead key={col.name} className="min-w-[120px] font-medium whitespace-nowrap">
+                      <button
+                        type="button"
+                        onClick={() => handleSort(col.name)}
+                        className="flex items-center gap-1 hover:bg-muted/50 rounded px-1 py-0.5 -mx-1 transition-colors"
+                        data-testid={`sort-summary-${col.name}`}
+                      >
+                        <span className="font-mono text-sm">{col.name}</span>
+                        {direction === "asc" ? (
+                          <ArrowUp className="h-3 w-3 text-primary" />
+                        ) : direction === "desc" ? (
+                          <ArrowDown className="h-3 w-3 text-primary" />
+                        ) : (
+                          <ArrowUpDown className="h-3 w-3 text-muted-foreground opacity-50" />
+                        )}
+                      </button>
+                    </TableHead>
+                  );
+                })}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.rows.map((row, rowIdx) => (
+                <TableRow
+                  key={rowIdx}
+                  className="hover-elevate cursor-pointer"
+                  onClick={() => handleDrillDown(row)}
+                  title="Show the rows in this group"
+                  data-testid={`row-summary-${rowIdx}`}
+                >
+                  {result.columns.map((col) => (
+                    <TableCell
+                      key={col.name}
+                      className={col.kind === "aggregate" ? "font-mono text-xs text-right" : "font-mono text-xs"}
+                    >
+                      {row[col.name] === null ? (
+                        <span className="text-muted-foreground italic">NULL</span>
+                      ) : (
+                        formatSummaryValue(row[col.name], col.kind === "aggregate")
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
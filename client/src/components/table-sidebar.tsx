@@ -1,19 +1,49 @@
 import { useState } from "react";
-import { Search, Table2, Loader2, EyeOff, FileText, BarChart3, Truck } from "lucide-react";
+import { Search, Table2, View, Layers, Loader2, EyeOff, FileText, BarChart3, Truck, MoreHorizontal } from "lucide-react";
 import { Link } from "wouter";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { VISIBILITY_OPTIONS } from "@/components/saved-view-dialog";
 import { cn } from "@/lib/utils";
-import type { TableInfo } from "@/lib/types";
+import type { TableInfo, TableObjectType, SavedView } from "@/lib/types";
+import { TABLE_OBJECT_TYPE_LABELS, hasPermission } from "@/lib/types";
 import { useAuth } from "@/hooks/use-auth";
 
+const TABLE_TYPE_ICONS: Record<TableObjectType, typeof Table2> = {
+  table: Table2,
+  view: View,
+  materialized_view: Layers,
+};
+
+export function TableTypeIcon({ type = "table", className }: { type?: TableObjectType; className?: string }) {
+  const Icon = TABLE_TYPE_ICONS[type];
+  return (
+    <span title={TABLE_OBJECT_TYPE_LABELS[type]} className="inline-flex">
+      <Icon className={className} />
+    </span>
+  );
+}
+
 interface TableSidebarProps {
   tables: TableInfo[];
   selectedTable: string;
   onTableSelect: (fullName: string) => void;
   isLoading: boolean;
+  savedViews?: SavedView[];
+  activeViewId?: string | null;
+  onViewSelect?: (view: SavedView) => void;
+  onViewUpdate?: (view: SavedView) => void;
+  onViewEdit?: (view: SavedView) => void;
+  onViewDelete?: (view: SavedView) => void;
 }
 
 export function TableSidebar({
@@ -21,16 +51,30 @@ export function TableSidebar({
   selectedTable,
   onTableSelect,
   isLoading,
+  savedViews = [],
+  activeViewId = null,
+  onViewSelect,
+  onViewUpdate,
+  onViewEdit,
+  onViewDelete,
 }: TableSidebarProps) {
   const [search, setSearch] = useState("");
   const { user } = useAuth();
-  const isAdmin = user?.role === "admin";
+  // Hidden tables only reach roles that can view restricted data, which see them struck through
+  const canSeeHidden = hasPermission(user, "view_restricted_data");
+  const canManageViews = hasPermission(user, "manage_settings");
+
+  const searchLower = search.toLowerCase();
+  const viewsByTable = new Map<string, SavedView[]>();
+  for (const view of savedViews) {
+    viewsByTable.set(view.tableName, [...(viewsByTable.get(view.tableName) || []), view]);
+  }
 
   const filteredTables = tables.filter((t) => {
-    const searchLower = search.toLowerCase();
     return (
       t.fullName.toLowerCase().includes(searchLower) ||
-      (t.displayName && t.displayName.toLowerCase().includes(searchLower))
+      (t.displayName && t.displayName.toLowerCase().includes(searchLower)) ||
+      viewsByTable.get(t.fullName)?.some((v) => v.name.toLowerCase().includes(searchLower))
     );
   });
 
@@ -43,18 +87,22 @@ export function TableSidebar({
             My Reports
           </Button>
         </Link>
-        <Link href="/weekly-performance">
-          <Button variant="outline" className="w-full gap-2" data-testid="link-weekly-performance">
-            <BarChart3 className="h-4 w-4" />
-            Marketing Dashboard
-          </Button>
-        </Link>
-        <Link href="/operations-performance">
-          <Button variant="outline" className="w-full gap-2" data-testid="link-operations-performance">
-            <Truck className="h-4 w-4" />
-            Operations Dashboard
-          </Button>
-        </Link>
+        {hasPermission(user, "view_marketing_dashboard") && (
+          <Link href="/weekly-performance">
+            <Button variant="outline" className="w-full gap-2" data-testid="link-weekly-performance">
+              <BarChart3 className="h-4 w-4" />
+              Marketing Dashboard
+            </Button>
+          </Link>
+        )}
+        {hasPermission(user, "view_operations_dashboard") && (
+          <Link href="/operations-performance">
+            <Button variant="outline" className="w-full gap-2" data-testid="link-operations-performance">
+              <Truck className="h-4 w-4" />
+              Operations Dashboard
+            </Button>
+          </Link>
+        )}
         <div className="relative">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
@@ -84,37 +132,105 @@ export function TableSidebar({
             <div className="space-y-1">
               {filteredTables.map((table) => {
                 const isHidden = table.isVisible === false;
+                const tableViews = viewsByTable.get(table.fullName) || [];
                 return (
-                  <button
-                    key={table.fullName}
-                    onClick={() => onTableSelect(table.fullName)}
-                    className={cn(
-                      "w-full flex flex-col gap-0.5 px-3 py-2 rounded-md text-sm text-left transition-colors hover-elevate",
-                      selectedTable === table.fullName
-                        ? "bg-sidebar-accent text-sidebar-accent-foreground"
-                        : "text-sidebar-foreground",
-                      isHidden && isAdmin && "opacity-60"
-                    )}
-                    data-testid={`button-table-${table.fullName}`}
-                  >
-                    <div className="flex items-center gap-2">
-                      <Table2 className="h-4 w-4 shrink-0" />
-                      <span className={cn("text-xs truncate", isHidden && isAdmin && "line-through")}>
-                        {table.displayName || table.fullName}
-                      </span>
-                      {isHidden && isAdmin && (
-                        <Badge variant="outline" className="text-[10px] px-1 py-0 h-4 shrink-0">
-                          <EyeOff className="h-3 w-3 mr-0.5" />
-                          Hidden
-                        </Badge>
+                  <div key={table.fullName}>
+                    <button
+                      onClick={() => onTableSelect(table.fullName)}
+                      className={cn(
+                        "w-full flex flex-col gap-0.5 px-3 py-2 rounded-md text-sm text-left transition-colors hover-elevate",
+                        selectedTable === table.fullName
+                          ? "bg-sidebar-accent text-sidebar-accent-foreground"
+                          : "text-sidebar-foreground",
+                        isHidden && canSeeHidden && "opacity-60"
+                      )}
+                      data-testid={`button-table-${table.fullName}`}
+                    >
+                      <div className="flex items-center gap-2">
+                        <TableTypeIcon type={table.type} className="h-4 w-4 shrink-0" />
+                        <span className={cn("text-xs truncate", isHidden && canSeeHidden && "line-through")}>
+                          {table.displayName || table.fullName}
+                        </span>
+                        {isHidden && canSeeHidden && (
+                          <Badge variant="outline" className="text-[10px] px-1 py-0 h-4 shrink-0">
+                            <EyeOff className="h-3 w-3 mr-0.5" />
+                            Hidden
+                          </Badge>
+                        )}
+                      </div>
+                      {table.displayName && (
+                        <span className="font-mono text-[10px] text-muted-foreground truncate ml-6">
+                          {table.fullName}
+                        </span>
                       )}
-                    </div>
-                    {table.displayName && (
-                      <span className="font-mono text-[10px] text-muted-foreground truncate ml-6">
-                        {table.fullName}
-                      </span>
+                    </button>
+                    {tableViews.length > 0 && (
+                      <div className="ml-6 mt-0.5 space-y-0.5">
+                        {tableViews.map((view) => {
+                          const VisibilityIcon =
+                            VISIBILITY_OPTIONS.find((o) => o.value === view.visibility)?.icon ?? Table2;
+                          const canManage = view.isOwner || canManageViews;
+                          return (
+                            <div
+                              key={view.id}
+                              className={cn(
+                                "group flex items-center gap-1 rounded-md pr-1 hover-elevate",
+                                activeViewId === view.id
+                                  ? "bg-sidebar-accent text-sidebar-accent-foreground"
+                                  : "text-sidebar-foreground"
+                              )}
+                            >
+                              <button
+                                onClick={() => onViewSelect?.(view)}
+                                className="flex-1 min-w-0 flex items-center gap-2 px-2 py-1 text-xs text-left"
+                                title={view.isOwner ? view.name : `${view.name} (by ${view.ownerEmail})`}
+                                data-testid={`button-saved-view-${view.id}`}
+                              >
+                                <VisibilityIcon className="h-3 w-3 shrink-0 text-muted-foreground" />
+                                <span className="truncate">{view.name}</span>
+                              </button>
+                              {canManage && (
+                                <DropdownMenu>
+                                  <DropdownMenuTrigger asChild>
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      className="h-5 w-5 shrink-0 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"
+                                      data-testid={`button-saved-view-menu-${view.id}`}
+                                    >
+                                      <MoreHorizontal className="h-3 w-3" />
+                                    </Button>
+                                  </DropdownMenuTrigger>
+                                  <DropdownMenuContent align="start">
+                                    {view.isOwner && (
+                                      <>
+                                        <DropdownMenuItem
+                                          onClick={() => onViewUpdate?.(view)}
+                                          disabled={activeViewId !== view.id}
+                                        >
+                                          Update with current settings
+                                        </DropdownMenuItem>
+                                        <DropdownMenuItem onClick={() => onViewEdit?.(view)}>
+                                          Rename and share...
+                                        </DropdownMenuItem>
+                                        <DropdownMenuSeparator />
+                                      </>
+                                    )}
+                                    <DropdownMenuItem
+                                      onClick={() => onViewDelete?.(view)}
+                                      className="text-destructive"
+                                    >
+                                      Delete
+                                    </DropdownMenuItem>
+                                  </DropdownMenuContent>
+                                </DropdownMenu>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
                     )}
-                  </button>
+                  </div>
                 );
               })}
             </div>
@@ -3,22 +3,86 @@ export interface DatabaseConnection {
   url: string;
 }
 
+export type TableObjectType = "table" | "view" | "materialized_view";
+
 export interface TableInfo {
   schema: string;
   name: string;
   fullName: string;
   displayName?: string | null;
   isVisible?: boolean;
+  type?: TableObjectType;
 }
 
+export const TABLE_OBJECT_TYPE_LABELS: Record<TableObjectType, string> = {
+  table: "Table",
+  view: "View",
+  materialized_view: "Materialized view",
+};
+
+export interface SchemaSetting {
+  name: string;
+  isExposed: boolean;
+}
+
+export interface ForeignKeyRef {
+  table: string;
+  column: string;
+}
+
+export type ColumnMask = "hide" | "partial" | "hash" | "null";
+
+// Roles masking rules can target: any role without the view_restricted_data permission
+export type MaskedRole = UserRole;
+
+// column -> role -> mask
+export type ColumnMaskRules = Record<string, Partial<Record<MaskedRole, ColumnMask>>>;
+
+export const COLUMN_MASK_LABELS: Record<ColumnMask, string> = {
+  hide: "Hidden",
+  partial: "Partial mask",
+  hash: "Hashed",
+  null: "Nulled out",
+};
+
 export interface ColumnInfo {
   name: string;
   dataType: string;
   isNullable: boolean;
   isPrimaryKey: boolean;
+  foreignKey?: ForeignKeyRef | null;
+  // Mask applied for the current user's role
+  mask?: ColumnMask | null;
+}
+
+export interface TableRelationship {
+  table: string;
+  column: string;
+  referencedColumn: string;
+  displayName?: string | null;
 }
 
-export type FilterOperator = "eq" | "contains" | "gt" | "gte" | "lt" | "lte" | "between";
+export type FilterOperator =
+  | "eq"
+  | "neq"
+  | "contains"
+  | "starts_with"
+  | "ends_with"
+  | "regex"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "between"
+  | "in"
+  | "not_in"
+  | "is_null"
+  | "is_not_null"
+  | "last_n_days"
+  | "this_week"
+  | "this_month"
+  | "has_key"
+  | "array_contains";
 
 export interface FilterDefinition {
   id: string;
@@ -31,14 +95,215 @@ export interface ActiveFilter {
   column: string;
   operator: FilterOperator;
   value: string | string[];
+  // Key path into a json/jsonb column
+  path?: string[];
+}
+
+// Nested AND/OR filter group; a flat ActiveFilter[] is an implicit AND group
+export interface FilterGroup {
+  type: "group";
+  connective: "and" | "or";
+  negate?: boolean;
+  children: FilterNode[];
 }
 
+export type FilterNode = ActiveFilter | FilterGroup;
+
 export interface QueryResponse {
   rows: Record<string, unknown>[];
   totalCount: number;
   page: number;
   pageSize: number;
   totalPages: number;
+  isApproximateCount?: boolean;
+  pagination?: PaginationMode;
+  prevCursor?: unknown[] | null;
+  nextCursor?: unknown[] | null;
+  hasPreviousPage?: boolean;
+  hasNextPage?: boolean;
+  // Keyset paging was requested but the table has no usable key, so the page came by offset
+  keysetUnavailable?: boolean;
+}
+
+export type AggregateStat = "count" | "distinct" | "sum" | "avg" | "min" | "max";
+
+// Stats the server could compute for a column's type (sum/avg only for numbers, etc.)
+export type ColumnAggregates = Partial<Record<AggregateStat, number | string | null>>;
+
+export interface AggregatesResponse {
+  totalCount: number;
+  aggregates: Record<string, ColumnAggregates>;
+  skippedColumns: string[];
+}
+
+export const AGGREGATE_LABELS: Record<AggregateStat, string> = {
+  count: "Count",
+  distinct: "Distinct",
+  sum: "Sum",
+  avg: "Average",
+  min: "Min",
+  max: "Max",
+};
+
+export type SummarizeBucket = "day" | "week" | "month";
+export type SummarizeFunction = "count" | "count_distinct" | "sum" | "avg" | "min" | "max";
+
+export interface SummarizeSpec {
+  groupBy: Array<{ column: string; bucket?: SummarizeBucket }>;
+  aggregates: Array<{ function: SummarizeFunction; column?: string }>;
+  sort?: { column: string; direction: "asc" | "desc" } | null;
+}
+
+export interface SummarizeOutputColumn {
+  name: string;
+  kind: "group" | "aggregate";
+  column?: string;
+  bucket?: SummarizeBucket;
+  function?: SummarizeFunction;
+}
+
+export interface SummarizeResponse {
+  columns: SummarizeOutputColumn[];
+  rows: Record<string, unknown>[];
+  truncated: boolean;
+  maxGroups: number;
+}
+
+export const SUMMARIZE_FUNCTION_LABELS: Record<SummarizeFunction, string> = {
+  count: "Count",
+  count_distinct: "Distinct count",
+  sum: "Sum",
+  avg: "Average",
+  min: "Min",
+  max: "Max",
+};
+
+// One table with matches from the cross-database search; rows are keyed by the
+// table's primary key when it has a single-column one
+export interface GlobalSearchTableResult {
+  database: string;
+  table: string;
+  displayName: string | null;
+  primaryKey: string | null;
+  columns: string[];
+  operator: "eq" | "contains";
+  hasMore: boolean;
+  rows: Array<{
+    key: unknown;
+    matches: Array<{ column: string; value: string }>;
+  }>;
+}
+
+export type GlobalSearchEvent =
+  | ({ type: "table" } & GlobalSearchTableResult)
+  | { type: "error"; database: string; table?: string; error: string }
+  | { type: "done"; tablesScanned: number; tablesMatched: number; truncated: boolean; maxTables: number };
+
+export type PaginationMode = "offset" | "keyset";
+
+export type KeysetDirection = "first" | "last" | "next" | "prev";
+
+export const PAGE_SIZE_OPTIONS = [25, 50, 100, 200];
+export const DEFAULT_PAGE_SIZE = 50;
+
+export type ExportFormat = "csv" | "xlsx" | "json" | "ndjson";
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (XLSX)",
+  json: "JSON",
+  ndjson: "NDJSON",
+};
+
+export const EXPORT_FORMATS = Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[];
+
+export type ExportJobStatus = "queued" | "running" | "completed" | "failed" | "cancelled" | "expired";
+
+// A background export listed in the export center
+export interface ExportJob {
+  id: string;
+  database: string;
+  tableName: string;
+  format: ExportFormat;
+  status: ExportJobStatus;
+  estimatedRows: number;
+  rowsWritten: number;
+  fileName: string;
+  fileSize: number | null;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  expiresAt: string | null;
+}
+
+export type ExportApprovalStatus = "pending" | "approved" | "denied";
+
+// An export over a grant's approval threshold waiting for (or reviewed by) an admin
+export interface ExportApproval {
+  id: string;
+  userId: string;
+  database: string;
+  tableName: string;
+  format: ExportFormat;
+  filters: FilterNode[] | FilterGroup;
+  search: string | null;
+  searchColumns: string[] | null;
+  summarize: SummarizeSpec | null;
+  estimatedRows: number;
+  threshold: number;
+  reason: string | null;
+  status: ExportApprovalStatus;
+  reviewedBy: string | null;
+  reviewComment: string | null;
+  reviewedAt: string | null;
+  // The export job an approval started
+  exportJobId: string | null;
+  createdAt: string;
+  // Requester, included in the admin queue
+  userEmail?: string;
+}
+
+// A user's exported rows against their quota, in the admin export usage view
+export interface ExportUsageEntry {
+  userId: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  role: UserRole;
+  rowsToday: number;
+  rowsThisMonth: number;
+  // Null leaves the period uncapped
+  dailyRowLimit: number | null;
+  monthlyRowLimit: number | null;
+  // Whether the quota is the user's own or their role's; null when there is none
+  quotaSource: "user" | "role" | null;
+}
+
+export interface RoleExportQuota {
+  role: UserRole;
+  dailyRowLimit: number | null;
+  monthlyRowLimit: number | null;
+}
+
+export interface ExportUsageReport {
+  users: ExportUsageEntry[];
+  roleQuotas: RoleExportQuota[];
+}
+
+// Raised when a user's exports for a day far exceed their own daily average
+export interface ExportAlert {
+  id: string;
+  userId: string;
+  userEmail: string;
+  database: string | null;
+  tableName: string | null;
+  rowsToday: number;
+  dailyAverage: number;
+  threshold: number;
+  createdAt: string;
+  acknowledgedBy: string | null;
+  acknowledgedAt: string | null;
 }
 
 export type NLQAction = "clarify" | "plan" | "suggest";
@@ -79,6 +344,7 @@ export interface NLQPlan {
     column: string;
     op: FilterOperator;
     value: string | string[];
+    path?: string[];
   }>;
   questions?: string[];
   suggestions?: NLQSuggestion[];
@@ -128,9 +394,87 @@ export const OPERATOR_LABELS: Record<FilterOperator, string> = {
   lt: "less than",
   lte: "less than or equal",
   between: "between",
+  neq: "not equal",
+  starts_with: "starts with",
+  ends_with: "ends with",
+  regex: "matches regex",
+  in: "in",
+  not_in: "not in",
+  is_null: "is null",
+  is_not_null: "is not null",
+  last_n_days: "in last N days",
+  this_week: "this week",
+  this_month: "this month",
+  has_key: "has key",
+  array_contains: "array contains",
 };
 
-export type UserRole = "admin" | "washos_user" | "external_customer";
+// Operators that only apply to json/jsonb columns
+export const JSON_OPERATORS: FilterOperator[] = ["has_key", "array_contains"];
+
+export function isJsonColumn(column: { dataType: string }): boolean {
+  return column.dataType === "json" || column.dataType === "jsonb";
+}
+
+// "metadata.source" for a filter on a JSON path, otherwise just the column
+export function formatFilterColumn(filter: ActiveFilter): string {
+  return filter.path?.length ? `${filter.column}.${filter.path.join(".")}` : filter.column;
+}
+
+// Operators that don't take a value from the user
+export const VALUELESS_OPERATORS: FilterOperator[] = ["is_null", "is_not_null", "this_week", "this_month"];
+
+// Key of a built-in role (admin, washos_user, external_customer) or an admin-defined one
+export type UserRole = string;
+
+export type Permission =
+  | "view_marketing_dashboard"
+  | "view_operations_dashboard"
+  | "use_nlq"
+  | "export"
+  | "export_all"
+  | "manage_reports"
+  | "view_audit_log"
+  | "drill_down"
+  | "access_all_tables"
+  | "view_restricted_data"
+  | "share_views"
+  | "manage_access"
+  | "manage_users"
+  | "manage_settings";
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  view_marketing_dashboard: "View marketing dashboard",
+  view_operations_dashboard: "View operations dashboard",
+  use_nlq: "Use natural language queries",
+  export: "Export",
+  export_all: "Export all rows",
+  manage_reports: "Manage reports",
+  view_audit_log: "View audit log",
+  drill_down: "Drill down into metrics",
+  access_all_tables: "Access all tables",
+  view_restricted_data: "View hidden and masked data",
+  share_views: "Share saved views",
+  manage_access: "Manage table grants and groups",
+  manage_users: "Manage users and roles",
+  manage_settings: "Manage table settings",
+};
+
+export const PERMISSIONS = Object.keys(PERMISSION_LABELS) as Permission[];
+
+// Permissions that open the admin page, each for its own tabs
+export const ADMIN_PERMISSIONS: Permission[] = ["manage_users", "manage_access", "manage_settings"];
+
+export interface RoleDefinition {
+  key: UserRole;
+  name: string;
+  description: string | null;
+  permissions: Permission[];
+  isBuiltIn: boolean;
+  // Most rows one export may contain; null uses defaultExportRowLimit
+  exportRowLimit: number | null;
+  defaultExportRowLimit: number;
+}
 
 export interface User {
   id: string;
@@ -139,18 +483,60 @@ export interface User {
   lastName: string | null;
   profileImageUrl: string | null;
   role: UserRole;
+  // Resolved from the role by the server
+  permissions?: Permission[];
   isActive: boolean;
   createdAt: Date | null;
   updatedAt: Date | null;
 }
 
+export function hasPermission(user: User | null | undefined, permission: Permission): boolean {
+  return !!user?.permissions?.includes(permission);
+}
+
 export interface TableGrant {
   id: string;
-  userId: string;
+  // A grant belongs to either a user or a group
+  userId: string | null;
+  groupId?: string | null;
   database: string;
   tableName: string;
   grantedBy: string;
   grantedAt: Date | null;
+  // Rows the grant covers; null grants every row
+  rowFilter?: FilterNode[] | null;
+  // Columns the grant covers; null grants every column
+  allowedColumns?: string[] | null;
+  // Null for a permanent grant
+  expiresAt?: string | null;
+  // Exports of more rows need an admin's approval; null never needs one
+  exportApprovalThreshold?: number | null;
+  reason?: string | null;
+  // Why a user has the grant, when listed for a user: directly or through a group
+  source?: "user" | "group";
+  groupName?: string | null;
+}
+
+// Grant shown in the admin expiry warning, with the grantee's email or group
+export interface ExpiringGrant extends TableGrant {
+  userEmail: string | null;
+  groupName: string | null;
+}
+
+export interface UserGroup {
+  id: string;
+  name: string;
+  description: string | null;
+  createdAt: string | null;
+  memberCount: number;
+}
+
+export interface UserGroupMember {
+  id: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  role: UserRole;
 }
 
 export interface TableSettings {
@@ -159,6 +545,7 @@ export interface TableSettings {
   isVisible: boolean;
   displayName: string | null;
   hiddenColumns?: string[];
+  columnMasks?: ColumnMaskRules;
 }
 
 export interface FilterHistoryEntry {
@@ -169,3 +556,46 @@ export interface FilterHistoryEntry {
   filters: ActiveFilter[];
   lastUsedAt: string;
 }
+
+export type SavedViewVisibility = "private" | "shared" | "published";
+
+export interface SavedViewState {
+  visibleColumns: string[] | null;
+  filters: FilterNode[];
+  sort: { column: string; direction: "asc" | "desc" }[] | null;
+  pageSize: number;
+}
+
+// Viewer state encoded in a shareable link
+export interface ViewerLinkState extends SavedViewState {
+  database: string;
+  table: string;
+  page: number;
+}
+
+// Link state after the server re-checked access and dropped columns the user can't use
+export interface ResolvedViewerLink extends ViewerLinkState {
+  droppedColumns: string[];
+}
+
+export interface SavedView {
+  id: string;
+  userId: number;
+  database: string;
+  tableName: string;
+  name: string;
+  visibility: SavedViewVisibility;
+  state: SavedViewState;
+  createdAt: string;
+  updatedAt: string;
+  ownerEmail: string;
+  isOwner: boolean;
+  sharedWith: number[];
+}
+
+export interface ShareRecipient {
+  id: number;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+}
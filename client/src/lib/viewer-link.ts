@@ -0,0 +1,46 @@
+import type { ViewerLinkState } from "./types";
+
+// Query string parameter holding the encoded viewer state
+export const VIEWER_LINK_PARAM = "v";
+
+// base64url of the JSON state, so filters with any characters survive copy/paste
+export function encodeViewerLink(state: ViewerLinkState): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(state));
+  let binary = "";
+  bytes.forEach((b) => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+// Returns null for tokens that aren't valid base64url JSON; the server validates the contents
+export function decodeViewerLink(token: string): ViewerLinkState | null {
+  try {
+    const binary = atob(token.replace(/-/g, "+").replace(/_/g, "/"));
+    const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+    const state = JSON.parse(new TextDecoder().decode(bytes));
+    return state && typeof state === "object" ? state : null;
+  } catch {
+    return null;
+  }
+}
+
+export function readViewerLinkFromUrl(): ViewerLinkState | null {
+  const token = new URLSearchParams(window.location.search).get(VIEWER_LINK_PARAM);
+  return token ? decodeViewerLink(token) : null;
+}
+
+// Replace (not push) so paging and filtering don't flood the browser history
+export function writeViewerLinkToUrl(state: ViewerLinkState | null) {
+  const params = new URLSearchParams(window.location.search);
+  if (state) {
+    params.set(VIEWER_LINK_PARAM, encodeViewerLink(state));
+  } else {
+    params.delete(VIEWER_LINK_PARAM);
+  }
+  const query = params.toString();
+  const url = `${window.location.pathname}${query ? `?${query}` : ""}${window.location.hash}`;
+  if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+    window.history.replaceState(window.history.state, "", url);
+  }
+}
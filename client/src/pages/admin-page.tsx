@@ -10,20 +10,222 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { TableTypeIcon } from "@/components/table-sidebar";
+import { summarizeFilterNode } from "@/components/filter-panel";
+import { GrantRowFilterDialog } from "@/components/grant-row-filter-dialog";
+import { GrantColumnsDialog } from "@/components/grant-columns-dialog";
+import { ExportUsagePanel } from "@/components/export-usage-panel";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { ArrowLeft, Users, Table, Shield, Trash2, Plus, Loader2, UserPlus, Eye, EyeOff, Pencil } from "lucide-react";
-import type { User, TableGrant, UserRole, DatabaseConnection, TableInfo, TableSettings } from "@/lib/types";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Users, Table, Shield, Trash2, Plus, Loader2, UserPlus, Eye, EyeOff, Pencil, Filter, Columns3, CalendarPlus, Infinity as InfinityIcon, AlertTriangle, Building2, X, KeyRound, Gauge, FileCheck, Check, BarChart3 } from "lucide-react";
+import type { User, TableGrant, ExpiringGrant, UserGroup, UserGroupMember, FilterNode, UserRole, RoleDefinition, Permission, DatabaseConnection, TableInfo, TableSettings, SchemaSetting, ExportApproval } from "@/lib/types";
+import { ADMIN_PERMISSIONS, EXPORT_FORMAT_LABELS, PERMISSIONS, PERMISSION_LABELS, hasPermission } from "@/lib/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Grants expiring within this many days get a warning (matches the server's window)
+const EXPIRY_WARNING_DAYS = 7;
+const GRANT_EXTENSION_DAYS = 30;
+
+type GrantUpdates = {
+  rowFilter?: FilterNode[] | null;
+  allowedColumns?: string[] | null;
+  expiresAt?: string | null;
+  exportApprovalThreshold?: number | null;
+};
+
+// Blank means no approval threshold; anything else must be a positive row count
+function parseThresholdInput(value: string): number | null {
+  const rows = parseInt(value, 10);
+  return Number.isNaN(rows) || rows < 1 ? null : rows;
+}
+
+// The filters, search and summary an export approval request was made with, in one line
+function describeApprovalRequest(approval: ExportApproval): string {
+  const filters = Array.isArray(approval.filters) ? approval.filters : [approval.filters];
+  const parts = [filters.length > 0 ? `Rows where ${filters.map(summarizeFilterNode).join(" AND ")}` : "All rows"];
+  if (approval.search) parts.push(`search "${approval.search}"`);
+  if (approval.summarize) {
+    parts.push(`summarized by ${approval.summarize.groupBy.map((g) => g.column).join(", ")}`);
+  }
+  return parts.join(" · ");
+}
+
+// New expiry for "Extend": counted from the current expiry, or from now if it already lapsed
+function getExtendedExpiry(grant: TableGrant): string {
+  const from = Math.max(Date.now(), grant.expiresAt ? new Date(grant.expiresAt).getTime() : 0);
+  return new Date(from + GRANT_EXTENSION_DAYS * DAY_MS).toISOString();
+}
+
+function describeGrantExpiry(expiresAt: string): { label: string; tone: "expired" | "soon" | "later" } {
+  const expiry = new Date(expiresAt);
+  const msLeft = expiry.getTime() - Date.now();
+  if (msLeft <= 0) return { label: `Expired on ${expiry.toLocaleDateString()}`, tone: "expired" };
+  const daysLeft = Math.ceil(msLeft / DAY_MS);
+  if (daysLeft <= EXPIRY_WARNING_DAYS) {
+    return { label: `Expires in ${daysLeft} day${daysLeft === 1 ? "" : "s"}`, tone: "soon" };
+  }
+  return { label: `Expires on ${expiry.toLocaleDateString()}`, tone: "later" };
+}
+
+const EXPIRY_TONE_CLASSES = {
+  expired: "text-destructive",
+  soon: "text-amber-600 dark:text-amber-400",
+  later: "text-muted-foreground",
+};
+
+interface GrantActions {
+  onExtend: (grant: TableGrant) => void;
+  onMakePermanent: (grant: TableGrant) => void;
+  onEditColumns: (grant: TableGrant) => void;
+  onEditRowFilter: (grant: TableGrant) => void;
+  onEditApprovalThreshold: (grant: TableGrant) => void;
+  onRevoke: (grant: TableGrant) => void;
+}
+
+// One grant with its scope, expiry and source; grants inherited from a group are read-only
+// here (no actions) and are managed on the group
+function GrantListItem({ grant, actions }: { grant: TableGrant; actions?: GrantActions }) {
+  return (
+    <div
+      className="flex items-center justify-between p-3 rounded-lg border"
+      data-testid={`grant-${grant.id}`}
+    >
+      <div className="flex items-center gap-2 min-w-0">
+        <Table className="h-4 w-4 text-muted-foreground shrink-0" />
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="font-mono text-sm">
+              {grant.database}:{grant.tableName}
+            </span>
+            {grant.source && (
+              <Badge variant={grant.source === "group" ? "secondary" : "outline"} data-testid={`grant-source-${grant.id}`}>
+                {grant.source === "group" ? `Via group ${grant.groupName}` : "Direct"}
+              </Badge>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground truncate">
+            {grant.rowFilter?.length
+              ? `Rows where ${grant.rowFilter.map(summarizeFilterNode).join(" AND ")}`
+              : "All rows"}
+          </p>
+          <p className="text-xs text-muted-foreground truncate" data-testid={`grant-columns-${grant.id}`}>
+            {grant.allowedColumns?.length
+              ? `Columns: ${grant.allowedColumns.join(", ")}`
+              : "All columns"}
+          </p>
+          {grant.expiresAt && (
+            <p
+              className={`text-xs ${EXPIRY_TONE_CLASSES[describeGrantExpiry(grant.expiresAt).tone]}`}
+              data-testid={`grant-expiry-${grant.id}`}
+            >
+              {describeGrantExpiry(grant.expiresAt).label}
+            </p>
+          )}
+          {grant.exportApprovalThreshold != null && (
+            <p className="text-xs text-muted-foreground" data-testid={`grant-approval-threshold-${grant.id}`}>
+              Exports over {grant.exportApprovalThreshold.toLocaleString()} rows need approval
+            </p>
+          )}
+          {grant.reason && (
+            <p className="text-xs text-muted-foreground truncate">Reason: {grant.reason}</p>
+          )}
+        </div>
+      </div>
+      {actions && (
+        <div className="flex items-center gap-1">
+          {grant.expiresAt && (
+            <>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => actions.onExtend(grant)}
+                title={`Extend by ${GRANT_EXTENSION_DAYS} days`}
+                data-testid={`button-extend-grant-${grant.id}`}
+              >
+                <CalendarPlus className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => actions.onMakePermanent(grant)}
+                title="Make permanent"
+                data-testid={`button-permanent-grant-${grant.id}`}
+              >
+                <InfinityIcon className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => actions.onEditColumns(grant)}
+            title="Edit allowed columns"
+            data-testid={`button-grant-columns-${grant.id}`}
+          >
+            <Columns3 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => actions.onEditRowFilter(grant)}
+            title="Edit row filter"
+            data-testid={`button-row-filter-${grant.id}`}
+          >
+            <Filter className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => actions.onEditApprovalThreshold(grant)}
+            title="Edit export approval threshold"
+            data-testid={`button-approval-threshold-${grant.id}`}
+          >
+            <Gauge className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => actions.onRevoke(grant)}
+            data-testid={`button-revoke-${grant.id}`}
+          >
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
 
 export default function AdminPage() {
   const [, navigate] = useLocation();
   const { user: currentUser, isLoading: isAuthLoading } = useAuth();
   const { toast } = useToast();
+  const canManageUsers = hasPermission(currentUser, "manage_users");
+  const canManageAccess = hasPermission(currentUser, "manage_access");
+  const canManageSettings = hasPermission(currentUser, "manage_settings");
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
   const [isGrantDialogOpen, setIsGrantDialogOpen] = useState(false);
+  // Group the grant dialog grants to; null grants to the selected user
+  const [grantGroupId, setGrantGroupId] = useState<string | null>(null);
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+  const [isCreateGroupDialogOpen, setIsCreateGroupDialogOpen] = useState(false);
+  const [newGroupName, setNewGroupName] = useState("");
+  const [newGroupDescription, setNewGroupDescription] = useState("");
+  const [memberToAdd, setMemberToAdd] = useState("");
   const [grantDatabase, setGrantDatabase] = useState("");
   const [grantTable, setGrantTable] = useState("");
+  const [grantExpiresOn, setGrantExpiresOn] = useState("");
+  const [grantReason, setGrantReason] = useState("");
+  const [grantApprovalThreshold, setGrantApprovalThreshold] = useState("");
+  const [thresholdGrant, setThresholdGrant] = useState<TableGrant | null>(null);
+  const [thresholdValue, setThresholdValue] = useState("");
+  // Review comments being typed, per approval request
+  const [reviewComments, setReviewComments] = useState<Record<string, string>>({});
+  const [rowFilterGrant, setRowFilterGrant] = useState<TableGrant | null>(null);
+  const [columnsGrant, setColumnsGrant] = useState<TableGrant | null>(null);
   const [isCreateUserDialogOpen, setIsCreateUserDialogOpen] = useState(false);
   const [newUserEmail, setNewUserEmail] = useState("");
   const [newUserPassword, setNewUserPassword] = useState("");
@@ -43,9 +245,20 @@ export default function AdminPage() {
   const [editUserPassword, setEditUserPassword] = useState("");
   const [editUserRole, setEditUserRole] = useState<UserRole>("external_customer");
 
+  // Create role dialog state
+  const [isCreateRoleDialogOpen, setIsCreateRoleDialogOpen] = useState(false);
+  const [newRoleKey, setNewRoleKey] = useState("");
+  const [newRoleName, setNewRoleName] = useState("");
+  const [newRoleDescription, setNewRoleDescription] = useState("");
+
   const { data: users = [], isLoading: isLoadingUsers } = useQuery<User[]>({
     queryKey: ["/api/admin/users"],
-    enabled: currentUser?.role === "admin",
+    enabled: canManageUsers || canManageAccess,
+  });
+
+  const { data: roles = [] } = useQuery<RoleDefinition[]>({
+    queryKey: ["/api/admin/roles"],
+    enabled: canManageUsers || canManageAccess || canManageSettings,
   });
 
   const { data: databases = [] } = useQuery<DatabaseConnection[]>({
@@ -62,6 +275,31 @@ export default function AdminPage() {
     enabled: !!selectedUserId,
   });
 
+  const { data: groups = [] } = useQuery<UserGroup[]>({
+    queryKey: ["/api/admin/groups"],
+    enabled: canManageAccess,
+  });
+
+  const { data: selectedGroupMembers = [] } = useQuery<UserGroupMember[]>({
+    queryKey: ["/api/admin/groups", selectedGroupId, "members"],
+    enabled: !!selectedGroupId,
+  });
+
+  const { data: selectedGroupGrants = [] } = useQuery<TableGrant[]>({
+    queryKey: ["/api/admin/groups", selectedGroupId, "grants"],
+    enabled: !!selectedGroupId,
+  });
+
+  const { data: expiringGrants = [] } = useQuery<ExpiringGrant[]>({
+    queryKey: ["/api/admin/expiring-grants"],
+    enabled: canManageAccess,
+  });
+
+  const { data: exportApprovals = [] } = useQuery<ExportApproval[]>({
+    queryKey: ["/api/admin/export-approvals"],
+    enabled: canManageAccess,
+  });
+
   const { data: visibilityTables = [], isLoading: isLoadingVisibilityTables } = useQuery<TableInfo[]>({
     queryKey: ["/api/tables", visibilityDatabase],
     enabled: !!visibilityDatabase,
@@ -69,6 +307,12 @@ export default function AdminPage() {
 
   const { data: tableSettings = {} } = useQuery<Record<string, { isVisible: boolean; displayName: string | null }>>({
     queryKey: ["/api/admin/table-settings"],
+    enabled: canManageSettings,
+  });
+
+  const { data: schemaSettings = [] } = useQuery<SchemaSetting[]>({
+    queryKey: ["/api/admin/schemas", visibilityDatabase],
+    enabled: !!visibilityDatabase,
   });
 
   // Auto-select first database for visibility tab
@@ -93,15 +337,151 @@ export default function AdminPage() {
     },
   });
 
+  // Grants show up per user (with their groups'), per group and in the expiry warning
+  const invalidateGrantQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/grants"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/groups"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/expiring-grants"] });
+  };
+
+  const createGroupMutation = useMutation({
+    mutationFn: async (group: { name: string; description: string }) => {
+      const res = await apiRequest("POST", "/api/admin/groups", group);
+      return res.json() as Promise<UserGroup>;
+    },
+    onSuccess: (group) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/groups"] });
+      setIsCreateGroupDialogOpen(false);
+      setNewGroupName("");
+      setNewGroupDescription("");
+      setSelectedGroupId(group.id);
+      toast({ title: "Group created", description: `${group.name} has been created.` });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err instanceof Error ? err.message : "Failed to create group", variant: "destructive" });
+    },
+  });
+
+  const deleteGroupMutation = useMutation({
+    mutationFn: async (groupId: string) => {
+      return apiRequest("DELETE", `/api/admin/groups/${groupId}`);
+    },
+    onSuccess: () => {
+      invalidateGrantQueries();
+      setSelectedGroupId(null);
+      toast({ title: "Group deleted", description: "The group and its grants have been removed." });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err instanceof Error ? err.message : "Failed to delete group", variant: "destructive" });
+    },
+  });
+
+  const createRoleMutation = useMutation({
+    mutationFn: async (role: { key: string; name: string; description: string; permissions: Permission[] }) => {
+      const res = await apiRequest("POST", "/api/admin/roles", role);
+      return res.json() as Promise<RoleDefinition>;
+    },
+    onSuccess: (role) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/roles"] });
+      setIsCreateRoleDialogOpen(false);
+      setNewRoleKey("");
+      setNewRoleName("");
+      setNewRoleDescription("");
+      toast({ title: "Role created", description: `${role.name} has been created.` });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err instanceof Error ? err.message : "Failed to create role", variant: "destructive" });
+    },
+  });
+
+  const updateRolePermissionsMutation = useMutation({
+    mutationFn: async ({ key, permissions }: { key: string; permissions: Permission[] }) => {
+      return apiRequest("PATCH", `/api/admin/roles/${key}`, { permissions });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/roles"] });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err instanceof Error ? err.message : "Failed to update role", variant: "destructive" });
+    },
+  });
+
+  const deleteRoleMutation = useMutation({
+    mutationFn: async (key: string) => {
+      return apiRequest("DELETE", `/api/admin/roles/${key}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/roles"] });
+      toast({ title: "Role deleted", description: "The role has been removed." });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err instanceof Error ? err.message : "Failed to delete role", variant: "destructive" });
+    },
+  });
+
+  const updateRoleExportLimitMutation = useMutation({
+    mutationFn: async ({ key, rowLimit }: { key: string; rowLimit: number | null }) => {
+      return apiRequest("PUT", `/api/admin/roles/${key}/export-limit`, { rowLimit });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/roles"] });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err instanceof Error ? err.message : "Failed to update export limit", variant: "destructive" });
+    },
+  });
+
+  // An empty field goes back to the role's default limit
+  const saveRoleExportLimit = (role: RoleDefinition, value: string) => {
+    const rowLimit = value.trim() === "" ? null : Number(value);
+    if (rowLimit === role.exportRowLimit) return;
+    updateRoleExportLimitMutation.mutate({ key: role.key, rowLimit });
+  };
+
+  const toggleRolePermission = (role: RoleDefinition, permission: Permission, checked: boolean) => {
+    const permissions = checked
+      ? [...role.permissions, permission]
+      : role.permissions.filter((p) => p !== permission);
+    updateRolePermissionsMutation.mutate({ key: role.key, permissions });
+  };
+
+  const addGroupMemberMutation = useMutation({
+    mutationFn: async ({ groupId, userId }: { groupId: string; userId: string }) => {
+      return apiRequest("POST", `/api/admin/groups/${groupId}/members`, { userId });
+    },
+    onSuccess: () => {
+      invalidateGrantQueries();
+      setMemberToAdd("");
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err instanceof Error ? err.message : "Failed to add member", variant: "destructive" });
+    },
+  });
+
+  const removeGroupMemberMutation = useMutation({
+    mutationFn: async ({ groupId, userId }: { groupId: string; userId: string }) => {
+      return apiRequest("DELETE", `/api/admin/groups/${groupId}/members/${userId}`);
+    },
+    onSuccess: () => {
+      invalidateGrantQueries();
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err instanceof Error ? err.message : "Failed to remove member", variant: "destructive" });
+    },
+  });
+
   const addGrantMutation = useMutation({
-    mutationFn: async (grant: { userId: string; database: string; tableName: string }) => {
+    mutationFn: async (grant: { userId?: string; groupId?: string; database: string; tableName: string; expiresAt: string | null; exportApprovalThreshold: number | null; reason: string }) => {
       return apiRequest("POST", "/api/admin/grants", grant);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/admin/grants", selectedUserId] });
+      invalidateGrantQueries();
       setIsGrantDialogOpen(false);
       setGrantDatabase("");
       setGrantTable("");
+      setGrantExpiresOn("");
+      setGrantReason("");
+      setGrantApprovalThreshold("");
       toast({ title: "Access granted", description: "Table access has been granted." });
     },
     onError: (err) => {
@@ -114,7 +494,7 @@ export default function AdminPage() {
       return apiRequest("DELETE", `/api/admin/grants/${grantId}`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/admin/grants", selectedUserId] });
+      invalidateGrantQueries();
       toast({ title: "Access revoked", description: "Table access has been removed." });
     },
     onError: (err) => {
@@ -122,6 +502,41 @@ export default function AdminPage() {
     },
   });
 
+  const updateGrantMutation = useMutation({
+    mutationFn: async ({ grantId, updates }: { grantId: string; updates: GrantUpdates }) => {
+      return apiRequest("PATCH", `/api/admin/grants/${grantId}`, updates);
+    },
+    onSuccess: () => {
+      invalidateGrantQueries();
+      toast({ title: "Grant updated", description: "The grant has been saved." });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err instanceof Error ? err.message : "Failed to update grant", variant: "destructive" });
+    },
+  });
+
+  const reviewExportMutation = useMutation({
+    mutationFn: async ({ approvalId, decision, comment }: { approvalId: string; decision: "approve" | "deny"; comment: string }) => {
+      return apiRequest("POST", `/api/admin/export-approvals/${approvalId}/${decision}`, { comment });
+    },
+    onSuccess: (_, { approvalId, decision }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/export-approvals"] });
+      setReviewComments((prev) => {
+        const { [approvalId]: _removed, ...rest } = prev;
+        return rest;
+      });
+      toast({
+        title: decision === "approve" ? "Export approved" : "Export denied",
+        description: decision === "approve"
+          ? "The export is running and will appear in the requester's Export Center."
+          : "The requester can see your decision in their Export Center.",
+      });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err instanceof Error ? err.message : "Failed to review export", variant: "destructive" });
+    },
+  });
+
   const createUserMutation = useMutation({
     mutationFn: async (userData: { email: string; password: string; firstName?: string; lastName?: string; role: UserRole }) => {
       return apiRequest("POST", "/api/admin/users", userData);
@@ -154,6 +569,20 @@ export default function AdminPage() {
     },
   });
 
+  const updateSchemasMutation = useMutation({
+    mutationFn: async ({ database, schemas }: { database: string; schemas: string[] }) => {
+      return apiRequest("POST", `/api/admin/schemas/${encodeURIComponent(database)}`, { schemas });
+    },
+    onSuccess: (_, { database }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/schemas", database] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tables", database] });
+      toast({ title: "Schemas updated", description: "The table list now shows the selected schemas." });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err instanceof Error ? err.message : "Failed to update schemas", variant: "destructive" });
+    },
+  });
+
   const updateTableSettingsMutation = useMutation({
     mutationFn: async (data: { database: string; tableName: string; isVisible: boolean; displayName: string | null }) => {
       return apiRequest("POST", "/api/admin/table-settings", data);
@@ -169,6 +598,18 @@ export default function AdminPage() {
     },
   });
 
+  const grantActions: GrantActions = {
+    onExtend: (grant) => updateGrantMutation.mutate({ grantId: grant.id, updates: { expiresAt: getExtendedExpiry(grant) } }),
+    onMakePermanent: (grant) => updateGrantMutation.mutate({ grantId: grant.id, updates: { expiresAt: null } }),
+    onEditColumns: setColumnsGrant,
+    onEditRowFilter: setRowFilterGrant,
+    onEditApprovalThreshold: (grant) => {
+      setThresholdGrant(grant);
+      setThresholdValue(grant.exportApprovalThreshold ? String(grant.exportApprovalThreshold) : "");
+    },
+    onRevoke: (grant) => deleteGrantMutation.mutate(grant.id),
+  };
+
   if (isAuthLoading) {
     return (
       <div className="flex items-center justify-center h-screen">
@@ -177,7 +618,7 @@ export default function AdminPage() {
     );
   }
 
-  if (currentUser?.role !== "admin") {
+  if (!ADMIN_PERMISSIONS.some((permission) => hasPermission(currentUser, permission))) {
     return (
       <div className="flex flex-col items-center justify-center h-screen gap-4">
         <Shield className="h-16 w-16 text-muted-foreground" />
@@ -190,19 +631,17 @@ export default function AdminPage() {
     );
   }
 
-  const roleLabels: Record<UserRole, string> = {
-    admin: "Admin",
-    washos_user: "WashOS User",
-    external_customer: "External Customer",
-  };
-
-  const roleColors: Record<UserRole, "default" | "secondary" | "outline"> = {
-    admin: "default",
-    washos_user: "secondary",
-    external_customer: "outline",
-  };
+  // Users whose role only reaches tables through grants
+  const grantedUsers = users.filter(
+    (u) => !roles.find((role) => role.key === u.role)?.permissions.includes("access_all_tables")
+  );
+  const defaultTab = canManageUsers ? "users" : canManageAccess ? "access" : "visibility";
 
   const selectedUser = users.find(u => u.id === selectedUserId);
+  const selectedGroup = groups.find(g => g.id === selectedGroupId);
+  const grantGroup = groups.find(g => g.id === grantGroupId);
+  const pendingApprovals = exportApprovals.filter((a) => a.status === "pending");
+  const reviewedApprovals = exportApprovals.filter((a) => a.status !== "pending");
 
   return (
     <div className="min-h-screen bg-background">
@@ -221,17 +660,42 @@ export default function AdminPage() {
       </header>
 
       <main className="container mx-auto px-4 py-8">
-        <Tabs defaultValue="users" className="space-y-6">
+        <Tabs defaultValue={defaultTab} className="space-y-6">
           <TabsList>
-            <TabsTrigger value="users" className="gap-2" data-testid="tab-users">
-              <Users className="h-4 w-4" /> Users
-            </TabsTrigger>
-            <TabsTrigger value="access" className="gap-2" data-testid="tab-access">
-              <Table className="h-4 w-4" /> Table Access
-            </TabsTrigger>
-            <TabsTrigger value="visibility" className="gap-2" data-testid="tab-visibility">
-              <Eye className="h-4 w-4" /> Table Visibility
-            </TabsTrigger>
+            {canManageUsers && (
+              <>
+                <TabsTrigger value="users" className="gap-2" data-testid="tab-users">
+                  <Users className="h-4 w-4" /> Users
+                </TabsTrigger>
+                <TabsTrigger value="roles" className="gap-2" data-testid="tab-roles">
+                  <KeyRound className="h-4 w-4" /> Roles
+                </TabsTrigger>
+                <TabsTrigger value="export-usage" className="gap-2" data-testid="tab-export-usage">
+                  <BarChart3 className="h-4 w-4" /> Export Usage
+                </TabsTrigger>
+              </>
+            )}
+            {canManageAccess && (
+              <>
+                <TabsTrigger value="access" className="gap-2" data-testid="tab-access">
+                  <Table className="h-4 w-4" /> Table Access
+                </TabsTrigger>
+                <TabsTrigger value="groups" className="gap-2" data-testid="tab-groups">
+                  <Building2 className="h-4 w-4" /> Groups
+                </TabsTrigger>
+                <TabsTrigger value="approvals" className="gap-2" data-testid="tab-approvals">
+                  <FileCheck className="h-4 w-4" /> Export Approvals
+                  {pendingApprovals.length > 0 && (
+                    <Badge variant="secondary" className="ml-1 px-1.5 text-[10px]">{pendingApprovals.length}</Badge>
+                  )}
+                </TabsTrigger>
+              </>
+            )}
+            {canManageSettings && (
+              <TabsTrigger value="visibility" className="gap-2" data-testid="tab-visibility">
+                <Eye className="h-4 w-4" /> Table Visibility
+              </TabsTrigger>
+            )}
           </TabsList>
 
           <TabsContent value="users" className="space-y-4">
@@ -282,9 +746,9 @@ export default function AdminPage() {
                               <SelectValue />
                             </SelectTrigger>
                             <SelectContent>
-                              <SelectItem value="admin">Admin</SelectItem>
-                              <SelectItem value="washos_user">WashOS User</SelectItem>
-                              <SelectItem value="external_customer">External Customer</SelectItem>
+                              {roles.map((role) => (
+                                <SelectItem key={role.key} value={role.key}>{role.name}</SelectItem>
+                              ))}
                             </SelectContent>
                           </Select>
                           <div className="flex items-center gap-2">
@@ -334,37 +798,176 @@ export default function AdminPage() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="roles" className="space-y-4">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between gap-2">
+                <div>
+                  <CardTitle>Roles &amp; Permissions</CardTitle>
+                  <CardDescription>
+                    What each role can do. Built-in roles are fixed; custom roles can be edited here.
+                    Export row limits can be set for every role.
+                  </CardDescription>
+                </div>
+                <Button onClick={() => setIsCreateRoleDialogOpen(true)} data-testid="button-add-role">
+                  <Plus className="h-4 w-4 mr-2" /> Add Role
+                </Button>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <table className="w-full text-sm" data-testid="table-role-permissions">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left font-medium text-muted-foreground py-2 pr-4">Permission</th>
+                      {roles.map((role) => (
+                        <th key={role.key} className="font-medium py-2 px-3 text-center whitespace-nowrap">
+                          <div className="flex items-center justify-center gap-1">
+                            {role.name}
+                            {role.isBuiltIn ? (
+                              <Badge variant="outline" className="text-[10px]">Built-in</Badge>
+                            ) : (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6"
+                                onClick={() => {
+                                  if (confirm(`Delete the ${role.name} role?`)) {
+                                    deleteRoleMutation.mutate(role.key);
+                                  }
+                                }}
+                                data-testid={`button-delete-role-${role.key}`}
+                              >
+                                <Trash2 className="h-3 w-3 text-destructive" />
+                              </Button>
+                            )}
+                          </div>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {PERMISSIONS.map((permission) => (
+                      <tr key={permission} className="border-b last:border-0">
+                        <td className="py-2 pr-4">{PERMISSION_LABELS[permission]}</td>
+                        {roles.map((role) => (
+                          <td key={role.key} className="py-2 px-3 text-center">
+                            <Checkbox
+                              checked={role.permissions.includes(permission)}
+                              onCheckedChange={(checked) => toggleRolePermission(role, permission, checked === true)}
+                              disabled={role.isBuiltIn || updateRolePermissionsMutation.isPending}
+                              data-testid={`checkbox-role-${role.key}-${permission}`}
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                    <tr>
+                      <td className="py-2 pr-4">Export row limit</td>
+                      {roles.map((role) => (
+                        <td key={role.key} className="py-2 px-3 text-center">
+                          <Input
+                            key={`${role.key}-${role.exportRowLimit}`}
+                            type="number"
+                            min={1}
+                            defaultValue={role.exportRowLimit ?? ""}
+                            placeholder={role.defaultExportRowLimit.toLocaleString()}
+                            onBlur={(e) => saveRoleExportLimit(role, e.target.value)}
+                            disabled={updateRoleExportLimitMutation.isPending}
+                            className="h-8 w-28 mx-auto text-right"
+                            data-testid={`input-role-export-limit-${role.key}`}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="export-usage" className="space-y-4">
+            <ExportUsagePanel roles={roles} />
+          </TabsContent>
+
           <TabsContent value="access" className="space-y-4">
+            {expiringGrants.length > 0 && (
+              <Card className="border-amber-500/50" data-testid="card-expiring-grants">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <AlertTriangle className="h-5 w-5 text-amber-500" />
+                    Grants Expiring Soon
+                  </CardTitle>
+                  <CardDescription>
+                    These grants lapse within {EXPIRY_WARNING_DAYS} days unless extended
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {expiringGrants.map((grant) => (
+                    <div
+                      key={grant.id}
+                      className="flex items-center justify-between gap-2 p-3 rounded-lg border"
+                      data-testid={`expiring-grant-${grant.id}`}
+                    >
+                      <div className="min-w-0">
+                        <span className="font-mono text-sm">
+                          {grant.database}:{grant.tableName}
+                        </span>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {grant.groupName ? `Group ${grant.groupName}` : grant.userEmail} · {describeGrantExpiry(grant.expiresAt!).label}
+                          {grant.reason && ` · ${grant.reason}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => updateGrantMutation.mutate({ grantId: grant.id, updates: { expiresAt: getExtendedExpiry(grant) } })}
+                          data-testid={`button-extend-expiring-grant-${grant.id}`}
+                        >
+                          <CalendarPlus className="h-4 w-4 mr-1" />
+                          Extend {GRANT_EXTENSION_DAYS} days
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => updateGrantMutation.mutate({ grantId: grant.id, updates: { expiresAt: null } })}
+                          data-testid={`button-permanent-expiring-grant-${grant.id}`}
+                        >
+                          <InfinityIcon className="h-4 w-4 mr-1" />
+                          Make permanent
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
             <div className="grid md:grid-cols-2 gap-6">
               <Card>
                 <CardHeader>
-                  <CardTitle>External Customers</CardTitle>
-                  <CardDescription>Select a customer to manage their table access</CardDescription>
+                  <CardTitle>Granted Users</CardTitle>
+                  <CardDescription>Users whose role needs a grant per table; select one to manage their access</CardDescription>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-2">
-                    {users
-                      .filter((u) => u.role === "external_customer")
-                      .map((user) => (
-                        <Button
-                          key={user.id}
-                          variant={selectedUserId === user.id ? "secondary" : "ghost"}
-                          className="w-full justify-start"
-                          onClick={() => setSelectedUserId(user.id)}
-                          data-testid={`button-select-customer-${user.id}`}
-                        >
-                          <Avatar className="h-6 w-6 mr-2">
-                            <AvatarImage src={user.profileImageUrl || undefined} />
-                            <AvatarFallback className="text-xs">
-                              {(user.firstName?.[0] || "") + (user.lastName?.[0] || "")}
-                            </AvatarFallback>
-                          </Avatar>
-                          {user.firstName} {user.lastName}
-                        </Button>
-                      ))}
-                    {users.filter((u) => u.role === "external_customer").length === 0 && (
+                    {grantedUsers.map((user) => (
+                      <Button
+                        key={user.id}
+                        variant={selectedUserId === user.id ? "secondary" : "ghost"}
+                        className="w-full justify-start"
+                        onClick={() => setSelectedUserId(user.id)}
+                        data-testid={`button-select-customer-${user.id}`}
+                      >
+                        <Avatar className="h-6 w-6 mr-2">
+                          <AvatarImage src={user.profileImageUrl || undefined} />
+                          <AvatarFallback className="text-xs">
+                            {(user.firstName?.[0] || "") + (user.lastName?.[0] || "")}
+                          </AvatarFallback>
+                        </Avatar>
+                        {user.firstName} {user.lastName}
+                      </Button>
+                    ))}
+                    {grantedUsers.length === 0 && (
                       <p className="text-sm text-muted-foreground text-center py-4">
-                        No external customers found
+                        No users need table grants
                       </p>
                     )}
                   </div>
@@ -384,7 +987,10 @@ export default function AdminPage() {
                   {selectedUserId && (
                     <Button
                       size="sm"
-                      onClick={() => setIsGrantDialogOpen(true)}
+                      onClick={() => {
+                        setGrantGroupId(null);
+                        setIsGrantDialogOpen(true);
+                      }}
                       data-testid="button-add-grant"
                     >
                       <Plus className="h-4 w-4 mr-1" /> Grant Access
@@ -395,26 +1001,11 @@ export default function AdminPage() {
                   {selectedUserId ? (
                     <div className="space-y-2">
                       {selectedUserGrants.map((grant) => (
-                        <div
+                        <GrantListItem
                           key={grant.id}
-                          className="flex items-center justify-between p-3 rounded-lg border"
-                          data-testid={`grant-${grant.id}`}
-                        >
-                          <div className="flex items-center gap-2">
-                            <Table className="h-4 w-4 text-muted-foreground" />
-                            <span className="font-mono text-sm">
-                              {grant.database}:{grant.tableName}
-                            </span>
-                          </div>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => deleteGrantMutation.mutate(grant.id)}
-                            data-testid={`button-revoke-${grant.id}`}
-                          >
-                            <Trash2 className="h-4 w-4 text-destructive" />
-                          </Button>
-                        </div>
+                          grant={grant}
+                          actions={grant.source === "group" ? undefined : grantActions}
+                        />
                       ))}
                       {selectedUserGrants.length === 0 && (
                         <p className="text-sm text-muted-foreground text-center py-4">
@@ -432,6 +1023,247 @@ export default function AdminPage() {
             </div>
           </TabsContent>
 
+          <TabsContent value="groups" className="space-y-4">
+            <div className="grid md:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between gap-2">
+                  <div>
+                    <CardTitle>Groups</CardTitle>
+                    <CardDescription>Organizations whose members share table grants</CardDescription>
+                  </div>
+                  <Button size="sm" onClick={() => setIsCreateGroupDialogOpen(true)} data-testid="button-add-group">
+                    <Plus className="h-4 w-4 mr-1" /> New Group
+                  </Button>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    {groups.map((group) => (
+                      <Button
+                        key={group.id}
+                        variant={selectedGroupId === group.id ? "secondary" : "ghost"}
+                        className="w-full justify-between"
+                        onClick={() => setSelectedGroupId(group.id)}
+                        data-testid={`button-select-group-${group.id}`}
+                      >
+                        <span className="flex items-center gap-2">
+                          <Building2 className="h-4 w-4" />
+                          {group.name}
+                        </span>
+                        <span className="text-xs text-muted-foreground">
+                          {group.memberCount} member{group.memberCount === 1 ? "" : "s"}
+                        </span>
+                      </Button>
+                    ))}
+                    {groups.length === 0 && (
+                      <p className="text-sm text-muted-foreground text-center py-4">No groups yet</p>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between gap-2">
+                  <div>
+                    <CardTitle>{selectedGroup?.name ?? "Group"}</CardTitle>
+                    <CardDescription>
+                      {selectedGroup
+                        ? selectedGroup.description || "Members and the tables granted to all of them"
+                        : "Select a group to manage its members and access"}
+                    </CardDescription>
+                  </div>
+                  {selectedGroup && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => {
+                        if (confirm(`Delete ${selectedGroup.name}? Its members lose the group's grants.`)) {
+                          deleteGroupMutation.mutate(selectedGroup.id);
+                        }
+                      }}
+                      data-testid="button-delete-group"
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  )}
+                </CardHeader>
+                <CardContent>
+                  {selectedGroup ? (
+                    <div className="space-y-6">
+                      <div className="space-y-2">
+                        <Label>Members</Label>
+                        <div className="flex gap-2">
+                          <Select value={memberToAdd} onValueChange={setMemberToAdd}>
+                            <SelectTrigger data-testid="select-group-member">
+                              <SelectValue placeholder="Add a user..." />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {users
+                                .filter((u) => !selectedGroupMembers.some((m) => m.id === u.id))
+                                .map((u) => (
+                                  <SelectItem key={u.id} value={u.id}>
+                                    {u.email}
+                                  </SelectItem>
+                                ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            onClick={() => addGroupMemberMutation.mutate({ groupId: selectedGroup.id, userId: memberToAdd })}
+                            disabled={!memberToAdd || addGroupMemberMutation.isPending}
+                            data-testid="button-add-group-member"
+                          >
+                            <UserPlus className="h-4 w-4" />
+                          </Button>
+                        </div>
+                        {selectedGroupMembers.map((member) => (
+                          <div
+                            key={member.id}
+                            className="flex items-center justify-between p-2 rounded-lg border"
+                            data-testid={`group-member-${member.id}`}
+                          >
+                            <div>
+                              <div className="text-sm font-medium">
+                                {member.firstName} {member.lastName}
+                              </div>
+                              <div className="text-xs text-muted-foreground">{member.email}</div>
+                            </div>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => removeGroupMemberMutation.mutate({ groupId: selectedGroup.id, userId: member.id })}
+                              data-testid={`button-remove-group-member-${member.id}`}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ))}
+                        {selectedGroupMembers.length === 0 && (
+                          <p className="text-sm text-muted-foreground text-center py-2">No members yet</p>
+                        )}
+                      </div>
+
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <Label>Table Access</Label>
+                          <Button
+                            size="sm"
+                            onClick={() => {
+                              setGrantGroupId(selectedGroup.id);
+                              setIsGrantDialogOpen(true);
+                            }}
+                            data-testid="button-add-group-grant"
+                          >
+                            <Plus className="h-4 w-4 mr-1" /> Grant Access
+                          </Button>
+                        </div>
+                        {selectedGroupGrants.map((grant) => (
+                          <GrantListItem key={grant.id} grant={grant} actions={grantActions} />
+                        ))}
+                        {selectedGroupGrants.length === 0 && (
+                          <p className="text-sm text-muted-foreground text-center py-2">No table access granted</p>
+                        )}
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                      Select a group from the left to manage it
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="approvals" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Pending Export Requests</CardTitle>
+                <CardDescription>
+                  Exports over a grant's approval threshold; an approved export runs for the requester and
+                  is kept in their Export Center until it expires
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {pendingApprovals.map((approval) => (
+                  <div key={approval.id} className="p-3 rounded-lg border space-y-2" data-testid={`pending-approval-${approval.id}`}>
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-mono text-sm">{approval.database}:{approval.tableName}</span>
+                      <Badge variant="outline">{EXPORT_FORMAT_LABELS[approval.format]}</Badge>
+                      <span className="text-xs text-muted-foreground">
+                        {approval.userEmail} · {new Date(approval.createdAt).toLocaleString()}
+                      </span>
+                    </div>
+                    <p className="text-sm">
+                      <strong>{approval.estimatedRows.toLocaleString()}</strong> {approval.summarize ? "groups" : "rows"}
+                      <span className="text-muted-foreground"> (threshold {approval.threshold.toLocaleString()})</span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">{describeApprovalRequest(approval)}</p>
+                    {approval.reason && (
+                      <p className="text-xs text-muted-foreground">Reason: {approval.reason}</p>
+                    )}
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={reviewComments[approval.id] ?? ""}
+                        onChange={(e) => setReviewComments((prev) => ({ ...prev, [approval.id]: e.target.value }))}
+                        placeholder="Comment for the requester (optional)"
+                        className="h-8"
+                        data-testid={`input-review-comment-${approval.id}`}
+                      />
+                      <Button
+                        size="sm"
+                        onClick={() => reviewExportMutation.mutate({ approvalId: approval.id, decision: "approve", comment: reviewComments[approval.id] ?? "" })}
+                        disabled={reviewExportMutation.isPending}
+                        data-testid={`button-approve-export-${approval.id}`}
+                      >
+                        <Check className="h-4 w-4 mr-1" /> Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => reviewExportMutation.mutate({ approvalId: approval.id, decision: "deny", comment: reviewComments[approval.id] ?? "" })}
+                        disabled={reviewExportMutation.isPending}
+                        data-testid={`button-deny-export-${approval.id}`}
+                      >
+                        <X className="h-4 w-4 mr-1" /> Deny
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                {pendingApprovals.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-4">
+                    No exports are waiting for approval
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            {reviewedApprovals.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Recently Reviewed</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {reviewedApprovals.map((approval) => (
+                    <div key={approval.id} className="flex items-start justify-between gap-2 p-3 rounded-lg border" data-testid={`reviewed-approval-${approval.id}`}>
+                      <div className="min-w-0">
+                        <span className="font-mono text-sm">{approval.database}:{approval.tableName}</span>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {approval.userEmail} · {approval.estimatedRows.toLocaleString()} rows · {EXPORT_FORMAT_LABELS[approval.format]}
+                          {approval.reviewedAt && ` · ${new Date(approval.reviewedAt).toLocaleString()}`}
+                        </p>
+                        {approval.reviewComment && (
+                          <p className="text-xs text-muted-foreground truncate">Comment: {approval.reviewComment}</p>
+                        )}
+                      </div>
+                      <Badge variant={approval.status === "approved" ? "default" : "destructive"}>
+                        {approval.status === "approved" ? "Approved" : "Denied"}
+                      </Badge>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
           <TabsContent value="visibility" className="space-y-4">
             <Card>
               <CardHeader>
@@ -458,6 +1290,36 @@ export default function AdminPage() {
                   </Select>
                 </div>
 
+                {visibilityDatabase && schemaSettings.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Schemas</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Tables, views and materialized views in the selected schemas are listed.
+                    </p>
+                    <div className="flex flex-wrap gap-x-4 gap-y-2">
+                      {schemaSettings.map((schema) => (
+                        <label key={schema.name} className="flex items-center gap-2 text-sm font-mono">
+                          <Checkbox
+                            checked={schema.isExposed}
+                            disabled={
+                              updateSchemasMutation.isPending ||
+                              (schema.isExposed && schemaSettings.filter((s) => s.isExposed).length === 1)
+                            }
+                            onCheckedChange={(checked) => {
+                              const schemas = schemaSettings
+                                .filter((s) => (s.name === schema.name ? checked === true : s.isExposed))
+                                .map((s) => s.name);
+                              updateSchemasMutation.mutate({ database: visibilityDatabase, schemas });
+                            }}
+                            data-testid={`checkbox-schema-${schema.name}`}
+                          />
+                          {schema.name}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {visibilityDatabase && (
                   <div className="space-y-2">
                     {isLoadingVisibilityTables ? (
@@ -506,7 +1368,7 @@ export default function AdminPage() {
                                   />
                                 </div>
                                 <div className="flex items-center gap-2 min-w-0">
-                                  <Table className="h-4 w-4 text-muted-foreground shrink-0" />
+                                  <TableTypeIcon type={table.type} className="h-4 w-4 text-muted-foreground shrink-0" />
                                   <span className="font-mono text-sm truncate">{table.fullName}</span>
                                 </div>
                                 <div className="min-w-0">
@@ -569,7 +1431,8 @@ export default function AdminPage() {
           <DialogHeader>
             <DialogTitle>Grant Table Access</DialogTitle>
             <DialogDescription>
-              Select a database and table to grant access to {selectedUser?.firstName} {selectedUser?.lastName}
+              Select a database and table to grant access to{" "}
+              {grantGroup ? `every member of ${grantGroup.name}` : `${selectedUser?.firstName} ${selectedUser?.lastName}`}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
@@ -603,6 +1466,37 @@ export default function AdminPage() {
                 </SelectContent>
               </Select>
             </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Expires on (optional)</label>
+              <Input
+                type="date"
+                value={grantExpiresOn}
+                onChange={(e) => setGrantExpiresOn(e.target.value)}
+                data-testid="input-grant-expires-on"
+              />
+              <p className="text-xs text-muted-foreground">Leave empty for permanent access</p>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Export approval threshold (optional)</label>
+              <Input
+                type="number"
+                min={1}
+                value={grantApprovalThreshold}
+                onChange={(e) => setGrantApprovalThreshold(e.target.value)}
+                placeholder="e.g. 5000"
+                data-testid="input-grant-approval-threshold"
+              />
+              <p className="text-xs text-muted-foreground">Exports of more rows need an admin's approval; leave empty for none</p>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Reason (optional)</label>
+              <Input
+                value={grantReason}
+                onChange={(e) => setGrantReason(e.target.value)}
+                placeholder="e.g. Q3 audit contractor"
+                data-testid="input-grant-reason"
+              />
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsGrantDialogOpen(false)}>
@@ -610,11 +1504,15 @@ export default function AdminPage() {
             </Button>
             <Button
               onClick={() => {
-                if (selectedUserId && grantDatabase && grantTable) {
+                if ((grantGroupId || selectedUserId) && grantDatabase && grantTable) {
                   addGrantMutation.mutate({
-                    userId: selectedUserId,
+                    ...(grantGroupId ? { groupId: grantGroupId } : { userId: selectedUserId! }),
                     database: grantDatabase,
                     tableName: grantTable,
+                    // Access lasts through the end of the chosen day
+                    expiresAt: grantExpiresOn ? new Date(`${grantExpiresOn}T23:59:59`).toISOString() : null,
+                    exportApprovalThreshold: parseThresholdInput(grantApprovalThreshold),
+                    reason: grantReason,
                   });
                 }
               }}
@@ -628,6 +1526,168 @@ export default function AdminPage() {
         </DialogContent>
       </Dialog>
 
+      <GrantRowFilterDialog
+        grant={rowFilterGrant}
+        onClose={() => setRowFilterGrant(null)}
+        onSave={async (grantId, rowFilter) => {
+          await updateGrantMutation.mutateAsync({ grantId, updates: { rowFilter } });
+        }}
+      />
+
+      <Dialog open={!!thresholdGrant} onOpenChange={(open) => !open && setThresholdGrant(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Export Approval Threshold</DialogTitle>
+            <DialogDescription>
+              Exports of more rows from {thresholdGrant?.database}:{thresholdGrant?.tableName} need an admin's approval
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label htmlFor="grant-approval-threshold">Rows</Label>
+            <Input
+              id="grant-approval-threshold"
+              type="number"
+              min={1}
+              value={thresholdValue}
+              onChange={(e) => setThresholdValue(e.target.value)}
+              placeholder="No threshold"
+              data-testid="input-edit-approval-threshold"
+            />
+            <p className="text-xs text-muted-foreground">Leave empty so exports never need approval</p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setThresholdGrant(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => updateGrantMutation.mutate(
+                { grantId: thresholdGrant!.id, updates: { exportApprovalThreshold: parseThresholdInput(thresholdValue) } },
+                { onSuccess: () => setThresholdGrant(null) }
+              )}
+              disabled={updateGrantMutation.isPending}
+              data-testid="button-save-approval-threshold"
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <GrantColumnsDialog
+        grant={columnsGrant}
+        onClose={() => setColumnsGrant(null)}
+        onSave={async (grantId, allowedColumns) => {
+          await updateGrantMutation.mutateAsync({ grantId, updates: { allowedColumns } });
+        }}
+      />
+
+      <Dialog open={isCreateRoleDialogOpen} onOpenChange={setIsCreateRoleDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create Role</DialogTitle>
+            <DialogDescription>
+              Start with no permissions, then tick them in the permission matrix
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="new-role-name">Name</Label>
+              <Input
+                id="new-role-name"
+                value={newRoleName}
+                onChange={(e) => setNewRoleName(e.target.value)}
+                placeholder="e.g. Analyst"
+                data-testid="input-new-role-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-role-key">Key</Label>
+              <Input
+                id="new-role-key"
+                value={newRoleKey}
+                onChange={(e) => setNewRoleKey(e.target.value)}
+                placeholder="e.g. analyst"
+                className="font-mono"
+                data-testid="input-new-role-key"
+              />
+              <p className="text-xs text-muted-foreground">Letters, digits and underscores; can't be changed later</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-role-description">Description (optional)</Label>
+              <Input
+                id="new-role-description"
+                value={newRoleDescription}
+                onChange={(e) => setNewRoleDescription(e.target.value)}
+                data-testid="input-new-role-description"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateRoleDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createRoleMutation.mutate({
+                key: newRoleKey,
+                name: newRoleName,
+                description: newRoleDescription,
+                permissions: [],
+              })}
+              disabled={!newRoleKey.trim() || !newRoleName.trim() || createRoleMutation.isPending}
+              data-testid="button-confirm-create-role"
+            >
+              {createRoleMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+              Create Role
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isCreateGroupDialogOpen} onOpenChange={setIsCreateGroupDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create Group</DialogTitle>
+            <DialogDescription>
+              Group users from the same organization to grant them tables together
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="new-group-name">Name</Label>
+              <Input
+                id="new-group-name"
+                value={newGroupName}
+                onChange={(e) => setNewGroupName(e.target.value)}
+                placeholder="e.g. Acme Logistics"
+                data-testid="input-new-group-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-group-description">Description (optional)</Label>
+              <Input
+                id="new-group-description"
+                value={newGroupDescription}
+                onChange={(e) => setNewGroupDescription(e.target.value)}
+                data-testid="input-new-group-description"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateGroupDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createGroupMutation.mutate({ name: newGroupName, description: newGroupDescription })}
+              disabled={!newGroupName.trim() || createGroupMutation.isPending}
+              data-testid="button-confirm-create-group"
+            >
+              {createGroupMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+              Create Group
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={isCreateUserDialogOpen} onOpenChange={setIsCreateUserDialogOpen}>
         <DialogContent>
           <DialogHeader>
@@ -690,9 +1750,9 @@ export default function AdminPage() {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="admin">Admin</SelectItem>
-                  <SelectItem value="washos_user">WashOS User</SelectItem>
-                  <SelectItem value="external_customer">External Customer</SelectItem>
+                  {roles.map((role) => (
+                    <SelectItem key={role.key} value={role.key}>{role.name}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -783,9 +1843,9 @@ export default function AdminPage() {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="admin">Admin</SelectItem>
-                  <SelectItem value="washos_user">WashOS User</SelectItem>
-                  <SelectItem value="external_customer">External Customer</SelectItem>
+                  {roles.map((role) => (
+                    <SelectItem key={role.key} value={role.key}>{role.name}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
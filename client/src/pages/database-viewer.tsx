@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
@@ -8,11 +9,19 @@ import { Header } from "@/components/header";
 import { TableSidebar } from "@/components/table-sidebar";
 import { ControlBar } from "@/components/control-bar";
 import { DynamicFilter } from "@/components/dynamic-filter";
+import { FilterGroupBuilder } from "@/components/filter-panel";
 import { NLQPanel } from "@/components/nlq-panel";
 import { DataTable, type SortConfig, type SortColumn } from "@/components/data-table";
 import { PaginationControls } from "@/components/pagination-controls";
+import { RowDetailDrawer } from "@/components/row-detail-drawer";
 import { AdminSettingsModal } from "@/components/admin-settings-modal";
+import { ColumnMaskingModal } from "@/components/column-masking-modal";
 import { ErrorBanner } from "@/components/error-banner";
+import { SavedViewDialog, type SavedViewDetails } from "@/components/saved-view-dialog";
+import { SummarizeView } from "@/components/summarize-view";
+import { Button } from "@/components/ui/button";
+import { ToastAction } from "@/components/ui/toast";
+import { Textarea } from "@/components/ui/textarea";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -23,7 +32,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { AlertTriangle, ShieldAlert } from "lucide-react";
+import { AlertTriangle, ShieldAlert, Bookmark, Link2, Sigma, Rows3, Group } from "lucide-react";
 
 import type {
   DatabaseConnection,
@@ -31,38 +40,89 @@ import type {
   ColumnInfo,
   FilterDefinition,
   ActiveFilter,
+  FilterGroup,
+  FilterNode,
   QueryResponse,
   NLQPlan,
+  ForeignKeyRef,
+  PaginationMode,
+  KeysetDirection,
+  SavedView,
+  SavedViewState,
+  ResolvedViewerLink,
+  AggregatesResponse,
+  SummarizeSpec,
+  SummarizeResponse,
+  ColumnMaskRules,
+  ExportFormat,
 } from "@/lib/types";
+import { DEFAULT_PAGE_SIZE, EXPORT_FORMAT_LABELS, hasPermission } from "@/lib/types";
+import { readViewerLinkFromUrl, writeViewerLinkToUrl } from "@/lib/viewer-link";
+import { downloadResponse } from "@/lib/download";
 
 interface TableSettingsMap {
   [key: string]: {
     isVisible: boolean;
     displayName: string | null;
     hiddenColumns?: string[];
+    columnMasks?: ColumnMaskRules;
   };
 }
 
 export default function DatabaseViewer() {
   const { toast } = useToast();
+  const [, navigate] = useLocation();
   const { user } = useAuth();
-  const isAdmin = user?.role === "admin";
+  const canManageSettings = hasPermission(user, "manage_settings");
 
   // State
   const [selectedDatabase, setSelectedDatabase] = useState("");
   const [selectedTable, setSelectedTable] = useState("");
   const [currentPage, setCurrentPage] = useState(1);
   const [activeFilters, setActiveFilters] = useState<ActiveFilter[]>([]);
+  const [filterGroups, setFilterGroups] = useState<FilterGroup[]>([]);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isMaskingOpen, setIsMaskingOpen] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isExporting, setIsExporting] = useState(false);
   const [lastNLQPlan, setLastNLQPlan] = useState<NLQPlan | null>(null);
   const [localHiddenColumns, setLocalHiddenColumns] = useState<string[]>([]);
   const [sort, setSort] = useState<SortConfig | null>(null);
+  const [selectedRow, setSelectedRow] = useState<Record<string, unknown> | null>(null);
+  const [paginationMode, setPaginationMode] = useState<PaginationMode>("offset");
+  const [keysetPosition, setKeysetPosition] = useState<{
+    scope: string;
+    direction: KeysetDirection;
+    cursor: unknown[] | null;
+  }>({ scope: "", direction: "first", cursor: null });
+  const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE);
+  const [showAggregates, setShowAggregates] = useState(false);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [viewMode, setViewMode] = useState<"rows" | "summary">("rows");
+  const [summarizeSpec, setSummarizeSpec] = useState<SummarizeSpec>({
+    groupBy: [],
+    aggregates: [{ function: "count" }],
+    sort: null,
+  });
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [viewDialog, setViewDialog] = useState<{ isOpen: boolean; view: SavedView | null }>({
+    isOpen: false,
+    view: null,
+  });
+  const [viewToDelete, setViewToDelete] = useState<SavedView | null>(null);
+  // Column selection from a saved view, applied once that table's columns have loaded
+  const [pendingViewColumns, setPendingViewColumns] = useState<{
+    table: string;
+    visibleColumns: string[];
+  } | null>(null);
+  // Shared link state: resolved by the server first, then applied once its database is selected
+  const [isResolvingLink, setIsResolvingLink] = useState(() => !!readViewerLinkFromUrl());
+  const pendingLinkRef = useRef<ResolvedViewerLink | null>(null);
   
   // Per-table state storage to preserve filters/page/NLQ/sort when switching tables
   const [tableStateCache, setTableStateCache] = useState<Record<string, {
     filters: ActiveFilter[];
+    filterGroups: FilterGroup[];
     page: number;
     nlqPlan: NLQPlan | null;
     sort: SortConfig | null;
@@ -70,9 +130,13 @@ export default function DatabaseViewer() {
   
   // Export dialog states
   const [exportDialogOpen, setExportDialogOpen] = useState(false);
-  const [exportDialogType, setExportDialogType] = useState<"warning" | "blocked" | "limit">("warning");
+  const [exportDialogType, setExportDialogType] = useState<"warning" | "blocked" | "limit" | "approval" | "quota">("warning");
   const [exportRowCount, setExportRowCount] = useState(0);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
   const [exportMaxRows, setExportMaxRows] = useState(0);
+  const [exportApprovalThreshold, setExportApprovalThreshold] = useState(0);
+  const [exportQuotaRemaining, setExportQuotaRemaining] = useState(0);
+  const [exportApprovalReason, setExportApprovalReason] = useState("");
 
   // Fetch databases
   const { data: databases = [], isLoading: isLoadingDatabases } = useQuery<DatabaseConnection[]>({
@@ -97,10 +161,16 @@ export default function DatabaseViewer() {
     enabled: !!selectedDatabase && !!selectedTable,
   });
 
+  // Fetch saved views the user can see in this database
+  const { data: savedViews = [] } = useQuery<SavedView[]>({
+    queryKey: ["/api/saved-views", selectedDatabase],
+    enabled: !!selectedDatabase,
+  });
+
   // Fetch filter definitions for selected table
   const { data: filterDefinitions = [] } = useQuery<FilterDefinition[]>({
-    queryKey: ["/api/filters", selectedTable],
-    enabled: !!selectedTable,
+    queryKey: ["/api/filters", selectedDatabase, selectedTable],
+    enabled: !!selectedDatabase && !!selectedTable,
   });
 
   // Fetch table settings (for column visibility) - all users can access read-only settings
@@ -128,8 +198,28 @@ export default function DatabaseViewer() {
   // Reset local hidden columns when table changes
   useEffect(() => {
     setLocalHiddenColumns([]);
+    setSelectedRow(null);
   }, [selectedTable]);
 
+  useEffect(() => {
+    if (!pendingViewColumns || pendingViewColumns.table !== selectedTable || columns.length === 0) return;
+    setLocalHiddenColumns(
+      columns.filter((col) => !pendingViewColumns.visibleColumns.includes(col.name)).map((col) => col.name)
+    );
+    setPendingViewColumns(null);
+  }, [pendingViewColumns, selectedTable, columns]);
+
+  // Columns shown in the row detail drawer: everything except admin-hidden columns
+  const detailColumns = useMemo(() => {
+    if (adminHiddenColumns.length === 0) return columns;
+    return columns.filter((col) => !adminHiddenColumns.includes(col.name));
+  }, [columns, adminHiddenColumns]);
+
+  const getHiddenColumnsForTable = useCallback(
+    (table: string) => tableSettings[`${selectedDatabase}:${table}`]?.hiddenColumns || [],
+    [tableSettings, selectedDatabase]
+  );
+
   // Mutation to save column visibility
   const saveColumnsMutation = useMutation({
     mutationFn: async (newHiddenColumns: string[]) => {
@@ -158,13 +248,63 @@ export default function DatabaseViewer() {
     },
   });
 
+  // Mutation to save PII masking rules; visibility and hidden columns stay as they are
+  const saveMasksMutation = useMutation({
+    mutationFn: async (columnMasks: ColumnMaskRules) => {
+      return apiRequest("POST", "/api/admin/table-settings", {
+        database: selectedDatabase,
+        tableName: selectedTable,
+        isVisible: currentTableSettings?.isVisible !== false,
+        displayName: currentTableSettings?.displayName || null,
+        hiddenColumns: adminHiddenColumns,
+        columnMasks,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/table-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/table-settings"] });
+      toast({
+        title: "Column masking saved",
+        description: "Masks now apply to this table for the selected roles.",
+      });
+    },
+    onError: (err) => {
+      toast({
+        title: "Failed to save column masking",
+        description: err instanceof Error ? err.message : "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Simple filters and AND/OR groups are sent together as one implicit AND group
+  const requestFilters = useMemo<FilterNode[]>(
+    () => [...activeFilters, ...filterGroups],
+    [activeFilters, filterGroups]
+  );
+
+  // Table-wide search runs over the visible columns and combines with the filters
+  const visibleColumnNames = useMemo(() => visibleColumns.map((col) => col.name), [visibleColumns]);
+  const searchRequest = useMemo(
+    () => (searchTerm ? { search: searchTerm, searchColumns: visibleColumnNames } : null),
+    [searchTerm, visibleColumnNames]
+  );
+
+  // A keyset cursor only applies to the table, filters, search and sort it came from
+  const keysetScope = JSON.stringify([selectedDatabase, selectedTable, requestFilters, searchRequest, sort, pageSize]);
+  const keyset = paginationMode === "keyset"
+    ? (keysetPosition.scope === keysetScope
+      ? { direction: keysetPosition.direction, cursor: keysetPosition.cursor }
+      : { direction: "first" as KeysetDirection, cursor: null })
+    : null;
+
   // Fetch rows
   const {
     data: queryResult,
     isLoading: isLoadingRows,
     refetch: refetchRows,
   } = useQuery<QueryResponse>({
-    queryKey: ["/api/rows", selectedDatabase, selectedTable, currentPage, activeFilters, sort],
+    queryKey: ["/api/rows", selectedDatabase, selectedTable, currentPage, requestFilters, searchRequest, sort, pageSize, keyset],
     queryFn: async () => {
       const res = await fetch("/api/rows", {
         method: "POST",
@@ -173,8 +313,16 @@ export default function DatabaseViewer() {
           database: selectedDatabase,
           table: selectedTable,
           page: currentPage,
-          filters: activeFilters,
+          filters: requestFilters,
+          ...searchRequest,
           sort: sort,
+          pageSize,
+          ...(keyset && {
+            pagination: "keyset",
+            direction: keyset.direction,
+            cursor: keyset.cursor,
+            approximateCount: true,
+          }),
         }),
       });
       if (!res.ok) {
@@ -187,6 +335,67 @@ export default function DatabaseViewer() {
     placeholderData: keepPreviousData,
   });
 
+  // Footer aggregates cover the full filtered result, not just the visible page
+  const {
+    data: aggregateResult,
+    isFetching: isLoadingAggregates,
+  } = useQuery<AggregatesResponse>({
+    queryKey: ["/api/rows/aggregates", selectedDatabase, selectedTable, requestFilters, searchRequest, visibleColumnNames],
+    queryFn: async () => {
+      const res = await fetch("/api/rows/aggregates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          database: selectedDatabase,
+          table: selectedTable,
+          filters: requestFilters,
+          ...searchRequest,
+          columns: visibleColumnNames,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to compute totals");
+      }
+      return res.json();
+    },
+    enabled: showAggregates && !!selectedDatabase && !!selectedTable && visibleColumnNames.length > 0,
+    placeholderData: keepPreviousData,
+  });
+
+  // Group-by results use the same filters as the row query
+  const isSummarizeReady =
+    summarizeSpec.groupBy.length > 0 &&
+    summarizeSpec.groupBy.every((g) => !!g.column) &&
+    summarizeSpec.aggregates.length > 0;
+  const {
+    data: summarizeResult,
+    isFetching: isLoadingSummary,
+    error: summarizeError,
+  } = useQuery<SummarizeResponse>({
+    queryKey: ["/api/rows/summarize", selectedDatabase, selectedTable, requestFilters, searchRequest, summarizeSpec],
+    queryFn: async () => {
+      const res = await fetch("/api/rows/summarize", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          database: selectedDatabase,
+          table: selectedTable,
+          filters: requestFilters,
+          ...searchRequest,
+          summarize: summarizeSpec,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to summarize rows");
+      }
+      return res.json();
+    },
+    enabled: viewMode === "summary" && isSummarizeReady && !!selectedDatabase && !!selectedTable,
+    placeholderData: keepPreviousData,
+  });
+
   // Handle column sort (supports multi-column sorting with Shift+click)
   const handleSort = useCallback((column: string, isMultiSort: boolean) => {
     setSort((prevSort) => {
@@ -233,12 +442,13 @@ export default function DatabaseViewer() {
   const saveFiltersMutation = useMutation({
     mutationFn: async (filters: FilterDefinition[]) => {
       return apiRequest("POST", "/api/filters", {
+        database: selectedDatabase,
         table: selectedTable,
         filters,
       });
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/filters", selectedTable] });
+      queryClient.invalidateQueries({ queryKey: ["/api/filters", selectedDatabase, selectedTable] });
       toast({
         title: "Filters saved",
         description: "Filter definitions have been updated.",
@@ -255,6 +465,7 @@ export default function DatabaseViewer() {
 
   // Use refs to track current values for saving before table switch
   const filtersRef = useRef(activeFilters);
+  const filterGroupsRef = useRef(filterGroups);
   const pageRef = useRef(currentPage);
   const nlqPlanRef = useRef(lastNLQPlan);
   const sortRef = useRef(sort);
@@ -262,6 +473,7 @@ export default function DatabaseViewer() {
   
   // Keep refs up to date
   useEffect(() => { filtersRef.current = activeFilters; }, [activeFilters]);
+  useEffect(() => { filterGroupsRef.current = filterGroups; }, [filterGroups]);
   useEffect(() => { pageRef.current = currentPage; }, [currentPage]);
   useEffect(() => { nlqPlanRef.current = lastNLQPlan; }, [lastNLQPlan]);
   useEffect(() => { sortRef.current = sort; }, [sort]);
@@ -276,6 +488,7 @@ export default function DatabaseViewer() {
         ...prev,
         [prevTable]: {
           filters: filtersRef.current,
+          filterGroups: filterGroupsRef.current,
           page: pageRef.current,
           nlqPlan: nlqPlanRef.current,
           sort: sortRef.current,
@@ -285,15 +498,20 @@ export default function DatabaseViewer() {
     
     // Restore or reset state for new table
     if (selectedTable) {
+      setViewMode("rows");
+      setSearchTerm("");
+      setSummarizeSpec({ groupBy: [], aggregates: [{ function: "count" }], sort: null });
       const cached = tableStateCache[selectedTable];
       if (cached) {
         setActiveFilters(cached.filters);
+        setFilterGroups(cached.filterGroups);
         setCurrentPage(cached.page);
         setLastNLQPlan(cached.nlqPlan);
         setSort(cached.sort);
       } else {
         setCurrentPage(1);
         setActiveFilters([]);
+        setFilterGroups([]);
         setLastNLQPlan(null);
         setSort(null);
       }
@@ -302,23 +520,103 @@ export default function DatabaseViewer() {
     prevTableRef.current = selectedTable;
   }, [selectedTable]);
 
+  // Restore columns, filters, sort, page size and page for a table, switching to it if needed
+  const applyTableState = useCallback((
+    table: string,
+    state: SavedViewState,
+    page: number,
+    isCurrentTable: boolean
+  ) => {
+    const filters = state.filters.filter((f): f is ActiveFilter => (f as FilterGroup).type !== "group");
+    const groups = state.filters.filter((f): f is FilterGroup => (f as FilterGroup).type === "group");
+
+    setPageSize(state.pageSize);
+    setKeysetPosition({ scope: "", direction: "first", cursor: null });
+    setPendingViewColumns(state.visibleColumns ? { table, visibleColumns: state.visibleColumns } : null);
+
+    if (isCurrentTable) {
+      setActiveFilters(filters);
+      setFilterGroups(groups);
+      setSort(state.sort);
+      setLastNLQPlan(null);
+      setCurrentPage(page);
+      if (!state.visibleColumns) setLocalHiddenColumns([]);
+      return;
+    }
+
+    // Seed the target table's cached state so the table-switch effect restores it
+    setTableStateCache(prev => ({
+      ...prev,
+      [table]: {
+        filters,
+        filterGroups: groups,
+        page,
+        nlqPlan: null,
+        sort: state.sort,
+      },
+    }));
+    setSelectedTable(table);
+  }, []);
+
   // Reset state when database changes (clear cache for that database)
   useEffect(() => {
     setSelectedTable("");
     setCurrentPage(1);
     setActiveFilters([]);
+    setFilterGroups([]);
     setLastNLQPlan(null);
     setSort(null);
+    setActiveViewId(null);
     // Clear table cache when database changes
     setTableStateCache({});
+
+    const link = pendingLinkRef.current;
+    if (link && link.database === selectedDatabase) {
+      pendingLinkRef.current = null;
+      applyTableState(link.table, link, link.page, false);
+    }
   }, [selectedDatabase]);
 
-  // Auto-select first database if only one
+  // Resolve a shared link on load; the server re-checks table access and column names
   useEffect(() => {
-    if (databases.length === 1 && !selectedDatabase) {
+    const link = readViewerLinkFromUrl();
+    if (!link) return;
+
+    (async () => {
+      try {
+        const res = await fetch("/api/viewer-link/resolve", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(link),
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || "Failed to open link");
+        }
+
+        const resolved = data as ResolvedViewerLink;
+        if (resolved.droppedColumns.length > 0) {
+          toast({
+            title: "Link partially applied",
+            description: `These columns aren't available to you and were skipped: ${resolved.droppedColumns.join(", ")}`,
+          });
+        }
+        pendingLinkRef.current = resolved;
+        setSelectedDatabase(resolved.database);
+      } catch (err) {
+        setError(`Couldn't open shared link: ${err instanceof Error ? err.message : "An error occurred"}`);
+      } finally {
+        setIsResolvingLink(false);
+      }
+    })();
+  }, []);
+
+  // Auto-select first database if only one (unless a shared link is about to pick one)
+  useEffect(() => {
+    if (databases.length === 1 && !selectedDatabase && !isResolvingLink) {
       setSelectedDatabase(databases[0].name);
     }
-  }, [databases, selectedDatabase]);
+  }, [databases, selectedDatabase, isResolvingLink]);
 
   const handleDatabaseChange = useCallback((name: string) => {
     setSelectedDatabase(name);
@@ -327,9 +625,170 @@ export default function DatabaseViewer() {
 
   const handleTableSelect = useCallback((fullName: string) => {
     setSelectedTable(fullName);
+    setActiveViewId(null);
     setError(null);
   }, []);
 
+  // Apply a saved view: switch to its table, then restore columns, filters, sort and page size
+  const handleApplyView = useCallback((view: SavedView) => {
+    setActiveViewId(view.id);
+    setError(null);
+    applyTableState(view.tableName, view.state, 1, view.tableName === selectedTable);
+  }, [selectedTable, applyTableState]);
+
+  const currentViewState = useMemo<SavedViewState>(() => ({
+    visibleColumns: visibleColumns.length === columns.length ? null : visibleColumns.map((col) => col.name),
+    filters: requestFilters,
+    sort,
+    pageSize,
+  }), [visibleColumns, columns, requestFilters, sort, pageSize]);
+
+  // Keep the URL in sync so the address bar is always a shareable link to this view
+  useEffect(() => {
+    if (isResolvingLink) return;
+    writeViewerLinkToUrl(
+      selectedDatabase && selectedTable
+        ? {
+            database: selectedDatabase,
+            table: selectedTable,
+            // Keyset pages are relative to a cursor, so links to them open the first page
+            page: paginationMode === "offset" ? currentPage : 1,
+            ...currentViewState,
+          }
+        : null
+    );
+  }, [isResolvingLink, selectedDatabase, selectedTable, currentPage, paginationMode, currentViewState]);
+
+  const handleCopyLink = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({
+        title: "Link copied",
+        description: "Anyone with access to this table can open this exact view.",
+      });
+    } catch {
+      toast({
+        title: "Couldn't copy link",
+        description: "Copy the address from your browser instead.",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  const saveViewMutation = useMutation({
+    mutationFn: async ({ view, details }: { view: SavedView | null; details: SavedViewDetails }) => {
+      const res = view
+        ? await apiRequest("PATCH", `/api/saved-views/${view.id}`, details)
+        : await apiRequest("POST", "/api/saved-views", {
+            ...details,
+            database: selectedDatabase,
+            table: selectedTable,
+            state: currentViewState,
+          });
+      return res.json() as Promise<SavedView>;
+    },
+    onSuccess: (saved, { view }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-views", selectedDatabase] });
+      if (!view) setActiveViewId(saved.id);
+      setViewDialog({ isOpen: false, view: null });
+      toast({
+        title: view ? "View updated" : "View saved",
+        description: `"${saved.name}" is available in the sidebar.`,
+      });
+    },
+    onError: (err) => {
+      toast({
+        title: "Failed to save view",
+        description: err instanceof Error ? err.message : "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateViewStateMutation = useMutation({
+    mutationFn: async (view: SavedView) => {
+      return apiRequest("PATCH", `/api/saved-views/${view.id}`, { state: currentViewState });
+    },
+    onSuccess: (_, view) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-views", selectedDatabase] });
+      toast({
+        title: "View updated",
+        description: `"${view.name}" now uses the current columns, filters and sort.`,
+      });
+    },
+    onError: (err) => {
+      toast({
+        title: "Failed to update view",
+        description: err instanceof Error ? err.message : "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteViewMutation = useMutation({
+    mutationFn: async (view: SavedView) => {
+      return apiRequest("DELETE", `/api/saved-views/${view.id}`);
+    },
+    onSuccess: (_, view) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-views", selectedDatabase] });
+      if (activeViewId === view.id) setActiveViewId(null);
+      setViewToDelete(null);
+    },
+    onError: (err) => {
+      toast({
+        title: "Failed to delete view",
+        description: err instanceof Error ? err.message : "An error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Tables the user can open, used to decide which foreign key cells become links
+  const navigableTables = useMemo(
+    () => new Set(tables.map((t) => t.fullName)),
+    [tables]
+  );
+
+  // Follow a foreign key: open the referenced table filtered to the referenced row
+  const handleForeignKeyClick = useCallback((foreignKey: ForeignKeyRef, value: unknown) => {
+    const filters: ActiveFilter[] = [
+      { column: foreignKey.column, operator: "eq", value: String(value) },
+    ];
+
+    if (foreignKey.table === selectedTable) {
+      setActiveFilters(filters);
+      setFilterGroups([]);
+      setCurrentPage(1);
+      return;
+    }
+
+    // Seed the target table's cached state so the table-switch effect restores it
+    setTableStateCache(prev => ({
+      ...prev,
+      [foreignKey.table]: {
+        filters,
+        filterGroups: [],
+        page: 1,
+        nlqPlan: null,
+        sort: null,
+      },
+    }));
+    setSelectedTable(foreignKey.table);
+    setError(null);
+  }, [selectedTable]);
+
+  // Open the rows behind a summary group on top of the filters that produced it
+  const handleSummaryDrillDown = useCallback((filters: ActiveFilter[]) => {
+    setActiveFilters((prev) => [...prev, ...filters]);
+    setCurrentPage(1);
+    setViewMode("rows");
+  }, []);
+
+  const handleSearchChange = useCallback((term: string) => {
+    setSearchTerm(term);
+    setCurrentPage(1);
+  }, []);
+
   const handleApplyFilters = useCallback((filters: ActiveFilter[]) => {
     setActiveFilters(filters);
     setCurrentPage(1);
@@ -337,6 +796,12 @@ export default function DatabaseViewer() {
 
   const handleClearFilters = useCallback(() => {
     setActiveFilters([]);
+    setFilterGroups([]);
+    setCurrentPage(1);
+  }, []);
+
+  const handleApplyFilterGroups = useCallback((groups: FilterGroup[]) => {
+    setFilterGroups(groups);
     setCurrentPage(1);
   }, []);
 
@@ -344,12 +809,43 @@ export default function DatabaseViewer() {
     setCurrentPage(page);
   }, []);
 
+  // Keyset navigation: the page number is only tracked for display
+  const handleKeysetNavigate = useCallback((direction: KeysetDirection) => {
+    if (!queryResult) return;
+    const cursor =
+      direction === "next" ? queryResult.nextCursor ?? null :
+      direction === "prev" ? queryResult.prevCursor ?? null :
+      null;
+    setKeysetPosition({ scope: keysetScope, direction, cursor });
+    setCurrentPage(
+      direction === "first" ? 1 :
+      direction === "last" ? queryResult.totalPages :
+      direction === "next" ? queryResult.page + 1 :
+      Math.max(1, queryResult.page - 1)
+    );
+  }, [queryResult, keysetScope]);
+
+  const handlePageSizeChange = useCallback((size: number) => {
+    setPageSize(size);
+    setKeysetPosition({ scope: "", direction: "first", cursor: null });
+    setCurrentPage(1);
+  }, []);
+
+  const handlePaginationModeChange = useCallback((mode: PaginationMode) => {
+    setPaginationMode(mode);
+    setKeysetPosition({ scope: "", direction: "first", cursor: null });
+    setCurrentPage(1);
+  }, []);
+
   const handleReload = useCallback(() => {
     refetchRows();
   }, [refetchRows]);
 
-  // Perform the actual export download
-  const performExport = useCallback(async (rowCount?: number) => {
+  // In summary mode the export is the grouped result rather than the raw rows
+  const isSummaryExport = viewMode === "summary" && isSummarizeReady;
+
+  // Perform the actual export download; with a page, only that page is exported
+  const performExport = useCallback(async (format: ExportFormat, rowCount?: number, page?: number) => {
     if (!selectedDatabase || !selectedTable) return;
 
     setIsExporting(true);
@@ -357,34 +853,43 @@ export default function DatabaseViewer() {
       const params = new URLSearchParams({
         database: selectedDatabase,
         table: selectedTable,
-        exportAll: "true",
+        format,
       });
+      if (page) {
+        params.set("page", String(page));
+      } else {
+        params.set("exportAll", "true");
+      }
 
-      if (activeFilters.length > 0) {
-        params.set("filters", JSON.stringify(activeFilters));
+      if (requestFilters.length > 0) {
+        params.set("filters", JSON.stringify(requestFilters));
+      }
+      if (searchRequest) {
+        params.set("search", searchRequest.search);
+        params.set("searchColumns", JSON.stringify(searchRequest.searchColumns));
+      }
+      if (isSummaryExport) {
+        params.set("summarize", JSON.stringify(summarizeSpec));
       }
 
       const response = await fetch(`/api/export?${params}`);
       if (!response.ok) {
-        const data = await response.json().catch(() => ({ error: "Failed to export CSV" }));
-        throw new Error(data.error || "Failed to export CSV");
+        const data = await response.json().catch(() => ({ error: "Failed to export data" }));
+        throw new Error(data.error || "Failed to export data");
       }
 
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `${selectedTable.replace(".", "_")}_export.csv`;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
+      await downloadResponse(
+        response,
+        `${selectedTable.replace(".", "_")}_${page ? `page${page}` : isSummaryExport ? "summary" : "export"}.${format}`
+      );
 
       // Use passed rowCount or fall back to state
       const displayCount = rowCount ?? exportRowCount;
       toast({
         title: "Export complete",
-        description: `${displayCount.toLocaleString()} rows have been exported.`,
+        description: page
+          ? `Page ${page} has been exported as ${EXPORT_FORMAT_LABELS[format]}.`
+          : `${displayCount.toLocaleString()} ${isSummaryExport ? "groups" : "rows"} have been exported as ${EXPORT_FORMAT_LABELS[format]}.`,
       });
     } catch (err) {
       toast({
@@ -395,12 +900,20 @@ export default function DatabaseViewer() {
     } finally {
       setIsExporting(false);
     }
-  }, [selectedDatabase, selectedTable, activeFilters, toast, exportRowCount]);
+  }, [selectedDatabase, selectedTable, requestFilters, searchRequest, isSummaryExport, summarizeSpec, toast, exportRowCount]);
 
   // Handle export button click - check limits first
-  const handleExport = useCallback(async () => {
+  const handleExport = useCallback(async (format: ExportFormat) => {
     if (!selectedDatabase || !selectedTable) return;
 
+    setExportFormat(format);
+
+    // Roles without export_all download the page they're looking at
+    if (!hasPermission(user, "export_all")) {
+      await performExport(format, undefined, paginationMode === "offset" ? currentPage : 1);
+      return;
+    }
+
     setIsExporting(true);
     try {
       // First, check the row count and limits
@@ -410,7 +923,9 @@ export default function DatabaseViewer() {
         body: JSON.stringify({
           database: selectedDatabase,
           table: selectedTable,
-          filters: activeFilters,
+          filters: requestFilters,
+          ...searchRequest,
+          ...(isSummaryExport && { summarize: summarizeSpec }),
         }),
       });
 
@@ -423,17 +938,28 @@ export default function DatabaseViewer() {
       setExportRowCount(check.totalCount);
       setExportMaxRows(check.maxRowsForRole);
 
-      // If exceeds absolute maximum (50,000), show limit dialog
-      if (check.totalCount > 50000) {
-        setExportDialogType("limit");
+      // Over the role's row limit: large-export roles are asked to filter, others to ask an admin
+      if (check.exceedsLimit) {
+        setExportDialogType(check.canExportAll ? "limit" : "blocked");
         setExportDialogOpen(true);
         setIsExporting(false);
         return;
       }
 
-      // If exceeds role-based limit (10,000 for non-admins), show blocked dialog
-      if (check.exceedsLimit) {
-        setExportDialogType("blocked");
+      // Not enough left of the user's daily or monthly export quota
+      if (check.exceedsQuota) {
+        setExportQuotaRemaining(check.quotaRemaining);
+        setExportDialogType("quota");
+        setExportDialogOpen(true);
+        setIsExporting(false);
+        return;
+      }
+
+      // Over the grant's approval threshold: offer to ask an admin instead
+      if (check.needsApproval) {
+        setExportApprovalThreshold(check.approvalThreshold);
+        setExportApprovalReason("");
+        setExportDialogType("approval");
         setExportDialogOpen(true);
         setIsExporting(false);
         return;
@@ -448,7 +974,7 @@ export default function DatabaseViewer() {
       }
 
       // Otherwise, proceed with export directly - pass row count to avoid stale state
-      await performExport(check.totalCount);
+      await performExport(format, check.totalCount);
     } catch (err) {
       toast({
         title: "Export failed",
@@ -457,14 +983,81 @@ export default function DatabaseViewer() {
       });
       setIsExporting(false);
     }
-  }, [selectedDatabase, selectedTable, activeFilters, toast, performExport]);
+  }, [selectedDatabase, selectedTable, requestFilters, searchRequest, isSummaryExport, summarizeSpec, toast, performExport, user, paginationMode, currentPage]);
+
+  // Hand a large export to the server's job runner instead of streaming it through this request
+  const handleBackgroundExport = useCallback(async () => {
+    setExportDialogOpen(false);
+    if (!selectedDatabase || !selectedTable) return;
+
+    try {
+      await apiRequest("POST", "/api/export/jobs", {
+        database: selectedDatabase,
+        table: selectedTable,
+        filters: requestFilters,
+        ...searchRequest,
+        ...(isSummaryExport && { summarize: summarizeSpec }),
+        format: exportFormat,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/export/jobs"] });
+      toast({
+        title: "Export started",
+        description: `${exportRowCount.toLocaleString()} ${isSummaryExport ? "groups" : "rows"} are being exported as ${EXPORT_FORMAT_LABELS[exportFormat]} in the background.`,
+        action: (
+          <ToastAction altText="Open Export Center" onClick={() => navigate("/exports")}>
+            Export Center
+          </ToastAction>
+        ),
+      });
+    } catch (err) {
+      toast({
+        title: "Export failed",
+        description: err instanceof Error ? err.message : "An error occurred",
+        variant: "destructive",
+      });
+    }
+  }, [selectedDatabase, selectedTable, requestFilters, searchRequest, isSummaryExport, summarizeSpec, exportFormat, exportRowCount, toast, navigate]);
+
+  // Send the export to the admin approval queue; once approved it shows up in the Export Center
+  const handleRequestApproval = useCallback(async () => {
+    setExportDialogOpen(false);
+    if (!selectedDatabase || !selectedTable) return;
+
+    try {
+      await apiRequest("POST", "/api/export/approvals", {
+        database: selectedDatabase,
+        table: selectedTable,
+        filters: requestFilters,
+        ...searchRequest,
+        ...(isSummaryExport && { summarize: summarizeSpec }),
+        format: exportFormat,
+        reason: exportApprovalReason,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/export/approvals"] });
+      toast({
+        title: "Approval requested",
+        description: "An administrator will review your export. Once approved, download it from the Export Center.",
+        action: (
+          <ToastAction altText="Open Export Center" onClick={() => navigate("/exports")}>
+            Export Center
+          </ToastAction>
+        ),
+      });
+    } catch (err) {
+      toast({
+        title: "Request failed",
+        description: err instanceof Error ? err.message : "An error occurred",
+        variant: "destructive",
+      });
+    }
+  }, [selectedDatabase, selectedTable, requestFilters, searchRequest, isSummaryExport, summarizeSpec, exportFormat, exportApprovalReason, toast, navigate]);
 
   // Handle export confirmation from dialog
   const handleExportConfirm = useCallback(async () => {
     setExportDialogOpen(false);
-    // Use the stored exportRowCount from when dialog was opened
-    await performExport(exportRowCount);
-  }, [performExport, exportRowCount]);
+    // Use the stored format and exportRowCount from when dialog was opened
+    await performExport(exportFormat, exportRowCount);
+  }, [performExport, exportFormat, exportRowCount]);
 
   const handleNLQParsed = useCallback((plan: NLQPlan) => {
     setLastNLQPlan(plan);
@@ -478,9 +1071,11 @@ export default function DatabaseViewer() {
       column: f.column,
       operator: f.op,
       value: f.value,
+      ...(f.path?.length && { path: f.path }),
     }));
     
     setActiveFilters(newFilters);
+    setFilterGroups([]);
     setCurrentPage(plan.page);
   }, [selectedTable]);
 
@@ -491,6 +1086,13 @@ export default function DatabaseViewer() {
     [saveFiltersMutation]
   );
 
+  const handleSaveMasks = useCallback(
+    async (columnMasks: ColumnMaskRules) => {
+      await saveMasksMutation.mutateAsync(columnMasks);
+    },
+    [saveMasksMutation]
+  );
+
   const handleSaveColumns = useCallback(
     (newHiddenColumns: string[]) => {
       saveColumnsMutation.mutate(newHiddenColumns);
@@ -519,6 +1121,12 @@ export default function DatabaseViewer() {
           selectedTable={selectedTable}
           onTableSelect={handleTableSelect}
           isLoading={isLoadingTables}
+          savedViews={savedViews}
+          activeViewId={activeViewId}
+          onViewSelect={handleApplyView}
+          onViewUpdate={(view) => updateViewStateMutation.mutate(view)}
+          onViewEdit={(view) => setViewDialog({ isOpen: true, view })}
+          onViewDelete={setViewToDelete}
         />
 
         <main className="flex-1 flex flex-col min-h-0 overflow-hidden">
@@ -529,8 +1137,9 @@ export default function DatabaseViewer() {
               currentPage={currentPage}
               totalPages={queryResult?.totalPages || 1}
               onReload={handleReload}
-              onExport={handleExport}
+              onExport={hasPermission(user, "export") ? handleExport : undefined}
               onOpenSettings={() => setIsSettingsOpen(true)}
+              onOpenMasking={canManageSettings ? () => setIsMaskingOpen(true) : undefined}
               isLoading={isLoadingRows}
               isExporting={isExporting}
               columns={columns}
@@ -538,12 +1147,14 @@ export default function DatabaseViewer() {
               onSaveColumns={handleSaveColumns}
               onLocalColumnsChange={setLocalHiddenColumns}
               isSavingColumns={saveColumnsMutation.isPending}
+              searchTerm={searchTerm}
+              onSearchChange={handleSearchChange}
             />
           )}
 
           <div className="flex-1 flex flex-col min-h-0 overflow-hidden p-6 gap-4">
             <div className="shrink-0">
-              {nlqEnabled && selectedDatabase && (
+              {nlqEnabled && selectedDatabase && hasPermission(user, "use_nlq") && (
                 <NLQPanel
                   isEnabled={nlqEnabled}
                   selectedDatabase={selectedDatabase}
@@ -558,28 +1169,105 @@ export default function DatabaseViewer() {
 
             <div className="shrink-0">
               {selectedTable && visibleColumns.length > 0 && (
-                <DynamicFilter
-                  columns={visibleColumns}
-                  activeFilters={activeFilters}
-                  onApplyFilters={handleApplyFilters}
-                  database={selectedDatabase}
-                  table={selectedTable}
-                />
+                <div className="flex items-center gap-2 flex-wrap">
+                  <DynamicFilter
+                    columns={visibleColumns}
+                    activeFilters={activeFilters}
+                    onApplyFilters={handleApplyFilters}
+                    database={selectedDatabase}
+                    table={selectedTable}
+                  />
+                  <FilterGroupBuilder
+                    columns={visibleColumns}
+                    groups={filterGroups}
+                    onApplyGroups={handleApplyFilterGroups}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setViewDialog({ isOpen: true, view: null })}
+                    data-testid="button-save-view"
+                  >
+                    <Bookmark className="h-4 w-4 mr-2" />
+                    Save view
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleCopyLink}
+                    data-testid="button-copy-link"
+                  >
+                    <Link2 className="h-4 w-4 mr-2" />
+                    Copy link
+                  </Button>
+                  <Button
+                    variant={showAggregates ? "secondary" : "outline"}
+                    size="sm"
+                    onClick={() => setShowAggregates(!showAggregates)}
+                    disabled={viewMode === "summary"}
+                    title="Show count, distinct, sum, average, min and max for the filtered rows"
+                    data-testid="button-toggle-aggregates"
+                  >
+                    <Sigma className="h-4 w-4 mr-2" />
+                    Totals
+                  </Button>
+                  <div className="flex items-center rounded-md border p-0.5 ml-auto">
+                    <Button
+                      variant={viewMode === "rows" ? "secondary" : "ghost"}
+                      size="sm"
+                      className="h-7"
+                      onClick={() => setViewMode("rows")}
+                      data-testid="button-view-rows"
+                    >
+                      <Rows3 className="h-4 w-4 mr-2" />
+                      Rows
+                    </Button>
+                    <Button
+                      variant={viewMode === "summary" ? "secondary" : "ghost"}
+                      size="sm"
+                      className="h-7"
+                      onClick={() => setViewMode("summary")}
+                      title="Group rows by one or two columns and aggregate them"
+                      data-testid="button-view-summary"
+                    >
+                      <Group className="h-4 w-4 mr-2" />
+                      Summarize
+                    </Button>
+                  </div>
+                </div>
               )}
             </div>
 
             <div className="flex-1 min-h-0 overflow-hidden">
-              <DataTable
-                columns={visibleColumns}
-                rows={queryResult?.rows || []}
-                isLoading={isLoadingRows}
-                sort={sort}
-                onSort={handleSort}
-              />
+              {viewMode === "summary" ? (
+                <SummarizeView
+                  columns={visibleColumns}
+                  spec={summarizeSpec}
+                  onSpecChange={setSummarizeSpec}
+                  result={isSummarizeReady ? summarizeResult : undefined}
+                  isLoading={isLoadingSummary && !summarizeResult}
+                  error={summarizeError instanceof Error ? summarizeError.message : null}
+                  onDrillDown={handleSummaryDrillDown}
+                />
+              ) : (
+                <DataTable
+                  columns={visibleColumns}
+                  rows={queryResult?.rows || []}
+                  isLoading={isLoadingRows}
+                  sort={sort}
+                  onSort={handleSort}
+                  navigableTables={navigableTables}
+                  onForeignKeyClick={handleForeignKeyClick}
+                  onRowClick={setSelectedRow}
+                  searchTerm={searchTerm}
+                  aggregates={showAggregates ? aggregateResult?.aggregates ?? null : undefined}
+                  isLoadingAggregates={isLoadingAggregates}
+                />
+              )}
             </div>
           </div>
 
-          {selectedTable && queryResult && queryResult.totalCount > 0 && (
+          {selectedTable && viewMode === "rows" && queryResult && queryResult.totalCount > 0 && (
             <div className="shrink-0">
               <PaginationControls
                 currentPage={currentPage}
@@ -588,12 +1276,62 @@ export default function DatabaseViewer() {
                 pageSize={queryResult.pageSize}
                 onPageChange={handlePageChange}
                 isLoading={isLoadingRows}
+                mode={paginationMode}
+                onModeChange={handlePaginationModeChange}
+                onNavigate={queryResult.pagination === "keyset" ? handleKeysetNavigate : undefined}
+                hasPreviousPage={queryResult.hasPreviousPage}
+                hasNextPage={queryResult.hasNextPage}
+                rowCount={queryResult.rows.length}
+                isApproximateCount={queryResult.isApproximateCount}
+                keysetUnavailable={queryResult.keysetUnavailable}
+                onPageSizeChange={handlePageSizeChange}
               />
             </div>
           )}
         </main>
       </div>
 
+      <RowDetailDrawer
+        database={selectedDatabase}
+        table={selectedTable}
+        columns={detailColumns}
+        row={selectedRow}
+        onClose={() => setSelectedRow(null)}
+        navigableTables={navigableTables}
+        onForeignKeyClick={handleForeignKeyClick}
+        getHiddenColumns={getHiddenColumnsForTable}
+      />
+
+      <SavedViewDialog
+        isOpen={viewDialog.isOpen}
+        onClose={() => setViewDialog({ isOpen: false, view: null })}
+        view={viewDialog.view}
+        canShare={hasPermission(user, "share_views")}
+        isSaving={saveViewMutation.isPending}
+        onSubmit={(details) => saveViewMutation.mutate({ view: viewDialog.view, details })}
+      />
+
+      <AlertDialog open={!!viewToDelete} onOpenChange={(open) => !open && setViewToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete saved view?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{viewToDelete?.name}" will be removed
+              {viewToDelete?.visibility !== "private" ? " for everyone who can see it" : ""}.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete-view">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => viewToDelete && deleteViewMutation.mutate(viewToDelete)}
+              data-testid="button-confirm-delete-view"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <AdminSettingsModal
         isOpen={isSettingsOpen}
         onClose={() => setIsSettingsOpen(false)}
@@ -603,6 +1341,16 @@ export default function DatabaseViewer() {
         onSave={handleSaveFilters}
       />
 
+      <ColumnMaskingModal
+        isOpen={isMaskingOpen}
+        onClose={() => setIsMaskingOpen(false)}
+        database={selectedDatabase}
+        tableName={selectedTable}
+        columns={columns}
+        rules={currentTableSettings?.columnMasks}
+        onSave={handleSaveMasks}
+      />
+
       <AlertDialog open={exportDialogOpen} onOpenChange={setExportDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -615,6 +1363,7 @@ export default function DatabaseViewer() {
                 <AlertDialogDescription>
                   You are about to export <strong>{exportRowCount.toLocaleString()}</strong> rows.
                   This may take a moment to download. Do you want to continue?
+                  You can also export in the background and download the file from the Export Center later.
                 </AlertDialogDescription>
               </>
             )}
@@ -640,17 +1389,60 @@ export default function DatabaseViewer() {
                 </AlertDialogTitle>
                 <AlertDialogDescription>
                   This export contains <strong>{exportRowCount.toLocaleString()}</strong> rows,
-                  which exceeds the maximum export limit of <strong>50,000</strong> rows.
+                  which exceeds the maximum export limit of <strong>{exportMaxRows.toLocaleString()}</strong> rows.
                   <br /><br />
                   Please apply filters to reduce the number of rows before exporting.
                 </AlertDialogDescription>
               </>
             )}
+            {exportDialogType === "quota" && (
+              <>
+                <AlertDialogTitle className="flex items-center gap-2">
+                  <ShieldAlert className="h-5 w-5 text-destructive" />
+                  Export Quota Reached
+                </AlertDialogTitle>
+                <AlertDialogDescription>
+                  This export contains <strong>{exportRowCount.toLocaleString()}</strong> rows,
+                  but only <strong>{exportQuotaRemaining.toLocaleString()}</strong> rows are left in your export quota.
+                  <br /><br />
+                  Apply filters to export fewer rows, or contact an administrator to raise your quota.
+                </AlertDialogDescription>
+              </>
+            )}
+            {exportDialogType === "approval" && (
+              <>
+                <AlertDialogTitle className="flex items-center gap-2">
+                  <ShieldAlert className="h-5 w-5 text-yellow-500" />
+                  Approval Required
+                </AlertDialogTitle>
+                <AlertDialogDescription>
+                  This export contains <strong>{exportRowCount.toLocaleString()}</strong> rows.
+                  Exports of more than <strong>{exportApprovalThreshold.toLocaleString()}</strong> rows
+                  from this table need an administrator's approval.
+                </AlertDialogDescription>
+                <Textarea
+                  value={exportApprovalReason}
+                  onChange={(e) => setExportApprovalReason(e.target.value)}
+                  placeholder="Why do you need this export? (optional)"
+                  data-testid="input-export-approval-reason"
+                />
+              </>
+            )}
           </AlertDialogHeader>
           <AlertDialogFooter>
-            {exportDialogType === "warning" ? (
+            {exportDialogType === "approval" ? (
+              <>
+                <AlertDialogCancel data-testid="button-export-cancel">Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleRequestApproval} data-testid="button-export-request-approval">
+                  Request approval
+                </AlertDialogAction>
+              </>
+            ) : exportDialogType === "warning" ? (
               <>
                 <AlertDialogCancel data-testid="button-export-cancel">Cancel</AlertDialogCancel>
+                <Button variant="outline" onClick={handleBackgroundExport} data-testid="button-export-background">
+                  Export in background
+                </Button>
                 <AlertDialogAction onClick={handleExportConfirm} data-testid="button-export-confirm">
                   Export {exportRowCount.toLocaleString()} rows
                 </AlertDialogAction>
@@ -0,0 +1,239 @@
+import { useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { downloadResponse } from "@/lib/download";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { ArrowLeft, Download, FileDown, Loader2, Trash2, X } from "lucide-react";
+import { EXPORT_FORMAT_LABELS, type ExportApproval, type ExportApprovalStatus, type ExportJob, type ExportJobStatus } from "@/lib/types";
+
+// Poll while anything is still queued or running
+const ACTIVE_POLL_MS = 2000;
+
+const NO_JOBS: ExportJob[] = [];
+const NO_APPROVALS: ExportApproval[] = [];
+
+const STATUS_LABELS: Record<ExportJobStatus, string> = {
+  queued: "Queued",
+  running: "Running",
+  completed: "Ready",
+  failed: "Failed",
+  cancelled: "Cancelled",
+  expired: "Expired",
+};
+
+const STATUS_VARIANTS: Record<ExportJobStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "secondary",
+  running: "secondary",
+  completed: "default",
+  failed: "destructive",
+  cancelled: "outline",
+  expired: "outline",
+};
+
+const APPROVAL_STATUS_LABELS: Record<ExportApprovalStatus, string> = {
+  pending: "Awaiting approval",
+  approved: "Approved",
+  denied: "Denied",
+};
+
+const APPROVAL_STATUS_VARIANTS: Record<ExportApprovalStatus, "default" | "secondary" | "destructive"> = {
+  pending: "secondary",
+  approved: "default",
+  denied: "destructive",
+};
+
+function isActive(job: ExportJob): boolean {
+  return job.status === "queued" || job.status === "running";
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function ExportCenter() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  const { data: jobs = NO_JOBS, isLoading } = useQuery<ExportJob[]>({
+    queryKey: ["/api/export/jobs"],
+    refetchInterval: (query) => (query.state.data?.some(isActive) ? ACTIVE_POLL_MS : false),
+  });
+
+  const { data: approvals = NO_APPROVALS } = useQuery<ExportApproval[]>({
+    queryKey: ["/api/export/approvals"],
+    refetchInterval: (query) => (query.state.data?.some((a) => a.status === "pending") ? ACTIVE_POLL_MS : false),
+  });
+
+  // An approval starts a job; refresh the job list when one comes through
+  const approvedCount = approvals.filter((a) => a.status === "approved").length;
+  useEffect(() => {
+    if (approvedCount > 0) queryClient.invalidateQueries({ queryKey: ["/api/export/jobs"] });
+  }, [approvedCount]);
+
+  const downloadMutation = useMutation({
+    mutationFn: async (job: ExportJob) => {
+      const res = await apiRequest("GET", `/api/export/jobs/${job.id}/download`);
+      await downloadResponse(res, `${job.fileName}.${job.format}`);
+    },
+    onError: (err) => {
+      toast({ title: "Download failed", description: err instanceof Error ? err.message : "Failed to download export", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (job: ExportJob) => {
+      return apiRequest("DELETE", `/api/export/jobs/${job.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/export/jobs"] });
+    },
+    onError: (err) => {
+      toast({ title: "Error", description: err instanceof Error ? err.message : "Failed to remove export", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 h-16 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/")} data-testid="button-back">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="flex items-center gap-2">
+              <FileDown className="h-5 w-5 text-primary" />
+              <span className="font-semibold">Export Center</span>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {approvals.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Approval Requests</CardTitle>
+              <CardDescription>
+                Exports over your access limits wait for an administrator. Approved exports run in the background below.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="divide-y">
+                {approvals.map((approval) => (
+                  <div key={approval.id} className="py-3 space-y-1" data-testid={`export-approval-${approval.id}`}>
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-sm truncate">{approval.tableName}</span>
+                      <span className="text-xs text-muted-foreground">{approval.database}</span>
+                      <Badge variant="outline" className="text-[10px]">{EXPORT_FORMAT_LABELS[approval.format]}</Badge>
+                      <Badge variant={APPROVAL_STATUS_VARIANTS[approval.status]} className="text-[10px]">
+                        {APPROVAL_STATUS_LABELS[approval.status]}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {approval.estimatedRows.toLocaleString()} rows · Requested {new Date(approval.createdAt).toLocaleString()}
+                      {approval.reviewedAt && ` · Reviewed ${new Date(approval.reviewedAt).toLocaleString()}`}
+                    </p>
+                    {approval.reviewComment && (
+                      <p className="text-xs text-muted-foreground">Reviewer: {approval.reviewComment}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Background Exports</CardTitle>
+            <CardDescription>
+              Large exports run here while you keep working. Finished files can be downloaded until they expire.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : jobs.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                No background exports yet. Choose "Export in background" when exporting a large table.
+              </p>
+            ) : (
+              <div className="divide-y">
+                {jobs.map((job) => (
+                  <div key={job.id} className="py-3 flex items-center gap-4" data-testid={`export-job-${job.id}`}>
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono text-sm truncate">{job.tableName}</span>
+                        <span className="text-xs text-muted-foreground">{job.database}</span>
+                        <Badge variant="outline" className="text-[10px]">{EXPORT_FORMAT_LABELS[job.format]}</Badge>
+                        <Badge variant={STATUS_VARIANTS[job.status]} className="text-[10px]">
+                          {STATUS_LABELS[job.status]}
+                        </Badge>
+                      </div>
+                      {isActive(job) ? (
+                        <div className="flex items-center gap-2">
+                          <Progress
+                            value={job.estimatedRows > 0 ? Math.min(100, (job.rowsWritten / job.estimatedRows) * 100) : 0}
+                            className="h-2 w-64"
+                          />
+                          <span className="text-xs text-muted-foreground">
+                            {job.rowsWritten.toLocaleString()} of {job.estimatedRows.toLocaleString()} rows
+                          </span>
+                        </div>
+                      ) : (
+                        <p className="text-xs text-muted-foreground">
+                          Started {new Date(job.createdAt).toLocaleString()}
+                          {job.status === "completed" && (
+                            <>
+                              {" "}· {job.rowsWritten.toLocaleString()} rows
+                              {job.fileSize !== null && ` · ${formatFileSize(job.fileSize)}`}
+                              {job.expiresAt && ` · Available until ${new Date(job.expiresAt).toLocaleString()}`}
+                            </>
+                          )}
+                          {job.status === "failed" && job.error && (
+                            <span className="text-destructive"> · {job.error}</span>
+                          )}
+                        </p>
+                      )}
+                    </div>
+                    {job.status === "completed" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => downloadMutation.mutate(job)}
+                        disabled={downloadMutation.isPending}
+                        data-testid={`button-download-export-${job.id}`}
+                      >
+                        <Download className="h-4 w-4 mr-1" />
+                        Download
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteMutation.mutate(job)}
+                      disabled={deleteMutation.isPending}
+                      title={isActive(job) ? "Cancel export" : "Remove export"}
+                      data-testid={`button-remove-export-${job.id}`}
+                    >
+                      {isActive(job) ? <X className="h-4 w-4" /> : <Trash2 className="h-4 w-4 text-destructive" />}
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
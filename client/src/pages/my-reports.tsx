@@ -63,6 +63,9 @@ import {
   Download,
 } from "lucide-react";
 import { Link } from "wouter";
+import { ExportFormatMenu } from "@/components/export-format-menu";
+import { downloadResponse } from "@/lib/download";
+import { hasPermission, type ExportFormat } from "@/lib/types";
 
 interface ReportPage {
   id: string;
@@ -520,44 +523,18 @@ function ReportBlockCard({ block, onDelete }: { block: ReportBlock; onDelete: ()
   };
 
   const [isExporting, setIsExporting] = useState(false);
+  const { user } = useAuth();
+  // Block exports are every row of the block
+  const canExport = hasPermission(user, "export") && hasPermission(user, "export_all");
 
-  const handleExport = async () => {
+  const handleExport = async (format: ExportFormat) => {
     if (!result || result.type !== "table") return;
     
     setIsExporting(true);
     try {
-      // Fetch all data for export
-      const res = await apiRequest("POST", `/api/reports/blocks/${block.id}/run`, { exportAll: true });
-      const exportData = await res.json() as BlockQueryResult;
-      
-      if (exportData.type !== "table" || !exportData.rows?.length) {
-        setIsExporting(false);
-        return;
-      }
-      
-      const rows = exportData.rows;
-      const headers = Object.keys(rows[0]);
-      
-      const escapeCSV = (val: unknown): string => {
-        const str = String(val ?? "");
-        if (str.includes(",") || str.includes('"') || str.includes("\n")) {
-          return `"${str.replace(/"/g, '""')}"`;
-        }
-        return str;
-      };
-      
-      const csvContent = [
-        headers.join(","),
-        ...rows.map(row => headers.map(h => escapeCSV(row[h])).join(","))
-      ].join("\n");
-      
-      const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = `${block.title || "report"}_${new Date().toISOString().split("T")[0]}.csv`;
-      link.click();
-      URL.revokeObjectURL(url);
+      // The server writes the file, applying the same masks and audit logging as other exports
+      const res = await apiRequest("POST", `/api/reports/blocks/${block.id}/run`, { exportAll: true, format });
+      await downloadResponse(res, `${block.title || "report"}_${new Date().toISOString().split("T")[0]}.${format}`);
     } catch (err) {
       console.error("Export failed:", err);
     } finally {
@@ -613,11 +590,11 @@ function ReportBlockCard({ block, onDelete }: { block: ReportBlock; onDelete: ()
               <RefreshCw className="h-4 w-4" />
             )}
           </Button>
-          {result?.type === "table" && result.rows && result.rows.length > 0 && (
-            <Button 
-              size="icon" 
-              variant="ghost" 
-              onClick={handleExport}
+          {canExport && result?.type === "table" && result.rows && result.rows.length > 0 && (
+            <ExportFormatMenu
+              size="icon"
+              variant="ghost"
+              onSelect={handleExport}
               disabled={isExporting}
               data-testid={`button-export-block-${block.id}`}
             >
@@ -626,7 +603,7 @@ function ReportBlockCard({ block, onDelete }: { block: ReportBlock; onDelete: ()
               ) : (
                 <Download className="h-4 w-4" />
               )}
-            </Button>
+            </ExportFormatMenu>
           )}
           <Button size="icon" variant="ghost" onClick={onDelete} data-testid={`button-delete-block-${block.id}`}>
             <Trash2 className="h-4 w-4" />
@@ -8,6 +8,7 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { Header } from "@/components/header";
+import { ExportFormatMenu } from "@/components/export-format-menu";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -35,7 +36,8 @@ import {
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
 import { cn } from "@/lib/utils";
-import type { DatabaseConnection } from "@/lib/types";
+import type { DatabaseConnection, ExportFormat } from "@/lib/types";
+import { downloadResponse } from "@/lib/download";
 
 interface OperationsMetrics {
   bookingsCompleted: number;
@@ -480,12 +482,13 @@ export default function OperationsPerformance() {
     },
   });
   
-  // CSV export handler for drilldown data
-  const handleExportCSV = async (drilldown: DrilldownData) => {
+  // Export handler for drilldown data
+  const handleExport = async (drilldown: DrilldownData, format: ExportFormat) => {
     const params = new URLSearchParams({
       metricId: drilldown.metricId,
       periodStart: drilldown.periodStart,
       periodEnd: drilldown.periodEnd,
+      format,
     });
     const url = `/api/operations-performance/${selectedDatabase}/drilldown-export?${params.toString()}`;
     
@@ -508,15 +511,7 @@ export default function OperationsPerformance() {
         return;
       }
       
-      const blob = await response.blob();
-      const downloadUrl = window.URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = downloadUrl;
-      a.download = `${drilldown.metricId}_${drilldown.periodStart}_to_${drilldown.periodEnd}.csv`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      window.URL.revokeObjectURL(downloadUrl);
+      await downloadResponse(response, `${drilldown.metricId}_${drilldown.periodStart}_to_${drilldown.periodEnd}.${format}`);
     } catch (err) {
       toast({
         title: "Export Failed",
@@ -1100,16 +1095,14 @@ export default function OperationsPerformance() {
                               <span className="text-xs text-muted-foreground" data-testid={`text-row-count-${drilldown.metricId}`}>
                                 {drilldown.previewCount} of {drilldown.totalCount} rows
                               </span>
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                onClick={() => handleExportCSV(drilldown)}
+                              <ExportFormatMenu
+                                onSelect={(format) => handleExport(drilldown, format)}
                                 className="text-xs gap-1"
-                                data-testid={`button-export-csv-${drilldown.metricId}`}
+                                data-testid={`button-export-${drilldown.metricId}`}
                               >
                                 <Download className="h-3 w-3" />
-                                CSV
-                              </Button>
+                                Export
+                              </ExportFormatMenu>
                             </div>
                           </div>
                           
@@ -3,6 +3,7 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { Link } from "wouter";
 import { ArrowLeft, TrendingUp, TrendingDown, Minus, RefreshCw, Loader2, Calendar, DollarSign, Users, BarChart3, Percent, MessageCircle, Send, X, Bot, User, Download, Table2, MapPin, Check, ChevronDown, CreditCard, AlertCircle } from "lucide-react";
 import { Header } from "@/components/header";
+import { ExportFormatMenu } from "@/components/export-format-menu";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -31,7 +32,7 @@ import {
 } from "@/components/ui/popover";
 import { cn } from "@/lib/utils";
 import { apiRequest } from "@/lib/queryClient";
-import type { DatabaseConnection } from "@/lib/types";
+import type { DatabaseConnection, ExportFormat } from "@/lib/types";
 
 interface DrilldownData {
   metricId: string;
@@ -385,12 +386,13 @@ export default function WeeklyPerformance() {
     },
   });
   
-  // CSV export handler
-  const handleExportCSV = (drilldown: DrilldownData) => {
+  // Drilldown export handler
+  const handleExport = (drilldown: DrilldownData, format: ExportFormat) => {
     const params = new URLSearchParams({
       metricId: drilldown.metricId,
       weekStart: drilldown.periodStart,
       weekEnd: drilldown.periodEnd,
+      format,
     });
     if (drilldown.subSourceId) {
       params.set("subSourceId", drilldown.subSourceId);
@@ -921,16 +923,14 @@ export default function WeeklyPerformance() {
                               <span className="text-xs text-muted-foreground" data-testid={`text-row-count-${drilldown.metricId}`}>
                                 {drilldown.previewCount} of {drilldown.totalCount} rows
                               </span>
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                onClick={() => handleExportCSV(drilldown)}
+                              <ExportFormatMenu
+                                onSelect={(format) => handleExport(drilldown, format)}
                                 className="text-xs gap-1"
-                                data-testid={`button-export-csv-${drilldown.metricId}`}
+                                data-testid={`button-export-${drilldown.metricId}`}
                               >
                                 <Download className="h-3 w-3" />
-                                CSV
-                              </Button>
+                                Export
+                              </ExportFormatMenu>
                             </div>
                           </div>
                           
@@ -1,4 +1,5 @@
 import { Pool } from "pg";
+import { TABLE_COLUMNS_SQL } from "../catalog";
 
 export interface ColumnStats {
   name: string;
@@ -7,6 +8,7 @@ export interface ColumnStats {
   dateRange?: { min: string; max: string };
   numericRange?: { min: number; max: number; p50?: number; p95?: number };
   topValues?: Array<{ value: string; count: number }>;
+  jsonKeys?: string[];
   totalRows?: number;
 }
 
@@ -24,6 +26,8 @@ const CACHE_TTL_MS = 15 * 60 * 1000;
 const MAX_COLUMNS_HEAVY_SAMPLING = 15;
 const QUERY_TIMEOUT_MS = 5000;
 const LOW_CARDINALITY_THRESHOLD = 100;
+const JSON_KEY_SAMPLE_ROWS = 500;
+const MAX_JSON_KEYS = 30;
 
 function getCacheKey(database: string, schema: string, table: string): string {
   return `${database}:${schema}.${table}`;
@@ -61,7 +65,7 @@ export async function getTableDataDictionary(
   try {
     const columnsResult = await pool.query(`
       SELECT column_name, data_type, is_nullable
-      FROM information_schema.columns
+      FROM ${TABLE_COLUMNS_SQL}
       WHERE table_schema = $1 AND table_name = $2
       ORDER BY ordinal_position
     `, [schema, table]);
@@ -148,6 +152,27 @@ export async function getTableDataDictionary(
           }
         }
 
+        else if (dataType === "json" || dataType === "jsonb") {
+          heavySamplingCount++;
+          const keysResult = await queryWithTimeout<{ rows: Array<{ key: string }> }>(
+            pool,
+            `SELECT key, COUNT(*) as count
+             FROM (
+               SELECT "${colName}"::jsonb as value FROM "${schema}"."${table}"
+               WHERE jsonb_typeof("${colName}"::jsonb) = 'object'
+               LIMIT ${JSON_KEY_SAMPLE_ROWS}
+             ) sampled, jsonb_object_keys(sampled.value) as key
+             GROUP BY key
+             ORDER BY count DESC
+             LIMIT ${MAX_JSON_KEYS}`,
+            [],
+            3000
+          );
+          if (keysResult?.rows.length) {
+            stat.jsonKeys = keysResult.rows.map(r => r.key);
+          }
+        }
+
         else if (dataType.includes("character") || dataType.includes("text") || dataType === "USER-DEFINED") {
           heavySamplingCount++;
           const distinctCountResult = await queryWithTimeout<{ rows: Array<{ count: string }> }>(
@@ -222,6 +247,10 @@ export function formatDataDictionaryForPrompt(dictionary: TableDataDictionary):
       colLine += ` [range: ${col.numericRange.min} - ${col.numericRange.max}]`;
     }
 
+    if (col.jsonKeys && col.jsonKeys.length > 0) {
+      colLine += ` [json keys: ${col.jsonKeys.join(", ")}]`;
+    }
+
     if (col.topValues && col.topValues.length > 0) {
       const topVals = col.topValues.slice(0, 8).map(v => `"${v.value}"`).join(", ");
       colLine += ` [values: ${topVals}${col.topValues.length > 8 ? ", ..." : ""}]`;
@@ -233,6 +262,15 @@ export function formatDataDictionaryForPrompt(dictionary: TableDataDictionary):
   return lines.join("\n");
 }
 
+// Dictionary without anything sampled from the rows (ranges, top values, JSON keys), for
+// users who may only read some of the table's rows
+export function withoutSampledValues(dictionary: TableDataDictionary): TableDataDictionary {
+  return {
+    ...dictionary,
+    columns: dictionary.columns.map(({ dateRange, numericRange, topValues, jsonKeys, ...column }) => column),
+  };
+}
+
 export function clearDataDictionaryCache(database?: string, schema?: string, table?: string): void {
   if (database && schema && table) {
     dataDictionaryCache.delete(getCacheKey(database, schema, table));
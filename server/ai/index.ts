@@ -3,6 +3,7 @@ export {
   getTableDataDictionary,
   formatDataDictionaryForPrompt,
   clearDataDictionaryCache,
+  withoutSampledValues,
   type TableDataDictionary,
   type ColumnStats,
 } from "./data-dictionary";
@@ -46,7 +46,7 @@ You must return ONLY a valid JSON object with this structure:
   "table": "${table}",
   "page": 1,
   "filters": [
-    {"column": "column_name", "op": "operator", "value": "filter_value"}
+    {"column": "column_name", "op": "operator", "value": "filter_value", "path": ["optional", "json", "keys"]}
   ],
   "questions": ["question1", "question2"],
   "suggestions": [
@@ -78,6 +78,18 @@ Valid operators are:
 - lte: less than or equal to
 - between: range filter (value should be array like ["2024-01-01", "2024-12-31"])
 - in: match any value in a list (value should be array like ["value1", "value2", "value3"]) - USE THIS when user provides a list of specific values to match
+- neq: not equal to (rows where the column is null also match)
+- not_in: match none of the values in a list (value should be an array; rows where the column is null also match)
+- starts_with / ends_with: prefix or suffix match (case-insensitive)
+- regex: case-insensitive regular expression match
+- is_null / is_not_null: value is missing / present (value should be "")
+- last_n_days: within the last N days including today (value should be the number of days, like "7")
+- this_week: within the current Monday-Sunday week (value should be "")
+- this_month: within the current calendar month (value should be "")
+- has_key: a json/jsonb column has the key given as value
+- array_contains: a json/jsonb array contains the value
+
+JSON COLUMNS: Columns listed with [json keys: ...] hold JSON objects. To filter on a key inside one, add "path" with the key names, e.g. {"column": "metadata", "path": ["source"], "op": "eq", "value": "ios"}. Only use keys listed for that column.
 
 IMPORTANT RULES:
 1. Always use the table "${table}" - do not change it
@@ -87,7 +99,7 @@ IMPORTANT RULES:
    - If user says "created", "added", "registered" -> use created_at if available
    - If user says "updated", "modified" -> use updated_at if available
    - If still ambiguous, set action: "clarify" and ask which date column to use
-4. For date ranges like "last week", "this month", "2024", use the "between" operator with [start, end] array
+4. For date ranges like "last week" or "2024", use the "between" operator with [start, end] array. For "last N days", "this week" and "this month", prefer the last_n_days, this_week and this_month operators
 5. Always include the "explain" object when action is "plan"
 6. Only return valid JSON, no explanation or markdown
 
@@ -263,9 +275,12 @@ For "metric" blocks:
   "format": "number" | "currency" | "percentage"
 }
 
-FILTER OPERATORS: eq, contains, gt, gte, lt, lte, between, in
+FILTER OPERATORS: eq, neq, contains, starts_with, ends_with, regex, gt, gte, lt, lte, between, in, not_in, is_null, is_not_null, last_n_days, this_week, this_month
 - Use "in" operator with an array value when user provides a LIST of specific values to match (e.g., multiple email addresses, IDs, names)
 - Example: {"column": "email", "operator": "in", "value": ["email1@test.com", "email2@test.com"]}
+- Use "neq" / "not_in" for exclusions, e.g. {"column": "status", "operator": "neq", "value": "cancelled"}
+- "is_null" / "is_not_null", "this_week" and "this_month" take an empty value ""; "last_n_days" takes the number of days, e.g. "7"
+- For OR logic across different columns, a filter entry can be a group: {"type": "group", "connective": "or", "children": [...filters]}; groups can be nested and take "negate": true for NOT
 IMPORTANT: Do NOT use "like", "!=", or any other operators not listed above.
 
 For date comparisons (e.g., "compare last week to this week"):
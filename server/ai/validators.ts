@@ -13,8 +13,16 @@ export type Timeframe = z.infer<typeof timeframeSchema>;
 
 export const nlqFilterSchema = z.object({
   column: z.string(),
-  op: z.enum(["eq", "contains", "gt", "gte", "lt", "lte", "between"]),
-  value: z.union([z.string(), z.array(z.string())]),
+  op: z.enum([
+    "eq", "neq", "contains", "starts_with", "ends_with", "regex",
+    "gt", "gte", "lt", "lte", "between", "in", "not_in",
+    "is_null", "is_not_null", "last_n_days", "this_week", "this_month",
+    "has_key", "array_contains",
+  ]),
+  // Null checks and this_week/this_month take no value
+  value: z.union([z.string(), z.array(z.string())]).default(""),
+  // Key path into a json/jsonb column
+  path: z.array(z.string()).optional(),
 });
 export type NLQFilter = z.infer<typeof nlqFilterSchema>;
 
@@ -0,0 +1,92 @@
+import type { Pool } from "pg";
+import type { TableObjectType } from "@shared/schema";
+
+// Schemas listed when an admin hasn't picked any for a database
+export const DEFAULT_EXPOSED_SCHEMAS = ["public"];
+
+const SYSTEM_SCHEMAS = ["pg_catalog", "information_schema"];
+
+const RELKIND_TYPES: Record<string, TableObjectType> = {
+  r: "table",
+  p: "table",
+  v: "view",
+  m: "materialized_view",
+};
+
+// Drop-in replacement for information_schema.columns (same column names) that also
+// covers materialized views, which information_schema leaves out
+export const TABLE_COLUMNS_SQL = `(
+  SELECT table_schema, table_name, column_name, data_type, udt_name, is_nullable, ordinal_position
+  FROM information_schema.columns
+  UNION ALL
+  SELECT n.nspname, c.relname, a.attname, format_type(a.atttypid, NULL), t.typname,
+    CASE WHEN a.attnotnull THEN 'NO' ELSE 'YES' END, a.attnum
+  FROM pg_attribute a
+  JOIN pg_class c ON c.oid = a.attrelid
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  JOIN pg_type t ON t.oid = a.atttypid
+  WHERE c.relkind = 'm' AND a.attnum > 0 AND NOT a.attisdropped
+) columns`;
+
+export interface TableObject {
+  schema: string;
+  name: string;
+  type: TableObjectType;
+}
+
+// Tables, views and materialized views in the given schemas
+export async function listTableObjects(pool: Pool, schemas: string[]): Promise<TableObject[]> {
+  const result = await pool.query(
+    `
+    SELECT n.nspname AS table_schema, c.relname AS table_name, c.relkind
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE c.relkind IN ('r', 'p', 'v', 'm')
+      AND n.nspname = ANY($1)
+    ORDER BY n.nspname, c.relname
+  `,
+    [schemas]
+  );
+  return result.rows.map((row) => ({
+    schema: row.table_schema,
+    name: row.table_name,
+    type: RELKIND_TYPES[row.relkind],
+  }));
+}
+
+// Object type of a table or view, or null if it doesn't exist
+export async function getTableObjectType(
+  pool: Pool,
+  schema: string,
+  table: string
+): Promise<TableObjectType | null> {
+  const result = await pool.query(
+    `
+    SELECT c.relkind
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = $1 AND c.relname = $2 AND c.relkind IN ('r', 'p', 'v', 'm')
+  `,
+    [schema, table]
+  );
+  return result.rows.length > 0 ? RELKIND_TYPES[result.rows[0].relkind] : null;
+}
+
+// User schemas an admin can choose to expose
+export async function listSchemas(pool: Pool): Promise<string[]> {
+  const result = await pool.query(
+    `
+    SELECT nspname FROM pg_namespace
+    WHERE nspname <> ALL($1) AND nspname NOT LIKE 'pg\\_%'
+    ORDER BY nspname
+  `,
+    [SYSTEM_SCHEMAS]
+  );
+  return result.rows.map((row) => row.nspname);
+}
+
+// Default row order when there is no primary key: views have no ctid, so fall back
+// to the first column there
+export function getFallbackOrderSQL(type: TableObjectType | null): string {
+  return type === "view" ? "1" : "ctid";
+}
@@ -0,0 +1,178 @@
+import type { Response } from "express";
+import type { Writable } from "stream";
+import type { FieldDef, Pool } from "pg";
+import { XlsxWriter, writeChunk, type XlsxCellType, type XlsxColumn } from "./xlsx";
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "json", "ndjson"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json",
+  ndjson: "application/x-ndjson",
+};
+
+// pg type OIDs whose values get typed spreadsheet cells; everything else is written as text
+const PG_TYPE_CELLS: Record<number, XlsxCellType> = {
+  16: "boolean",
+  20: "number",
+  21: "number",
+  23: "number",
+  700: "number",
+  701: "number",
+  1700: "number",
+  1082: "date",
+  1114: "datetime",
+  1184: "datetime",
+};
+
+// Rows fetched from the cursor per round trip
+const EXPORT_BATCH_SIZE = 1000;
+
+// Missing format means CSV, the only format there used to be; null for anything unsupported
+export function parseExportFormat(value: unknown): ExportFormat | null {
+  if (value === undefined || value === null || value === "") return "csv";
+  return (EXPORT_FORMATS as readonly unknown[]).includes(value) ? (value as ExportFormat) : null;
+}
+
+export function setExportHeaders(res: Response, format: ExportFormat, basename: string): void {
+  res.setHeader("Content-Type", CONTENT_TYPES[format]);
+  res.setHeader("Content-Disposition", `attachment; filename="${basename}.${format}"`);
+}
+
+function escapeCSV(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const str = value instanceof Date ? value.toISOString() : typeof value === "object" ? JSON.stringify(value) : String(value);
+  if (str.includes(",") || str.includes('"') || str.includes("\n")) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+function pickColumns(row: Record<string, unknown>, columns: string[]): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+  for (const col of columns) picked[col] = row[col] ?? null;
+  return picked;
+}
+
+export interface ExportWriter {
+  // fields describes the query result the rows came from; XLSX uses it to type cells
+  writeRows(rows: Record<string, unknown>[], fields?: FieldDef[]): Promise<void>;
+  end(): Promise<void>;
+}
+
+// Writes rows as they are fetched; only the listed columns are written, in that order, so
+// hidden columns stay out of every format. Each batch waits for the output (a response or a
+// file) to drain.
+export function createExportWriter(format: ExportFormat, res: Writable, columns: string[], sheetName?: string): ExportWriter {
+  switch (format) {
+    case "csv": {
+      let headerWritten = false;
+      const header = () => {
+        if (headerWritten) return "";
+        headerWritten = true;
+        return columns.map(escapeCSV).join(",") + "\n";
+      };
+      return {
+        async writeRows(rows) {
+          const lines = rows.map((row) => columns.map((col) => escapeCSV(row[col])).join(",") + "\n");
+          await writeChunk(res, header() + lines.join(""));
+        },
+        async end() {
+          if (!headerWritten) await writeChunk(res, header());
+        },
+      };
+    }
+    case "json": {
+      let first = true;
+      return {
+        async writeRows(rows) {
+          if (rows.length === 0) return;
+          const items = rows.map((row) => JSON.stringify(pickColumns(row, columns)));
+          await writeChunk(res, (first ? "[\n" : ",\n") + items.join(",\n"));
+          first = false;
+        },
+        async end() {
+          await writeChunk(res, first ? "[]\n" : "\n]\n");
+        },
+      };
+    }
+    case "ndjson": {
+      return {
+        async writeRows(rows) {
+          if (rows.length === 0) return;
+          await writeChunk(res, rows.map((row) => JSON.stringify(pickColumns(row, columns)) + "\n").join(""));
+        },
+        async end() {},
+      };
+    }
+    case "xlsx": {
+      // Cell types come from the first batch's fields, which is also when the sheet starts
+      let writer: XlsxWriter | null = null;
+      const open = (fields?: FieldDef[]) => {
+        const types = new Map(fields?.map((f) => [f.name, PG_TYPE_CELLS[f.dataTypeID]]));
+        const sheetColumns: XlsxColumn[] = columns.map((name) => ({ name, type: types.get(name) }));
+        return new XlsxWriter(res, sheetColumns, sheetName);
+      };
+      return {
+        async writeRows(rows, fields) {
+          writer ??= open(fields);
+          await writer.writeRows(rows);
+        },
+        async end() {
+          writer ??= open();
+          await writer.end();
+        },
+      };
+    }
+  }
+}
+
+// Runs the query through a server-side cursor and hands each batch to the writer, so only one
+// batch is in memory however many rows the export has. Resolves with the number of rows written;
+// onBatch sees the running total and can throw to abort the export.
+export async function streamQueryExport(
+  pool: Pool,
+  query: string,
+  params: unknown[],
+  writer: ExportWriter,
+  onBatch?: (rowsWritten: number) => Promise<void>
+): Promise<number> {
+  const client = await pool.connect();
+  const cursorName = `export_cursor_${Date.now()}_${Math.floor(Math.random() * 1e6)}`;
+  let transactionStarted = false;
+  let rowCount = 0;
+
+  try {
+    await client.query("BEGIN");
+    transactionStarted = true;
+    await client.query(`DECLARE ${cursorName} NO SCROLL CURSOR FOR ${query}`, params);
+
+    for (;;) {
+      const batch = await client.query(`FETCH ${EXPORT_BATCH_SIZE} FROM ${cursorName}`);
+      if (batch.rows.length === 0) break;
+      await writer.writeRows(batch.rows, batch.fields);
+      rowCount += batch.rows.length;
+      await onBatch?.(rowCount);
+    }
+
+    await client.query(`CLOSE ${cursorName}`);
+    await client.query("COMMIT");
+  } catch (err) {
+    // Rollback on any streaming error (including the client going away) to prevent poisoned connections
+    if (transactionStarted) {
+      try {
+        await client.query("ROLLBACK");
+      } catch (rollbackError) {
+        console.error("Error rolling back export transaction:", rollbackError);
+      }
+    }
+    throw err;
+  } finally {
+    client.release();
+  }
+
+  await writer.end();
+  return rowCount;
+}
@@ -0,0 +1,182 @@
+import * as fs from "fs";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import type { Pool } from "pg";
+import { and, eq, inArray, isNull, lt, lte, ne, or } from "drizzle-orm";
+import { exportJobs, type ExportJob } from "@shared/schema";
+import { db } from "./db";
+import { createExportWriter, streamQueryExport, type ExportFormat } from "./exportFormats";
+
+// Where finished export files are kept until they expire
+export const EXPORT_FILES_DIR = process.env.EXPORT_FILES_DIR || path.join(process.cwd(), "export_files");
+
+const DEFAULT_RETENTION_HOURS = 24;
+export const EXPORT_RETENTION_MS =
+  (Number(process.env.EXPORT_RETENTION_HOURS) || DEFAULT_RETENTION_HOURS) * 60 * 60 * 1000;
+
+// Background exports share the database pools with interactive requests, so only a few run at once
+const MAX_RUNNING_JOBS = 2;
+// How often a running job saves its progress
+const PROGRESS_UPDATE_MS = 1000;
+// How often this process refreshes the heartbeat of the jobs it owns, and how old a heartbeat
+// gets before another instance treats the owner as gone
+export const EXPORT_JOB_HEARTBEAT_MS = 30 * 1000;
+const EXPORT_JOB_STALE_MS = 4 * EXPORT_JOB_HEARTBEAT_MS;
+
+// Identifies this server process as the owner of the jobs in its queue
+export const EXPORT_JOB_OWNER_ID = randomUUID();
+
+export interface ExportJobTask {
+  pool: Pool;
+  query: string;
+  params: unknown[];
+  columns: string[];
+  format: ExportFormat;
+  sheetName: string;
+  // Runs once the file is complete, e.g. to write the export's audit log entry
+  onComplete: (rowCount: number) => Promise<void>;
+}
+
+// In-process queue; jobs waiting here are lost on restart and marked failed by recoverExportJobs
+// once their heartbeat goes stale
+const queue: { jobId: string; task: ExportJobTask }[] = [];
+const cancelled = new Set<string>();
+let runningJobs = 0;
+
+export function exportFilePath(job: Pick<ExportJob, "id" | "format">): string {
+  return path.join(EXPORT_FILES_DIR, `${job.id}.${job.format}`);
+}
+
+export function enqueueExportJob(jobId: string, task: ExportJobTask): void {
+  queue.push({ jobId, task });
+  runNextJobs();
+}
+
+// Stops a queued or running job; the runner marks it cancelled and removes the partial file
+export async function cancelExportJob(jobId: string): Promise<void> {
+  const queuedIndex = queue.findIndex((q) => q.jobId === jobId);
+  if (queuedIndex !== -1) {
+    queue.splice(queuedIndex, 1);
+    await db
+      .update(exportJobs)
+      .set({ status: "cancelled", completedAt: new Date() })
+      .where(eq(exportJobs.id, jobId));
+    return;
+  }
+  cancelled.add(jobId);
+}
+
+function runNextJobs(): void {
+  while (runningJobs < MAX_RUNNING_JOBS && queue.length > 0) {
+    const { jobId, task } = queue.shift()!;
+    runningJobs++;
+    void runExportJob(jobId, task).finally(() => {
+      runningJobs--;
+      runNextJobs();
+    });
+  }
+}
+
+async function runExportJob(jobId: string, task: ExportJobTask): Promise<void> {
+  const file = exportFilePath({ id: jobId, format: task.format });
+  let out: fs.WriteStream | null = null;
+
+  try {
+    await db
+      .update(exportJobs)
+      .set({ status: "running", startedAt: new Date(), heartbeatAt: new Date() })
+      .where(eq(exportJobs.id, jobId));
+    await fs.promises.mkdir(EXPORT_FILES_DIR, { recursive: true });
+
+    const stream = fs.createWriteStream(file);
+    out = stream;
+    const writer = createExportWriter(task.format, stream, task.columns, task.sheetName);
+    let lastProgressAt = Date.now();
+    const rowCount = await streamQueryExport(task.pool, task.query, task.params, writer, async (rowsWritten) => {
+      if (cancelled.has(jobId)) throw new Error("Export cancelled");
+      if (Date.now() - lastProgressAt < PROGRESS_UPDATE_MS) return;
+      lastProgressAt = Date.now();
+      await db.update(exportJobs).set({ rowsWritten }).where(eq(exportJobs.id, jobId));
+    });
+    await new Promise<void>((resolve, reject) => {
+      stream.once("error", reject);
+      stream.end(() => resolve());
+    });
+
+    const { size } = await fs.promises.stat(file);
+    const completedAt = new Date();
+    await db
+      .update(exportJobs)
+      .set({
+        status: "completed",
+        rowsWritten: rowCount,
+        fileSize: size,
+        completedAt,
+        expiresAt: new Date(completedAt.getTime() + EXPORT_RETENTION_MS),
+      })
+      .where(eq(exportJobs.id, jobId));
+    await task.onComplete(rowCount);
+  } catch (err) {
+    out?.destroy();
+    await fs.promises.rm(file, { force: true }).catch(() => {});
+
+    const wasCancelled = cancelled.has(jobId);
+    if (!wasCancelled) console.error(`Error running export job ${jobId}:`, err);
+    await db
+      .update(exportJobs)
+      .set({
+        status: wasCancelled ? "cancelled" : "failed",
+        error: wasCancelled ? null : err instanceof Error ? err.message : "Export failed",
+        completedAt: new Date(),
+      })
+      .where(eq(exportJobs.id, jobId))
+      .catch((updateErr) => console.error(`Error recording export job ${jobId} failure:`, updateErr));
+  } finally {
+    cancelled.delete(jobId);
+  }
+}
+
+// Keep the jobs this process is queueing or running from being recovered by other instances
+export async function heartbeatExportJobs(): Promise<void> {
+  try {
+    await db
+      .update(exportJobs)
+      .set({ heartbeatAt: new Date() })
+      .where(and(eq(exportJobs.ownerId, EXPORT_JOB_OWNER_ID), inArray(exportJobs.status, ["queued", "running"])));
+  } catch (err) {
+    console.error("Error updating export job heartbeats:", err);
+  }
+}
+
+// Jobs whose owner stopped (restart or crash) can't resume; mark them failed once their
+// heartbeat is stale. Jobs of other live instances keep their heartbeat fresh and are left alone.
+export async function recoverExportJobs(): Promise<void> {
+  try {
+    await db
+      .update(exportJobs)
+      .set({ status: "failed", error: "Interrupted by a server restart", completedAt: new Date() })
+      .where(and(
+        inArray(exportJobs.status, ["queued", "running"]),
+        lt(exportJobs.heartbeatAt, new Date(Date.now() - EXPORT_JOB_STALE_MS)),
+        or(isNull(exportJobs.ownerId), ne(exportJobs.ownerId, EXPORT_JOB_OWNER_ID)),
+      ));
+  } catch (err) {
+    console.error("Error recovering export jobs:", err);
+  }
+}
+
+// Delete the files of completed jobs past their retention period; the job records stay as history
+export async function sweepExpiredExportJobs(): Promise<void> {
+  try {
+    const expired = await db
+      .select()
+      .from(exportJobs)
+      .where(and(eq(exportJobs.status, "completed"), lte(exportJobs.expiresAt, new Date())));
+    for (const job of expired) {
+      await fs.promises.rm(exportFilePath(job), { force: true });
+      await db.update(exportJobs).set({ status: "expired" }).where(eq(exportJobs.id, job.id));
+    }
+  } catch (err) {
+    console.error("Error sweeping expired export jobs:", err);
+  }
+}
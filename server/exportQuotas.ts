@@ -0,0 +1,145 @@
+import { and, eq, gte, inArray, isNotNull, lt, or, sql, sum } from "drizzle-orm";
+import { auditLogs, exportAlerts, exportJobs, exportQuotas, type ExportAlert, type ExportQuota, type User } from "@shared/schema";
+import { db } from "./db";
+
+// Days of a user's own export history their daily average is taken over
+const ALERT_LOOKBACK_DAYS = 30;
+// A day's exports are unusual once they pass this multiple of the user's daily average...
+const ALERT_MULTIPLIER = Number(process.env.EXPORT_ALERT_MULTIPLIER) || 5;
+// ...and this many rows, so users with little history aren't flagged for small exports
+const ALERT_MIN_ROWS = Number(process.env.EXPORT_ALERT_MIN_ROWS) || 10000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ResolvedExportQuota {
+  daily: number | null;
+  monthly: number | null;
+  // Where the quota comes from; null when neither the user nor their role has one
+  source: "user" | "role" | null;
+}
+
+export interface ExportUsage {
+  today: number;
+  month: number;
+}
+
+// Quota periods are calendar days and months in UTC
+export function startOfUtcDay(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+export function startOfUtcMonth(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+// The user's own quota if they have one, otherwise their role's
+export function resolveExportQuota(user: Pick<User, "id" | "role">, quotas: ExportQuota[]): ResolvedExportQuota {
+  const own = quotas.find((q) => q.userId === user.id);
+  if (own) return { daily: own.dailyRowLimit, monthly: own.monthlyRowLimit, source: "user" };
+  const roleQuota = quotas.find((q) => q.role === user.role);
+  if (roleQuota) return { daily: roleQuota.dailyRowLimit, monthly: roleQuota.monthlyRowLimit, source: "role" };
+  return { daily: null, monthly: null, source: null };
+}
+
+export async function getExportQuota(user: User): Promise<ResolvedExportQuota> {
+  const quotas = await db
+    .select()
+    .from(exportQuotas)
+    .where(or(eq(exportQuotas.userId, user.id), eq(exportQuotas.role, user.role)));
+  return resolveExportQuota(user, quotas);
+}
+
+async function sumExportedRows(userId: string, from: Date, to?: Date): Promise<number> {
+  const [row] = await db
+    .select({ rows: sum(auditLogs.rowCount) })
+    .from(auditLogs)
+    .where(and(
+      eq(auditLogs.userId, userId),
+      isNotNull(auditLogs.rowCount),
+      gte(auditLogs.timestamp, from),
+      ...(to ? [lt(auditLogs.timestamp, to)] : []),
+    ));
+  return Number(row?.rows ?? 0);
+}
+
+// Rows the user exported today and this month, from the row counts on their export audit entries
+export async function getExportUsage(userId: string | number): Promise<ExportUsage> {
+  const today = await sumExportedRows(String(userId), startOfUtcDay());
+  const month = await sumExportedRows(String(userId), startOfUtcMonth());
+  return { today, month };
+}
+
+// Today's and this month's exported rows of everyone who exported this month, by audit user id
+export async function getExportUsageByUser(): Promise<Map<string, ExportUsage>> {
+  const dayStart = startOfUtcDay();
+  const rows = await db
+    .select({
+      userId: auditLogs.userId,
+      today: sql<string>`coalesce(sum(${auditLogs.rowCount}) filter (where ${auditLogs.timestamp} >= ${dayStart}), 0)`,
+      month: sum(auditLogs.rowCount),
+    })
+    .from(auditLogs)
+    .where(and(isNotNull(auditLogs.rowCount), gte(auditLogs.timestamp, startOfUtcMonth())))
+    .groupBy(auditLogs.userId);
+  return new Map(rows.map((r) => [r.userId, { today: Number(r.today), month: Number(r.month ?? 0) }]));
+}
+
+// Rows reserved by the user's queued and running background exports. A job's rows only reach
+// the audit log when it finishes, so until then its full estimate counts against the quota.
+async function sumReservedRows(userId: number): Promise<number> {
+  const [row] = await db
+    .select({ rows: sum(exportJobs.estimatedRows) })
+    .from(exportJobs)
+    .where(and(eq(exportJobs.userId, userId), inArray(exportJobs.status, ["queued", "running"])));
+  return Number(row?.rows ?? 0);
+}
+
+// Rows the user may still export before hitting a daily or monthly quota, or null when uncapped
+export async function getRemainingExportQuota(user: User): Promise<number | null> {
+  const quota = await getExportQuota(user);
+  if (quota.daily === null && quota.monthly === null) return null;
+
+  const usage = await getExportUsage(user.id);
+  const reserved = await sumReservedRows(user.id);
+  const remaining = Math.min(
+    quota.daily === null ? Infinity : quota.daily - usage.today - reserved,
+    quota.monthly === null ? Infinity : quota.monthly - usage.month - reserved,
+  );
+  return Math.max(0, remaining);
+}
+
+// Raise an alert when the user's exports today pass several times their daily average over the
+// lookback window. Runs after every export; at most one alert per user per day.
+export async function detectUnusualExportVolume(
+  userId: string,
+  database?: string,
+  table?: string
+): Promise<ExportAlert | null> {
+  if (!/^\d+$/.test(userId)) return null;
+
+  const dayStart = startOfUtcDay();
+  const [existing] = await db
+    .select({ id: exportAlerts.id })
+    .from(exportAlerts)
+    .where(and(eq(exportAlerts.userId, Number(userId)), gte(exportAlerts.createdAt, dayStart)));
+  if (existing) return null;
+
+  const rowsToday = await sumExportedRows(userId, dayStart);
+  const history = await sumExportedRows(userId, new Date(dayStart.getTime() - ALERT_LOOKBACK_DAYS * DAY_MS), dayStart);
+  const dailyAverage = Math.round(history / ALERT_LOOKBACK_DAYS);
+  const threshold = Math.max(ALERT_MIN_ROWS, dailyAverage * ALERT_MULTIPLIER);
+  if (rowsToday <= threshold) return null;
+
+  const [alert] = await db
+    .insert(exportAlerts)
+    .values({
+      userId: Number(userId),
+      database: database || null,
+      tableName: table || null,
+      rowsToday,
+      dailyAverage,
+      threshold,
+    })
+    .returning();
+  return alert;
+}
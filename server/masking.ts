@@ -0,0 +1,99 @@
+import { createHash } from "crypto";
+import type { ColumnMask, ColumnMaskRules, UserRole } from "@shared/schema";
+import { inferColumnRole, type SemanticRole, type TableDataDictionary } from "./ai";
+import { isBuiltInRole } from "./permissions";
+
+// Masks that apply to one role, by column name
+export type ColumnMasks = Map<string, ColumnMask>;
+
+type ValueMask = Exclude<ColumnMask, "hide">;
+
+// Contact details are partially masked and street addresses hidden for external customers
+const SUGGESTED_MASKS: Partial<Record<SemanticRole, ColumnMaskRules[string]>> = {
+  "contact.email": { external_customer: "partial" },
+  "contact.phone": { external_customer: "partial" },
+  "location.address": { external_customer: "hide" },
+};
+
+// Masks for a role; null is a role that can view restricted data and sees raw values.
+// Custom roles without a rule of their own on a column get the external customer's mask.
+export function getColumnMasks(rules: ColumnMaskRules | undefined, role: UserRole | null): ColumnMasks {
+  const masks: ColumnMasks = new Map();
+  if (!rules || role === null) return masks;
+  for (const [column, byRole] of Object.entries(rules)) {
+    const mask = byRole[role] ?? (isBuiltInRole(role) ? undefined : byRole.external_customer);
+    if (mask) masks.set(column, mask);
+  }
+  return masks;
+}
+
+// Emails keep their first character and domain (j***@x.com); anything else keeps only
+// its last four characters. NULL stays NULL.
+function partialMaskSQL(ref: string): string {
+  const text = `${ref}::text`;
+  return `CASE WHEN ${text} LIKE '%@%' THEN left(${text}, 1) || '***@' || split_part(${text}, '@', 2) ` +
+    `WHEN length(${text}) > 4 THEN repeat('*', length(${text}) - 4) || right(${text}, 4) ` +
+    `ELSE repeat('*', length(${text})) END`;
+}
+
+export function maskColumnSQL(ref: string, mask: ValueMask): string {
+  switch (mask) {
+    case "partial":
+      return partialMaskSQL(ref);
+    case "hash":
+      return `md5(${ref}::text)`;
+    case "null":
+      return "NULL";
+  }
+}
+
+// SELECT list items for the columns, masked columns keeping their name; hidden columns are left out
+export function buildMaskedSelectList(columns: string[], masks: ColumnMasks, alias?: string): string[] {
+  const items: string[] = [];
+  for (const column of columns) {
+    const mask = masks.get(column);
+    if (mask === "hide") continue;
+    const ref = alias ? `${alias}."${column}"` : `"${column}"`;
+    items.push(mask ? `${maskColumnSQL(ref, mask)} AS "${column}"` : ref);
+  }
+  return items;
+}
+
+// Same masks as the SQL above, for values that are already in memory
+export function maskValue(value: string, mask: ValueMask): string | null {
+  if (mask === "null") return null;
+  if (mask === "hash") return createHash("md5").update(value).digest("hex");
+  if (value.includes("@")) return `${value.slice(0, 1)}***@${value.split("@")[1]}`;
+  if (value.length > 4) return "*".repeat(value.length - 4) + value.slice(-4);
+  return "*".repeat(value.length);
+}
+
+// Copy of a data dictionary that is safe to put in an LLM prompt for the role: hidden
+// columns are dropped, and masked columns lose their ranges and keep only masked samples
+export function maskDataDictionary(dictionary: TableDataDictionary, masks: ColumnMasks): TableDataDictionary {
+  if (masks.size === 0) return dictionary;
+  const columns = dictionary.columns
+    .filter((column) => masks.get(column.name) !== "hide")
+    .map((column) => {
+      const mask = masks.get(column.name);
+      if (!mask) return column;
+      const { dateRange, numericRange, topValues, ...rest } = column;
+      if (mask !== "partial" || !topValues) return rest;
+      return {
+        ...rest,
+        topValues: topValues.map((v) => ({ value: maskValue(v.value, mask) ?? "", count: v.count })),
+      };
+    });
+  return { ...dictionary, columns };
+}
+
+// Rules pre-suggested from the semantic role inferred for each column
+export function suggestColumnMasks(columns: Array<{ name: string; dataType: string }>): ColumnMaskRules {
+  const rules: ColumnMaskRules = {};
+  for (const column of columns) {
+    const role = inferColumnRole(column.name, column.dataType).role;
+    const suggestion = role ? SUGGESTED_MASKS[role] : undefined;
+    if (suggestion) rules[column.name] = { ...suggestion };
+  }
+  return rules;
+}
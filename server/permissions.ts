@@ -0,0 +1,112 @@
+import { eq } from "drizzle-orm";
+import {
+  customRoles,
+  roleExportLimits,
+  PERMISSIONS,
+  BUILT_IN_ROLES,
+  type BuiltInRole,
+  type Permission,
+  type User,
+  type UserRole,
+} from "@shared/schema";
+import { db } from "./db";
+
+// The three original roles, kept as presets with the access they always had
+export const BUILT_IN_ROLE_PERMISSIONS: Record<BuiltInRole, Permission[]> = {
+  admin: [...PERMISSIONS],
+  washos_user: [
+    "view_marketing_dashboard",
+    "view_operations_dashboard",
+    "use_nlq",
+    "export",
+    "manage_reports",
+    "drill_down",
+    "access_all_tables",
+    "share_views",
+    "manage_access",
+  ],
+  external_customer: [
+    "view_marketing_dashboard",
+    "view_operations_dashboard",
+    "use_nlq",
+    "export",
+    "manage_reports",
+  ],
+};
+
+export const BUILT_IN_ROLE_NAMES: Record<BuiltInRole, string> = {
+  admin: "Admin",
+  washos_user: "WashOS User",
+  external_customer: "External Customer",
+};
+
+// Export row limits of roles without their own setting
+export const DEFAULT_EXPORT_ROW_LIMIT = 10000;
+export const DEFAULT_EXPORT_ALL_ROW_LIMIT = 50000;
+// Upper bound for a configured limit; exports are streamed, so this only caps the file size
+export const MAX_EXPORT_ROW_LIMIT = 1000000;
+
+// Custom roles change rarely; other server instances pick up edits within this window
+const ROLE_CACHE_TTL_MS = 30 * 1000;
+
+const customRoleCache = new Map<string, { permissions: Set<Permission> | null; loadedAt: number }>();
+const exportLimitCache = new Map<string, { rowLimit: number | null; loadedAt: number }>();
+
+export function isBuiltInRole(role: string): role is BuiltInRole {
+  return (BUILT_IN_ROLES as string[]).includes(role);
+}
+
+// Called after a custom role is created, edited or deleted
+export function invalidateRoleCache(): void {
+  customRoleCache.clear();
+  exportLimitCache.clear();
+}
+
+// Permissions of a role, or null for a role key that doesn't exist
+export async function getRolePermissions(role: UserRole): Promise<Set<Permission> | null> {
+  if (isBuiltInRole(role)) return new Set(BUILT_IN_ROLE_PERMISSIONS[role]);
+
+  const cached = customRoleCache.get(role);
+  if (cached && Date.now() - cached.loadedAt < ROLE_CACHE_TTL_MS) return cached.permissions;
+
+  const [customRole] = await db.select().from(customRoles).where(eq(customRoles.key, role));
+  const permissions = customRole
+    ? new Set(customRole.permissions.filter((p) => (PERMISSIONS as readonly string[]).includes(p)))
+    : null;
+  customRoleCache.set(role, { permissions, loadedAt: Date.now() });
+  return permissions;
+}
+
+// Every permission check goes through here; a user whose role was deleted has no permissions
+export async function userCan(user: User | null | undefined, permission: Permission): Promise<boolean> {
+  if (!user) return false;
+  return (await getRolePermissions(user.role))?.has(permission) ?? false;
+}
+
+// Permission list sent to the client with the signed-in user
+export async function getUserPermissions(user: User): Promise<Permission[]> {
+  return Array.from((await getRolePermissions(user.role)) ?? []);
+}
+
+// Row limit configured for a role, or null when it uses the default
+export async function getConfiguredExportLimit(role: UserRole): Promise<number | null> {
+  const cached = exportLimitCache.get(role);
+  if (cached && Date.now() - cached.loadedAt < ROLE_CACHE_TTL_MS) return cached.rowLimit;
+
+  const [row] = await db.select().from(roleExportLimits).where(eq(roleExportLimits.role, role));
+  const rowLimit = row?.rowLimit ?? null;
+  exportLimitCache.set(role, { rowLimit, loadedAt: Date.now() });
+  return rowLimit;
+}
+
+export function defaultExportLimit(permissions: Set<Permission> | Permission[] | null): number {
+  const canExportAll = Array.isArray(permissions) ? permissions.includes("export_all") : !!permissions?.has("export_all");
+  return canExportAll ? DEFAULT_EXPORT_ALL_ROW_LIMIT : DEFAULT_EXPORT_ROW_LIMIT;
+}
+
+// Most rows a single export may contain for the user's role
+export async function getExportRowLimit(user: User): Promise<number> {
+  const configured = await getConfiguredExportLimit(user.role);
+  if (configured !== null) return configured;
+  return defaultExportLimit(await getRolePermissions(user.role));
+}
@@ -5,6 +5,7 @@ import type { Express, RequestHandler } from "express";
 import connectPg from "connect-pg-simple";
 import bcrypt from "bcryptjs";
 import { authStorage } from "./storage";
+import { getUserPermissions } from "../../permissions";
 
 export function getSession() {
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
@@ -78,12 +79,12 @@ export async function setupAuth(app: Express) {
       if (!user) {
         return res.status(401).json({ message: info?.message || "Invalid credentials" });
       }
-      req.logIn(user, (err) => {
+      req.logIn(user, async (err) => {
         if (err) {
           return res.status(500).json({ message: "Login failed" });
         }
         const { password, ...userWithoutPassword } = user;
-        return res.json({ user: userWithoutPassword });
+        return res.json({ user: { ...userWithoutPassword, permissions: await getUserPermissions(user) } });
       });
     })(req, res, next);
   });
@@ -1,6 +1,7 @@
 import type { Express } from "express";
 import { authStorage } from "./storage";
 import { isAuthenticated } from "./replitAuth";
+import { getUserPermissions } from "../../permissions";
 
 export function registerAuthRoutes(app: Express): void {
   app.get("/api/auth/user", isAuthenticated, async (req: any, res) => {
@@ -10,7 +11,7 @@ export function registerAuthRoutes(app: Express): void {
         return res.status(401).json({ message: "Not authenticated" });
       }
       const { password, ...userWithoutPassword } = user;
-      res.json(userWithoutPassword);
+      res.json({ ...userWithoutPassword, permissions: await getUserPermissions(user) });
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
@@ -24,7 +25,7 @@ export function registerAuthRoutes(app: Express): void {
       }
       const user = req.user;
       const { password, ...userWithoutPassword } = user;
-      res.json({ user: userWithoutPassword });
+      res.json({ user: { ...userWithoutPassword, permissions: await getUserPermissions(user) } });
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
@@ -1,11 +1,64 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
+import * as fs from "fs";
 import { Pool } from "pg";
 import { GoogleGenerativeAI, SchemaType } from "@google/generative-ai";
 
 import rateLimit from "express-rate-limit";
-import { eq, and, desc, count } from "drizzle-orm";
-import { storage } from "./storage";
+import { eq, and, or, desc, count, inArray, isNull, isNotNull, gt, lte, sql, type SQL } from "drizzle-orm";
+import { storage, importJsonStorage } from "./storage";
+import {
+  DEFAULT_EXPOSED_SCHEMAS,
+  TABLE_COLUMNS_SQL,
+  listTableObjects,
+  getTableObjectType,
+  listSchemas,
+  getFallbackOrderSQL,
+} from "./catalog";
+import {
+  getColumnMasks,
+  buildMaskedSelectList,
+  maskColumnSQL,
+  maskDataDictionary,
+  suggestColumnMasks,
+  type ColumnMasks,
+} from "./masking";
+import {
+  BUILT_IN_ROLE_NAMES,
+  BUILT_IN_ROLE_PERMISSIONS,
+  getRolePermissions,
+  getUserPermissions,
+  invalidateRoleCache,
+  isBuiltInRole,
+  userCan,
+  getExportRowLimit,
+  getConfiguredExportLimit,
+  defaultExportLimit,
+  MAX_EXPORT_ROW_LIMIT,
+} from "./permissions";
+import {
+  createExportWriter,
+  parseExportFormat,
+  setExportHeaders,
+  streamQueryExport,
+  type ExportFormat,
+} from "./exportFormats";
+import {
+  EXPORT_JOB_HEARTBEAT_MS,
+  EXPORT_JOB_OWNER_ID,
+  cancelExportJob,
+  enqueueExportJob,
+  exportFilePath,
+  heartbeatExportJobs,
+  recoverExportJobs,
+  sweepExpiredExportJobs,
+} from "./exportJobs";
+import {
+  detectUnusualExportVolume,
+  getExportUsageByUser,
+  getRemainingExportQuota,
+  resolveExportQuota,
+} from "./exportQuotas";
 import { db } from "./db";
 import { getStripeMetricsForWeek, checkStripeConnection, type StripeWeeklyMetrics } from "./stripeClient";
 import {
@@ -26,12 +79,34 @@ import { setupAuth, registerAuthRoutes, isAuthenticated, authStorage } from "./r
 import {
   users,
   tableGrants,
+  userGroups,
+  userGroupMembers,
+  customRoles,
+  roleExportLimits,
+  exportJobs,
+  exportApprovals,
+  exportQuotas,
+  exportAlerts,
+  PERMISSIONS,
   auditLogs,
   reportPages,
   reportBlocks,
   reportChatSessions,
+  savedViews,
+  savedViewShares,
+  savedViewInputSchema,
+  viewerLinkStateSchema,
+  summarizeSpecSchema,
+  columnMaskRulesSchema,
+  grantRowFilterSchema,
+  filterInputSchema,
+  type ColumnMask,
   type UserRole,
+  type Permission,
   type User,
+  type TableGrant,
+  type InsertTableGrant,
+  type ExportJob,
   type ReportPage,
   type ReportBlock,
   type ReportBlockConfig,
@@ -39,14 +114,19 @@ import {
   type ChartBlockConfig,
   type MetricBlockConfig,
   type ChatMessage,
+  type SavedView,
 } from "@shared/schema";
+import { filterOperatorSchema } from "@shared/schema";
 import type {
   DatabaseConnection,
   TableInfo,
   ColumnInfo,
-  ActiveFilter,
   FilterOperator,
+  FilterGroup,
+  FilterNode,
   NLQPlan,
+  SummarizeSpec,
+  SummarizeOutputColumn,
 } from "@shared/schema";
 import {
   getGeminiClient,
@@ -59,12 +139,31 @@ import {
   formatRolesForPrompt,
   buildNLQSystemPrompt,
   buildSmartFollowupPrompt,
+  getPacificDateString,
+  inferColumnRole,
+  withoutSampledValues,
   parseAndValidateNLQResponse,
   parseAndValidateSmartFollowupResponse,
   type TableDataDictionary,
 } from "./ai";
 
 const PAGE_SIZE = 50;
+const PAGE_SIZE_OPTIONS = [25, 50, 100, 200];
+// Keyset paging counts filtered rows only up to this many; past it the count is shown as approximate
+const KEYSET_COUNT_CAP = 10000;
+const AGGREGATE_MAX_COLUMNS = 50;
+const AGGREGATE_TIMEOUT_MS = 30000;
+
+// Column types that support SUM/AVG, and types with a meaningful MIN/MAX
+const NUMERIC_TYPES = ["smallint", "integer", "bigint", "numeric", "decimal", "real", "double precision"];
+const ORDERABLE_TYPE_PREFIXES = ["timestamp", "date", "time", "text", "character", "interval"];
+// No equality operator, so COUNT(DISTINCT ...) fails on these
+const NON_DISTINCT_TYPES = ["json", "xml", "point", "line", "lseg", "box", "path", "polygon", "circle"];
+const SUMMARIZE_MAX_GROUPS = 1000;
+const GLOBAL_SEARCH_MIN_LENGTH = 3;
+const GLOBAL_SEARCH_MAX_TABLES = 200;
+const GLOBAL_SEARCH_TABLE_TIMEOUT_MS = 3000;
+const GLOBAL_SEARCH_ROWS_PER_TABLE = 5;
 
 // Strict SQL identifier validation
 const IDENTIFIER_REGEX = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
@@ -204,11 +303,27 @@ function getOperatorSQL(
   switch (operator) {
     case "eq":
       return { sql: `= $${paramIndex}` };
+    case "neq":
+      // Rows with a null value aren't equal to the value either, so they match
+      return { sql: `IS DISTINCT FROM $${paramIndex}` };
     case "contains":
       return {
         sql: `ILIKE $${paramIndex}`,
         transform: (v) => `%${v}%`,
       };
+    case "starts_with":
+      return {
+        sql: `ILIKE $${paramIndex}`,
+        transform: (v) => `${v}%`,
+      };
+    case "ends_with":
+      return {
+        sql: `ILIKE $${paramIndex}`,
+        transform: (v) => `%${v}`,
+      };
+    case "regex":
+      // Case-insensitive POSIX regex match
+      return { sql: `~* $${paramIndex}` };
     case "gt":
       return { sql: `> $${paramIndex}` };
     case "gte":
@@ -229,78 +344,513 @@ function getOperatorSQL(
         sql: `= ANY($${paramIndex})`,
         paramCount: 1,
       };
+    case "not_in":
+      // A null value makes <> ALL null rather than true; IS NOT FALSE keeps those rows
+      return {
+        sql: `<> ALL($${paramIndex}) IS NOT FALSE`,
+        paramCount: 1,
+      };
+    case "is_null":
+      return { sql: "IS NULL", paramCount: 0 };
+    case "is_not_null":
+      return { sql: "IS NOT NULL", paramCount: 0 };
+    case "has_key":
+      return { sql: `? $${paramIndex}` };
+    case "array_contains":
+      return {
+        sql: `@> $${paramIndex}::jsonb`,
+        // Numbers, booleans and quoted strings match by JSON type; anything else as a string
+        transform: (v) => {
+          try {
+            return JSON.stringify([JSON.parse(v)]);
+          } catch {
+            return JSON.stringify([v]);
+          }
+        },
+      };
+    case "last_n_days":
+    case "this_week":
+    case "this_month":
+      // Resolved to a Pacific-time date range by getRelativeDateRange
+      return {
+        sql: `BETWEEN $${paramIndex} AND $${paramIndex + 1}`,
+        paramCount: 2,
+      };
     default:
       throw new Error(`Invalid operator: ${operator}`);
   }
 }
 
-// Helper to add filter clause and params
-function addFilterToQuery(
-  f: { column: string; operator: string; value: any },
-  params: any[],
-  whereClauses: string[]
-) {
-  validateIdentifier(f.column, "column");
-  const opInfo = getOperatorSQL(f.operator as FilterOperator, params.length + 1);
-  whereClauses.push(`"${f.column}" ${opInfo.sql}`);
+// Shift a YYYY-MM-DD date string by a number of days
+function shiftDateString(dateStr: string, days: number): string {
+  const date = new Date(`${dateStr}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
 
-  if (f.operator === "between" && Array.isArray(f.value)) {
-    // For "between", convert date strings from PST to UTC
-    const startValue = convertPSTDateToUTC(f.value[0], false);
-    const endValue = convertPSTDateToUTC(f.value[1], true);
-    params.push(startValue, endValue);
-  } else if (f.operator === "in" && Array.isArray(f.value)) {
-    // For "in", pass the array as a single parameter (PostgreSQL ANY($1))
-    params.push(f.value);
-  } else if (["gt", "gte", "lt", "lte", "eq"].includes(f.operator) && typeof f.value === "string") {
-    // Check if this looks like a date filter
-    const dateMatch = f.value.match(/^\d{4}-\d{2}-\d{2}$/);
-    if (dateMatch) {
-      // For single date comparisons, use start of day PST
-      const converted = convertPSTDateToUTC(f.value, f.operator === "lte" || f.operator === "lt");
-      params.push(opInfo.transform ? opInfo.transform(converted) : converted);
-    } else {
-      params.push(opInfo.transform ? opInfo.transform(f.value) : f.value);
+// Resolve a relative-date operator to an inclusive [start, end] range of Pacific dates
+function getRelativeDateRange(operator: string, value: unknown): [string, string] {
+  const today = getPacificDateString();
+
+  if (operator === "last_n_days") {
+    const days = parseInt(String(value), 10);
+    if (isNaN(days) || days < 1 || days > 3650) {
+      throw new Error(`Invalid number of days: ${value}`);
     }
-  } else {
-    params.push(opInfo.transform ? opInfo.transform(f.value) : f.value);
+    // "Last 7 days" includes today
+    return [shiftDateString(today, -(days - 1)), today];
   }
+
+  if (operator === "this_week") {
+    // Weeks start on Monday
+    const weekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+    const monday = shiftDateString(today, -((weekday + 6) % 7));
+    return [monday, shiftDateString(monday, 6)];
+  }
+
+  // this_month
+  const [year, month] = today.split("-").map(Number);
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const monthPrefix = today.slice(0, 7);
+  return [`${monthPrefix}-01`, `${monthPrefix}-${String(lastDay).padStart(2, "0")}`];
 }
 
-// Version for already-aliased columns (column string is already properly quoted/aliased)
-function addFilterToQueryWithAlias(
-  f: { column: string; operator: string; value: any },
-  params: any[],
-  whereClauses: string[]
-) {
-  const opInfo = getOperatorSQL(f.operator as FilterOperator, params.length + 1);
-  whereClauses.push(`${f.column} ${opInfo.sql}`);
+// Build the bind parameters for a filter, converting Pacific dates to UTC
+function getFilterParams(
+  f: { operator: string; value: any },
+  opInfo: { transform?: (v: any) => any; paramCount?: number }
+): unknown[] {
+  if (opInfo.paramCount === 0) {
+    return [];
+  }
+
+  if (["last_n_days", "this_week", "this_month"].includes(f.operator)) {
+    const [start, end] = getRelativeDateRange(f.operator, f.value);
+    return [convertPSTDateToUTC(start, false), convertPSTDateToUTC(end, true)];
+  }
 
   if (f.operator === "between" && Array.isArray(f.value)) {
     // For "between", convert date strings from PST to UTC
     const startValue = convertPSTDateToUTC(f.value[0], false);
     const endValue = convertPSTDateToUTC(f.value[1], true);
-    params.push(startValue, endValue);
-  } else if (f.operator === "in" && Array.isArray(f.value)) {
-    // For "in", pass the array as a single parameter (PostgreSQL ANY($1))
-    params.push(f.value);
-  } else if (["gt", "gte", "lt", "lte", "eq"].includes(f.operator) && typeof f.value === "string") {
+    return [startValue, endValue];
+  }
+
+  if (["in", "not_in"].includes(f.operator)) {
+    // Lists are passed as a single array parameter (PostgreSQL ANY/ALL($1))
+    const list = Array.isArray(f.value)
+      ? f.value
+      : String(f.value).split(",").map((v) => v.trim()).filter(Boolean);
+    return [list];
+  }
+
+  if (["gt", "gte", "lt", "lte", "eq"].includes(f.operator) && typeof f.value === "string") {
     // Check if this looks like a date filter
     const dateMatch = f.value.match(/^\d{4}-\d{2}-\d{2}$/);
     if (dateMatch) {
       // For single date comparisons, use start of day PST
       const converted = convertPSTDateToUTC(f.value, f.operator === "lte" || f.operator === "lt");
-      params.push(opInfo.transform ? opInfo.transform(converted) : converted);
+      return [opInfo.transform ? opInfo.transform(converted) : converted];
+    }
+  }
+
+  return [opInfo.transform ? opInfo.transform(f.value) : f.value];
+}
+
+type FilterTreeNode = { column: string; operator: string; value: any; path?: string[] } | FilterGroup;
+
+const JSON_FILTER_OPERATORS = ["has_key", "array_contains"];
+const TEXT_PATTERN_OPERATORS = ["contains", "starts_with", "ends_with"];
+const JSON_KEY_SAMPLE_ROWS = 500;
+// Sampled keys are reused for a while so path validation doesn't sample on every request
+const JSON_KEY_CACHE_TTL_MS = 5 * 60 * 1000;
+const JSON_KEY_CACHE_MAX_ENTRIES = 500;
+
+const jsonKeyCache = new Map<string, { keys: string[]; loadedAt: number }>();
+
+// Column expression for a filter: JSON path filters compare the text at the path,
+// while key/array checks need the jsonb value itself. Pattern matches compare the
+// column's text form so they work on numbers, dates and uuids; on text columns the
+// cast is a no-op, so a pg_trgm index on the column still serves the ILIKE.
+function getFilterColumnSQL(
+  columnRef: string,
+  f: { operator: string; path?: string[] },
+  params: unknown[]
+): string {
+  const isJsonOperator = JSON_FILTER_OPERATORS.includes(f.operator);
+  if (!f.path?.length) {
+    if (isJsonOperator) return `${columnRef}::jsonb`;
+    return TEXT_PATTERN_OPERATORS.includes(f.operator) ? `${columnRef}::text` : columnRef;
+  }
+  params.push(f.path);
+  return `(${columnRef}::jsonb ${isJsonOperator ? "#>" : "#>>"} $${params.length}::text[])`;
+}
+
+// Sample the object keys found at a path inside a json/jsonb column. rowFilter (the
+// user's grant row predicate, numbered from $2 after the path) limits the sample.
+async function getJsonKeys(
+  pool: Pool,
+  schema: string,
+  table: string,
+  column: string,
+  path: string[] = [],
+  rowFilter?: { sql: string; params: unknown[] } | null
+): Promise<string[]> {
+  validateIdentifier(column, "column");
+  const result = await pool.query(
+    `
+    SELECT key, COUNT(*)::int AS count
+    FROM (
+      SELECT "${column}"::jsonb #> $1::text[] AS value
+      FROM "${schema}"."${table}"
+      WHERE jsonb_typeof("${column}"::jsonb #> $1::text[]) = 'object'${rowFilter ? ` AND ${rowFilter.sql}` : ""}
+      LIMIT ${JSON_KEY_SAMPLE_ROWS}
+    ) sampled, jsonb_object_keys(sampled.value) AS key
+    GROUP BY key
+    ORDER BY count DESC, key
+    LIMIT 200
+  `,
+    [path, ...(rowFilter?.params ?? [])]
+  );
+  return result.rows.map((r) => r.key);
+}
+
+// The user's grant row predicate for sampling JSON keys, numbered from $2 after the path
+async function buildJsonKeyRowFilter(
+  user: User | undefined,
+  database: string,
+  schema: string,
+  table: string
+): Promise<{ sql: string; params: unknown[] } | null> {
+  const params: unknown[] = [null];
+  const sql = await buildGrantRowFilterSQL(user, database, schema, table, params);
+  return sql ? { sql, params: params.slice(1) } : null;
+}
+
+// getJsonKeys through a short-lived cache keyed by the column, path and row predicate
+async function getCachedJsonKeys(
+  pool: Pool,
+  database: string,
+  schema: string,
+  table: string,
+  column: string,
+  path: string[],
+  rowFilter: { sql: string; params: unknown[] } | null
+): Promise<string[]> {
+  const cacheKey = JSON.stringify([database, schema, table, column, path, rowFilter]);
+  const cached = jsonKeyCache.get(cacheKey);
+  if (cached && Date.now() - cached.loadedAt < JSON_KEY_CACHE_TTL_MS) return cached.keys;
+
+  const keys = await getJsonKeys(pool, schema, table, column, path, rowFilter);
+  jsonKeyCache.delete(cacheKey);
+  if (jsonKeyCache.size >= JSON_KEY_CACHE_MAX_ENTRIES) {
+    jsonKeyCache.delete(jsonKeyCache.keys().next().value!);
+  }
+  jsonKeyCache.set(cacheKey, { keys, loadedAt: Date.now() });
+  return keys;
+}
+
+// Check that JSON filters target json/jsonb columns and that each path segment was seen
+// in sampled rows the user's grants let them see. Returns an error message, or null if valid.
+async function validateJsonFilters(
+  pool: Pool,
+  user: User | undefined,
+  database: string,
+  schema: string,
+  table: string,
+  conditions: Array<{ column: string; operator: string; path?: string[] }>
+): Promise<string | null> {
+  const jsonConditions = conditions.filter(
+    (c) => c.path?.length || JSON_FILTER_OPERATORS.includes(c.operator)
+  );
+  if (jsonConditions.length === 0) return null;
+
+  const rowFilter = jsonConditions.some((c) => c.path?.length)
+    ? await buildJsonKeyRowFilter(user, database, schema, table)
+    : null;
+
+  const typesResult = await pool.query(
+    `SELECT column_name, data_type FROM ${TABLE_COLUMNS_SQL} WHERE table_schema = $1 AND table_name = $2`,
+    [schema, table]
+  );
+  const columnTypes = new Map<string, string>(typesResult.rows.map((r) => [r.column_name, r.data_type]));
+
+  for (const condition of jsonConditions) {
+    const dataType = columnTypes.get(condition.column);
+    if (dataType !== "json" && dataType !== "jsonb") {
+      return `Column ${condition.column} is not a JSON column`;
+    }
+
+    const path = condition.path || [];
+    for (let i = 0; i < path.length; i++) {
+      // Array indexes can't be checked against object keys
+      if (/^\d+$/.test(path[i])) continue;
+      const keys = await getCachedJsonKeys(pool, database, schema, table, condition.column, path.slice(0, i), rowFilter);
+      if (!keys.includes(path[i])) {
+        return `Unknown JSON key "${path[i]}" in ${[condition.column, ...path.slice(0, i)].join(".")}`;
+      }
+    }
+  }
+
+  return null;
+}
+
+function isFilterGroup(node: any): node is FilterGroup {
+  return !!node && node.type === "group" && Array.isArray(node.children);
+}
+
+// Drop conditions on columns outside validColumns (and groups left empty), recording the dropped names
+function pruneFilterNodes(
+  nodes: FilterTreeNode[],
+  validColumns: Set<string>,
+  dropped: Set<string>
+): FilterTreeNode[] {
+  return nodes.flatMap((node): FilterTreeNode[] => {
+    if (isFilterGroup(node)) {
+      const children = pruneFilterNodes(node.children, validColumns, dropped);
+      return children.length > 0 ? [{ ...node, children: children as FilterGroup["children"] }] : [];
+    }
+    if (validColumns.has(node.column)) return [node];
+    dropped.add(node.column);
+    return [];
+  });
+}
+
+// Check filters from a request (a flat list or a filter tree) against the shared filter
+// schema. Missing filters are an empty list; returns null when the input is malformed.
+function parseFilterInput(input: unknown): FilterTreeNode[] | FilterGroup | null {
+  if (input === undefined || input === null) return [];
+  const parsed = filterInputSchema.safeParse(input);
+  return parsed.success ? parsed.data : null;
+}
+
+// Flatten a filter tree (or flat array) into its leaf conditions
+function collectFilterConditions(
+  input: FilterTreeNode[] | FilterGroup | null | undefined
+): Array<{ column: string; operator: string; value: any }> {
+  if (!input) return [];
+  const nodes = Array.isArray(input) ? input : [input];
+  return nodes.flatMap((node) =>
+    isFilterGroup(node) ? collectFilterConditions(node.children) : [node]
+  );
+}
+
+// Compile a filter tree into a single SQL condition, appending bind params.
+// A flat array is an implicit AND group. resolveColumn returns the SQL
+// reference for a column and should throw if the column is not allowed.
+// Returns null when there is nothing to filter on.
+function buildFilterSQL(
+  input: FilterTreeNode[] | FilterGroup | null | undefined,
+  params: unknown[],
+  resolveColumn: (column: string) => string
+): string | null {
+  if (!input) return null;
+  const group: FilterGroup = Array.isArray(input)
+    ? { type: "group", connective: "and", children: input as FilterGroup["children"] }
+    : input;
+
+  const parts: string[] = [];
+  for (const child of group.children as FilterTreeNode[]) {
+    if (isFilterGroup(child)) {
+      const childSQL = buildFilterSQL(child, params, resolveColumn);
+      if (childSQL) parts.push(childSQL);
     } else {
-      params.push(opInfo.transform ? opInfo.transform(f.value) : f.value);
+      const columnSQL = getFilterColumnSQL(resolveColumn(child.column), child, params);
+      const opInfo = getOperatorSQL(child.operator as FilterOperator, params.length + 1);
+      parts.push(`${columnSQL} ${opInfo.sql}`);
+      params.push(...getFilterParams(child, opInfo));
+    }
+  }
+
+  if (parts.length === 0) return null;
+  const combined = `(${parts.join(group.connective === "or" ? " OR " : " AND ")})`;
+  return group.negate ? `NOT ${combined}` : combined;
+}
+
+const SEARCH_MAX_LENGTH = 200;
+const SEARCH_TEXT_TYPES = ["text", "character varying", "character", "citext"];
+
+// Build a table-wide search condition, appending bind params: an ILIKE match on each
+// searchable text column OR'd together, plus a full-text match on every tsvector column
+// that has an index. The text columns are compared uncast so a pg_trgm index on them
+// can serve the ILIKE. searchColumns (the user's visible columns) narrows the search;
+// admin-hidden columns are never searched for other roles. Returns null for an empty term.
+async function buildSearchSQL(
+  pool: Pool,
+  database: string,
+  schema: string,
+  table: string,
+  search: unknown,
+  searchColumns: unknown,
+  user: User | undefined,
+  params: unknown[]
+): Promise<string | null> {
+  if (typeof search !== "string" || !search.trim()) return null;
+  const term = search.trim().slice(0, SEARCH_MAX_LENGTH);
+
+  const columnsResult = await pool.query(
+    `SELECT column_name, data_type, udt_name FROM ${TABLE_COLUMNS_SQL} WHERE table_schema = $1 AND table_name = $2`,
+    [schema, table]
+  );
+  const indexedResult = await pool.query(
+    `
+    SELECT DISTINCT a.attname
+    FROM pg_index i
+    JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
+    WHERE i.indrelid = ($1 || '.' || $2)::regclass
+      AND a.atttypid = 'tsvector'::regtype
+  `,
+    [schema, table]
+  );
+
+  const hiddenColumns = !(await userCan(user, "view_restricted_data"))
+    ? (await storage.getAllTableSettings())[`${database}:${schema}.${table}`]?.hiddenColumns || []
+    : [];
+  // Matching against a masked column would reveal its raw values
+  const masks = await getUserColumnMasks(database, schema, table, user);
+  const requested = Array.isArray(searchColumns) ? new Set(searchColumns as string[]) : null;
+  const isSearchable = (column: string) =>
+    isValidIdentifier(column) && !hiddenColumns.includes(column) && !masks.has(column) &&
+    (!requested || requested.has(column));
+
+  const parts: string[] = [];
+  const textColumns = columnsResult.rows.filter(
+    (r) => SEARCH_TEXT_TYPES.includes(r.data_type) || r.udt_name === "citext"
+  );
+  if (textColumns.some((r) => isSearchable(r.column_name))) {
+    // Escape LIKE wildcards so the term matches literally
+    params.push(`%${term.replace(/[\\%_]/g, "\\$&")}%`);
+    const likeParam = params.length;
+    for (const r of textColumns) {
+      if (isSearchable(r.column_name)) parts.push(`"${r.column_name}" ILIKE $${likeParam}`);
+    }
+  }
+
+  const tsvectorColumns = indexedResult.rows.map((r) => r.attname as string).filter(
+    (c) => isValidIdentifier(c) && !hiddenColumns.includes(c) && !masks.has(c)
+  );
+  if (tsvectorColumns.length > 0) {
+    params.push(term);
+    const tsParam = params.length;
+    for (const column of tsvectorColumns) {
+      parts.push(`"${column}" @@ plainto_tsquery($${tsParam})`);
+    }
+  }
+
+  // Nothing to search in: the search matches no rows rather than being ignored
+  return parts.length > 0 ? `(${parts.join(" OR ")})` : "FALSE";
+}
+
+type GlobalSearchKind = "uuid" | "email" | "text";
+
+interface GlobalSearchTarget {
+  schema: string;
+  table: string;
+  primaryKey: string | null;
+  columns: Array<{ name: string; dataType: string }>;
+}
+
+// Identifier-like values only make sense in columns of the matching kind
+function classifyGlobalSearchValue(value: string): GlobalSearchKind {
+  if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)) return "uuid";
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) return "email";
+  return "text";
+}
+
+// Whether a column can hold a value of the given kind, going by its type and the
+// semantic role inferred from its name
+function isGlobalSearchColumn(kind: GlobalSearchKind, column: string, dataType: string): boolean {
+  const isText = SEARCH_TEXT_TYPES.includes(dataType);
+  if (kind === "text") return isText;
+  const role = inferColumnRole(column, dataType).role;
+  if (kind === "email") return isText && role === "contact.email";
+  return dataType === "uuid" ||
+    (isText && !!role && (role.startsWith("identifier.") || role.startsWith("actor.")));
+}
+
+// Tables and views in a database the user may open, each with the columns a value of this
+// kind could match. Schemas, grants, hidden tables and hidden columns follow the table list rules;
+// columns masked for the user's role are never searched.
+async function getGlobalSearchTargets(
+  database: string,
+  kind: GlobalSearchKind,
+  user: User,
+  allowedTables: string[],
+  allTableSettings: Awaited<ReturnType<typeof storage.getAllTableSettings>>
+): Promise<GlobalSearchTarget[]> {
+  const pool = getPool(database);
+  const columnsResult = await pool.query(
+    `
+    SELECT table_schema, table_name, column_name, data_type
+    FROM ${TABLE_COLUMNS_SQL}
+    WHERE table_schema = ANY($1)
+    ORDER BY table_schema, table_name, ordinal_position
+  `,
+    [await getExposedSchemas(database)]
+  );
+  const pkResult = await pool.query(`
+    SELECT n.nspname AS table_schema, cl.relname AS table_name, a.attname
+    FROM pg_index i
+    JOIN pg_class cl ON cl.oid = i.indrelid
+    JOIN pg_namespace n ON n.oid = cl.relnamespace
+    JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = i.indkey[0]
+    WHERE i.indisprimary AND i.indnatts = 1
+  `);
+  const primaryKeys = new Map<string, string>(
+    pkResult.rows.map((r) => [`${r.table_schema}.${r.table_name}`, r.attname])
+  );
+
+  const canViewRestricted = await userCan(user, "view_restricted_data");
+  const needsGrant = !(await userCan(user, "access_all_tables"));
+
+  // Column allowlists from the user's grants, by table; a grant without one allows every column
+  const grantedColumns = new Map<string, Set<string> | null>();
+  if (!canViewRestricted) {
+    const grants = await getEffectiveGrants(user.id, eq(tableGrants.database, database));
+    for (const grant of grants) {
+      const current = grantedColumns.get(grant.tableName);
+      if (current === null || !grant.allowedColumns?.length) {
+        grantedColumns.set(grant.tableName, null);
+      } else {
+        grantedColumns.set(grant.tableName, new Set([...Array.from(current ?? []), ...grant.allowedColumns]));
+      }
     }
-  } else {
-    params.push(opInfo.transform ? opInfo.transform(f.value) : f.value);
   }
+
+  const targets = new Map<string, GlobalSearchTarget>();
+  for (const row of columnsResult.rows) {
+    const fullName = `${row.table_schema}.${row.table_name}`;
+    const settings = allTableSettings[`${database}:${fullName}`];
+    if (needsGrant && !allowedTables.includes(`${database}:${fullName}`)) continue;
+    if (!canViewRestricted && settings?.isVisible === false) continue;
+    if (!canViewRestricted && settings?.hiddenColumns?.includes(row.column_name)) continue;
+    const masks = getColumnMasks(settings?.columnMasks, canViewRestricted ? null : user.role);
+    if (masks.has(row.column_name)) continue;
+    if (grantedColumns.get(fullName)?.has(row.column_name) === false) continue;
+    if (!isValidIdentifier(row.table_schema) || !isValidIdentifier(row.table_name) || !isValidIdentifier(row.column_name)) continue;
+    if (!isGlobalSearchColumn(kind, row.column_name, row.data_type)) continue;
+
+    let target = targets.get(fullName);
+    if (!target) {
+      const primaryKey = primaryKeys.get(fullName) ?? null;
+      target = {
+        schema: row.table_schema,
+        table: row.table_name,
+        // A hidden or masked primary key can't be used to link to the row
+        primaryKey: primaryKey && !masks.has(primaryKey) &&
+          grantedColumns.get(fullName)?.has(primaryKey) !== false &&
+          (canViewRestricted || !settings?.hiddenColumns?.includes(primaryKey)) ? primaryKey : null,
+        columns: [],
+      };
+      targets.set(fullName, target);
+    }
+    target.columns.push({ name: row.column_name, dataType: row.data_type });
+  }
+  return Array.from(targets.values());
 }
 
-// Middleware to check user role
-function requireRole(...allowedRoles: UserRole[]) {
+// Middleware to check that the user's role holds a permission (any of several, when given more)
+function requirePermission(...permissions: Permission[]) {
   return async (req: Request, res: Response, next: Function) => {
     const userId = (req.user as any)?.id;
     if (!userId) {
@@ -312,7 +862,8 @@ function requireRole(...allowedRoles: UserRole[]) {
       return res.status(403).json({ error: "Account is inactive" });
     }
 
-    if (!allowedRoles.includes(user.role as UserRole)) {
+    const allowed = await Promise.all(permissions.map((permission) => userCan(user, permission)));
+    if (!allowed.some(Boolean)) {
       return res.status(403).json({ error: "Insufficient permissions" });
     }
 
@@ -321,10 +872,315 @@ function requireRole(...allowedRoles: UserRole[]) {
   };
 }
 
-// Get allowed tables for a user (for external customers)
+// Check a custom role's permission list; unknown names are rejected rather than dropped
+function parseRolePermissions(input: unknown): { permissions: Permission[]; error?: string } {
+  if (!Array.isArray(input) || !input.every((p) => typeof p === "string")) {
+    return { permissions: [], error: "permissions must be an array of permission names" };
+  }
+  const unknown = input.filter((p) => !(PERMISSIONS as readonly string[]).includes(p));
+  if (unknown.length > 0) {
+    return { permissions: [], error: `Unknown permissions: ${unknown.join(", ")}` };
+  }
+  return { permissions: Array.from(new Set(input as Permission[])) };
+}
+
+// Condition matching grants that haven't expired; every grant lookup that gives access uses it
+function isGrantActive() {
+  return or(isNull(tableGrants.expiresAt), gt(tableGrants.expiresAt, new Date()));
+}
+
+// Active grants that apply to a user: their own plus those of every group they belong to,
+// narrowed by any extra conditions
+async function getEffectiveGrants(userId: string | number, ...conditions: SQL[]): Promise<TableGrant[]> {
+  const memberGroups = db
+    .select({ groupId: userGroupMembers.groupId })
+    .from(userGroupMembers)
+    .where(eq(userGroupMembers.userId, Number(userId)));
+  return db.select().from(tableGrants).where(and(
+    or(eq(tableGrants.userId, Number(userId)), inArray(tableGrants.groupId, memberGroups)),
+    isGrantActive(),
+    ...conditions,
+  ));
+}
+
+// Get allowed tables for a user (for external customers): the union of their own and their
+// groups' grants, ignoring expired ones
 async function getAllowedTables(userId: string): Promise<string[]> {
-  const grants = await db.select().from(tableGrants).where(eq(tableGrants.userId, userId));
-  return grants.map(g => `${g.database}:${g.tableName}`);
+  const grants = await getEffectiveGrants(userId);
+  return Array.from(new Set(grants.map(g => `${g.database}:${g.tableName}`)));
+}
+
+const GRANT_EXPIRY_SWEEP_MS = 5 * 60 * 1000;
+const EXPORT_JOB_SWEEP_MS = 10 * 60 * 1000;
+// Background exports listed in the export center
+const EXPORT_JOB_HISTORY_LIMIT = 50;
+// Approval requests listed for admins, pending and recently reviewed
+const EXPORT_APPROVAL_HISTORY_LIMIT = 100;
+// Export volume alerts listed for admins
+const EXPORT_ALERT_HISTORY_LIMIT = 100;
+// Admins are warned about grants expiring within this many days
+const GRANT_EXPIRY_WARNING_DAYS = 7;
+
+// Write an audit log entry for each grant that expired since the last sweep. Expired grants
+// already stop giving access in getAllowedTables; the sweep only records when it happened.
+async function sweepExpiredGrants(): Promise<void> {
+  try {
+    const expired = await db
+      .select({ grant: tableGrants, email: users.email, groupName: userGroups.name })
+      .from(tableGrants)
+      .leftJoin(users, eq(tableGrants.userId, users.id))
+      .leftJoin(userGroups, eq(tableGrants.groupId, userGroups.id))
+      .where(and(lte(tableGrants.expiresAt, new Date()), isNull(tableGrants.expiryLoggedAt)));
+    for (const { grant, email, groupName } of expired) {
+      // Group grants are logged against the group
+      await logAudit({
+        userId: grant.groupId ? `group:${grant.groupId}` : String(grant.userId),
+        userEmail: grant.groupId ? `group:${groupName}` : email || "unknown",
+        action: "GRANT_EXPIRED",
+        database: grant.database,
+        table: grant.tableName,
+        details: `Grant ${grant.id} expired at ${grant.expiresAt!.toISOString()}${grant.reason ? ` (reason: ${grant.reason})` : ""}`,
+      });
+      await db.update(tableGrants).set({ expiryLoggedAt: new Date() }).where(eq(tableGrants.id, grant.id));
+    }
+  } catch (err) {
+    console.error("Error sweeping expired grants:", err);
+  }
+}
+
+// Parse a grant expiry from a request body: an ISO date, or null/undefined for a permanent grant
+function parseGrantExpiry(input: unknown): { expiresAt: Date | null; error?: string } {
+  if (input === undefined || input === null || input === "") return { expiresAt: null };
+  const expiresAt = typeof input === "string" ? new Date(input) : null;
+  if (!expiresAt || isNaN(expiresAt.getTime())) {
+    return { expiresAt: null, error: "expiresAt must be an ISO date" };
+  }
+  return { expiresAt };
+}
+
+// Identifies a grant's row predicate; grants without one read every row
+function grantRowKey(grant: TableGrant): string {
+  return grant.rowFilter?.length ? JSON.stringify(grant.rowFilter) : "*";
+}
+
+// What the user's grants on a table (schema.table) let them read: a row predicate (null for
+// every row) and a column allowlist (null for every column). Both are null for users who can
+// view restricted data or have no grant (table access is checked separately). Several grants
+// widen each other's rows, but each grant's columns only apply to its own rows: a column stays
+// visible only when the grants allowing it cover every readable row, i.e. one of them has no
+// predicate or together they carry every predicate. So a grant for some rows with all columns
+// plus one for all rows with a few columns gives all rows with those few columns.
+async function getGrantAccess(
+  user: User | undefined,
+  database: string,
+  table: string
+): Promise<{ rowFilter: FilterGroup | null; columns: Set<string> | null }> {
+  if (!user || await userCan(user, "view_restricted_data")) return { rowFilter: null, columns: null };
+  const grants = await getEffectiveGrants(user.id, eq(tableGrants.database, database), eq(tableGrants.tableName, table));
+  if (grants.length === 0) return { rowFilter: null, columns: null };
+
+  const rowKeys = new Set(grants.map(grantRowKey));
+  const rowFilter: FilterGroup | null = rowKeys.has("*")
+    ? null
+    : {
+      type: "group",
+      connective: "or",
+      children: grants.map(g => ({ type: "group" as const, connective: "and" as const, children: g.rowFilter! })),
+    };
+
+  // Grant keys are a subset of rowKeys, so the same count means every predicate is covered
+  const coversAllRows = (allowing: TableGrant[]) => {
+    const keys = new Set(allowing.map(grantRowKey));
+    return keys.has("*") || keys.size === rowKeys.size;
+  };
+  const allowsEveryColumn = (g: TableGrant) => !g.allowedColumns?.length;
+  if (coversAllRows(grants.filter(allowsEveryColumn))) return { rowFilter, columns: null };
+
+  const candidates = new Set(grants.flatMap(g => g.allowedColumns ?? []));
+  const columns = new Set(Array.from(candidates).filter(column =>
+    coversAllRows(grants.filter(g => allowsEveryColumn(g) || g.allowedColumns!.includes(column)))
+  ));
+  return { rowFilter, columns };
+}
+
+// Row predicate from the user's grants on a table (schema.table), or null when every row is readable
+async function getGrantRowFilter(user: User | undefined, database: string, table: string): Promise<FilterGroup | null> {
+  return (await getGrantAccess(user, database, table)).rowFilter;
+}
+
+// Columns of a table (schema.table) the user's grants allow on every row they can read, or
+// null when every column is
+async function getGrantedColumns(user: User | undefined, database: string, table: string): Promise<Set<string> | null> {
+  return (await getGrantAccess(user, database, table)).columns;
+}
+
+// Row count above which the user's exports of a table (schema.table) need an admin's approval,
+// or null when they never do: roles that reach every table, no grant, or a grant without a
+// threshold. Several grants widen each other, so the highest threshold applies.
+async function getExportApprovalThreshold(user: User, database: string, table: string): Promise<number | null> {
+  if (await userCan(user, "access_all_tables")) return null;
+  const grants = await getEffectiveGrants(user.id, eq(tableGrants.database, database), eq(tableGrants.tableName, table));
+  if (grants.length === 0 || grants.some(g => g.exportApprovalThreshold === null)) return null;
+  return Math.max(...grants.map(g => g.exportApprovalThreshold!));
+}
+
+// Parse daily and monthly export quotas from a request body: positive row counts, or null
+// (or left out) for no cap
+function parseExportQuota(body: { daily?: unknown; monthly?: unknown }): { daily: number | null; monthly: number | null; error?: string } {
+  const parseLimit = (input: unknown) =>
+    input === undefined || input === null ? null : Number.isInteger(input) && (input as number) >= 1 ? (input as number) : NaN;
+  const daily = parseLimit(body.daily);
+  const monthly = parseLimit(body.monthly);
+  if (Number.isNaN(daily) || Number.isNaN(monthly)) {
+    return { daily: null, monthly: null, error: "Export quotas must be positive whole numbers of rows" };
+  }
+  return { daily, monthly };
+}
+
+// Parse a grant's export approval threshold: a positive row count, or null/undefined for none
+function parseExportApprovalThreshold(input: unknown): { threshold: number | null; error?: string } {
+  if (input === undefined || input === null || input === "") return { threshold: null };
+  if (typeof input !== "number" || !Number.isInteger(input) || input < 1) {
+    return { threshold: null, error: "exportApprovalThreshold must be a positive whole number of rows" };
+  }
+  return { threshold: input };
+}
+
+// Check a grant's column allowlist against the granted table (schema.table). An empty
+// allowlist is stored as null, meaning every column.
+async function parseGrantAllowedColumns(
+  database: string,
+  tableName: string,
+  input: unknown
+): Promise<{ allowedColumns: string[] | null; error?: string }> {
+  if (input === undefined || input === null) return { allowedColumns: null };
+  if (!Array.isArray(input) || !input.every((c) => typeof c === "string")) {
+    return { allowedColumns: null, error: "allowedColumns must be an array of column names" };
+  }
+  if (input.length === 0) return { allowedColumns: null };
+
+  const parsedTable = parseTableName(tableName);
+  if (!parsedTable) return { allowedColumns: null, error: "Invalid table name" };
+  const columnsResult = await getPool(database).query(
+    `SELECT column_name FROM ${TABLE_COLUMNS_SQL} WHERE table_schema = $1 AND table_name = $2`,
+    [parsedTable.schema, parsedTable.table]
+  );
+  const validColumns = new Set(columnsResult.rows.map((r) => r.column_name));
+  const unknown = input.find((c) => !validColumns.has(c));
+  if (unknown) return { allowedColumns: null, error: `Invalid column in allowed columns: ${unknown}` };
+  return { allowedColumns: Array.from(new Set(input as string[])) };
+}
+
+// Check a grant's row predicate against the granted table (schema.table). An empty
+// predicate is stored as null, meaning every row.
+async function parseGrantRowFilter(
+  database: string,
+  tableName: string,
+  input: unknown
+): Promise<{ rowFilter: FilterNode[] | null; error?: string }> {
+  if (input === undefined || input === null) return { rowFilter: null };
+  const parsed = grantRowFilterSchema.safeParse(input);
+  if (!parsed.success) {
+    return { rowFilter: null, error: `Invalid row filter: ${parsed.error.errors[0]?.message}` };
+  }
+  const conditions = collectFilterConditions(parsed.data);
+  if (conditions.length === 0) return { rowFilter: null };
+
+  const parsedTable = parseTableName(tableName);
+  if (!parsedTable) return { rowFilter: null, error: "Invalid table name" };
+  const columnsResult = await getPool(database).query(
+    `SELECT column_name FROM ${TABLE_COLUMNS_SQL} WHERE table_schema = $1 AND table_name = $2`,
+    [parsedTable.schema, parsedTable.table]
+  );
+  const validColumns = new Set(columnsResult.rows.map((r) => r.column_name));
+  const unknown = conditions.find((c) => !isValidIdentifier(c.column) || !validColumns.has(c.column));
+  if (unknown) return { rowFilter: null, error: `Invalid column in row filter: ${unknown.column}` };
+  return { rowFilter: parsed.data };
+}
+
+// SQL condition limiting a table to the rows the user's grants allow, appending bind params.
+// Injected next to the user's own filters so it can't be removed from the request.
+async function buildGrantRowFilterSQL(
+  user: User | undefined,
+  database: string,
+  schema: string,
+  table: string,
+  params: unknown[],
+  resolveColumn: (column: string) => string = (column) => `"${column}"`
+): Promise<string | null> {
+  const rowFilter = await getGrantRowFilter(user, database, `${schema}.${table}`);
+  return rowFilter ? buildFilterSQL(rowFilter, params, resolveColumn) : null;
+}
+
+// Helper: Whether a user can open a table - roles without access to all tables need a grant,
+// and hidden tables need the restricted-data permission (matching the table list)
+async function canAccessTable(user: User, database: string, table: string): Promise<boolean> {
+  if (!(await userCan(user, "access_all_tables"))) {
+    const allowedTables = await getAllowedTables(String(user.id));
+    if (!allowedTables.includes(`${database}:${table}`)) return false;
+  }
+  if (!(await userCan(user, "view_restricted_data"))) {
+    const allTableSettings = await storage.getAllTableSettings();
+    if (allTableSettings[`${database}:${table}`]?.isVisible === false) return false;
+  }
+  return true;
+}
+
+// Helper: Saved views in a database the user owns, was shared, or that are published,
+// limited to tables the user can still open. Share lists are only returned to the owner.
+async function getAccessibleSavedViews(user: User, database: string) {
+  const sharedWithUser = db
+    .select({ viewId: savedViewShares.viewId })
+    .from(savedViewShares)
+    .where(eq(savedViewShares.userId, user.id));
+
+  const views = await db
+    .select({ view: savedViews, ownerEmail: users.email })
+    .from(savedViews)
+    .innerJoin(users, eq(savedViews.userId, users.id))
+    .where(and(
+      eq(savedViews.database, database),
+      or(
+        eq(savedViews.userId, user.id),
+        eq(savedViews.visibility, "published"),
+        and(eq(savedViews.visibility, "shared"), inArray(savedViews.id, sharedWithUser)),
+      ),
+    ))
+    .orderBy(savedViews.name);
+
+  const allowedTables = !(await userCan(user, "access_all_tables"))
+    ? await getAllowedTables(String(user.id))
+    : null;
+  const allTableSettings = !(await userCan(user, "view_restricted_data")) ? await storage.getAllTableSettings() : {};
+  const visibleViews = views.filter(({ view }) =>
+    (!allowedTables || allowedTables.includes(`${database}:${view.tableName}`)) &&
+    allTableSettings[`${database}:${view.tableName}`]?.isVisible !== false
+  );
+
+  const ownedIds = visibleViews.filter(({ view }) => view.userId === user.id).map(({ view }) => view.id);
+  const shares = ownedIds.length > 0
+    ? await db.select().from(savedViewShares).where(inArray(savedViewShares.viewId, ownedIds))
+    : [];
+
+  return visibleViews.map(({ view, ownerEmail }) => ({
+    ...view,
+    ownerEmail,
+    isOwner: view.userId === user.id,
+    sharedWith: view.userId === user.id
+      ? shares.filter(share => share.viewId === view.id).map(share => share.userId)
+      : [],
+  }));
+}
+
+// Helper: Replace the share list of a saved view
+async function setSavedViewShares(view: SavedView, userIds: number[]) {
+  await db.delete(savedViewShares).where(eq(savedViewShares.viewId, view.id));
+  const recipients = view.visibility === "shared"
+    ? Array.from(new Set(userIds)).filter(id => id !== view.userId)
+    : [];
+  if (recipients.length > 0) {
+    await db.insert(savedViewShares).values(recipients.map(userId => ({ viewId: view.id, userId })));
+  }
 }
 
 // Helper: Parse table name which may be schema-qualified (e.g., "public.vendors" or "vendors")
@@ -341,86 +1197,412 @@ function parseTableName(tableName: string): { schema: string; table: string } |
   }
 }
 
-// Security: Validate table exists and user has access
-// bypassVisibility: When true, ignores visibility settings (used for AI access - visibility is cosmetic for UI only)
-async function validateTableAccess(
-  dbName: string,
-  tableName: string,
-  user: User,
-  options: { bypassVisibility?: boolean } = {}
-): Promise<{ valid: boolean; error?: string; parsedTable?: { schema: string; table: string } }> {
-  try {
-    // Parse and validate table name (handles both "vendors" and "public.vendors")
-    const parsed = parseTableName(tableName);
-    if (!parsed) {
-      return { valid: false, error: "Invalid table name" };
-    }
-
-    // Get the pool and check if table exists
-    const pool = getPool(dbName);
-    const tableResult = await pool.query(`
-      SELECT table_name FROM information_schema.tables 
-      WHERE table_schema = $1 AND table_name = $2
-    `, [parsed.schema, parsed.table]);
-
-    if (tableResult.rows.length === 0) {
-      return { valid: false, error: "Table not found" };
-    }
+// Schemas whose tables and views are listed for a database (admin-selected, public by default)
+async function getExposedSchemas(database: string): Promise<string[]> {
+  return (await storage.getExposedSchemas(database)) ?? DEFAULT_EXPOSED_SCHEMAS;
+}
 
-    // For external customers, always check grants (this is real permission, not cosmetic)
-    if (user.role === "external_customer") {
-      const allowedTables = await getAllowedTables(user.id);
-      if (!allowedTables.includes(`${dbName}:${parsed.schema}.${parsed.table}`)) {
-        return { valid: false, error: "Access denied to this table" };
-      }
+// Column masks for the user's role on a table; roles that can view restricted data see raw
+// values. Columns left out of the user's grants are hidden, so every path that applies masks
+// also enforces the grants.
+async function getUserColumnMasks(
+  database: string,
+  schema: string,
+  table: string,
+  user: User | undefined
+): Promise<ColumnMasks> {
+  const settings = (await storage.getAllTableSettings())[`${database}:${schema}.${table}`];
+  const canViewRestricted = await userCan(user, "view_restricted_data");
+  const masks = getColumnMasks(settings?.columnMasks, canViewRestricted ? null : user?.role ?? "external_customer");
+  const grantedColumns = await getGrantedColumns(user, database, `${schema}.${table}`);
+  if (grantedColumns) {
+    const columnsResult = await getPool(database).query(
+      `SELECT column_name FROM ${TABLE_COLUMNS_SQL} WHERE table_schema = $1 AND table_name = $2`,
+      [schema, table]
+    );
+    for (const { column_name } of columnsResult.rows) {
+      if (!grantedColumns.has(column_name)) masks.set(column_name, "hide");
     }
+  }
+  return masks;
+}
 
-    // Visibility is cosmetic for UI only - AI bypasses this check
-    // Only apply visibility filtering for non-admin users when not bypassing
-    if (!options.bypassVisibility && user.role !== "admin") {
-      const allSettings = await storage.getAllTableSettings();
-      const settingsKey = `${dbName}:${parsed.schema}.${parsed.table}`;
-      const tableSettings = allSettings[settingsKey];
+// Quota check for a drilldown export capped at rowLimit rows: counts the rows it would write
+// (only when the user has a quota) and returns the quota error, or null when it fits
+async function checkDrilldownExportQuota(
+  user: User,
+  pool: Pool,
+  queryConfig: { sql: string; params: unknown[] },
+  rowLimit: number
+): Promise<string | null> {
+  const quotaRemaining = await getRemainingExportQuota(user);
+  if (quotaRemaining === null) return null;
+  const countResult = await pool.query(`SELECT COUNT(*) AS count FROM (${queryConfig.sql}) d`, queryConfig.params);
+  const exportRows = Math.min(parseInt(countResult.rows[0].count, 10), rowLimit);
+  return exportRows > quotaRemaining ? exportQuotaError(quotaRemaining, exportRows) : null;
+}
 
-      if (tableSettings && tableSettings.isVisible === false) {
-        return { valid: false, error: "Access denied to this table" };
-      }
-    }
+const DRILLDOWN_ROW_RESTRICTED_ERROR = "Drilldowns aren't available because your access to this data is limited to some rows";
 
-    return { valid: true, parsedTable: parsed };
-  } catch (err) {
-    console.error("Error validating table access:", err);
-    return { valid: false, error: "Failed to validate table access" };
+// Drilldown SQL is fixed per metric and can't take row predicates, so users whose grants
+// limit one of the metric's source tables (public schema) to some rows get no drilldown
+async function isDrilldownRowRestricted(database: string, sourceTables: string[], user: User): Promise<boolean> {
+  for (const table of sourceTables) {
+    if (await getGrantRowFilter(user, database, `public.${table}`)) return true;
   }
+  return false;
 }
 
-// Levenshtein distance for column name similarity
-function levenshteinDistance(a: string, b: string): number {
-  const matrix: number[][] = [];
-  const aLower = a.toLowerCase();
-  const bLower = b.toLowerCase();
-
-  for (let i = 0; i <= bLower.length; i++) {
-    matrix[i] = [i];
-  }
-  for (let j = 0; j <= aLower.length; j++) {
-    matrix[0][j] = j;
+// Drilldown query of a dashboard metric with the user's masks applied to its output columns.
+// Masks come from the metric's source tables (public schema) and match output columns by name.
+async function getMaskedDrilldownQuery(
+  database: string,
+  sourceTables: string[],
+  queryConfig: { sql: string; params: unknown[]; columns: string[] },
+  user: User
+): Promise<{ sql: string; params: unknown[]; columns: string[] }> {
+  const masks: ColumnMasks = new Map();
+  for (const table of sourceTables) {
+    const tableMasks = await getUserColumnMasks(database, "public", table, user);
+    tableMasks.forEach((mask, column) => {
+      if (!masks.has(column)) masks.set(column, mask);
+    });
   }
+  if (masks.size === 0) return queryConfig;
+  return {
+    sql: `SELECT ${buildMaskedSelectList(queryConfig.columns, masks).join(", ")} FROM (${queryConfig.sql}) drilldown`,
+    params: queryConfig.params,
+    columns: queryConfig.columns.filter((c) => masks.get(c) !== "hide"),
+  };
+}
 
-  for (let i = 1; i <= bLower.length; i++) {
-    for (let j = 1; j <= aLower.length; j++) {
-      if (bLower.charAt(i - 1) === aLower.charAt(j - 1)) {
-        matrix[i][j] = matrix[i - 1][j - 1];
-      } else {
-        matrix[i][j] = Math.min(
-          matrix[i - 1][j - 1] + 1,
-          matrix[i][j - 1] + 1,
-          matrix[i - 1][j] + 1
-        );
-      }
-    }
+// Get single-column foreign keys declared on a table, keyed by local column name
+async function getForeignKeys(
+  pool: Pool,
+  schema: string,
+  table: string
+): Promise<Map<string, { table: string; column: string }>> {
+  const result = await pool.query(`
+    SELECT a.attname AS column_name,
+           fn.nspname AS foreign_schema,
+           fc.relname AS foreign_table,
+           fa.attname AS foreign_column
+    FROM pg_constraint c
+    JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = c.conkey[1]
+    JOIN pg_class fc ON fc.oid = c.confrelid
+    JOIN pg_namespace fn ON fn.oid = fc.relnamespace
+    JOIN pg_attribute fa ON fa.attrelid = c.confrelid AND fa.attnum = c.confkey[1]
+    WHERE c.contype = 'f'
+      AND c.conrelid = ($1 || '.' || $2)::regclass
+      AND array_length(c.conkey, 1) = 1
+  `, [schema, table]);
+
+  const foreignKeys = new Map<string, { table: string; column: string }>();
+  for (const row of result.rows) {
+    foreignKeys.set(row.column_name, {
+      table: `${row.foreign_schema}.${row.foreign_table}`,
+      column: row.foreign_column,
+    });
   }
-  return matrix[bLower.length][aLower.length];
+  return foreignKeys;
+}
+
+// Get single-column foreign keys in other tables that point at this table
+async function getReferencingForeignKeys(
+  pool: Pool,
+  schema: string,
+  table: string
+): Promise<Array<{ table: string; column: string; referencedColumn: string }>> {
+  const result = await pool.query(`
+    SELECT cn.nspname AS child_schema,
+           cc.relname AS child_table,
+           a.attname AS child_column,
+           fa.attname AS referenced_column
+    FROM pg_constraint c
+    JOIN pg_class cc ON cc.oid = c.conrelid
+    JOIN pg_namespace cn ON cn.oid = cc.relnamespace
+    JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = c.conkey[1]
+    JOIN pg_attribute fa ON fa.attrelid = c.confrelid AND fa.attnum = c.confkey[1]
+    WHERE c.contype = 'f'
+      AND c.confrelid = ($1 || '.' || $2)::regclass
+      AND array_length(c.conkey, 1) = 1
+    ORDER BY cn.nspname, cc.relname, a.attname
+  `, [schema, table]);
+
+  return result.rows.map((row) => ({
+    table: `${row.child_schema}.${row.child_table}`,
+    column: row.child_column,
+    referencedColumn: row.referenced_column,
+  }));
+}
+
+// Estimated row count from planner statistics; null if the table was never analyzed
+// (or looks empty, where an exact count is cheap anyway)
+async function getApproximateRowCount(pool: Pool, schema: string, table: string): Promise<number | null> {
+  const result = await pool.query(
+    `SELECT reltuples::bigint AS estimate FROM pg_class WHERE oid = ($1 || '.' || $2)::regclass`,
+    [schema, table]
+  );
+  const estimate = parseInt(result.rows[0]?.estimate ?? "-1", 10);
+  return estimate > 0 ? estimate : null;
+}
+
+interface KeysetKey {
+  column: string;
+  direction: "asc" | "desc";
+  // The column's SQL type; cursor values travel as text and are cast back to it
+  type: string;
+}
+
+// Cursor values are the key columns' text forms, selected alongside each row, so they
+// round-trip at full precision (JavaScript dates would drop timestamp microseconds)
+function keysetCursorAlias(index: number): string {
+  return `__cursor_${index}`;
+}
+
+// Build a WHERE condition selecting rows strictly after (or, with reverse, before)
+// the cursor tuple in the given ordering. Follows Postgres' default null placement:
+// NULLS LAST for ASC and NULLS FIRST for DESC.
+function buildKeysetCondition(
+  keys: KeysetKey[],
+  values: unknown[],
+  startIndex: number,
+  reverse: boolean
+): { sql: string; params: unknown[] } {
+  const params: unknown[] = [];
+  const placeholders = values.map((value, i) => {
+    if (value === null || value === undefined) return null;
+    params.push(String(value));
+    return `$${startIndex + params.length - 1}::${keys[i].type}`;
+  });
+
+  const branches = keys.map((key, i) => {
+    const parts: string[] = [];
+    for (let j = 0; j < i; j++) {
+      const placeholder = placeholders[j];
+      parts.push(placeholder ? `"${keys[j].column}" = ${placeholder}` : `"${keys[j].column}" IS NULL`);
+    }
+
+    const placeholder = placeholders[i];
+    const towardLarger = (key.direction === "asc") !== reverse;
+    if (towardLarger) {
+      // Nulls sort as the largest values, so nothing follows a null cursor value
+      parts.push(placeholder ? `("${key.column}" > ${placeholder} OR "${key.column}" IS NULL)` : "FALSE");
+    } else {
+      parts.push(placeholder ? `"${key.column}" < ${placeholder}` : `"${key.column}" IS NOT NULL`);
+    }
+    return `(${parts.join(" AND ")})`;
+  });
+
+  return { sql: `(${branches.join(" OR ")})`, params };
+}
+
+// Run a read-only query with a statement timeout (for full-table aggregates and GROUP BYs)
+async function queryWithTimeout(pool: Pool, sql: string, params: unknown[], timeoutMs: number) {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    await client.query(`SET LOCAL statement_timeout = ${Math.floor(timeoutMs)}`);
+    const result = await client.query(sql, params);
+    await client.query("COMMIT");
+    return result;
+  } catch (err) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+// Build the SELECT / GROUP BY / ORDER BY parts of a summarize query. Columns are checked
+// against columnTypes (name -> information_schema data_type) and aggregates against the
+// column type; output aliases are built from validated identifiers only.
+function buildSummarizeQuery(
+  spec: SummarizeSpec,
+  columnTypes: Map<string, string>
+):
+  | { valid: true; selectSQL: string; groupBySQL: string; orderBySQL: string; columns: SummarizeOutputColumn[] }
+  | { valid: false; error: string } {
+  const selectParts: string[] = [];
+  const groupParts: string[] = [];
+  const columns: SummarizeOutputColumn[] = [];
+
+  for (const group of spec.groupBy) {
+    const dataType = columnTypes.get(group.column);
+    if (!dataType || !isValidIdentifier(group.column)) {
+      return { valid: false, error: `Invalid group-by column: ${group.column}` };
+    }
+
+    let expr = `"${group.column}"`;
+    if (group.bucket) {
+      if (dataType !== "date" && !dataType.startsWith("timestamp")) {
+        return { valid: false, error: `Only date and timestamp columns can be grouped by ${group.bucket}` };
+      }
+      // Bucket in Pacific time (timestamps are stored in UTC), labelled by the bucket's first day
+      const local =
+        dataType === "date" ? expr :
+        dataType === "timestamp with time zone" ? `(${expr} AT TIME ZONE 'America/Los_Angeles')` :
+        `(${expr} AT TIME ZONE 'UTC' AT TIME ZONE 'America/Los_Angeles')`;
+      expr = `TO_CHAR(DATE_TRUNC('${group.bucket}', ${local}), 'YYYY-MM-DD')`;
+    }
+
+    const name = group.bucket ? `${group.column}_${group.bucket}` : group.column;
+    selectParts.push(`${expr} AS "${name}"`);
+    groupParts.push(expr);
+    columns.push({ name, kind: "group", column: group.column, ...(group.bucket && { bucket: group.bucket }) });
+  }
+
+  for (const agg of spec.aggregates) {
+    if (agg.function === "count" && !agg.column) {
+      selectParts.push(`COUNT(*) AS "count"`);
+      columns.push({ name: "count", kind: "aggregate", function: "count" });
+      continue;
+    }
+
+    const dataType = agg.column ? columnTypes.get(agg.column) : undefined;
+    if (!agg.column || !dataType || !isValidIdentifier(agg.column)) {
+      return { valid: false, error: `Invalid aggregate column: ${agg.column ?? "(none)"}` };
+    }
+
+    const col = `"${agg.column}"`;
+    const isNumeric = NUMERIC_TYPES.includes(dataType);
+    let expr: string;
+    switch (agg.function) {
+      case "count":
+        expr = `COUNT(${col})`;
+        break;
+      case "count_distinct":
+        if (NON_DISTINCT_TYPES.includes(dataType)) {
+          return { valid: false, error: `Distinct count isn't supported for ${dataType} column ${agg.column}` };
+        }
+        expr = `COUNT(DISTINCT ${col})`;
+        break;
+      case "sum":
+      case "avg":
+        if (!isNumeric) {
+          return { valid: false, error: `${agg.function.toUpperCase()} needs a numeric column, ${agg.column} is ${dataType}` };
+        }
+        expr = `${agg.function.toUpperCase()}(${col})`;
+        break;
+      case "min":
+      case "max":
+        if (!isNumeric && !ORDERABLE_TYPE_PREFIXES.some((t) => dataType.startsWith(t))) {
+          return { valid: false, error: `${agg.function.toUpperCase()} isn't supported for ${dataType} column ${agg.column}` };
+        }
+        expr = `${agg.function.toUpperCase()}(${col})`;
+        break;
+    }
+
+    const name = `${agg.function}_${agg.column}`;
+    selectParts.push(`${expr} AS "${name}"`);
+    columns.push({ name, kind: "aggregate", column: agg.column, function: agg.function });
+  }
+
+  const names = columns.map((c) => c.name);
+  const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+  if (duplicate) {
+    return { valid: false, error: `Duplicate output column: ${duplicate}` };
+  }
+
+  // Requested sort first, then the group columns so the order is stable
+  const orderParts: string[] = [];
+  if (spec.sort) {
+    if (!names.includes(spec.sort.column)) {
+      return { valid: false, error: `Invalid sort column: ${spec.sort.column}` };
+    }
+    orderParts.push(`"${spec.sort.column}" ${spec.sort.direction === "desc" ? "DESC" : "ASC"} NULLS LAST`);
+  }
+  for (const column of columns) {
+    if (column.kind === "group" && column.name !== spec.sort?.column) {
+      orderParts.push(`"${column.name}" ASC NULLS LAST`);
+    }
+  }
+
+  return {
+    valid: true,
+    selectSQL: selectParts.join(", "),
+    groupBySQL: groupParts.join(", "),
+    orderBySQL: orderParts.join(", "),
+    columns,
+  };
+}
+
+// Security: Validate table exists and user has access
+// bypassVisibility: When true, ignores visibility settings (used for AI access - visibility is cosmetic for UI only)
+async function validateTableAccess(
+  dbName: string,
+  tableName: string,
+  user: User,
+  options: { bypassVisibility?: boolean } = {}
+): Promise<{ valid: boolean; error?: string; parsedTable?: { schema: string; table: string } }> {
+  try {
+    // Parse and validate table name (handles both "vendors" and "public.vendors")
+    const parsed = parseTableName(tableName);
+    if (!parsed) {
+      return { valid: false, error: "Invalid table name" };
+    }
+
+    // Get the pool and check the table or view exists in a listed schema
+    const pool = getPool(dbName);
+    const objectType = await getTableObjectType(pool, parsed.schema, parsed.table);
+    if (!objectType || !(await getExposedSchemas(dbName)).includes(parsed.schema)) {
+      return { valid: false, error: "Table not found" };
+    }
+
+    // Without access to all tables, always check grants (this is real permission, not cosmetic)
+    if (!(await userCan(user, "access_all_tables"))) {
+      const allowedTables = await getAllowedTables(user.id);
+      if (!allowedTables.includes(`${dbName}:${parsed.schema}.${parsed.table}`)) {
+        return { valid: false, error: "Access denied to this table" };
+      }
+    }
+
+    // Visibility is cosmetic for UI only - AI bypasses this check
+    // Only apply visibility filtering for users who can't view restricted data when not bypassing
+    if (!options.bypassVisibility && !(await userCan(user, "view_restricted_data"))) {
+      const allSettings = await storage.getAllTableSettings();
+      const settingsKey = `${dbName}:${parsed.schema}.${parsed.table}`;
+      const tableSettings = allSettings[settingsKey];
+
+      if (tableSettings && tableSettings.isVisible === false) {
+        return { valid: false, error: "Access denied to this table" };
+      }
+    }
+
+    return { valid: true, parsedTable: parsed };
+  } catch (err) {
+    console.error("Error validating table access:", err);
+    return { valid: false, error: "Failed to validate table access" };
+  }
+}
+
+// Levenshtein distance for column name similarity
+function levenshteinDistance(a: string, b: string): number {
+  const matrix: number[][] = [];
+  const aLower = a.toLowerCase();
+  const bLower = b.toLowerCase();
+
+  for (let i = 0; i <= bLower.length; i++) {
+    matrix[i] = [i];
+  }
+  for (let j = 0; j <= aLower.length; j++) {
+    matrix[0][j] = j;
+  }
+
+  for (let i = 1; i <= bLower.length; i++) {
+    for (let j = 1; j <= aLower.length; j++) {
+      if (bLower.charAt(i - 1) === aLower.charAt(j - 1)) {
+        matrix[i][j] = matrix[i - 1][j - 1];
+      } else {
+        matrix[i][j] = Math.min(
+          matrix[i - 1][j - 1] + 1,
+          matrix[i][j - 1] + 1,
+          matrix[i - 1][j] + 1
+        );
+      }
+    }
+  }
+  return matrix[bLower.length][aLower.length];
 }
 
 // Find similar column names based on Levenshtein distance
@@ -447,11 +1629,12 @@ function findSimilarColumns(target: string, columns: string[], maxSuggestions: n
     .map(s => s.col);
 }
 
-// Security: Validate columns exist in table
+// Security: Validate columns exist in table and, for a user, are covered by their grants
 async function validateColumns(
   dbName: string,
   tableName: string,
-  columns: string[]
+  columns: string[],
+  user?: User
 ): Promise<{ valid: boolean; error?: string }> {
   try {
     if (columns.length === 0) return { valid: true };
@@ -471,11 +1654,15 @@ async function validateColumns(
 
     const pool = getPool(dbName);
     const columnResult = await pool.query(`
-      SELECT column_name FROM information_schema.columns 
+      SELECT column_name FROM ${TABLE_COLUMNS_SQL} 
       WHERE table_schema = $1 AND table_name = $2
     `, [parsed.schema, parsed.table]);
 
-    const existingColumnsArray = columnResult.rows.map((r: any) => r.column_name);
+    // Columns outside the user's grants are treated as missing
+    const grantedColumns = await getGrantedColumns(user, dbName, `${parsed.schema}.${parsed.table}`);
+    const existingColumnsArray = columnResult.rows
+      .map((r: any) => r.column_name)
+      .filter((c: string) => !grantedColumns || grantedColumns.has(c));
     const existingColumns = new Set(existingColumnsArray);
 
     for (const col of columns) {
@@ -523,6 +1710,15 @@ async function validateBlockConfig(
     return tableValidation;
   }
 
+  // Columns outside the user's grants on a table are treated as missing
+  const filterGrantedColumns = async (columns: string[], tableName: string): Promise<string[]> => {
+    const parsed = parseTableName(tableName);
+    const grantedColumns = parsed
+      ? await getGrantedColumns(user, config.database, `${parsed.schema}.${parsed.table}`)
+      : null;
+    return grantedColumns ? columns.filter((c) => grantedColumns.has(c)) : columns;
+  };
+
   // If there's a join, validate the joined table access too
   let joinTableColumns: string[] = [];
   let mainTableColumns: string[] = [];
@@ -532,10 +1728,10 @@ async function validateBlockConfig(
   if (mainParsed) {
     const pool = getPool(config.database);
     const mainColResult = await pool.query(`
-      SELECT column_name FROM information_schema.columns 
+      SELECT column_name FROM ${TABLE_COLUMNS_SQL} 
       WHERE table_schema = $1 AND table_name = $2
     `, [mainParsed.schema, mainParsed.table]);
-    mainTableColumns = mainColResult.rows.map((r: any) => r.column_name);
+    mainTableColumns = await filterGrantedColumns(mainColResult.rows.map((r: any) => r.column_name), config.table);
   }
 
   // Track sub-join table columns separately
@@ -563,10 +1759,10 @@ async function validateBlockConfig(
     if (joinParsed) {
       const pool = getPool(config.database);
       const joinColResult = await pool.query(`
-        SELECT column_name FROM information_schema.columns 
+        SELECT column_name FROM ${TABLE_COLUMNS_SQL} 
         WHERE table_schema = $1 AND table_name = $2
       `, [joinParsed.schema, joinParsed.table]);
-      joinTableColumns = joinColResult.rows.map((r: any) => r.column_name);
+      joinTableColumns = await filterGrantedColumns(joinColResult.rows.map((r: any) => r.column_name), config.join.table);
 
       // Validate the toColumn exists in joined table
       if (!joinTableColumns.includes(toCol)) {
@@ -595,10 +1791,13 @@ async function validateBlockConfig(
         const subJoinParsed = parseTableName(config.join.subJoin.table);
         if (subJoinParsed) {
           const subJoinColResult = await pool.query(`
-            SELECT column_name FROM information_schema.columns 
+            SELECT column_name FROM ${TABLE_COLUMNS_SQL} 
             WHERE table_schema = $1 AND table_name = $2
           `, [subJoinParsed.schema, subJoinParsed.table]);
-          subJoinTableColumns = subJoinColResult.rows.map((r: any) => r.column_name);
+          subJoinTableColumns = await filterGrantedColumns(
+            subJoinColResult.rows.map((r: any) => r.column_name),
+            config.join.subJoin.table
+          );
 
           // Validate the subToColumn exists in subJoin table
           if (!subJoinTableColumns.includes(subToCol)) {
@@ -719,8 +1918,8 @@ async function validateBlockConfig(
   }
 
   // Validate filter columns (handle join columns with dots)
-  if (config.filters?.length > 0) {
-    for (const f of config.filters) {
+  if (config.filters) {
+    for (const f of collectFilterConditions(config.filters)) {
       if (f.column) {
         if (f.column.includes(".")) {
           // Filter column from joined table
@@ -738,15 +1937,14 @@ async function validateBlockConfig(
         }
       }
       // Validate operator
-      const validOps = ["eq", "contains", "gt", "gte", "lt", "lte", "between", "in"];
-      if (!validOps.includes(f.operator)) {
+      if (!(filterOperatorSchema.options as readonly string[]).includes(f.operator)) {
         return { valid: false, error: `Invalid filter operator: ${f.operator}` };
       }
     }
   }
 
   // Validate all main table columns exist
-  const columnValidation = await validateColumns(config.database, config.table, columnsToValidate);
+  const columnValidation = await validateColumns(config.database, config.table, columnsToValidate, user);
   if (!columnValidation.valid) {
     return columnValidation;
   }
@@ -807,6 +2005,8 @@ async function logAudit(entry: {
   table?: string;
   details?: string;
   ip?: string;
+  // Rows the action exported; counts toward the user's export quotas
+  rowCount?: number;
 }) {
   try {
     // Insert into database
@@ -818,6 +2018,7 @@ async function logAudit(entry: {
       tableName: entry.table || null,
       details: entry.details || null,
       ipAddress: entry.ip || null,
+      rowCount: entry.rowCount ?? null,
     });
 
     // Also log to console for real-time monitoring
@@ -825,7 +2026,338 @@ async function logAudit(entry: {
   } catch (err) {
     // Don't let audit logging failures break the request
     console.error("Failed to write audit log:", err);
+    return;
+  }
+
+  if (entry.rowCount) {
+    await checkExportVolume(entry);
+  }
+}
+
+// Compare the user's exports today with their history and record an alert for unusual volume
+async function checkExportVolume(entry: { userId: string; userEmail: string; database?: string; table?: string }) {
+  try {
+    const alert = await detectUnusualExportVolume(String(entry.userId), entry.database, entry.table);
+    if (!alert) return;
+    await logAudit({
+      userId: entry.userId,
+      userEmail: entry.userEmail,
+      action: "EXPORT_VOLUME_ALERT",
+      database: entry.database,
+      table: entry.table,
+      details: `Exported ${alert.rowsToday} rows today against a daily average of ${alert.dailyAverage} (alert ${alert.id}, threshold ${alert.threshold})`,
+    });
+  } catch (err) {
+    console.error("Error checking export volume:", err);
+  }
+}
+
+// Error for an export the user's daily or monthly quota doesn't cover
+function exportQuotaError(remaining: number, rows?: number): string {
+  return remaining === 0
+    ? "You've reached your export quota. Please try again later or contact an administrator."
+    : `This export of ${rows!.toLocaleString()} rows exceeds your remaining export quota of ${remaining.toLocaleString()} rows`;
+}
+
+// A data viewer export as requested by the client, with JSON parameters already parsed
+interface TableExportRequest {
+  database: string;
+  table: string;
+  filters: FilterTreeNode[] | FilterGroup;
+  summarize?: unknown;
+  search?: unknown;
+  searchColumns?: unknown;
+  exportAll: boolean;
+  page: number;
+  // Set when running an export an admin approved; skips the grant's approval threshold
+  approved?: boolean;
+}
+
+type PreparedTableExport =
+  | { valid: false; status: number; error: string }
+  | {
+      valid: true;
+      pool: Pool;
+      dataQuery: string;
+      params: unknown[];
+      columnNames: string[];
+      tableName: string;
+      filename: string;
+      // Rows (or summary groups) in the export; only counted for exportAll
+      totalCount: number;
+      auditDetails: (format: ExportFormat) => string;
+    };
+
+// Column types a summarized export may group or aggregate on: admin-hidden and masked
+// columns are left out for roles without the restricted-data permission
+async function getSummarizableColumnTypes(
+  columns: Array<{ column_name: string; data_type: string }>,
+  masks: ColumnMasks,
+  user: User,
+  database: string,
+  schema: string,
+  table: string
+): Promise<Map<string, string>> {
+  const columnTypes = new Map<string, string>(columns.map((r) => [r.column_name, r.data_type]));
+  if (!(await userCan(user, "view_restricted_data"))) {
+    const allTableSettings = await storage.getAllTableSettings();
+    for (const hidden of allTableSettings[`${database}:${schema}.${table}`]?.hiddenColumns || []) {
+      columnTypes.delete(hidden);
+    }
+  }
+  masks.forEach((_mask, column) => columnTypes.delete(column));
+  return columnTypes;
+}
+
+// Access checks, masks, grant predicates and row limits for a data viewer export, shared by
+// direct downloads and background export jobs
+async function prepareTableExport(user: User | undefined, request: TableExportRequest): Promise<PreparedTableExport> {
+  const { database, table, summarize, search, searchColumns, exportAll, page } = request;
+  if (!user) {
+    return { valid: false, status: 401, error: "Unauthorized" };
+  }
+  const filters = parseFilterInput(request.filters);
+  if (!filters) {
+    return { valid: false, status: 400, error: "Invalid filters format" };
+  }
+  // Exporting every filtered row is its own permission; the row limit is set per role
+  if (exportAll && !(await userCan(user, "export_all"))) {
+    return { valid: false, status: 403, error: "Your role can only export the current page" };
+  }
+
+  // Grants, exposed schemas and hidden tables
+  const access = await validateTableAccess(database, table, user);
+  if (!access.valid || !access.parsedTable) {
+    return { valid: false, status: 403, error: access.error || "You don't have access to this table" };
+  }
+  const { schema, table: tableName } = access.parsedTable;
+
+  const pool = getPool(database);
+
+  // Validate columns
+  const columnsResult = await pool.query(
+    `
+    SELECT column_name, data_type
+    FROM ${TABLE_COLUMNS_SQL}
+    WHERE table_schema = $1 AND table_name = $2
+    ORDER BY ordinal_position
+  `,
+    [schema, tableName]
+  );
+  let columnNames: string[] = columnsResult.rows.map((r) => r.column_name);
+  const validColumns = new Set(columnNames);
+
+  // Masks apply in the projection; hidden columns drop out of the file
+  const masks = await getUserColumnMasks(database, schema, tableName, user);
+  const rowSelectSQL = masks.size > 0 ? buildMaskedSelectList(columnNames, masks).join(", ") : "*";
+  columnNames = columnNames.filter((c) => masks.get(c) !== "hide");
+
+  // Summarize mode exports the grouped result instead of the rows
+  let summary: { selectSQL: string; groupBySQL: string; orderBySQL: string } | null = null;
+  if (summarize) {
+    const parsedSpec = summarizeSpecSchema.safeParse(summarize);
+    if (!parsedSpec.success) {
+      return { valid: false, status: 400, error: "Invalid summarize format" };
+    }
+    const columnTypes = await getSummarizableColumnTypes(columnsResult.rows, masks, user, database, schema, tableName);
+    const built = buildSummarizeQuery(parsedSpec.data, columnTypes);
+    if (!built.valid) {
+      return { valid: false, status: 400, error: built.error };
+    }
+    summary = built;
+    columnNames = built.columns.map((c) => c.name);
+  }
+
+  // Get primary key for ordering
+  const pkResult = await pool.query(
+    `
+    SELECT a.attname
+    FROM pg_index i
+    JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
+    WHERE i.indrelid = ($1 || '.' || $2)::regclass
+      AND i.indisprimary
+    ORDER BY a.attnum
+  `,
+    [schema, tableName]
+  );
+
+  const orderByColumn = pkResult.rows.length > 0
+    ? `"${pkResult.rows[0].attname}"`
+    : getFallbackOrderSQL(await getTableObjectType(pool, schema, tableName));
+
+  // Build WHERE clause
+  const whereClauses: string[] = [];
+  const params: unknown[] = [];
+
+  const filterConditions = collectFilterConditions(filters);
+  for (const filter of filterConditions) {
+    validateIdentifier(filter.column, "column");
+    if (!validColumns.has(filter.column)) {
+      return { valid: false, status: 400, error: `Invalid column: ${filter.column}` };
+    }
+    if (masks.has(filter.column)) {
+      return { valid: false, status: 400, error: `Column ${filter.column} is masked and can't be filtered on` };
+    }
+  }
+
+  const jsonFilterError = await validateJsonFilters(pool, user, database, schema, tableName, filterConditions);
+  if (jsonFilterError) {
+    return { valid: false, status: 400, error: jsonFilterError };
+  }
+
+  const filterSQL = buildFilterSQL(filters, params, (column) => `"${column}"`);
+  if (filterSQL) whereClauses.push(filterSQL);
+
+  const searchSQL = await buildSearchSQL(
+    pool, database, schema, tableName, search, searchColumns, user, params
+  );
+  if (searchSQL) whereClauses.push(searchSQL);
+
+  // Row predicates from the user's grants always apply
+  const grantSQL = await buildGrantRowFilterSQL(user, database, schema, tableName, params);
+  if (grantSQL) whereClauses.push(grantSQL);
+
+  const whereSQL =
+    whereClauses.length > 0 ? `WHERE ${whereClauses.join(" AND ")}` : "";
+  const selectSQL = summary ? summary.selectSQL : rowSelectSQL;
+  const groupSQL = summary ? `GROUP BY ${summary.groupBySQL}` : "";
+  const orderSQL = summary ? summary.orderBySQL : `${orderByColumn} ASC`;
+
+  // Determine limits for exporting all rows
+  const maxRowsForRole = await getExportRowLimit(user);
+
+  // If exporting all, verify row count doesn't exceed limits
+  let exportTotalCount = 0;
+  if (exportAll) {
+    const countQuery = summary
+      ? `SELECT COUNT(*) as count FROM (SELECT 1 FROM "${schema}"."${tableName}" ${whereSQL} ${groupSQL}) g`
+      : `SELECT COUNT(*) as count FROM "${schema}"."${tableName}" ${whereSQL}`;
+    const countResult = await pool.query(countQuery, params);
+    exportTotalCount = parseInt(countResult.rows[0].count, 10);
+
+    if (exportTotalCount > maxRowsForRole) {
+      return {
+        valid: false,
+        status: 403,
+        error: `Export exceeds your limit of ${maxRowsForRole.toLocaleString()} rows. Please contact an administrator for larger exports.`,
+      };
+    }
+
+    const quotaRemaining = await getRemainingExportQuota(user);
+    if (quotaRemaining !== null && exportTotalCount > quotaRemaining) {
+      return { valid: false, status: 429, error: exportQuotaError(quotaRemaining, exportTotalCount) };
+    }
+
+    // Large exports of granted tables wait for an admin; see /api/export/approvals
+    if (!request.approved) {
+      const approvalThreshold = await getExportApprovalThreshold(user, database, table);
+      if (approvalThreshold !== null && exportTotalCount > approvalThreshold) {
+        return {
+          valid: false,
+          status: 403,
+          error: `Exports of more than ${approvalThreshold.toLocaleString()} rows from this table need an administrator's approval`,
+        };
+      }
+    }
+  }
+
+  // A single page only needs some quota left; it's at most one page over
+  if (!exportAll && (await getRemainingExportQuota(user)) === 0) {
+    return { valid: false, status: 429, error: exportQuotaError(0) };
+  }
+
+  // Calculate pagination
+  const pageNum = Math.max(1, page);
+  const offset = (pageNum - 1) * PAGE_SIZE;
+
+  // Build query based on export mode
+  let dataQuery: string;
+  let filename: string;
+
+  if (exportAll) {
+    // Export all filtered rows - use validated count as LIMIT for consistency
+    dataQuery = `
+      SELECT ${selectSQL} FROM "${schema}"."${tableName}"
+      ${whereSQL}
+      ${groupSQL}
+      ORDER BY ${orderSQL}
+      LIMIT ${exportTotalCount}
+    `;
+    filename = summary ? `${tableName}_summary` : `${tableName}_export`;
+  } else {
+    // Export single page
+    dataQuery = `
+      SELECT ${selectSQL} FROM "${schema}"."${tableName}"
+      ${whereSQL}
+      ${groupSQL}
+      ORDER BY ${orderSQL}
+      LIMIT ${PAGE_SIZE}
+      OFFSET ${offset}
+    `;
+    filename = `${tableName}_page${pageNum}`;
   }
+
+  return {
+    valid: true,
+    pool,
+    dataQuery,
+    params,
+    columnNames,
+    tableName,
+    filename,
+    totalCount: exportTotalCount,
+    auditDetails: (format) => exportAll
+      ? `Exported ${exportTotalCount} ${summary ? "summary groups" : "rows"} as ${format.toUpperCase()}${filterConditions.length > 0 ? `, ${filterConditions.length} filters applied` : ''}${searchSQL ? ', search applied' : ''}`
+      : `Exported page ${pageNum} as ${format.toUpperCase()}${filterConditions.length > 0 ? `, ${filterConditions.length} filters applied` : ''}`,
+  };
+}
+
+type ValidTableExport = Extract<PreparedTableExport, { valid: true }>;
+
+// Queue a prepared data viewer export as a background job owned by the user. The EXPORT_ALL
+// audit entry is written once the file is complete; note says how the job came about.
+async function startTableExportJob(
+  user: User,
+  prepared: ValidTableExport,
+  database: string,
+  table: string,
+  format: ExportFormat,
+  note: string,
+  ip?: string
+): Promise<ExportJob> {
+  const [job] = await db
+    .insert(exportJobs)
+    .values({
+      userId: user.id,
+      database,
+      tableName: table,
+      format,
+      estimatedRows: prepared.totalCount,
+      fileName: prepared.filename,
+      ownerId: EXPORT_JOB_OWNER_ID,
+    })
+    .returning();
+
+  enqueueExportJob(job.id, {
+    pool: prepared.pool,
+    query: prepared.dataQuery,
+    params: prepared.params,
+    columns: prepared.columnNames,
+    format,
+    sheetName: prepared.tableName,
+    onComplete: (rowCount) => logAudit({
+      userId: String(user.id),
+      userEmail: user.email,
+      action: "EXPORT_ALL",
+      database,
+      table,
+      details: `${prepared.auditDetails(format)} (${note} ${job.id}, ${rowCount} rows written)`,
+      ip,
+      rowCount,
+    }),
+  });
+
+  return job;
 }
 
 export async function registerRoutes(
@@ -836,6 +2368,13 @@ export async function registerRoutes(
   await setupAuth(app);
   registerAuthRoutes(app);
 
+  // Settings moved from JSON files to the database; copy them over on the first start
+  try {
+    await importJsonStorage(getDatabaseConnections().map((c) => c.name));
+  } catch (err) {
+    console.error("Error importing JSON settings:", err);
+  }
+
   // ========== RATE LIMITING ==========
 
   // General API rate limit: 100 requests per minute
@@ -885,8 +2424,8 @@ export async function registerRoutes(
 
   // ========== ADMIN ROUTES ==========
 
-  // Get all users (admin only)
-  app.get("/api/admin/users", isAuthenticated, requireRole("admin"), async (req: Request, res: Response) => {
+  // Get all users (admin, or washos users picking whom to grant tables to)
+  app.get("/api/admin/users", isAuthenticated, requirePermission("manage_users", "manage_access"), async (req: Request, res: Response) => {
     try {
       const allUsers = await db.select().from(users);
       res.json(allUsers);
@@ -897,14 +2436,17 @@ export async function registerRoutes(
   });
 
   // Update user role/status (admin only)
-  app.patch("/api/admin/users/:userId", isAuthenticated, requireRole("admin"), async (req: Request, res: Response) => {
+  app.patch("/api/admin/users/:userId", isAuthenticated, requirePermission("manage_users"), async (req: Request, res: Response) => {
     try {
       const { userId } = req.params;
       const { role, isActive, firstName, lastName, email, password } = req.body;
 
       const updates: Partial<{ role: UserRole; isActive: boolean; firstName: string; lastName: string; email: string; password: string; updatedAt: Date }> = { updatedAt: new Date() };
 
-      if (role && ["admin", "washos_user", "external_customer"].includes(role)) {
+      if (typeof role === "string" && role) {
+        if (!(await getRolePermissions(role))) {
+          return res.status(400).json({ error: "Unknown role" });
+        }
         updates.role = role;
       }
 
@@ -957,7 +2499,7 @@ export async function registerRoutes(
   });
 
   // Create new user (admin only)
-  app.post("/api/admin/users", isAuthenticated, requireRole("admin"), async (req: Request, res: Response) => {
+  app.post("/api/admin/users", isAuthenticated, requirePermission("manage_users"), async (req: Request, res: Response) => {
     try {
       const { email, password, firstName, lastName, role } = req.body;
 
@@ -983,7 +2525,7 @@ export async function registerRoutes(
       const bcrypt = await import("bcryptjs");
       const hashedPassword = await bcrypt.hash(password, 10);
 
-      const validRole = ["admin", "washos_user", "external_customer"].includes(role) ? role : "external_customer";
+      const validRole = typeof role === "string" && (await getRolePermissions(role)) ? role : "external_customer";
 
       const [newUser] = await db.insert(users).values({
         email: normalizedEmail,
@@ -1002,7 +2544,7 @@ export async function registerRoutes(
   });
 
   // Delete user (admin only)
-  app.delete("/api/admin/users/:userId", isAuthenticated, requireRole("admin"), async (req: Request, res: Response) => {
+  app.delete("/api/admin/users/:userId", isAuthenticated, requirePermission("manage_users"), async (req: Request, res: Response) => {
     try {
       const { userId } = req.params;
       const currentUserId = (req.user as any)?.id;
@@ -1024,33 +2566,66 @@ export async function registerRoutes(
     }
   });
 
-  // Get table grants for a user (admin/washos)
-  app.get("/api/admin/grants/:userId", isAuthenticated, requireRole("admin", "washos_user"), async (req: Request, res: Response) => {
+  // Get every grant that applies to a user, expired ones included, each with its source:
+  // granted to the user directly or through one of their groups (admin/washos)
+  app.get("/api/admin/grants/:userId", isAuthenticated, requirePermission("manage_access"), async (req: Request, res: Response) => {
     try {
       const { userId } = req.params;
-      const grants = await db.select().from(tableGrants).where(eq(tableGrants.userId, userId));
-      res.json(grants);
+      const directGrants = await db.select().from(tableGrants).where(eq(tableGrants.userId, Number(userId)));
+      const groupGrants = await db
+        .select({ grant: tableGrants, groupName: userGroups.name })
+        .from(tableGrants)
+        .innerJoin(userGroups, eq(tableGrants.groupId, userGroups.id))
+        .innerJoin(userGroupMembers, eq(userGroupMembers.groupId, userGroups.id))
+        .where(eq(userGroupMembers.userId, Number(userId)));
+      res.json([
+        ...directGrants.map((grant) => ({ ...grant, source: "user", groupName: null })),
+        ...groupGrants.map(({ grant, groupName }) => ({ ...grant, source: "group", groupName })),
+      ]);
     } catch (err) {
       console.error("Error fetching grants:", err);
       res.status(500).json({ error: "Failed to fetch grants" });
     }
   });
 
-  // Add table grant for a user (admin/washos)
-  app.post("/api/admin/grants", isAuthenticated, requireRole("admin", "washos_user"), async (req: Request, res: Response) => {
+  // Add table grant for a user or a group (admin/washos)
+  app.post("/api/admin/grants", isAuthenticated, requirePermission("manage_access"), async (req: Request, res: Response) => {
     try {
-      const { userId, database, tableName } = req.body;
+      const { userId, groupId, database, tableName } = req.body;
       const grantedBy = (req.user as any)?.id;
 
-      if (!userId || !database || !tableName) {
-        return res.status(400).json({ error: "userId, database, and tableName are required" });
+      if (!userId === !groupId || !database || !tableName) {
+        return res.status(400).json({ error: "userId or groupId, database, and tableName are required" });
+      }
+
+      const { rowFilter, error } = await parseGrantRowFilter(database, tableName, req.body.rowFilter);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+      const columnsCheck = await parseGrantAllowedColumns(database, tableName, req.body.allowedColumns);
+      if (columnsCheck.error) {
+        return res.status(400).json({ error: columnsCheck.error });
+      }
+      const expiryCheck = parseGrantExpiry(req.body.expiresAt);
+      if (expiryCheck.error) {
+        return res.status(400).json({ error: expiryCheck.error });
+      }
+      const thresholdCheck = parseExportApprovalThreshold(req.body.exportApprovalThreshold);
+      if (thresholdCheck.error) {
+        return res.status(400).json({ error: thresholdCheck.error });
       }
 
       const [grant] = await db.insert(tableGrants).values({
-        userId,
+        userId: userId || null,
+        groupId: groupId || null,
         database,
         tableName,
         grantedBy,
+        rowFilter,
+        allowedColumns: columnsCheck.allowedColumns,
+        expiresAt: expiryCheck.expiresAt,
+        exportApprovalThreshold: thresholdCheck.threshold,
+        reason: typeof req.body.reason === "string" && req.body.reason.trim() ? req.body.reason.trim() : null,
       }).returning();
 
       res.json(grant);
@@ -1060,8 +2635,87 @@ export async function registerRoutes(
     }
   });
 
+  // Update a grant's row predicate, column allowlist, expiry, export approval threshold or reason;
+  // fields left out of the body are kept. An empty filter or allowlist makes every row or column
+  // readable again, and a null expiresAt makes the grant permanent (admin/washos)
+  app.patch("/api/admin/grants/:grantId", isAuthenticated, requirePermission("manage_access"), async (req: Request, res: Response) => {
+    try {
+      const { grantId } = req.params;
+      const [existing] = await db.select().from(tableGrants).where(eq(tableGrants.id, grantId));
+      if (!existing) {
+        return res.status(404).json({ error: "Grant not found" });
+      }
+
+      const updates: Partial<InsertTableGrant> = {};
+      if ("rowFilter" in req.body) {
+        const { rowFilter, error } = await parseGrantRowFilter(existing.database, existing.tableName, req.body.rowFilter);
+        if (error) {
+          return res.status(400).json({ error });
+        }
+        updates.rowFilter = rowFilter;
+      }
+      if ("allowedColumns" in req.body) {
+        const { allowedColumns, error } = await parseGrantAllowedColumns(existing.database, existing.tableName, req.body.allowedColumns);
+        if (error) {
+          return res.status(400).json({ error });
+        }
+        updates.allowedColumns = allowedColumns;
+      }
+      if ("expiresAt" in req.body) {
+        const { expiresAt, error } = parseGrantExpiry(req.body.expiresAt);
+        if (error) {
+          return res.status(400).json({ error });
+        }
+        updates.expiresAt = expiresAt;
+        // An extended grant gets a new audit entry when it lapses again
+        updates.expiryLoggedAt = null;
+      }
+      if ("exportApprovalThreshold" in req.body) {
+        const { threshold, error } = parseExportApprovalThreshold(req.body.exportApprovalThreshold);
+        if (error) {
+          return res.status(400).json({ error });
+        }
+        updates.exportApprovalThreshold = threshold;
+      }
+      if ("reason" in req.body) {
+        updates.reason = typeof req.body.reason === "string" && req.body.reason.trim() ? req.body.reason.trim() : null;
+      }
+      if (Object.keys(updates).length === 0) {
+        return res.json(existing);
+      }
+
+      const [grant] = await db.update(tableGrants)
+        .set(updates)
+        .where(eq(tableGrants.id, grantId))
+        .returning();
+
+      res.json(grant);
+    } catch (err) {
+      console.error("Error updating grant:", err);
+      res.status(500).json({ error: "Failed to update grant" });
+    }
+  });
+
+  // Active grants that expire within the warning window, across all users (admin/washos)
+  app.get("/api/admin/expiring-grants", isAuthenticated, requirePermission("manage_access"), async (_req: Request, res: Response) => {
+    try {
+      const warnBefore = new Date(Date.now() + GRANT_EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000);
+      const grants = await db
+        .select({ grant: tableGrants, email: users.email, groupName: userGroups.name })
+        .from(tableGrants)
+        .leftJoin(users, eq(tableGrants.userId, users.id))
+        .leftJoin(userGroups, eq(tableGrants.groupId, userGroups.id))
+        .where(and(isNotNull(tableGrants.expiresAt), isGrantActive(), lte(tableGrants.expiresAt, warnBefore)))
+        .orderBy(tableGrants.expiresAt);
+      res.json(grants.map(({ grant, email, groupName }) => ({ ...grant, userEmail: email, groupName })));
+    } catch (err) {
+      console.error("Error fetching expiring grants:", err);
+      res.status(500).json({ error: "Failed to fetch expiring grants" });
+    }
+  });
+
   // Delete table grant (admin/washos)
-  app.delete("/api/admin/grants/:grantId", isAuthenticated, requireRole("admin", "washos_user"), async (req: Request, res: Response) => {
+  app.delete("/api/admin/grants/:grantId", isAuthenticated, requirePermission("manage_access"), async (req: Request, res: Response) => {
     try {
       const { grantId } = req.params;
       await db.delete(tableGrants).where(eq(tableGrants.id, grantId));
@@ -1072,28 +2726,476 @@ export async function registerRoutes(
     }
   });
 
-  // Get audit logs (admin only)
-  app.get("/api/admin/audit-logs", isAuthenticated, requireRole("admin"), async (req: Request, res: Response) => {
+  // ========== USER GROUPS ==========
+
+  // List groups with their member counts (admin/washos)
+  app.get("/api/admin/groups", isAuthenticated, requirePermission("manage_access"), async (_req: Request, res: Response) => {
     try {
-      const { limit = "100", offset = "0", userId, action } = req.query;
-      const limitNum = Math.min(parseInt(limit as string) || 100, 1000);
-      const offsetNum = parseInt(offset as string) || 0;
+      const groups = await db
+        .select({
+          id: userGroups.id,
+          name: userGroups.name,
+          description: userGroups.description,
+          createdAt: userGroups.createdAt,
+          memberCount: count(userGroupMembers.id),
+        })
+        .from(userGroups)
+        .leftJoin(userGroupMembers, eq(userGroupMembers.groupId, userGroups.id))
+        .groupBy(userGroups.id)
+        .orderBy(userGroups.name);
+      res.json(groups);
+    } catch (err) {
+      console.error("Error fetching groups:", err);
+      res.status(500).json({ error: "Failed to fetch groups" });
+    }
+  });
 
-      // Build where conditions for SQL filtering
-      const conditions = [];
-      if (userId) {
-        conditions.push(eq(auditLogs.userId, userId as string));
-      }
-      if (action) {
-        conditions.push(eq(auditLogs.action, action as string));
+  // Create a group (admin/washos)
+  app.post("/api/admin/groups", isAuthenticated, requirePermission("manage_access"), async (req: Request, res: Response) => {
+    try {
+      const name = typeof req.body.name === "string" ? req.body.name.trim() : "";
+      const description = typeof req.body.description === "string" ? req.body.description.trim() : "";
+      if (!name) {
+        return res.status(400).json({ error: "Group name is required" });
       }
 
-      // Get total count with filters
-      let countQuery = db.select({ count: count() }).from(auditLogs);
-      if (conditions.length > 0) {
-        countQuery = countQuery.where(and(...conditions)) as typeof countQuery;
+      const [existing] = await db.select().from(userGroups).where(eq(userGroups.name, name));
+      if (existing) {
+        return res.status(400).json({ error: "A group with this name already exists" });
       }
-      const [{ count: total }] = await countQuery;
+
+      const [group] = await db.insert(userGroups).values({ name, description: description || null }).returning();
+      res.json(group);
+    } catch (err) {
+      console.error("Error creating group:", err);
+      res.status(500).json({ error: "Failed to create group" });
+    }
+  });
+
+  // Delete a group; its memberships and grants go with it (admin/washos)
+  app.delete("/api/admin/groups/:groupId", isAuthenticated, requirePermission("manage_access"), async (req: Request, res: Response) => {
+    try {
+      const { groupId } = req.params;
+      await db.delete(userGroups).where(eq(userGroups.id, groupId));
+      res.json({ success: true });
+    } catch (err) {
+      console.error("Error deleting group:", err);
+      res.status(500).json({ error: "Failed to delete group" });
+    }
+  });
+
+  // Get a group's members (admin/washos)
+  app.get("/api/admin/groups/:groupId/members", isAuthenticated, requirePermission("manage_access"), async (req: Request, res: Response) => {
+    try {
+      const { groupId } = req.params;
+      const members = await db
+        .select({
+          id: users.id,
+          email: users.email,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          role: users.role,
+        })
+        .from(userGroupMembers)
+        .innerJoin(users, eq(userGroupMembers.userId, users.id))
+        .where(eq(userGroupMembers.groupId, groupId))
+        .orderBy(users.email);
+      res.json(members);
+    } catch (err) {
+      console.error("Error fetching group members:", err);
+      res.status(500).json({ error: "Failed to fetch group members" });
+    }
+  });
+
+  // Add a user to a group (admin/washos)
+  app.post("/api/admin/groups/:groupId/members", isAuthenticated, requirePermission("manage_access"), async (req: Request, res: Response) => {
+    try {
+      const { groupId } = req.params;
+      const { userId } = req.body;
+      if (!userId) {
+        return res.status(400).json({ error: "userId is required" });
+      }
+
+      const [group] = await db.select().from(userGroups).where(eq(userGroups.id, groupId));
+      if (!group) {
+        return res.status(404).json({ error: "Group not found" });
+      }
+
+      await db.insert(userGroupMembers)
+        .values({ groupId, userId: Number(userId) })
+        .onConflictDoNothing();
+      res.json({ success: true });
+    } catch (err) {
+      console.error("Error adding group member:", err);
+      res.status(500).json({ error: "Failed to add group member" });
+    }
+  });
+
+  // Remove a user from a group (admin/washos)
+  app.delete("/api/admin/groups/:groupId/members/:userId", isAuthenticated, requirePermission("manage_access"), async (req: Request, res: Response) => {
+    try {
+      const { groupId, userId } = req.params;
+      await db.delete(userGroupMembers).where(and(
+        eq(userGroupMembers.groupId, groupId),
+        eq(userGroupMembers.userId, Number(userId)),
+      ));
+      res.json({ success: true });
+    } catch (err) {
+      console.error("Error removing group member:", err);
+      res.status(500).json({ error: "Failed to remove group member" });
+    }
+  });
+
+  // Get a group's table grants (admin/washos)
+  app.get("/api/admin/groups/:groupId/grants", isAuthenticated, requirePermission("manage_access"), async (req: Request, res: Response) => {
+    try {
+      const { groupId } = req.params;
+      const grants = await db.select().from(tableGrants).where(eq(tableGrants.groupId, groupId));
+      res.json(grants);
+    } catch (err) {
+      console.error("Error fetching group grants:", err);
+      res.status(500).json({ error: "Failed to fetch group grants" });
+    }
+  });
+
+  // List roles: the built-in presets first, then admin-defined roles, each with its permissions
+  // and export row limit (null when the role uses the default)
+  app.get(
+    "/api/admin/roles",
+    isAuthenticated,
+    requirePermission("manage_users", "manage_access", "manage_settings"),
+    async (req: Request, res: Response) => {
+      try {
+        const limits = new Map(
+          (await db.select().from(roleExportLimits)).map((l) => [l.role, l.rowLimit])
+        );
+        const withLimit = <T extends { key: string; permissions: Permission[] }>(role: T) => ({
+          ...role,
+          exportRowLimit: limits.get(role.key) ?? null,
+          defaultExportRowLimit: defaultExportLimit(role.permissions),
+        });
+        const builtIn = Object.entries(BUILT_IN_ROLE_PERMISSIONS).map(([key, permissions]) => withLimit({
+          key,
+          name: BUILT_IN_ROLE_NAMES[key as keyof typeof BUILT_IN_ROLE_NAMES],
+          description: null,
+          permissions,
+          isBuiltIn: true,
+        }));
+        const custom = await db.select().from(customRoles).orderBy(customRoles.name);
+        res.json([...builtIn, ...custom.map((role) => withLimit({ ...role, isBuiltIn: false }))]);
+      } catch (err) {
+        console.error("Error fetching roles:", err);
+        res.status(500).json({ error: "Failed to fetch roles" });
+      }
+    }
+  );
+
+  // Create a custom role (admin only)
+  app.post("/api/admin/roles", isAuthenticated, requirePermission("manage_users"), async (req: Request, res: Response) => {
+    try {
+      const key = typeof req.body.key === "string" ? req.body.key.trim().toLowerCase() : "";
+      const name = typeof req.body.name === "string" ? req.body.name.trim() : "";
+      const description = typeof req.body.description === "string" ? req.body.description.trim() : "";
+      if (!key || !isValidIdentifier(key)) {
+        return res.status(400).json({ error: "Role key must start with a letter and use only letters, digits and underscores" });
+      }
+      if (!name) {
+        return res.status(400).json({ error: "Role name is required" });
+      }
+      if (isBuiltInRole(key)) {
+        return res.status(400).json({ error: "A built-in role already uses this key" });
+      }
+
+      const { permissions, error } = parseRolePermissions(req.body.permissions ?? []);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+
+      const [existing] = await db.select().from(customRoles).where(eq(customRoles.key, key));
+      if (existing) {
+        return res.status(400).json({ error: "A role with this key already exists" });
+      }
+
+      const [role] = await db
+        .insert(customRoles)
+        .values({ key, name, description: description || null, permissions })
+        .returning();
+      invalidateRoleCache();
+      res.json({ ...role, isBuiltIn: false });
+    } catch (err) {
+      console.error("Error creating role:", err);
+      res.status(500).json({ error: "Failed to create role" });
+    }
+  });
+
+  // Update a custom role's name, description or permissions; built-in presets are fixed (admin only)
+  app.patch("/api/admin/roles/:key", isAuthenticated, requirePermission("manage_users"), async (req: Request, res: Response) => {
+    try {
+      const { key } = req.params;
+      if (isBuiltInRole(key)) {
+        return res.status(400).json({ error: "Built-in roles can't be changed" });
+      }
+
+      const updates: Partial<typeof customRoles.$inferInsert> = { updatedAt: new Date() };
+      if (req.body.name !== undefined) {
+        const name = typeof req.body.name === "string" ? req.body.name.trim() : "";
+        if (!name) {
+          return res.status(400).json({ error: "Role name is required" });
+        }
+        updates.name = name;
+      }
+      if (req.body.description !== undefined) {
+        const description = typeof req.body.description === "string" ? req.body.description.trim() : "";
+        updates.description = description || null;
+      }
+      if (req.body.permissions !== undefined) {
+        const { permissions, error } = parseRolePermissions(req.body.permissions);
+        if (error) {
+          return res.status(400).json({ error });
+        }
+        updates.permissions = permissions;
+      }
+
+      const [role] = await db.update(customRoles).set(updates).where(eq(customRoles.key, key)).returning();
+      if (!role) {
+        return res.status(404).json({ error: "Role not found" });
+      }
+      invalidateRoleCache();
+      res.json({ ...role, isBuiltIn: false });
+    } catch (err) {
+      console.error("Error updating role:", err);
+      res.status(500).json({ error: "Failed to update role" });
+    }
+  });
+
+  // Delete a custom role that no user holds anymore (admin only)
+  app.delete("/api/admin/roles/:key", isAuthenticated, requirePermission("manage_users"), async (req: Request, res: Response) => {
+    try {
+      const { key } = req.params;
+      if (isBuiltInRole(key)) {
+        return res.status(400).json({ error: "Built-in roles can't be deleted" });
+      }
+
+      const [{ count: holders }] = await db.select({ count: count() }).from(users).where(eq(users.role, key));
+      if (holders > 0) {
+        return res.status(400).json({
+          error: `${holders} user${holders === 1 ? "" : "s"} still ha${holders === 1 ? "s" : "ve"} this role`,
+        });
+      }
+
+      await db.delete(customRoles).where(eq(customRoles.key, key));
+      await db.delete(roleExportLimits).where(eq(roleExportLimits.role, key));
+      await db.delete(exportQuotas).where(eq(exportQuotas.role, key));
+      invalidateRoleCache();
+      res.json({ success: true });
+    } catch (err) {
+      console.error("Error deleting role:", err);
+      res.status(500).json({ error: "Failed to delete role" });
+    }
+  });
+
+  // Set a role's export row limit, built-in or custom; null goes back to the default (admin only)
+  app.put("/api/admin/roles/:key/export-limit", isAuthenticated, requirePermission("manage_users"), async (req: Request, res: Response) => {
+    try {
+      const { key } = req.params;
+      if (!(await getRolePermissions(key))) {
+        return res.status(404).json({ error: "Role not found" });
+      }
+
+      const { rowLimit } = req.body;
+      if (rowLimit === null) {
+        await db.delete(roleExportLimits).where(eq(roleExportLimits.role, key));
+      } else {
+        if (!Number.isInteger(rowLimit) || rowLimit < 1 || rowLimit > MAX_EXPORT_ROW_LIMIT) {
+          return res.status(400).json({
+            error: `Export row limit must be a whole number between 1 and ${MAX_EXPORT_ROW_LIMIT.toLocaleString()}`,
+          });
+        }
+        await db
+          .insert(roleExportLimits)
+          .values({ role: key, rowLimit })
+          .onConflictDoUpdate({ target: roleExportLimits.role, set: { rowLimit, updatedAt: new Date() } });
+      }
+      invalidateRoleCache();
+      res.json({ key, exportRowLimit: rowLimit });
+    } catch (err) {
+      console.error("Error updating role export limit:", err);
+      res.status(500).json({ error: "Failed to update export limit" });
+    }
+  });
+
+  // ========== EXPORT QUOTAS ==========
+
+  // Everyone's exported rows today and this month against their quota, with the role quotas
+  // (admin only)
+  app.get("/api/admin/export-usage", isAuthenticated, requirePermission("manage_users"), async (_req: Request, res: Response) => {
+    try {
+      const allUsers = await db.select().from(users);
+      const quotas = await db.select().from(exportQuotas);
+      const usage = await getExportUsageByUser();
+      const userUsage = allUsers
+        .map((u) => {
+          const quota = resolveExportQuota(u, quotas);
+          const used = usage.get(String(u.id)) ?? { today: 0, month: 0 };
+          return {
+            userId: u.id,
+            email: u.email,
+            firstName: u.firstName,
+            lastName: u.lastName,
+            role: u.role,
+            rowsToday: used.today,
+            rowsThisMonth: used.month,
+            dailyRowLimit: quota.daily,
+            monthlyRowLimit: quota.monthly,
+            quotaSource: quota.source,
+          };
+        })
+        .sort((a, b) => b.rowsThisMonth - a.rowsThisMonth);
+      res.json({ users: userUsage, roleQuotas: quotas.filter((q) => q.role !== null) });
+    } catch (err) {
+      console.error("Error fetching export usage:", err);
+      res.status(500).json({ error: "Failed to fetch export usage" });
+    }
+  });
+
+  // Set a role's daily and monthly quotas; both null removes the quota (admin only)
+  app.put("/api/admin/roles/:key/export-quota", isAuthenticated, requirePermission("manage_users"), async (req: Request, res: Response) => {
+    try {
+      const { key } = req.params;
+      if (!(await getRolePermissions(key))) {
+        return res.status(404).json({ error: "Role not found" });
+      }
+      const { daily, monthly, error } = parseExportQuota(req.body);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+
+      if (daily === null && monthly === null) {
+        await db.delete(exportQuotas).where(eq(exportQuotas.role, key));
+        return res.json({ role: key, dailyRowLimit: null, monthlyRowLimit: null });
+      }
+      const [quota] = await db
+        .insert(exportQuotas)
+        .values({ role: key, dailyRowLimit: daily, monthlyRowLimit: monthly })
+        .onConflictDoUpdate({
+          target: exportQuotas.role,
+          set: { dailyRowLimit: daily, monthlyRowLimit: monthly, updatedAt: new Date() },
+        })
+        .returning();
+      res.json(quota);
+    } catch (err) {
+      console.error("Error updating role export quota:", err);
+      res.status(500).json({ error: "Failed to update export quota" });
+    }
+  });
+
+  // Give a user their own quota in place of their role's; null leaves that period uncapped
+  // (admin only)
+  app.put("/api/admin/users/:id/export-quota", isAuthenticated, requirePermission("manage_users"), async (req: Request, res: Response) => {
+    try {
+      const target = await authStorage.getUser(Number(req.params.id));
+      if (!target) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      const { daily, monthly, error } = parseExportQuota(req.body);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+
+      const [quota] = await db
+        .insert(exportQuotas)
+        .values({ userId: target.id, dailyRowLimit: daily, monthlyRowLimit: monthly })
+        .onConflictDoUpdate({
+          target: exportQuotas.userId,
+          set: { dailyRowLimit: daily, monthlyRowLimit: monthly, updatedAt: new Date() },
+        })
+        .returning();
+      res.json(quota);
+    } catch (err) {
+      console.error("Error updating user export quota:", err);
+      res.status(500).json({ error: "Failed to update export quota" });
+    }
+  });
+
+  // Remove a user's own quota so their role's applies again (admin only)
+  app.delete("/api/admin/users/:id/export-quota", isAuthenticated, requirePermission("manage_users"), async (req: Request, res: Response) => {
+    try {
+      await db.delete(exportQuotas).where(eq(exportQuotas.userId, Number(req.params.id)));
+      res.json({ success: true });
+    } catch (err) {
+      console.error("Error removing user export quota:", err);
+      res.status(500).json({ error: "Failed to remove export quota" });
+    }
+  });
+
+  // Recent unusual-volume alerts, unacknowledged first, with the user's email (admin only)
+  app.get("/api/admin/export-alerts", isAuthenticated, requirePermission("manage_users"), async (_req: Request, res: Response) => {
+    try {
+      const alerts = await db
+        .select({ alert: exportAlerts, userEmail: users.email })
+        .from(exportAlerts)
+        .innerJoin(users, eq(exportAlerts.userId, users.id))
+        .orderBy(sql`${exportAlerts.acknowledgedAt} IS NOT NULL`, desc(exportAlerts.createdAt))
+        .limit(EXPORT_ALERT_HISTORY_LIMIT);
+      res.json(alerts.map(({ alert, userEmail }) => ({ ...alert, userEmail })));
+    } catch (err) {
+      console.error("Error fetching export alerts:", err);
+      res.status(500).json({ error: "Failed to fetch export alerts" });
+    }
+  });
+
+  // Mark an alert as looked into (admin only)
+  app.post("/api/admin/export-alerts/:id/acknowledge", isAuthenticated, requirePermission("manage_users"), async (req: Request, res: Response) => {
+    try {
+      const adminId = (req.user as any)?.id;
+      const admin = await authStorage.getUser(adminId);
+      const [alert] = await db
+        .update(exportAlerts)
+        .set({ acknowledgedBy: Number(adminId), acknowledgedAt: new Date() })
+        .where(and(eq(exportAlerts.id, req.params.id), isNull(exportAlerts.acknowledgedAt)))
+        .returning();
+      if (!alert) {
+        return res.status(404).json({ error: "Alert not found or already acknowledged" });
+      }
+
+      await logAudit({
+        userId: adminId,
+        userEmail: admin?.email || "unknown",
+        action: "EXPORT_ALERT_ACKNOWLEDGED",
+        database: alert.database || undefined,
+        table: alert.tableName || undefined,
+        details: `Acknowledged export volume alert ${alert.id} for user ${alert.userId} (${alert.rowsToday} rows)`,
+        ip: req.ip || req.socket.remoteAddress,
+      });
+      res.json(alert);
+    } catch (err) {
+      console.error("Error acknowledging export alert:", err);
+      res.status(500).json({ error: "Failed to acknowledge alert" });
+    }
+  });
+
+  // Get audit logs (admin only)
+  app.get("/api/admin/audit-logs", isAuthenticated, requirePermission("view_audit_log"), async (req: Request, res: Response) => {
+    try {
+      const { limit = "100", offset = "0", userId, action } = req.query;
+      const limitNum = Math.min(parseInt(limit as string) || 100, 1000);
+      const offsetNum = parseInt(offset as string) || 0;
+
+      // Build where conditions for SQL filtering
+      const conditions = [];
+      if (userId) {
+        conditions.push(eq(auditLogs.userId, userId as string));
+      }
+      if (action) {
+        conditions.push(eq(auditLogs.action, action as string));
+      }
+
+      // Get total count with filters
+      let countQuery = db.select({ count: count() }).from(auditLogs);
+      if (conditions.length > 0) {
+        countQuery = countQuery.where(and(...conditions)) as typeof countQuery;
+      }
+      const [{ count: total }] = await countQuery;
 
       // Get paginated logs with filters - most recent first
       let logsQuery = db.select().from(auditLogs);
@@ -1118,7 +3220,7 @@ export async function registerRoutes(
   });
 
   // Get all table settings (admin only - for full management)
-  app.get("/api/admin/table-settings", isAuthenticated, requireRole("admin"), async (req: Request, res: Response) => {
+  app.get("/api/admin/table-settings", isAuthenticated, requirePermission("manage_settings"), async (req: Request, res: Response) => {
     try {
       const settings = await storage.getAllTableSettings();
       res.json(settings);
@@ -1141,18 +3243,29 @@ export async function registerRoutes(
   });
 
   // Update table settings (admin only)
-  app.post("/api/admin/table-settings", isAuthenticated, requireRole("admin"), async (req: Request, res: Response) => {
+  app.post("/api/admin/table-settings", isAuthenticated, requirePermission("manage_settings"), async (req: Request, res: Response) => {
     try {
-      const { database, tableName, isVisible, displayName, hiddenColumns } = req.body;
+      const { database, tableName, isVisible, displayName, hiddenColumns, columnMasks } = req.body;
 
       if (!database || !tableName) {
         return res.status(400).json({ error: "database and tableName are required" });
       }
 
+      // Masking rules are only replaced when sent, so saving visibility keeps them
+      let masks = (await storage.getTableSettings(database, tableName))?.columnMasks;
+      if (columnMasks !== undefined) {
+        const parsed = columnMaskRulesSchema.safeParse(columnMasks);
+        if (!parsed.success) {
+          return res.status(400).json({ error: `Invalid column masks: ${parsed.error.errors[0]?.message}` });
+        }
+        masks = parsed.data;
+      }
+
       await storage.setTableSettings(database, tableName, {
         isVisible: isVisible !== false,
         displayName: displayName || null,
         hiddenColumns: Array.isArray(hiddenColumns) ? hiddenColumns : undefined,
+        columnMasks: masks,
       });
 
       res.json({ success: true });
@@ -1162,6 +3275,66 @@ export async function registerRoutes(
     }
   });
 
+  // Masking rules suggested from the semantic roles of a table's columns (admin only)
+  app.get("/api/admin/mask-suggestions/:database/:fullTable", isAuthenticated, requirePermission("manage_settings"), async (req: Request, res: Response) => {
+    try {
+      const { database, fullTable } = req.params;
+      const [schema, table] = fullTable.split(".");
+      validateIdentifier(schema, "schema");
+      validateIdentifier(table, "table");
+
+      const columnsResult = await getPool(database).query(
+        `SELECT column_name, data_type FROM ${TABLE_COLUMNS_SQL} WHERE table_schema = $1 AND table_name = $2`,
+        [schema, table]
+      );
+      res.json(suggestColumnMasks(columnsResult.rows.map((r) => ({ name: r.column_name, dataType: r.data_type }))));
+    } catch (err) {
+      console.error("Error suggesting column masks:", err);
+      res.status(500).json({ error: err instanceof Error ? err.message : "Failed to suggest column masks" });
+    }
+  });
+
+  // Schemas of a database and whether their tables and views are listed (admin only)
+  app.get("/api/admin/schemas/:database", isAuthenticated, requirePermission("manage_settings"), async (req: Request, res: Response) => {
+    try {
+      const { database } = req.params;
+      const schemas = await listSchemas(getPool(database));
+      const exposed = await getExposedSchemas(database);
+      res.json(schemas.map((name) => ({ name, isExposed: exposed.includes(name) })));
+    } catch (err) {
+      console.error("Error fetching schemas:", err);
+      res.status(500).json({
+        error: err instanceof Error ? err.message : "Failed to fetch schemas",
+      });
+    }
+  });
+
+  // Choose which schemas are listed for a database (admin only)
+  app.post("/api/admin/schemas/:database", isAuthenticated, requirePermission("manage_settings"), async (req: Request, res: Response) => {
+    try {
+      const { database } = req.params;
+      const { schemas } = req.body;
+
+      if (!Array.isArray(schemas) || schemas.length === 0) {
+        return res.status(400).json({ error: "At least one schema must be selected" });
+      }
+
+      const available = await listSchemas(getPool(database));
+      const unknown = schemas.filter((schema: unknown) => typeof schema !== "string" || !available.includes(schema));
+      if (unknown.length > 0) {
+        return res.status(400).json({ error: `Unknown schema: ${unknown.join(", ")}` });
+      }
+
+      await storage.setExposedSchemas(database, schemas);
+      res.json({ success: true });
+    } catch (err) {
+      console.error("Error updating schemas:", err);
+      res.status(500).json({
+        error: err instanceof Error ? err.message : "Failed to update schemas",
+      });
+    }
+  });
+
   // Get current user with role info
   app.get("/api/auth/me", isAuthenticated, async (req: Request, res: Response) => {
     try {
@@ -1170,7 +3343,7 @@ export async function registerRoutes(
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
-      res.json(user);
+      res.json({ ...user, permissions: await getUserPermissions(user) });
     } catch (err) {
       console.error("Error fetching current user:", err);
       res.status(500).json({ error: "Failed to fetch user" });
@@ -1205,35 +3378,30 @@ export async function registerRoutes(
       const pool = getPool(database);
       const allTableSettings = await storage.getAllTableSettings();
 
-      const result = await pool.query(`
-        SELECT table_schema, table_name
-        FROM information_schema.tables
-        WHERE table_type = 'BASE TABLE'
-          AND table_schema NOT IN ('pg_catalog', 'information_schema')
-        ORDER BY table_schema, table_name
-      `);
+      const objects = await listTableObjects(pool, await getExposedSchemas(database));
 
-      let tables: TableInfo[] = result.rows.map((row) => {
-        const fullName = `${row.table_schema}.${row.table_name}`;
+      let tables: TableInfo[] = objects.map((object) => {
+        const fullName = `${object.schema}.${object.name}`;
         const settingsKey = `${database}:${fullName}`;
         const settings = allTableSettings[settingsKey];
         return {
-          schema: row.table_schema,
-          name: row.table_name,
+          schema: object.schema,
+          name: object.name,
           fullName,
           displayName: settings?.displayName || null,
           isVisible: settings?.isVisible !== false,
+          type: object.type,
         };
       });
 
-      // For external customers, filter to only granted tables
-      if (user.role === "external_customer") {
+      // Without access to all tables, filter to only granted tables
+      if (!(await userCan(user, "access_all_tables"))) {
         const allowedTables = await getAllowedTables(userId);
         tables = tables.filter(t => allowedTables.includes(`${database}:${t.fullName}`));
       }
 
-      // For non-admins, filter out hidden tables
-      if (user.role !== "admin") {
+      // Without the restricted-data permission, filter out hidden tables
+      if (!(await userCan(user, "view_restricted_data"))) {
         tables = tables.filter(t => t.isVisible !== false);
       }
 
@@ -1254,10 +3422,10 @@ export async function registerRoutes(
       try {
         const { database, fullTable } = req.params;
 
-        // Check table access for external customers
+        // Check table access for roles limited to granted tables
         const userId = (req.user as any)?.id;
         const user = await authStorage.getUser(userId);
-        if (user?.role === "external_customer") {
+        if (!(await userCan(user, "access_all_tables"))) {
           const allowedTables = await getAllowedTables(userId);
           if (!allowedTables.includes(`${database}:${fullTable}`)) {
             return res.status(403).json({ error: "You don't have access to this table" });
@@ -1278,7 +3446,7 @@ export async function registerRoutes(
         const columnsResult = await pool.query(
           `
           SELECT column_name, data_type, is_nullable
-          FROM information_schema.columns
+          FROM ${TABLE_COLUMNS_SQL}
           WHERE table_schema = $1 AND table_name = $2
           ORDER BY ordinal_position
         `,
@@ -1299,12 +3467,21 @@ export async function registerRoutes(
 
         const pkColumns = new Set(pkResult.rows.map((r) => r.attname));
 
-        const columns: ColumnInfo[] = columnsResult.rows.map((row) => ({
-          name: row.column_name,
-          dataType: row.data_type,
-          isNullable: row.is_nullable === "YES",
-          isPrimaryKey: pkColumns.has(row.column_name),
-        }));
+        // Get foreign key targets so the viewer can link to referenced rows
+        const foreignKeys = await getForeignKeys(pool, schema, table);
+
+        // Columns hidden by a mask don't exist as far as the user's role is concerned
+        const masks = await getUserColumnMasks(database, schema, table, user);
+        const columns: ColumnInfo[] = columnsResult.rows
+          .filter((row) => masks.get(row.column_name) !== "hide")
+          .map((row) => ({
+            name: row.column_name,
+            dataType: row.data_type,
+            isNullable: row.is_nullable === "YES",
+            isPrimaryKey: pkColumns.has(row.column_name),
+            foreignKey: foreignKeys.get(row.column_name) || null,
+            mask: masks.get(row.column_name) || null,
+          }));
 
         res.json(columns);
       } catch (err) {
@@ -1316,56 +3493,166 @@ export async function registerRoutes(
     }
   );
 
-  // Get filter definitions for a table (authenticated users only)
-  app.get("/api/filters/:table", isAuthenticated, async (req: Request, res: Response) => {
+  // Get sampled object keys inside a JSON column (for JSON path filters)
+  app.get("/api/json-keys/:database/:fullTable/:column", isAuthenticated, async (req: Request, res: Response) => {
     try {
-      const { table } = req.params;
-      const filters = await storage.getFilters(table);
-      res.json(filters);
-    } catch (err) {
-      console.error("Error getting filters:", err);
-      res.status(500).json({ error: "Failed to get filters" });
-    }
-  });
+      const { database, fullTable, column } = req.params;
+      const path = typeof req.query.path === "string" && req.query.path
+        ? req.query.path.split(".")
+        : [];
 
-  // Save filter definitions for a table (admin only)
-  app.post("/api/filters", isAuthenticated, requireRole("admin"), async (req: Request, res: Response) => {
-    try {
-      const { table, filters } = req.body;
-      if (!table || !Array.isArray(filters)) {
-        return res.status(400).json({ error: "Invalid request body" });
+      // Check table access for roles limited to granted tables
+      const userId = (req.user as any)?.id;
+      const user = await authStorage.getUser(userId);
+      if (!(await userCan(user, "access_all_tables"))) {
+        const allowedTables = await getAllowedTables(userId);
+        if (!allowedTables.includes(`${database}:${fullTable}`)) {
+          return res.status(403).json({ error: "You don't have access to this table" });
+        }
       }
-      await storage.setFilters(table, filters);
-      res.json({ success: true });
-    } catch (err) {
-      console.error("Error saving filters:", err);
-      res.status(500).json({ error: "Failed to save filters" });
-    }
-  });
 
-  // Get filter history for a user/table
-  app.get("/api/filters/history/:database/:table", isAuthenticated, async (req: Request, res: Response) => {
-    try {
-      const userId = (req.user as any)?.id;
-      const { database, table } = req.params;
+      const [schema, table] = fullTable.split(".");
+      if (!schema || !table) {
+        return res.status(400).json({ error: "Invalid table name format. Expected schema.table" });
+      }
 
-      if (!userId) {
-        return res.status(401).json({ error: "Not authenticated" });
+      validateIdentifier(schema, "schema");
+      validateIdentifier(table, "table");
+      validateIdentifier(column, "column");
+
+      const pool = getPool(database);
+      const typeResult = await pool.query(
+        `SELECT data_type FROM ${TABLE_COLUMNS_SQL} WHERE table_schema = $1 AND table_name = $2 AND column_name = $3`,
+        [schema, table, column]
+      );
+      const dataType = typeResult.rows[0]?.data_type;
+      if (dataType !== "json" && dataType !== "jsonb") {
+        return res.status(400).json({ error: `Column ${column} is not a JSON column` });
       }
 
-      const history = await storage.getFilterHistory(userId, database, table);
-      res.json(history);
+      // Keys would reveal the contents of masked, admin-hidden and ungranted columns
+      const masks = await getUserColumnMasks(database, schema, table, user);
+      const hiddenColumns = !(await userCan(user, "view_restricted_data"))
+        ? (await storage.getAllTableSettings())[`${database}:${fullTable}`]?.hiddenColumns || []
+        : [];
+      if (masks.has(column) || hiddenColumns.includes(column)) {
+        return res.status(403).json({ error: `You don't have access to column ${column}` });
+      }
+
+      // Only sample rows the user's grants let them see
+      const rowFilter = await buildJsonKeyRowFilter(user, database, schema, table);
+      res.json(await getCachedJsonKeys(pool, database, schema, table, column, path, rowFilter));
     } catch (err) {
-      console.error("Error getting filter history:", err);
-      res.status(500).json({ error: "Failed to get filter history" });
+      console.error("Error getting JSON keys:", err);
+      res.status(500).json({
+        error: err instanceof Error ? err.message : "Failed to get JSON keys",
+      });
     }
   });
 
-  // Save filter to history
-  app.post("/api/filters/history", isAuthenticated, async (req: Request, res: Response) => {
+  // Get tables whose foreign keys reference a table (for the row detail drawer)
+  // Only tables the user could open in the viewer are returned; the child rows
+  // themselves are fetched through /api/rows so the same access checks apply.
+  app.get("/api/relationships/:database/:fullTable", isAuthenticated, async (req: Request, res: Response) => {
     try {
+      const { database, fullTable } = req.params;
       const userId = (req.user as any)?.id;
-      const { database, table, filters } = req.body;
+      const user = await authStorage.getUser(userId);
+
+      if (!user || !user.isActive) {
+        return res.status(403).json({ error: "Account is inactive" });
+      }
+
+      const access = await validateTableAccess(database, fullTable, user);
+      if (!access.valid || !access.parsedTable) {
+        return res.status(403).json({ error: access.error || "You don't have access to this table" });
+      }
+      const { schema, table } = access.parsedTable;
+
+      const allowedTables = !(await userCan(user, "access_all_tables"))
+        ? await getAllowedTables(userId)
+        : null;
+
+      const pool = getPool(database);
+      const allTableSettings = await storage.getAllTableSettings();
+
+      // Child tables outside the exposed schemas can't be opened in the viewer
+      const exposedSchemas = await getExposedSchemas(database);
+      let relationships = (await getReferencingForeignKeys(pool, schema, table))
+        .filter(r => exposedSchemas.includes(r.table.split(".")[0]));
+
+      // External customers only see child tables they were granted
+      if (allowedTables) {
+        relationships = relationships.filter(r => allowedTables.includes(`${database}:${r.table}`));
+      }
+
+      // Hidden tables stay hidden without the restricted-data permission, matching the table list
+      if (!(await userCan(user, "view_restricted_data"))) {
+        relationships = relationships.filter(r => allTableSettings[`${database}:${r.table}`]?.isVisible !== false);
+      }
+
+      res.json(relationships.map((r) => ({
+        ...r,
+        displayName: allTableSettings[`${database}:${r.table}`]?.displayName || null,
+      })));
+    } catch (err) {
+      console.error("Error getting relationships:", err);
+      res.status(500).json({
+        error: err instanceof Error ? err.message : "Failed to get relationships",
+      });
+    }
+  });
+
+  // Get filter definitions for a table in a database (authenticated users only)
+  app.get("/api/filters/:database/:table", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const { database, table } = req.params;
+      const filters = await storage.getFilters(database, table);
+      res.json(filters);
+    } catch (err) {
+      console.error("Error getting filters:", err);
+      res.status(500).json({ error: "Failed to get filters" });
+    }
+  });
+
+  // Save filter definitions for a table (admin only)
+  app.post("/api/filters", isAuthenticated, requirePermission("manage_settings"), async (req: Request, res: Response) => {
+    try {
+      const { database, table, filters } = req.body;
+      if (!database || !table || !Array.isArray(filters)) {
+        return res.status(400).json({ error: "Invalid request body" });
+      }
+      await storage.setFilters(database, table, filters);
+      res.json({ success: true });
+    } catch (err) {
+      console.error("Error saving filters:", err);
+      res.status(500).json({ error: "Failed to save filters" });
+    }
+  });
+
+  // Get filter history for a user/table
+  app.get("/api/filters/history/:database/:table", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any)?.id;
+      const { database, table } = req.params;
+
+      if (!userId) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const history = await storage.getFilterHistory(userId, database, table);
+      res.json(history);
+    } catch (err) {
+      console.error("Error getting filter history:", err);
+      res.status(500).json({ error: "Failed to get filter history" });
+    }
+  });
+
+  // Save filter to history
+  app.post("/api/filters/history", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any)?.id;
+      const { database, table, filters } = req.body;
 
       if (!userId) {
         return res.status(401).json({ error: "Not authenticated" });
@@ -1404,15 +3691,290 @@ export async function registerRoutes(
     }
   });
 
+  // Re-check a shared viewer link: the user must still have access to the table, and
+  // filters/sort/columns that no longer exist are dropped rather than failing the whole link
+  app.post("/api/viewer-link/resolve", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any)?.id;
+      const user = await authStorage.getUser(userId);
+      if (!user || !user.isActive) {
+        return res.status(403).json({ error: "Account is inactive" });
+      }
+
+      const parsed = viewerLinkStateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "This link is invalid or incomplete" });
+      }
+      const state = parsed.data;
+
+      if (!getDatabaseConnections().some((conn) => conn.name === state.database)) {
+        return res.status(404).json({ error: `Database not found: ${state.database}` });
+      }
+
+      const access = await validateTableAccess(state.database, state.table, user);
+      if (!access.valid || !access.parsedTable) {
+        return res.status(403).json({ error: access.error || "Access denied to this table" });
+      }
+      const { schema, table } = access.parsedTable;
+
+      const pool = getPool(state.database);
+      const columnsResult = await pool.query(
+        `SELECT column_name FROM ${TABLE_COLUMNS_SQL} WHERE table_schema = $1 AND table_name = $2`,
+        [schema, table]
+      );
+      // The opener's masks and grants apply: hidden columns drop out entirely, and masked
+      // columns can be shown but not filtered or sorted on, matching /api/rows
+      const masks = await getUserColumnMasks(state.database, schema, table, user);
+      const columnNames: string[] = columnsResult.rows.map((r) => r.column_name);
+      const visibleColumnSet = new Set(columnNames.filter((c) => masks.get(c) !== "hide"));
+      const queryableColumns = new Set(columnNames.filter((c) => !masks.has(c)));
+      const droppedColumns = new Set<string>();
+
+      const filters = pruneFilterNodes(state.filters, queryableColumns, droppedColumns);
+      const sort = state.sort?.filter((s) => {
+        if (queryableColumns.has(s.column)) return true;
+        droppedColumns.add(s.column);
+        return false;
+      }) ?? null;
+      const visibleColumns = state.visibleColumns?.filter((c) => {
+        if (visibleColumnSet.has(c)) return true;
+        droppedColumns.add(c);
+        return false;
+      }) ?? null;
+
+      logAudit({
+        userId,
+        userEmail: user.email,
+        action: "OPEN_LINK",
+        database: state.database,
+        table: `${schema}.${table}`,
+        details: droppedColumns.size > 0 ? `Dropped unavailable columns: ${Array.from(droppedColumns).join(", ")}` : undefined,
+        ip: req.ip || req.socket.remoteAddress,
+      });
+
+      res.json({
+        database: state.database,
+        table: `${schema}.${table}`,
+        page: state.page,
+        pageSize: PAGE_SIZE_OPTIONS.includes(state.pageSize) ? state.pageSize : PAGE_SIZE,
+        filters,
+        sort: sort && sort.length > 0 ? sort : null,
+        visibleColumns: visibleColumns && visibleColumns.length > 0 ? visibleColumns : null,
+        droppedColumns: Array.from(droppedColumns),
+      });
+    } catch (err) {
+      console.error("Error resolving viewer link:", err);
+      res.status(500).json({
+        error: err instanceof Error ? err.message : "Failed to open link",
+      });
+    }
+  });
+
+  // Users a saved view can be shared with (external customers can only keep private views)
+  app.get("/api/saved-views/recipients", isAuthenticated, requirePermission("share_views"), async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any)?.id;
+      const allUsers = await db
+        .select({ id: users.id, email: users.email, firstName: users.firstName, lastName: users.lastName })
+        .from(users)
+        .where(eq(users.isActive, true))
+        .orderBy(users.email);
+      res.json(allUsers.filter(u => u.id !== userId));
+    } catch (err) {
+      console.error("Error getting saved view recipients:", err);
+      res.status(500).json({ error: "Failed to get users" });
+    }
+  });
+
+  // Get saved views the user can see in a database
+  app.get("/api/saved-views/:database", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any)?.id;
+      const user = await authStorage.getUser(userId);
+      if (!user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const views = await getAccessibleSavedViews(user, req.params.database);
+      res.json(views);
+    } catch (err) {
+      console.error("Error getting saved views:", err);
+      res.status(500).json({ error: "Failed to get saved views" });
+    }
+  });
+
+  // Create a saved view
+  app.post("/api/saved-views", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any)?.id;
+      const user = await authStorage.getUser(userId);
+      if (!user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const parsed = savedViewInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: `Invalid saved view: ${parsed.error.errors[0]?.message}` });
+      }
+      const { database, table, name, visibility, sharedWith, state } = parsed.data;
+
+      if (!(await canAccessTable(user, database, table))) {
+        return res.status(403).json({ error: "You don't have access to this table" });
+      }
+      if (!(await userCan(user, "share_views")) && visibility !== "private") {
+        return res.status(403).json({ error: "Only private views are available for your account" });
+      }
+
+      const [view] = await db
+        .insert(savedViews)
+        .values({ userId: user.id, database, tableName: table, name, visibility, state })
+        .returning();
+      await setSavedViewShares(view, sharedWith);
+
+      await logAudit({
+        userId,
+        userEmail: user.email,
+        action: "VIEW_CREATE",
+        database,
+        table,
+        details: `Created ${visibility} saved view: ${name}`,
+        ip: req.ip || req.socket.remoteAddress,
+      });
+
+      res.status(201).json(view);
+    } catch (err) {
+      console.error("Error creating saved view:", err);
+      res.status(500).json({ error: "Failed to create saved view" });
+    }
+  });
+
+  // Update a saved view (owner only)
+  app.patch("/api/saved-views/:id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any)?.id;
+      const user = await authStorage.getUser(userId);
+      if (!user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const [existing] = await db
+        .select()
+        .from(savedViews)
+        .where(and(eq(savedViews.id, req.params.id), eq(savedViews.userId, user.id)));
+      if (!existing) {
+        return res.status(404).json({ error: "Saved view not found" });
+      }
+
+      const parsed = savedViewInputSchema
+        .pick({ name: true, visibility: true, sharedWith: true, state: true })
+        .partial()
+        .safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: `Invalid saved view: ${parsed.error.errors[0]?.message}` });
+      }
+      const { name, visibility, sharedWith, state } = parsed.data;
+
+      if (!(await userCan(user, "share_views")) && visibility && visibility !== "private") {
+        return res.status(403).json({ error: "Only private views are available for your account" });
+      }
+
+      const updates: Partial<typeof savedViews.$inferInsert> = { updatedAt: new Date() };
+      if (name !== undefined) updates.name = name;
+      if (visibility !== undefined) updates.visibility = visibility;
+      if (state !== undefined) updates.state = state;
+
+      const [updated] = await db
+        .update(savedViews)
+        .set(updates)
+        .where(eq(savedViews.id, existing.id))
+        .returning();
+      if (visibility !== undefined || sharedWith !== undefined) {
+        const currentShares = await db
+          .select()
+          .from(savedViewShares)
+          .where(eq(savedViewShares.viewId, existing.id));
+        await setSavedViewShares(updated, sharedWith ?? currentShares.map(share => share.userId));
+      }
+
+      await logAudit({
+        userId,
+        userEmail: user.email,
+        action: "VIEW_UPDATE",
+        database: updated.database,
+        table: updated.tableName,
+        details: `Updated ${updated.visibility} saved view: ${updated.name}`,
+        ip: req.ip || req.socket.remoteAddress,
+      });
+
+      res.json(updated);
+    } catch (err) {
+      console.error("Error updating saved view:", err);
+      res.status(500).json({ error: "Failed to update saved view" });
+    }
+  });
+
+  // Delete a saved view (owner, or an admin removing a published view)
+  app.delete("/api/saved-views/:id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any)?.id;
+      const user = await authStorage.getUser(userId);
+      if (!user) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
+
+      const [existing] = await db
+        .select()
+        .from(savedViews)
+        .where(eq(savedViews.id, req.params.id));
+      if (!existing || (existing.userId !== user.id && !(await userCan(user, "manage_settings")))) {
+        return res.status(404).json({ error: "Saved view not found" });
+      }
+
+      await db.delete(savedViews).where(eq(savedViews.id, existing.id));
+
+      await logAudit({
+        userId,
+        userEmail: user.email,
+        action: "VIEW_DELETE",
+        database: existing.database,
+        table: existing.tableName,
+        details: `Deleted saved view: ${existing.name}`,
+        ip: req.ip || req.socket.remoteAddress,
+      });
+
+      res.json({ success: true });
+    } catch (err) {
+      console.error("Error deleting saved view:", err);
+      res.status(500).json({ error: "Failed to delete saved view" });
+    }
+  });
+
   // Fetch rows with pagination and filters
   app.post("/api/rows", isAuthenticated, async (req: Request, res: Response) => {
     try {
-      const { database, table, page = 1, filters = [], sort } = req.body;
-
-      // Check table access for external customers
+      const {
+        database,
+        table,
+        page = 1,
+        filters: filtersInput,
+        sort,
+        pagination = "offset",
+        cursor = null,
+        direction = "next",
+        approximateCount = false,
+        search,
+        searchColumns,
+      } = req.body;
+      const pageSize = PAGE_SIZE_OPTIONS.includes(req.body.pageSize) ? req.body.pageSize as number : PAGE_SIZE;
+      const filters = parseFilterInput(filtersInput);
+      if (!filters) {
+        return res.status(400).json({ error: "Invalid filters format" });
+      }
+
+      // Check table access for roles limited to granted tables
       const userId = (req.user as any)?.id;
       const user = await authStorage.getUser(userId);
-      if (user?.role === "external_customer") {
+      if (!(await userCan(user, "access_all_tables"))) {
         const allowedTables = await getAllowedTables(userId);
         if (!allowedTables.includes(`${database}:${table}`)) {
           return res.status(403).json({ error: "You don't have access to this table" });
@@ -1433,13 +3995,20 @@ export async function registerRoutes(
       const columnsResult = await pool.query(
         `
         SELECT column_name
-        FROM information_schema.columns
+        FROM ${TABLE_COLUMNS_SQL}
         WHERE table_schema = $1 AND table_name = $2
+        ORDER BY ordinal_position
       `,
         [schema, tableName]
       );
       const validColumns = new Set(columnsResult.rows.map((r) => r.column_name));
 
+      // Masked columns are projected through their mask and can't be sorted or filtered on
+      const masks = await getUserColumnMasks(database, schema, tableName, user);
+      const selectSQL = masks.size > 0
+        ? buildMaskedSelectList(columnsResult.rows.map((r) => r.column_name), masks).join(", ")
+        : "*";
+
       // Get primary key for ordering
       const pkResult = await pool.query(
         `
@@ -1455,13 +4024,16 @@ export async function registerRoutes(
 
       // Determine ORDER BY - use user-specified sort or default to primary key
       // Support multi-column sorting (sort is now an array)
+      const defaultOrderBy = pkResult.rows.length > 0
+        ? `"${pkResult.rows[0].attname}"`
+        : getFallbackOrderSQL(await getTableObjectType(pool, schema, tableName));
       let orderByClause: string;
 
       if (sort && Array.isArray(sort) && sort.length > 0) {
         // Multi-column sort
         const sortParts: string[] = [];
         for (const sortItem of sort) {
-          if (sortItem.column && validColumns.has(sortItem.column)) {
+          if (sortItem.column && validColumns.has(sortItem.column) && !masks.has(sortItem.column)) {
             validateIdentifier(sortItem.column, "sort column");
             const direction = sortItem.direction === "desc" ? "DESC" : "ASC";
             sortParts.push(`"${sortItem.column}" ${direction}`);
@@ -1470,70 +4042,188 @@ export async function registerRoutes(
         if (sortParts.length > 0) {
           orderByClause = sortParts.join(", ");
         } else {
-          orderByClause = pkResult.rows.length > 0 ? `"${pkResult.rows[0].attname}"` : "ctid";
+          orderByClause = defaultOrderBy;
         }
       } else {
         // Default to primary key
-        orderByClause = pkResult.rows.length > 0 ? `"${pkResult.rows[0].attname}"` : "ctid";
+        orderByClause = defaultOrderBy;
       }
 
       // Build WHERE clause
       const whereClauses: string[] = [];
       const params: unknown[] = [];
-      let paramIndex = 1;
 
-      for (const filter of filters as ActiveFilter[]) {
+      const filterConditions = collectFilterConditions(filters);
+      for (const filter of filterConditions) {
         validateIdentifier(filter.column, "column");
         if (!validColumns.has(filter.column)) {
           return res
             .status(400)
             .json({ error: `Invalid column: ${filter.column}` });
         }
-
-        const op = getOperatorSQL(filter.operator, paramIndex);
-        whereClauses.push(`"${filter.column}" ${op.sql}`);
-
-        // Handle between operator (needs 2 params) and date conversion
-        if (filter.operator === "between" && Array.isArray(filter.value)) {
-          const startValue = convertPSTDateToUTC(filter.value[0], false);
-          const endValue = convertPSTDateToUTC(filter.value[1], true);
-          params.push(startValue, endValue);
-          paramIndex += 2;
-        } else if (["gt", "gte", "lt", "lte", "eq"].includes(filter.operator) && typeof filter.value === "string") {
-          // Check if this looks like a date filter
-          const dateMatch = filter.value.match(/^\d{4}-\d{2}-\d{2}$/);
-          if (dateMatch) {
-            const converted = convertPSTDateToUTC(filter.value, filter.operator === "lte" || filter.operator === "lt");
-            params.push(op.transform ? op.transform(converted) : converted);
-          } else {
-            params.push(op.transform ? op.transform(filter.value) : filter.value);
-          }
-          paramIndex++;
-        } else {
-          params.push(op.transform ? op.transform(filter.value) : filter.value);
-          paramIndex++;
+        if (masks.has(filter.column)) {
+          return res.status(400).json({ error: `Column ${filter.column} is masked and can't be filtered on` });
         }
       }
 
+      const jsonFilterError = await validateJsonFilters(pool, user, database, schema, tableName, filterConditions);
+      if (jsonFilterError) {
+        return res.status(400).json({ error: jsonFilterError });
+      }
+
+      const filterSQL = buildFilterSQL(filters, params, (column) => `"${column}"`);
+      if (filterSQL) whereClauses.push(filterSQL);
+
+      const searchSQL = await buildSearchSQL(pool, database, schema, tableName, search, searchColumns, user, params);
+      if (searchSQL) whereClauses.push(searchSQL);
+
+      // Row predicates from the user's grants always apply
+      const grantSQL = await buildGrantRowFilterSQL(user, database, schema, tableName, params);
+      if (grantSQL) whereClauses.push(grantSQL);
+
       const whereSQL =
         whereClauses.length > 0 ? `WHERE ${whereClauses.join(" AND ")}` : "";
 
-      // Get total count
-      const countQuery = `SELECT COUNT(*) as count FROM "${schema}"."${tableName}" ${whereSQL}`;
-      const countResult = await pool.query(countQuery, params);
-      const totalCount = parseInt(countResult.rows[0].count, 10);
+      // Keyset pagination needs a primary key to make the ordering unique, and cursors
+      // carry its raw values, so views and masked keys fall back to offset paging
+      const hasUnmaskedKey = pkResult.rows.length > 0 && !pkResult.rows.some((r) => masks.has(r.attname));
+      const useKeyset = pagination === "keyset" && hasUnmaskedKey;
+
+      // Get total count: the planner estimate when requested (always in keyset mode) and
+      // unfiltered; keyset mode otherwise counts only up to KEYSET_COUNT_CAP rows
+      let totalCount: number | null = null;
+      let isApproximateCount = false;
+      if ((approximateCount || useKeyset) && whereClauses.length === 0) {
+        totalCount = await getApproximateRowCount(pool, schema, tableName);
+        isApproximateCount = totalCount !== null;
+      }
+      if (totalCount === null && useKeyset) {
+        const countResult = await pool.query(
+          `SELECT COUNT(*) as count FROM (SELECT 1 FROM "${schema}"."${tableName}" ${whereSQL} LIMIT ${KEYSET_COUNT_CAP + 1}) capped`,
+          params
+        );
+        const cappedCount = parseInt(countResult.rows[0].count, 10);
+        totalCount = Math.min(cappedCount, KEYSET_COUNT_CAP);
+        isApproximateCount = cappedCount > KEYSET_COUNT_CAP;
+      }
+      if (totalCount === null) {
+        const countQuery = `SELECT COUNT(*) as count FROM "${schema}"."${tableName}" ${whereSQL}`;
+        const countResult = await pool.query(countQuery, params);
+        totalCount = parseInt(countResult.rows[0].count, 10);
+      }
+
+      const totalPages = Math.max(1, Math.ceil(totalCount / pageSize));
+
+      if (useKeyset) {
+        const typesResult = await pool.query(
+          `
+          SELECT attname, format_type(atttypid, atttypmod) AS type
+          FROM pg_attribute
+          WHERE attrelid = ($1 || '.' || $2)::regclass AND attnum > 0 AND NOT attisdropped
+        `,
+          [schema, tableName]
+        );
+        const columnTypes = new Map<string, string>(typesResult.rows.map((r) => [r.attname, r.type]));
+
+        const keys: KeysetKey[] = [];
+        if (sort && Array.isArray(sort)) {
+          for (const sortItem of sort) {
+            if (sortItem.column && validColumns.has(sortItem.column) && !masks.has(sortItem.column) && !keys.some(k => k.column === sortItem.column)) {
+              validateIdentifier(sortItem.column, "sort column");
+              keys.push({
+                column: sortItem.column,
+                direction: sortItem.direction === "desc" ? "desc" : "asc",
+                type: columnTypes.get(sortItem.column) ?? "text",
+              });
+            }
+          }
+        }
+        for (const row of pkResult.rows) {
+          if (!keys.some(k => k.column === row.attname)) {
+            keys.push({ column: row.attname, direction: "asc", type: columnTypes.get(row.attname) ?? "text" });
+          }
+        }
+
+        // A cursor from another table or sort order is ignored and paging restarts
+        const hasCursor = Array.isArray(cursor) && cursor.length === keys.length;
+        const mode: "first" | "last" | "next" | "prev" =
+          ["next", "prev"].includes(direction) && !hasCursor
+            ? "first"
+            : ["first", "last", "next", "prev"].includes(direction) ? direction : "first";
+        const reverse = mode === "prev" || mode === "last";
+
+        const keysetClauses = [...whereClauses];
+        const keysetParams = [...params];
+        if (mode === "next" || mode === "prev") {
+          const condition = buildKeysetCondition(keys, cursor, keysetParams.length + 1, reverse);
+          keysetClauses.push(condition.sql);
+          keysetParams.push(...condition.params);
+        }
+
+        const keysetWhereSQL =
+          keysetClauses.length > 0 ? `WHERE ${keysetClauses.join(" AND ")}` : "";
+        const keysetOrderSQL = keys
+          .map(k => `"${k.column}" ${(k.direction === "desc") !== reverse ? "DESC" : "ASC"}`)
+          .join(", ");
+
+        const cursorSQL = keys.map((k, i) => `"${k.column}"::text AS "${keysetCursorAlias(i)}"`).join(", ");
+
+        // Fetch one extra row to learn whether another page exists in this direction
+        const dataResult = await pool.query(`
+          SELECT ${selectSQL}, ${cursorSQL} FROM "${schema}"."${tableName}"
+          ${keysetWhereSQL}
+          ORDER BY ${keysetOrderSQL}
+          LIMIT ${pageSize + 1}
+        `, keysetParams);
+
+        const hasMore = dataResult.rows.length > pageSize;
+        const pageRows = dataResult.rows.slice(0, pageSize);
+        if (reverse) pageRows.reverse();
+
+        const cursors = pageRows.map((row) => keys.map((_k, i) => row[keysetCursorAlias(i)] as string | null));
+        const rows = pageRows.map((row) => {
+          const data = { ...row };
+          keys.forEach((_k, i) => delete data[keysetCursorAlias(i)]);
+          return data;
+        });
+        const safePage = mode === "first" ? 1 : mode === "last" ? totalPages : Math.max(1, page);
+
+        logAudit({
+          userId: userId,
+          userEmail: user?.email || "unknown",
+          action: "VIEW_DATA",
+          database: database,
+          table: table,
+          details: `Viewed ${mode} page (keyset, ${rows.length} rows)${filterConditions.length > 0 ? `, ${filterConditions.length} filters applied` : ''}${searchSQL ? ', search applied' : ''}`,
+          ip: req.ip || req.socket.remoteAddress,
+        });
+
+        return res.json({
+          rows,
+          totalCount,
+          isApproximateCount,
+          page: safePage,
+          pageSize,
+          totalPages,
+          pagination: "keyset",
+          prevCursor: cursors[0] ?? null,
+          nextCursor: cursors[cursors.length - 1] ?? null,
+          // Only a page reached through a cursor has rows before it, except going backwards
+          hasPreviousPage: (mode === "next" && hasCursor) || (reverse && hasMore),
+          hasNextPage: mode === "prev" || ((mode === "next" || mode === "first") && hasMore),
+        });
+      }
 
       // Calculate pagination
-      const totalPages = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
       const safePage = Math.min(Math.max(1, page), totalPages);
-      const offset = (safePage - 1) * PAGE_SIZE;
+      const offset = (safePage - 1) * pageSize;
 
       // Fetch rows
       const dataQuery = `
-        SELECT * FROM "${schema}"."${tableName}"
+        SELECT ${selectSQL} FROM "${schema}"."${tableName}"
         ${whereSQL}
         ORDER BY ${orderByClause}
-        LIMIT ${PAGE_SIZE}
+        LIMIT ${pageSize}
         OFFSET ${offset}
       `;
       const dataResult = await pool.query(dataQuery, params);
@@ -1545,16 +4235,20 @@ export async function registerRoutes(
         action: "VIEW_DATA",
         database: database,
         table: table,
-        details: `Viewed page ${safePage} of ${totalPages} (${dataResult.rows.length} rows)${filters.length > 0 ? `, ${filters.length} filters applied` : ''}`,
+        details: `Viewed page ${safePage} of ${totalPages} (${dataResult.rows.length} rows)${filterConditions.length > 0 ? `, ${filterConditions.length} filters applied` : ''}${searchSQL ? ', search applied' : ''}`,
         ip: req.ip || req.socket.remoteAddress,
       });
 
       res.json({
         rows: dataResult.rows,
         totalCount,
+        isApproximateCount,
         page: safePage,
-        pageSize: PAGE_SIZE,
+        pageSize,
         totalPages,
+        pagination: "offset",
+        // Set when keyset paging was asked for but the table has no usable key
+        keysetUnavailable: pagination === "keyset",
       });
     } catch (err) {
       console.error("Error fetching rows:", err);
@@ -1564,348 +4258,986 @@ export async function registerRoutes(
     }
   });
 
-  // Export CSV
-  // Export row count check (for client-side validation before export)
-  app.post("/api/export/check", isAuthenticated, async (req: Request, res: Response) => {
+  // Footer aggregates (count/distinct/sum/avg/min/max) for columns over the full filtered result
+  app.post("/api/rows/aggregates", isAuthenticated, async (req: Request, res: Response) => {
     try {
-      const { database, table, filters } = req.body;
+      const { database, table, filters: filtersInput, columns = [], search, searchColumns } = req.body;
+      const filters = parseFilterInput(filtersInput);
+      if (!filters) {
+        return res.status(400).json({ error: "Invalid filters format" });
+      }
+
+      const userId = (req.user as any)?.id;
+      const user = await authStorage.getUser(userId);
+      if (!user || !user.isActive) {
+        return res.status(403).json({ error: "Account is inactive" });
+      }
+
+      if (!database || !table || !Array.isArray(columns)) {
+        return res.status(400).json({ error: "Database, table and columns are required" });
+      }
+      if (columns.length > AGGREGATE_MAX_COLUMNS) {
+        return res.status(400).json({ error: `At most ${AGGREGATE_MAX_COLUMNS} columns can be aggregated at once` });
+      }
+
+      const access = await validateTableAccess(database, table, user);
+      if (!access.valid || !access.parsedTable) {
+        return res.status(403).json({ error: access.error || "You don't have access to this table" });
+      }
+      const { schema, table: tableName } = access.parsedTable;
+
+      const pool = getPool(database);
+      const columnsResult = await pool.query(
+        `SELECT column_name, data_type FROM ${TABLE_COLUMNS_SQL} WHERE table_schema = $1 AND table_name = $2`,
+        [schema, tableName]
+      );
+      const columnTypes = new Map<string, string>(columnsResult.rows.map((r) => [r.column_name, r.data_type]));
+
+      // Admin-hidden and masked columns are never aggregated for other roles. Columns the
+      // user's masks or grants hide don't exist for them, so asking for one is an error.
+      const allTableSettings = await storage.getAllTableSettings();
+      const hiddenColumns = !(await userCan(user, "view_restricted_data"))
+        ? allTableSettings[`${database}:${schema}.${tableName}`]?.hiddenColumns || []
+        : [];
+      const masks = await getUserColumnMasks(database, schema, tableName, user);
+      const isVisibleColumn = (c: string) => columnTypes.has(c) && masks.get(c) !== "hide";
+
+      const invalidColumn = (columns as string[]).find((c) => !isVisibleColumn(c));
+      if (invalidColumn !== undefined) {
+        return res.status(400).json({ error: `Invalid column: ${invalidColumn}` });
+      }
+      const aggregateColumns = (columns as string[]).filter(
+        (c) => !hiddenColumns.includes(c) && !masks.has(c)
+      );
+      const skippedColumns = (columns as string[]).filter((c) => !aggregateColumns.includes(c));
+
+      const filterConditions = collectFilterConditions(filters);
+      for (const filter of filterConditions) {
+        validateIdentifier(filter.column, "column");
+        if (!isVisibleColumn(filter.column)) {
+          return res.status(400).json({ error: `Invalid column: ${filter.column}` });
+        }
+        if (masks.has(filter.column)) {
+          return res.status(400).json({ error: `Column ${filter.column} is masked and can't be filtered on` });
+        }
+      }
+
+      const jsonFilterError = await validateJsonFilters(pool, user, database, schema, tableName, filterConditions);
+      if (jsonFilterError) {
+        return res.status(400).json({ error: jsonFilterError });
+      }
+
+      const params: unknown[] = [];
+      const filterSQL = buildFilterSQL(filters, params, (column) => `"${column}"`);
+      const searchSQL = await buildSearchSQL(pool, database, schema, tableName, search, searchColumns, user, params);
+      const grantSQL = await buildGrantRowFilterSQL(user, database, schema, tableName, params);
+      const whereClauses = [filterSQL, searchSQL, grantSQL].filter(Boolean);
+      const whereSQL = whereClauses.length > 0 ? `WHERE ${whereClauses.join(" AND ")}` : "";
+
+      // Aliases are positional (a0_sum, ...) so column names never end up in an alias
+      const selectParts = ["COUNT(*) AS total_count"];
+      aggregateColumns.forEach((column, i) => {
+        validateIdentifier(column, "column");
+        const dataType = columnTypes.get(column)!;
+        const col = `"${column}"`;
+        selectParts.push(`COUNT(${col}) AS a${i}_count`);
+        if (!NON_DISTINCT_TYPES.includes(dataType)) {
+          selectParts.push(`COUNT(DISTINCT ${col}) AS a${i}_distinct`);
+        }
+        if (NUMERIC_TYPES.includes(dataType)) {
+          selectParts.push(`SUM(${col}) AS a${i}_sum`, `AVG(${col}) AS a${i}_avg`);
+        }
+        if (NUMERIC_TYPES.includes(dataType) || ORDERABLE_TYPE_PREFIXES.some((t) => dataType.startsWith(t))) {
+          selectParts.push(`MIN(${col}) AS a${i}_min`, `MAX(${col}) AS a${i}_max`);
+        }
+      });
+
+      // Aggregates scan the whole filtered table, so cap how long they may run
+      const result = await queryWithTimeout(
+        pool,
+        `SELECT ${selectParts.join(", ")} FROM "${schema}"."${tableName}" ${whereSQL}`,
+        params,
+        AGGREGATE_TIMEOUT_MS
+      );
+
+      const row = result.rows[0];
+      const aggregates: Record<string, Record<string, unknown>> = {};
+      aggregateColumns.forEach((column, i) => {
+        const stats: Record<string, unknown> = {};
+        for (const stat of ["count", "distinct", "sum", "avg", "min", "max"]) {
+          const key = `a${i}_${stat}`;
+          if (key in row) {
+            // COUNT comes back from pg as a bigint string
+            stats[stat] = stat === "count" || stat === "distinct" ? parseInt(row[key], 10) : row[key];
+          }
+        }
+        aggregates[column] = stats;
+      });
+
+      logAudit({
+        userId,
+        userEmail: user.email,
+        action: "VIEW_AGGREGATES",
+        database,
+        table,
+        details: `Aggregated ${aggregateColumns.length} columns${filterConditions.length > 0 ? `, ${filterConditions.length} filters applied` : ""}`,
+        ip: req.ip || req.socket.remoteAddress,
+      });
+
+      res.json({
+        totalCount: parseInt(row.total_count, 10),
+        aggregates,
+        skippedColumns,
+      });
+    } catch (err) {
+      console.error("Error computing aggregates:", err);
+      res.status(500).json({
+        error: err instanceof Error ? err.message : "Failed to compute aggregates",
+      });
+    }
+  });
+
+  // Summarize mode: GROUP BY one or two columns with aggregates, over the same filters as /api/rows
+  app.post("/api/rows/summarize", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const { database, table, filters: filtersInput, summarize, search, searchColumns } = req.body;
+      const filters = parseFilterInput(filtersInput);
+      if (!filters) {
+        return res.status(400).json({ error: "Invalid filters format" });
+      }
+
+      const userId = (req.user as any)?.id;
+      const user = await authStorage.getUser(userId);
+      if (!user || !user.isActive) {
+        return res.status(403).json({ error: "Account is inactive" });
+      }
 
       if (!database || !table) {
         return res.status(400).json({ error: "Database and table are required" });
       }
 
+      const parsedSpec = summarizeSpecSchema.safeParse(summarize);
+      if (!parsedSpec.success) {
+        return res.status(400).json({ error: "Pick at least one group-by column and one aggregate" });
+      }
+
+      const access = await validateTableAccess(database, table, user);
+      if (!access.valid || !access.parsedTable) {
+        return res.status(403).json({ error: access.error || "You don't have access to this table" });
+      }
+      const { schema, table: tableName } = access.parsedTable;
+
+      const pool = getPool(database);
+      const columnsResult = await pool.query(
+        `SELECT column_name, data_type FROM ${TABLE_COLUMNS_SQL} WHERE table_schema = $1 AND table_name = $2`,
+        [schema, tableName]
+      );
+      const columnTypes = new Map<string, string>(columnsResult.rows.map((r) => [r.column_name, r.data_type]));
+      const masks = await getUserColumnMasks(database, schema, tableName, user);
+
+      const filterConditions = collectFilterConditions(filters);
+      for (const filter of filterConditions) {
+        validateIdentifier(filter.column, "column");
+        if (!columnTypes.has(filter.column)) {
+          return res.status(400).json({ error: `Invalid column: ${filter.column}` });
+        }
+        if (masks.has(filter.column)) {
+          return res.status(400).json({ error: `Column ${filter.column} is masked and can't be filtered on` });
+        }
+      }
+
+      const jsonFilterError = await validateJsonFilters(pool, user, database, schema, tableName, filterConditions);
+      if (jsonFilterError) {
+        return res.status(400).json({ error: jsonFilterError });
+      }
+
+      // Admin-hidden and masked columns can't be grouped or aggregated by other roles
+      if (!(await userCan(user, "view_restricted_data"))) {
+        const allTableSettings = await storage.getAllTableSettings();
+        for (const hidden of allTableSettings[`${database}:${schema}.${tableName}`]?.hiddenColumns || []) {
+          columnTypes.delete(hidden);
+        }
+      }
+      masks.forEach((_mask, column) => columnTypes.delete(column));
+
+      const summary = buildSummarizeQuery(parsedSpec.data, columnTypes);
+      if (!summary.valid) {
+        return res.status(400).json({ error: summary.error });
+      }
+
+      const params: unknown[] = [];
+      const filterSQL = buildFilterSQL(filters, params, (column) => `"${column}"`);
+      const searchSQL = await buildSearchSQL(pool, database, schema, tableName, search, searchColumns, user, params);
+      const grantSQL = await buildGrantRowFilterSQL(user, database, schema, tableName, params);
+      const whereClauses = [filterSQL, searchSQL, grantSQL].filter(Boolean);
+      const whereSQL = whereClauses.length > 0 ? `WHERE ${whereClauses.join(" AND ")}` : "";
+
+      const result = await queryWithTimeout(
+        pool,
+        `
+        SELECT ${summary.selectSQL}
+        FROM "${schema}"."${tableName}"
+        ${whereSQL}
+        GROUP BY ${summary.groupBySQL}
+        ORDER BY ${summary.orderBySQL}
+        LIMIT ${SUMMARIZE_MAX_GROUPS + 1}
+      `,
+        params,
+        AGGREGATE_TIMEOUT_MS
+      );
+
+      const truncated = result.rows.length > SUMMARIZE_MAX_GROUPS;
+      const rows = result.rows.slice(0, SUMMARIZE_MAX_GROUPS);
+
+      logAudit({
+        userId,
+        userEmail: user.email,
+        action: "VIEW_SUMMARY",
+        database,
+        table,
+        details: `Summarized by ${parsedSpec.data.groupBy.map((g) => g.column).join(", ")} (${rows.length} groups)${filterConditions.length > 0 ? `, ${filterConditions.length} filters applied` : ""}`,
+        ip: req.ip || req.socket.remoteAddress,
+      });
+
+      res.json({ columns: summary.columns, rows, truncated, maxGroups: SUMMARIZE_MAX_GROUPS });
+    } catch (err) {
+      console.error("Error summarizing rows:", err);
+      res.status(500).json({
+        error: err instanceof Error ? err.message : "Failed to summarize rows",
+      });
+    }
+  });
+
+  // Search every accessible table of every connection for a value. Results are streamed
+  // as NDJSON, one line per table with matches, so the palette fills in as tables finish.
+  app.get("/api/global-search", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const term = typeof req.query.q === "string" ? req.query.q.trim().slice(0, SEARCH_MAX_LENGTH) : "";
+      if (term.length < GLOBAL_SEARCH_MIN_LENGTH) {
+        return res.status(400).json({ error: `Search for at least ${GLOBAL_SEARCH_MIN_LENGTH} characters` });
+      }
+
       const userId = (req.user as any)?.id;
       const user = await authStorage.getUser(userId);
+      if (!user || !user.isActive) {
+        return res.status(403).json({ error: "Account is inactive" });
+      }
 
-      // Check table access for external customers
-      if (user?.role === "external_customer") {
-        const allowedTables = await getAllowedTables(userId);
-        if (!allowedTables.includes(`${database}:${table}`)) {
-          return res.status(403).json({ error: "You don't have access to this table" });
+      const kind = classifyGlobalSearchValue(term);
+      const allowedTables = !(await userCan(user, "access_all_tables")) ? await getAllowedTables(userId) : [];
+      const allTableSettings = await storage.getAllTableSettings();
+
+      // Stop scanning once the client goes away (palette closed or a new search started)
+      let isClosed = false;
+      res.on("close", () => {
+        isClosed = true;
+      });
+
+      res.setHeader("Content-Type", "application/x-ndjson");
+      res.setHeader("Cache-Control", "no-cache");
+      const send = (event: Record<string, unknown>) => res.write(JSON.stringify(event) + "\n");
+
+      const escaped = term.replace(/[\\%_]/g, "\\$&");
+      const pattern = kind === "text" ? `%${escaped}%` : escaped;
+      const lowerTerm = term.toLowerCase();
+
+      let tablesScanned = 0;
+      let tablesMatched = 0;
+      let isTruncated = false;
+
+      for (const connection of getDatabaseConnections()) {
+        if (isClosed) break;
+
+        let targets: GlobalSearchTarget[];
+        try {
+          targets = await getGlobalSearchTargets(connection.name, kind, user, allowedTables, allTableSettings);
+        } catch (err) {
+          console.error(`Error listing tables for global search in ${connection.name}:`, err);
+          send({ type: "error", database: connection.name, error: "Couldn't read this database" });
+          continue;
+        }
+
+        const pool = getPool(connection.name);
+        for (const target of targets) {
+          if (isClosed) break;
+          if (tablesScanned >= GLOBAL_SEARCH_MAX_TABLES) {
+            isTruncated = true;
+            break;
+          }
+          tablesScanned++;
+
+          // Bind only the parameters this table uses; Postgres rejects ones it can't type
+          const params: unknown[] = [];
+          const paramIndexes: { uuid?: number; pattern?: number } = {};
+          const conditions = target.columns.map((col) => {
+            if (col.dataType === "uuid") {
+              paramIndexes.uuid ??= params.push(term);
+              return `"${col.name}" = $${paramIndexes.uuid}::uuid`;
+            }
+            paramIndexes.pattern ??= params.push(pattern);
+            return `"${col.name}" ILIKE $${paramIndexes.pattern}`;
+          });
+          const selectColumns = target.columns.map((col) => `"${col.name}"`);
+          if (target.primaryKey && !target.columns.some((col) => col.name === target.primaryKey)) {
+            selectColumns.unshift(`"${target.primaryKey}"`);
+          }
+
+          let rows: Record<string, unknown>[];
+          try {
+            const grantSQL = await buildGrantRowFilterSQL(user, connection.name, target.schema, target.table, params);
+            const result = await queryWithTimeout(
+              pool,
+              `
+              SELECT ${selectColumns.join(", ")}
+              FROM "${target.schema}"."${target.table}"
+              WHERE (${conditions.join(" OR ")})${grantSQL ? ` AND ${grantSQL}` : ""}
+              LIMIT ${GLOBAL_SEARCH_ROWS_PER_TABLE + 1}
+            `,
+              params,
+              GLOBAL_SEARCH_TABLE_TIMEOUT_MS
+            );
+            rows = result.rows;
+          } catch (err) {
+            const isTimeout = (err as { code?: string })?.code === "57014";
+            if (!isTimeout) console.error(`Error searching ${connection.name}:${target.schema}.${target.table}:`, err);
+            send({
+              type: "error",
+              database: connection.name,
+              table: `${target.schema}.${target.table}`,
+              error: isTimeout ? "Timed out" : "Search failed",
+            });
+            continue;
+          }
+          if (rows.length === 0) continue;
+
+          tablesMatched++;
+          const fullName = `${target.schema}.${target.table}`;
+          send({
+            type: "table",
+            database: connection.name,
+            table: fullName,
+            displayName: allTableSettings[`${connection.name}:${fullName}`]?.displayName || null,
+            primaryKey: target.primaryKey,
+            columns: target.columns.map((col) => col.name),
+            operator: kind === "uuid" ? "eq" : "contains",
+            hasMore: rows.length > GLOBAL_SEARCH_ROWS_PER_TABLE,
+            rows: rows.slice(0, GLOBAL_SEARCH_ROWS_PER_TABLE).map((row) => ({
+              key: target.primaryKey ? row[target.primaryKey] : null,
+              matches: target.columns
+                .filter((col) => {
+                  const value = row[col.name];
+                  if (value === null || value === undefined) return false;
+                  const text = String(value).toLowerCase();
+                  return kind === "text" ? text.includes(lowerTerm) : text === lowerTerm;
+                })
+                .map((col) => ({ column: col.name, value: String(row[col.name]) })),
+            })),
+          });
         }
+        if (isTruncated) break;
       }
 
-      const [schema, tableName] = (table as string).split(".");
-      validateIdentifier(schema, "schema");
-      validateIdentifier(tableName, "table");
+      send({ type: "done", tablesScanned, tablesMatched, truncated: isTruncated, maxTables: GLOBAL_SEARCH_MAX_TABLES });
+      res.end();
+
+      logAudit({
+        userId: userId,
+        userEmail: user.email || "unknown",
+        action: "GLOBAL_SEARCH",
+        details: `Searched ${tablesScanned} tables for a ${kind} value (${tablesMatched} with matches)${isClosed ? ", cancelled" : ""}`,
+        ip: req.ip || req.socket.remoteAddress,
+      });
+    } catch (err) {
+      console.error("Error running global search:", err);
+      if (res.headersSent) {
+        res.end();
+      } else {
+        res.status(500).json({
+          error: err instanceof Error ? err.message : "Failed to search",
+        });
+      }
+    }
+  });
+
+  // Export CSV
+  // Export row count check (for client-side validation before export)
+  app.post("/api/export/check", isAuthenticated, requirePermission("export"), async (req: Request, res: Response) => {
+    try {
+      const { database, table, filters: filtersInput, summarize, search, searchColumns } = req.body;
+
+      if (!database || !table) {
+        return res.status(400).json({ error: "Database and table are required" });
+      }
+      const filters = parseFilterInput(filtersInput);
+      if (!filters) {
+        return res.status(400).json({ error: "Invalid filters format" });
+      }
+
+      const userId = (req.user as any)?.id;
+      const user = await authStorage.getUser(userId);
+      if (!user || !user.isActive) {
+        return res.status(403).json({ error: "Account is inactive" });
+      }
+
+      // Same checks as the export itself: grants, exposed schemas and hidden tables
+      const access = await validateTableAccess(database, table, user);
+      if (!access.valid || !access.parsedTable) {
+        return res.status(403).json({ error: access.error || "You don't have access to this table" });
+      }
+      const { schema, table: tableName } = access.parsedTable;
 
       const pool = getPool(database as string);
 
-      // Parse and validate filters
-      const activeFilters: ActiveFilter[] = filters || [];
+      // Parse and validate filters (flat array or filter tree)
+      const activeFilters: FilterTreeNode[] | FilterGroup = filters || [];
 
       // Validate columns
       const columnsResult = await pool.query(
-        `SELECT column_name FROM information_schema.columns WHERE table_schema = $1 AND table_name = $2`,
+        `SELECT column_name, data_type FROM ${TABLE_COLUMNS_SQL} WHERE table_schema = $1 AND table_name = $2`,
         [schema, tableName]
       );
       const validColumns = new Set(columnsResult.rows.map((r) => r.column_name));
+      const masks = await getUserColumnMasks(database, schema, tableName, user);
+
+      // Summarize mode exports one row per group
+      let groupBySQL: string | null = null;
+      if (summarize) {
+        const parsedSpec = summarizeSpecSchema.safeParse(summarize);
+        if (!parsedSpec.success) {
+          return res.status(400).json({ error: "Invalid summarize format" });
+        }
+        const columnTypes = await getSummarizableColumnTypes(columnsResult.rows, masks, user, database, schema, tableName);
+        const summary = buildSummarizeQuery(parsedSpec.data, columnTypes);
+        if (!summary.valid) {
+          return res.status(400).json({ error: summary.error });
+        }
+        groupBySQL = summary.groupBySQL;
+      }
 
       // Build WHERE clause
       const whereClauses: string[] = [];
       const params: unknown[] = [];
-      let paramIndex = 1;
 
-      for (const filter of activeFilters) {
+      const filterConditions = collectFilterConditions(activeFilters);
+      for (const filter of filterConditions) {
         validateIdentifier(filter.column, "column");
         if (!validColumns.has(filter.column)) {
           return res.status(400).json({ error: `Invalid column: ${filter.column}` });
         }
-        const op = getOperatorSQL(filter.operator, paramIndex);
-        whereClauses.push(`"${filter.column}" ${op.sql}`);
-
-        // Handle between operator (needs 2 params) and date conversion
-        if (filter.operator === "between" && Array.isArray(filter.value)) {
-          const startValue = convertPSTDateToUTC(filter.value[0], false);
-          const endValue = convertPSTDateToUTC(filter.value[1], true);
-          params.push(startValue, endValue);
-          paramIndex += 2;
-        } else if (["gt", "gte", "lt", "lte", "eq"].includes(filter.operator) && typeof filter.value === "string") {
-          // Check if this looks like a date filter
-          const dateMatch = filter.value.match(/^\d{4}-\d{2}-\d{2}$/);
-          if (dateMatch) {
-            const converted = convertPSTDateToUTC(filter.value, filter.operator === "lte" || filter.operator === "lt");
-            params.push(op.transform ? op.transform(converted) : converted);
-          } else {
-            params.push(op.transform ? op.transform(filter.value) : filter.value);
-          }
-          paramIndex++;
-        } else {
-          params.push(op.transform ? op.transform(filter.value) : filter.value);
-          paramIndex++;
+        if (masks.has(filter.column)) {
+          return res.status(400).json({ error: `Column ${filter.column} is masked and can't be filtered on` });
         }
       }
 
+      const jsonFilterError = await validateJsonFilters(pool, user, database, schema, tableName, filterConditions);
+      if (jsonFilterError) {
+        return res.status(400).json({ error: jsonFilterError });
+      }
+
+      const filterSQL = buildFilterSQL(activeFilters, params, (column) => `"${column}"`);
+      if (filterSQL) whereClauses.push(filterSQL);
+
+      const searchSQL = await buildSearchSQL(pool, database, schema, tableName, search, searchColumns, user, params);
+      if (searchSQL) whereClauses.push(searchSQL);
+
+      // Row predicates from the user's grants always apply
+      const grantSQL = await buildGrantRowFilterSQL(user, database, schema, tableName, params);
+      if (grantSQL) whereClauses.push(grantSQL);
+
       const whereSQL = whereClauses.length > 0 ? `WHERE ${whereClauses.join(" AND ")}` : "";
 
-      // Count total rows
-      const countQuery = `SELECT COUNT(*) as count FROM "${schema}"."${tableName}" ${whereSQL}`;
+      // Count total rows (or groups)
+      const countQuery = groupBySQL
+        ? `SELECT COUNT(*) as count FROM (SELECT 1 FROM "${schema}"."${tableName}" ${whereSQL} GROUP BY ${groupBySQL}) g`
+        : `SELECT COUNT(*) as count FROM "${schema}"."${tableName}" ${whereSQL}`;
       const countResult = await pool.query(countQuery, params);
       const totalCount = parseInt(countResult.rows[0].count, 10);
 
       // Determine limits based on role
-      const isAdmin = user?.role === "admin";
-      const maxRowsForRole = isAdmin ? 50000 : 10000;
+      const canExportAll = await userCan(user, "export_all");
+      const maxRowsForRole = await getExportRowLimit(user);
       const warningThreshold = 2000;
+      // Within the role's limit but over the grant's threshold: the export needs an admin's approval
+      const approvalThreshold = await getExportApprovalThreshold(user, database, `${schema}.${tableName}`);
+      const needsApproval = approvalThreshold !== null && totalCount > approvalThreshold && totalCount <= maxRowsForRole;
+      // Rows left in the user's daily and monthly export quotas; null when uncapped
+      const quotaRemaining = await getRemainingExportQuota(user);
+      const exceedsQuota = quotaRemaining !== null && totalCount > quotaRemaining;
 
       res.json({
         totalCount,
-        isAdmin,
+        canExportAll,
         maxRowsForRole,
         warningThreshold,
-        canExport: totalCount <= maxRowsForRole,
+        approvalThreshold,
+        quotaRemaining,
+        canExport: totalCount <= maxRowsForRole && !needsApproval && !exceedsQuota,
         needsWarning: totalCount > warningThreshold,
+        needsApproval,
+        exceedsQuota,
         exceedsLimit: totalCount > maxRowsForRole,
       });
     } catch (err) {
-      console.error("Error checking export:", err);
-      res.status(500).json({
-        error: err instanceof Error ? err.message : "Failed to check export",
-      });
+      console.error("Error checking export:", err);
+      res.status(500).json({
+        error: err instanceof Error ? err.message : "Failed to check export",
+      });
+    }
+  });
+
+  app.get("/api/export", isAuthenticated, requirePermission("export"), async (req: Request, res: Response) => {
+    try {
+      const {
+        database,
+        table,
+        page = "1",
+        filters: filtersJson,
+        summarize: summarizeJson,
+        search,
+        searchColumns: searchColumnsJson,
+        exportAll,
+      } = req.query;
+
+      if (!database || !table) {
+        return res.status(400).json({ error: "Database and table are required" });
+      }
+
+      const format = parseExportFormat(req.query.format);
+      if (!format) {
+        return res.status(400).json({ error: "Invalid export format" });
+      }
+
+      // Parse filters (flat array or filter tree)
+      let filters: FilterTreeNode[] | FilterGroup = [];
+      if (filtersJson) {
+        try {
+          filters = JSON.parse(filtersJson as string);
+        } catch {
+          return res.status(400).json({ error: "Invalid filters format" });
+        }
+      }
+
+      let searchColumns: unknown = null;
+      if (searchColumnsJson) {
+        try {
+          searchColumns = JSON.parse(searchColumnsJson as string);
+        } catch {
+          return res.status(400).json({ error: "Invalid search columns format" });
+        }
+      }
+
+      let summarize: unknown;
+      if (summarizeJson) {
+        try {
+          summarize = JSON.parse(summarizeJson as string);
+        } catch {
+          return res.status(400).json({ error: "Invalid summarize format" });
+        }
+      }
+
+      const userId = (req.user as any)?.id;
+      const user = await authStorage.getUser(userId);
+      const prepared = await prepareTableExport(user, {
+        database: database as string,
+        table: table as string,
+        filters,
+        summarize,
+        search,
+        searchColumns,
+        exportAll: exportAll === "true",
+        page: parseInt(page as string, 10) || 1,
+      });
+      if (!prepared.valid) {
+        return res.status(prepared.status).json({ error: prepared.error });
+      }
+      const { pool, dataQuery, params, columnNames, tableName, filename } = prepared;
+      const isExportAll = exportAll === "true";
+
+      // Set headers for the streamed file
+      setExportHeaders(res, format, filename);
+      const writer = createExportWriter(format, res, columnNames, tableName);
+
+      let rowCount: number;
+      if (isExportAll) {
+        // Stream through a cursor so large exports never sit in memory
+        rowCount = await streamQueryExport(pool, dataQuery, params, writer);
+      } else {
+        // For single page, fetch all at once
+        const dataResult = await pool.query(dataQuery, params);
+        await writer.writeRows(dataResult.rows, dataResult.fields);
+        await writer.end();
+        rowCount = dataResult.rows.length;
+      }
+
+      // Audit log the export
+      logAudit({
+        userId: userId,
+        userEmail: user?.email || "unknown",
+        action: isExportAll ? "EXPORT_ALL" : "EXPORT_PAGE",
+        database: database as string,
+        table: table as string,
+        details: prepared.auditDetails(format),
+        ip: req.ip || req.socket.remoteAddress,
+        rowCount,
+      });
+
+      res.end();
+    } catch (err) {
+      console.error("Error exporting data:", err);
+      if (!res.headersSent) {
+        res.status(500).json({
+          error: err instanceof Error ? err.message : "Failed to export data",
+        });
+      }
+    }
+  });
+
+  // Start a background export of every filtered row; the file is downloaded later from the
+  // export center. Takes the same body as /api/export/check plus the format.
+  app.post("/api/export/jobs", isAuthenticated, requirePermission("export"), async (req: Request, res: Response) => {
+    try {
+      const { database, table, filters, summarize, search, searchColumns } = req.body;
+      if (!database || !table) {
+        return res.status(400).json({ error: "Database and table are required" });
+      }
+      const format = parseExportFormat(req.body.format);
+      if (!format) {
+        return res.status(400).json({ error: "Invalid export format" });
+      }
+
+      const userId = (req.user as any)?.id;
+      const user = await authStorage.getUser(userId);
+      const prepared = await prepareTableExport(user, {
+        database,
+        table,
+        filters: filters || [],
+        summarize,
+        search,
+        searchColumns,
+        exportAll: true,
+        page: 1,
+      });
+      if (!prepared.valid) {
+        return res.status(prepared.status).json({ error: prepared.error });
+      }
+
+      const job = await startTableExportJob(
+        user!, prepared, database, table, format, "background job", req.ip || req.socket.remoteAddress
+      );
+      res.json(job);
+    } catch (err) {
+      console.error("Error creating export job:", err);
+      res.status(500).json({ error: err instanceof Error ? err.message : "Failed to start export" });
     }
   });
 
-  app.get("/api/export", isAuthenticated, async (req: Request, res: Response) => {
+  // The user's recent background exports, newest first
+  app.get("/api/export/jobs", isAuthenticated, async (req: Request, res: Response) => {
     try {
-      const { database, table, page = "1", filters: filtersJson, exportAll } = req.query;
+      const userId = Number((req.user as any)?.id);
+      const jobs = await db
+        .select()
+        .from(exportJobs)
+        .where(eq(exportJobs.userId, userId))
+        .orderBy(desc(exportJobs.createdAt))
+        .limit(EXPORT_JOB_HISTORY_LIMIT);
+      res.json(jobs);
+    } catch (err) {
+      console.error("Error fetching export jobs:", err);
+      res.status(500).json({ error: "Failed to fetch export jobs" });
+    }
+  });
 
-      if (!database || !table) {
-        return res.status(400).json({ error: "Database and table are required" });
+  // Download a finished export. Table access is checked again, and every download is audited.
+  app.get("/api/export/jobs/:id/download", isAuthenticated, requirePermission("export"), async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any)?.id;
+      const [job] = await db
+        .select()
+        .from(exportJobs)
+        .where(and(eq(exportJobs.id, req.params.id), eq(exportJobs.userId, Number(userId))));
+      if (!job) {
+        return res.status(404).json({ error: "Export not found" });
+      }
+      if (job.status !== "completed" || (job.expiresAt && job.expiresAt <= new Date())) {
+        return res.status(410).json({ error: job.status === "expired" ? "This export has expired" : "This export isn't ready" });
       }
 
-      // Check table access for external customers
-      const userId = (req.user as any)?.id;
       const user = await authStorage.getUser(userId);
-      if (user?.role === "external_customer") {
+      if (!(await userCan(user, "access_all_tables"))) {
         const allowedTables = await getAllowedTables(userId);
-        if (!allowedTables.includes(`${database}:${table}`)) {
+        if (!allowedTables.includes(`${job.database}:${job.tableName}`)) {
           return res.status(403).json({ error: "You don't have access to this table" });
         }
       }
 
-      const [schema, tableName] = (table as string).split(".");
-      validateIdentifier(schema, "schema");
-      validateIdentifier(tableName, "table");
+      const file = exportFilePath(job);
+      if (!fs.existsSync(file)) {
+        return res.status(410).json({ error: "The export file is no longer available" });
+      }
 
-      const pool = getPool(database as string);
+      logAudit({
+        userId,
+        userEmail: user?.email || "unknown",
+        action: "EXPORT_DOWNLOAD",
+        database: job.database,
+        table: job.tableName,
+        details: `Downloaded background export ${job.id} (${job.rowsWritten} rows, ${job.format.toUpperCase()})`,
+        ip: req.ip || req.socket.remoteAddress,
+      });
 
-      // Parse filters
-      let filters: ActiveFilter[] = [];
-      if (filtersJson) {
-        try {
-          filters = JSON.parse(filtersJson as string);
-        } catch {
-          return res.status(400).json({ error: "Invalid filters format" });
-        }
+      setExportHeaders(res, job.format as ExportFormat, job.fileName);
+      if (job.fileSize !== null) res.setHeader("Content-Length", job.fileSize);
+      fs.createReadStream(file)
+        .on("error", (err) => {
+          console.error("Error reading export file:", err);
+          res.destroy(err);
+        })
+        .pipe(res);
+    } catch (err) {
+      console.error("Error downloading export:", err);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to download export" });
       }
+    }
+  });
 
-      // Validate columns
-      const columnsResult = await pool.query(
-        `
-        SELECT column_name
-        FROM information_schema.columns
-        WHERE table_schema = $1 AND table_name = $2
-        ORDER BY ordinal_position
-      `,
-        [schema, tableName]
-      );
-      const columnNames = columnsResult.rows.map((r) => r.column_name);
-      const validColumns = new Set(columnNames);
-
-      // Get primary key for ordering
-      const pkResult = await pool.query(
-        `
-        SELECT a.attname
-        FROM pg_index i
-        JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
-        WHERE i.indrelid = ($1 || '.' || $2)::regclass
-          AND i.indisprimary
-        ORDER BY a.attnum
-      `,
-        [schema, tableName]
-      );
+  // Cancel a queued or running export, or delete a finished one and its file
+  app.delete("/api/export/jobs/:id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = Number((req.user as any)?.id);
+      const [job] = await db
+        .select()
+        .from(exportJobs)
+        .where(and(eq(exportJobs.id, req.params.id), eq(exportJobs.userId, userId)));
+      if (!job) {
+        return res.status(404).json({ error: "Export not found" });
+      }
 
-      const orderByColumn =
-        pkResult.rows.length > 0 ? `"${pkResult.rows[0].attname}"` : "ctid";
+      if (job.status === "queued" || job.status === "running") {
+        await cancelExportJob(job.id);
+      } else {
+        await fs.promises.rm(exportFilePath(job), { force: true });
+        await db.delete(exportJobs).where(eq(exportJobs.id, job.id));
+      }
+      res.json({ success: true });
+    } catch (err) {
+      console.error("Error deleting export job:", err);
+      res.status(500).json({ error: "Failed to delete export" });
+    }
+  });
 
-      // Build WHERE clause
-      const whereClauses: string[] = [];
-      const params: unknown[] = [];
-      let paramIndex = 1;
+  // ========== EXPORT APPROVALS ==========
 
-      for (const filter of filters) {
-        validateIdentifier(filter.column, "column");
-        if (!validColumns.has(filter.column)) {
-          return res
-            .status(400)
-            .json({ error: `Invalid column: ${filter.column}` });
-        }
+  // Ask an admin to approve an export over the grant's approval threshold. Takes the same body
+  // as /api/export/check plus the format and an optional reason.
+  app.post("/api/export/approvals", isAuthenticated, requirePermission("export"), async (req: Request, res: Response) => {
+    try {
+      const { database, table, filters, summarize, search, searchColumns } = req.body;
+      if (!database || !table) {
+        return res.status(400).json({ error: "Database and table are required" });
+      }
+      const format = parseExportFormat(req.body.format);
+      if (!format) {
+        return res.status(400).json({ error: "Invalid export format" });
+      }
 
-        const op = getOperatorSQL(filter.operator, paramIndex);
-        whereClauses.push(`"${filter.column}" ${op.sql}`);
-
-        // Handle between operator (needs 2 params) and date conversion
-        if (filter.operator === "between" && Array.isArray(filter.value)) {
-          const startValue = convertPSTDateToUTC(filter.value[0], false);
-          const endValue = convertPSTDateToUTC(filter.value[1], true);
-          params.push(startValue, endValue);
-          paramIndex += 2;
-        } else if (["gt", "gte", "lt", "lte", "eq"].includes(filter.operator) && typeof filter.value === "string") {
-          // Check if this looks like a date filter
-          const dateMatch = filter.value.match(/^\d{4}-\d{2}-\d{2}$/);
-          if (dateMatch) {
-            const converted = convertPSTDateToUTC(filter.value, filter.operator === "lte" || filter.operator === "lt");
-            params.push(op.transform ? op.transform(converted) : converted);
-          } else {
-            params.push(op.transform ? op.transform(filter.value) : filter.value);
-          }
-          paramIndex++;
-        } else {
-          params.push(op.transform ? op.transform(filter.value) : filter.value);
-          paramIndex++;
-        }
+      const userId = (req.user as any)?.id;
+      const user = await authStorage.getUser(userId);
+      // Validates the request as the approved export would run it, and counts its rows
+      const prepared = await prepareTableExport(user, {
+        database,
+        table,
+        filters: filters || [],
+        summarize,
+        search,
+        searchColumns,
+        exportAll: true,
+        page: 1,
+        approved: true,
+      });
+      if (!prepared.valid) {
+        return res.status(prepared.status).json({ error: prepared.error });
+      }
+      const threshold = await getExportApprovalThreshold(user!, database, table);
+      if (threshold === null || prepared.totalCount <= threshold) {
+        return res.status(400).json({ error: "This export doesn't need approval" });
       }
 
-      const whereSQL =
-        whereClauses.length > 0 ? `WHERE ${whereClauses.join(" AND ")}` : "";
+      const reason = typeof req.body.reason === "string" && req.body.reason.trim() ? req.body.reason.trim() : null;
+      const [approval] = await db
+        .insert(exportApprovals)
+        .values({
+          userId: Number(userId),
+          database,
+          tableName: table,
+          format,
+          filters: filters || [],
+          search: typeof search === "string" && search ? search : null,
+          searchColumns: Array.isArray(searchColumns) ? searchColumns : null,
+          summarize: summarize || null,
+          estimatedRows: prepared.totalCount,
+          threshold,
+          reason,
+        })
+        .returning();
 
-      // Determine if exporting all rows
-      const isExportAll = exportAll === "true";
-      const isAdmin = user?.role === "admin";
-      const maxRowsForRole = isAdmin ? 50000 : 10000;
+      await logAudit({
+        userId,
+        userEmail: user?.email || "unknown",
+        action: "EXPORT_APPROVAL_REQUESTED",
+        database,
+        table,
+        details: `Requested approval ${approval.id} to export ${prepared.totalCount} rows as ${format.toUpperCase()} (threshold ${threshold})${reason ? `, reason: ${reason}` : ""}`,
+        ip: req.ip || req.socket.remoteAddress,
+      });
 
-      // If exporting all, verify row count doesn't exceed limits
-      let exportTotalCount = 0;
-      if (isExportAll) {
-        const countQuery = `SELECT COUNT(*) as count FROM "${schema}"."${tableName}" ${whereSQL}`;
-        const countResult = await pool.query(countQuery, params);
-        exportTotalCount = parseInt(countResult.rows[0].count, 10);
+      res.json(approval);
+    } catch (err) {
+      console.error("Error requesting export approval:", err);
+      res.status(500).json({ error: err instanceof Error ? err.message : "Failed to request approval" });
+    }
+  });
 
-        if (exportTotalCount > maxRowsForRole) {
-          return res.status(403).json({
-            error: isAdmin
-              ? `Export exceeds maximum limit of ${maxRowsForRole.toLocaleString()} rows`
-              : `Export exceeds your limit of ${maxRowsForRole.toLocaleString()} rows. Please contact an administrator for larger exports.`,
-          });
-        }
-      }
+  // The user's recent approval requests, newest first
+  app.get("/api/export/approvals", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = Number((req.user as any)?.id);
+      const approvals = await db
+        .select()
+        .from(exportApprovals)
+        .where(eq(exportApprovals.userId, userId))
+        .orderBy(desc(exportApprovals.createdAt))
+        .limit(EXPORT_JOB_HISTORY_LIMIT);
+      res.json(approvals);
+    } catch (err) {
+      console.error("Error fetching export approvals:", err);
+      res.status(500).json({ error: "Failed to fetch approval requests" });
+    }
+  });
 
-      // Calculate pagination
-      const pageNum = Math.max(1, parseInt(page as string, 10) || 1);
-      const offset = (pageNum - 1) * PAGE_SIZE;
+  // Pending requests plus the most recently reviewed ones, with requester emails (admin/washos)
+  app.get("/api/admin/export-approvals", isAuthenticated, requirePermission("manage_access"), async (_req: Request, res: Response) => {
+    try {
+      const approvals = await db
+        .select({ approval: exportApprovals, userEmail: users.email })
+        .from(exportApprovals)
+        .innerJoin(users, eq(exportApprovals.userId, users.id))
+        .orderBy(desc(exportApprovals.createdAt))
+        .limit(EXPORT_APPROVAL_HISTORY_LIMIT);
+      res.json(approvals.map(({ approval, userEmail }) => ({ ...approval, userEmail })));
+    } catch (err) {
+      console.error("Error fetching export approvals:", err);
+      res.status(500).json({ error: "Failed to fetch approval requests" });
+    }
+  });
 
-      // Build query based on export mode
-      let dataQuery: string;
-      let filename: string;
+  // Approve a pending request: the export runs as a background job for the requester, who
+  // downloads it from the export center until the file expires (admin/washos)
+  app.post("/api/admin/export-approvals/:id/approve", isAuthenticated, requirePermission("manage_access"), async (req: Request, res: Response) => {
+    try {
+      const reviewerId = (req.user as any)?.id;
+      const reviewer = await authStorage.getUser(reviewerId);
+      const [approval] = await db.select().from(exportApprovals).where(eq(exportApprovals.id, req.params.id));
+      if (!approval) {
+        return res.status(404).json({ error: "Approval request not found" });
+      }
+      if (approval.status !== "pending") {
+        return res.status(409).json({ error: `This request was already ${approval.status}` });
+      }
+
+      // The requester's access is checked again; grants may have changed since the request
+      const requester = await authStorage.getUser(approval.userId);
+      if (!requester) {
+        return res.status(404).json({ error: "The requester's account no longer exists" });
+      }
+      if (!requester.isActive) {
+        return res.status(409).json({ error: "The requester's account is inactive" });
+      }
+      const prepared = await prepareTableExport(requester, {
+        database: approval.database,
+        table: approval.tableName,
+        filters: approval.filters,
+        summarize: approval.summarize ?? undefined,
+        search: approval.search ?? undefined,
+        searchColumns: approval.searchColumns ?? undefined,
+        exportAll: true,
+        page: 1,
+        approved: true,
+      });
+      if (!prepared.valid) {
+        return res.status(400).json({ error: `The export can't run: ${prepared.error}` });
+      }
+      // The approval covers the rows that were reviewed; an export that has grown since needs a new request
+      if (prepared.totalCount > approval.estimatedRows) {
+        return res.status(409).json({
+          error: `The export now has ${prepared.totalCount.toLocaleString()} rows, more than the ${approval.estimatedRows.toLocaleString()} that were requested. Ask the requester to submit it again.`,
+        });
+      }
 
-      if (isExportAll) {
-        // Export all filtered rows - use validated count as LIMIT for consistency
-        dataQuery = `
-          SELECT * FROM "${schema}"."${tableName}"
-          ${whereSQL}
-          ORDER BY ${orderByColumn} ASC
-          LIMIT ${exportTotalCount}
-        `;
-        filename = `${tableName}_export.csv`;
-      } else {
-        // Export single page
-        dataQuery = `
-          SELECT * FROM "${schema}"."${tableName}"
-          ${whereSQL}
-          ORDER BY ${orderByColumn} ASC
-          LIMIT ${PAGE_SIZE}
-          OFFSET ${offset}
-        `;
-        filename = `${tableName}_page${pageNum}.csv`;
-      }
-
-      // Set headers for streaming CSV
-      res.setHeader("Content-Type", "text/csv");
-      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
-
-      // Generate CSV with streaming for large exports
-      const escapeCSV = (value: unknown): string => {
-        if (value === null || value === undefined) return "";
-        const str = typeof value === "object" ? JSON.stringify(value) : String(value);
-        if (str.includes(",") || str.includes('"') || str.includes("\n")) {
-          return `"${str.replace(/"/g, '""')}"`;
-        }
-        return str;
-      };
+      const comment = typeof req.body.comment === "string" && req.body.comment.trim() ? req.body.comment.trim() : null;
+      const [reviewed] = await db
+        .update(exportApprovals)
+        .set({ status: "approved", reviewedBy: Number(reviewerId), reviewComment: comment, reviewedAt: new Date() })
+        .where(and(eq(exportApprovals.id, approval.id), eq(exportApprovals.status, "pending")))
+        .returning();
+      if (!reviewed) {
+        return res.status(409).json({ error: "This request was already reviewed" });
+      }
 
-      // Write header
-      res.write(columnNames.map(escapeCSV).join(",") + "\n");
+      const format = approval.format as ExportFormat;
+      const job = await startTableExportJob(
+        requester, prepared, approval.database, approval.tableName, format, "approved request"
+      );
+      await db.update(exportApprovals).set({ exportJobId: job.id }).where(eq(exportApprovals.id, approval.id));
 
-      // Use cursor for large exports to stream data
-      if (isExportAll) {
-        const client = await pool.connect();
-        const cursorName = `export_cursor_${Date.now()}`;
-        let transactionStarted = false;
+      await logAudit({
+        userId: reviewerId,
+        userEmail: reviewer?.email || "unknown",
+        action: "EXPORT_APPROVAL_APPROVED",
+        database: approval.database,
+        table: approval.tableName,
+        details: `Approved request ${approval.id} from ${requester.email} (${approval.estimatedRows} rows as ${format.toUpperCase()}, export job ${job.id})${comment ? `: ${comment}` : ""}`,
+        ip: req.ip || req.socket.remoteAddress,
+      });
 
-        try {
-          // Create a cursor for streaming large result sets
-          await client.query("BEGIN");
-          transactionStarted = true;
-          await client.query(`DECLARE ${cursorName} CURSOR FOR ${dataQuery}`, params);
-
-          const batchSize = 1000;
-          let hasMore = true;
-
-          while (hasMore) {
-            const batchResult = await client.query(`FETCH ${batchSize} FROM ${cursorName}`);
-            if (batchResult.rows.length === 0) {
-              hasMore = false;
-            } else {
-              for (const row of batchResult.rows) {
-                res.write(columnNames.map((col) => escapeCSV(row[col])).join(",") + "\n");
-              }
-            }
-          }
+      res.json({ ...reviewed, exportJobId: job.id });
+    } catch (err) {
+      console.error("Error approving export:", err);
+      res.status(500).json({ error: "Failed to approve export" });
+    }
+  });
 
-          await client.query(`CLOSE ${cursorName}`);
-          await client.query("COMMIT");
-        } catch (streamError) {
-          // Rollback transaction on any streaming error to prevent poisoned connections
-          if (transactionStarted) {
-            try {
-              await client.query("ROLLBACK");
-            } catch (rollbackError) {
-              console.error("Error rolling back export transaction:", rollbackError);
-            }
-          }
-          throw streamError;
-        } finally {
-          client.release();
-        }
-      } else {
-        // For single page, fetch all at once
-        const dataResult = await pool.query(dataQuery, params);
-        for (const row of dataResult.rows) {
-          res.write(columnNames.map((col) => escapeCSV(row[col])).join(",") + "\n");
-        }
+  // Deny a pending request (admin/washos)
+  app.post("/api/admin/export-approvals/:id/deny", isAuthenticated, requirePermission("manage_access"), async (req: Request, res: Response) => {
+    try {
+      const reviewerId = (req.user as any)?.id;
+      const reviewer = await authStorage.getUser(reviewerId);
+      const comment = typeof req.body.comment === "string" && req.body.comment.trim() ? req.body.comment.trim() : null;
+      const [reviewed] = await db
+        .update(exportApprovals)
+        .set({ status: "denied", reviewedBy: Number(reviewerId), reviewComment: comment, reviewedAt: new Date() })
+        .where(and(eq(exportApprovals.id, req.params.id), eq(exportApprovals.status, "pending")))
+        .returning();
+      if (!reviewed) {
+        return res.status(409).json({ error: "This request isn't pending" });
       }
 
-      // Audit log the export
-      logAudit({
-        userId: userId,
-        userEmail: user?.email || "unknown",
-        action: isExportAll ? "EXPORT_ALL" : "EXPORT_PAGE",
-        database: database as string,
-        table: table as string,
-        details: isExportAll
-          ? `Exported ${exportTotalCount} rows${filters.length > 0 ? `, ${filters.length} filters applied` : ''}`
-          : `Exported page ${pageNum}${filters.length > 0 ? `, ${filters.length} filters applied` : ''}`,
+      const requester = await authStorage.getUser(reviewed.userId);
+      await logAudit({
+        userId: reviewerId,
+        userEmail: reviewer?.email || "unknown",
+        action: "EXPORT_APPROVAL_DENIED",
+        database: reviewed.database,
+        table: reviewed.tableName,
+        details: `Denied request ${reviewed.id} from ${requester?.email || "unknown"} (${reviewed.estimatedRows} rows as ${reviewed.format.toUpperCase()})${comment ? `: ${comment}` : ""}`,
         ip: req.ip || req.socket.remoteAddress,
       });
 
-      res.end();
+      res.json(reviewed);
     } catch (err) {
-      console.error("Error exporting CSV:", err);
-      if (!res.headersSent) {
-        res.status(500).json({
-          error: err instanceof Error ? err.message : "Failed to export CSV",
-        });
-      }
+      console.error("Error denying export:", err);
+      res.status(500).json({ error: "Failed to deny export" });
     }
   });
 
@@ -1916,7 +5248,7 @@ export async function registerRoutes(
   });
 
   // Natural Language Query (upgraded with modular AI)
-  app.post("/api/nlq", isAuthenticated, async (req: Request, res: Response) => {
+  app.post("/api/nlq", isAuthenticated, requirePermission("use_nlq"), async (req: Request, res: Response) => {
     try {
       const { database, query, table: currentTable, context } = req.body;
 
@@ -1935,7 +5267,7 @@ export async function registerRoutes(
 
       const userId = (req.user as any)?.id;
       const user = await authStorage.getUser(userId);
-      if (user?.role === "external_customer") {
+      if (!(await userCan(user, "access_all_tables"))) {
         const allowedTables = await getAllowedTables(userId);
         if (!allowedTables.includes(`${database}:${currentTable}`)) {
           return res.status(403).json({ error: "You don't have access to this table" });
@@ -1945,21 +5277,29 @@ export async function registerRoutes(
       const pool = getPool(database);
       const [schema, tableName] = currentTable.split(".");
 
-      const dictionary = await getTableDataDictionary(pool, database, schema, tableName);
+      // The prompt only sees sampled values the user's role could see in the rows. Samples
+      // span the whole table, so they're left out for users limited to some rows by a grant.
+      const masks = await getUserColumnMasks(database, schema, tableName, user);
+      const rowFilter = await getGrantRowFilter(user, database, currentTable);
+      const rawDictionary = await getTableDataDictionary(pool, database, schema, tableName);
+      const maskedDictionary = rawDictionary && maskDataDictionary(rawDictionary, masks);
+      const dictionary = maskedDictionary && rowFilter ? withoutSampledValues(maskedDictionary) : maskedDictionary;
 
       let columnsWithTypes: Array<{ name: string; dataType: string }> = [];
       if (dictionary) {
         columnsWithTypes = dictionary.columns.map(c => ({ name: c.name, dataType: c.dataType }));
       } else {
         const columnsResult = await pool.query(
-          `SELECT column_name, data_type FROM information_schema.columns 
+          `SELECT column_name, data_type FROM ${TABLE_COLUMNS_SQL} 
            WHERE table_schema = $1 AND table_name = $2 ORDER BY ordinal_position`,
           [schema, tableName]
         );
-        columnsWithTypes = columnsResult.rows.map((r) => ({
-          name: r.column_name,
-          dataType: r.data_type,
-        }));
+        columnsWithTypes = columnsResult.rows
+          .filter((r) => masks.get(r.column_name) !== "hide")
+          .map((r) => ({
+            name: r.column_name,
+            dataType: r.data_type,
+          }));
       }
 
       const dateColumnNames = columnsWithTypes
@@ -2035,7 +5375,7 @@ export async function registerRoutes(
   });
 
   // NLQ Smart Follow-up (upgraded with modular AI)
-  app.post("/api/nlq/smart-followup", isAuthenticated, async (req: Request, res: Response) => {
+  app.post("/api/nlq/smart-followup", isAuthenticated, requirePermission("use_nlq"), async (req: Request, res: Response) => {
     try {
       const { database, table: currentTable, filters, context } = req.body;
 
@@ -2051,7 +5391,7 @@ export async function registerRoutes(
 
       const userId = (req.user as any)?.id;
       const user = await authStorage.getUser(userId);
-      if (user?.role === "external_customer") {
+      if (!(await userCan(user, "access_all_tables"))) {
         const allowedTables = await getAllowedTables(userId);
         if (!allowedTables.includes(`${database}:${currentTable}`)) {
           return res.status(403).json({ error: "You don't have access to this table" });
@@ -2071,7 +5411,11 @@ export async function registerRoutes(
       const pool = getPool(database);
       const [schema, tableName] = currentTable.split(".");
 
-      const dictionary = await getTableDataDictionary(pool, database, schema, tableName);
+      const masks = await getUserColumnMasks(database, schema, tableName, user);
+      const rowFilter = await getGrantRowFilter(user, database, currentTable);
+      const rawDictionary = await getTableDataDictionary(pool, database, schema, tableName);
+      const maskedDictionary = rawDictionary && maskDataDictionary(rawDictionary, masks);
+      const dictionary = maskedDictionary && rowFilter ? withoutSampledValues(maskedDictionary) : maskedDictionary;
 
       const columnTypes: Record<string, string> = {};
       if (dictionary) {
@@ -2080,7 +5424,7 @@ export async function registerRoutes(
         });
       } else {
         const columnsResult = await pool.query(
-          `SELECT column_name, data_type FROM information_schema.columns 
+          `SELECT column_name, data_type FROM ${TABLE_COLUMNS_SQL} 
            WHERE table_schema = $1 AND table_name = $2`,
           [schema, tableName]
         );
@@ -2102,10 +5446,10 @@ export async function registerRoutes(
       }
       const columnSamples: ColumnSample[] = [];
 
-      const queryWithTimeout = async (queryStr: string): Promise<any> => {
+      const queryWithTimeout = async (queryStr: string, queryParams: unknown[] = []): Promise<any> => {
         return new Promise((resolve, reject) => {
           const timeoutId = setTimeout(() => reject(new Error("Timeout")), TIMEOUT_MS);
-          pool.query(queryStr)
+          pool.query(queryStr, queryParams)
             .then((result) => {
               clearTimeout(timeoutId);
               resolve(result);
@@ -2117,10 +5461,16 @@ export async function registerRoutes(
         });
       };
 
+      // Sampling stays within the rows the user's grants allow
+      const sampleParams: unknown[] = [];
+      const grantSQL = rowFilter ? buildFilterSQL(rowFilter, sampleParams, (column) => `"${column}"`) : null;
+      const grantCondition = grantSQL ? ` AND ${grantSQL}` : "";
+
       for (const filter of filters) {
         const colName = filter.column;
         const dataType = columnTypes[colName];
-        if (!dataType) continue;
+        // Masked columns are never sampled, their values would end up in the prompt
+        if (!dataType || masks.has(colName)) continue;
 
         const sample: ColumnSample = {
           column: colName,
@@ -2143,14 +5493,14 @@ export async function registerRoutes(
             if (dataType.includes("character") || dataType.includes("text") || dataType === "USER-DEFINED") {
               const result = await queryWithTimeout(`
                 SELECT DISTINCT "${colName}" as val FROM "${schema}"."${tableName}" 
-                WHERE "${colName}" IS NOT NULL ORDER BY "${colName}" LIMIT ${MAX_DISTINCT_VALUES}
-              `);
+                WHERE "${colName}" IS NOT NULL${grantCondition} ORDER BY "${colName}" LIMIT ${MAX_DISTINCT_VALUES}
+              `, sampleParams);
               sample.actualValues = result.rows.map((r: any) => String(r.val));
             } else if (dataType.includes("date") || dataType.includes("timestamp")) {
               const result = await queryWithTimeout(`
                 SELECT MIN("${colName}")::text as min_val, MAX("${colName}")::text as max_val 
-                FROM "${schema}"."${tableName}" WHERE "${colName}" IS NOT NULL
-              `);
+                FROM "${schema}"."${tableName}" WHERE "${colName}" IS NOT NULL${grantCondition}
+              `, sampleParams);
               if (result.rows[0]) {
                 sample.dateRange = { min: result.rows[0].min_val, max: result.rows[0].max_val };
               }
@@ -2273,7 +5623,7 @@ export async function registerRoutes(
   });
 
   // Create a new report page
-  app.post("/api/reports/pages", isAuthenticated, reportLimiter, async (req, res) => {
+  app.post("/api/reports/pages", isAuthenticated, requirePermission("manage_reports"), reportLimiter, async (req, res) => {
     try {
       const userId = (req.user as any)?.id;
       const user = await authStorage.getUser(userId);
@@ -2341,7 +5691,7 @@ export async function registerRoutes(
   });
 
   // Update a report page
-  app.patch("/api/reports/pages/:id", isAuthenticated, reportLimiter, async (req, res) => {
+  app.patch("/api/reports/pages/:id", isAuthenticated, requirePermission("manage_reports"), reportLimiter, async (req, res) => {
     try {
       const userId = (req.user as any)?.id;
       const user = await authStorage.getUser(userId);
@@ -2390,7 +5740,7 @@ export async function registerRoutes(
   });
 
   // Delete (archive) a report page
-  app.delete("/api/reports/pages/:id", isAuthenticated, reportLimiter, async (req, res) => {
+  app.delete("/api/reports/pages/:id", isAuthenticated, requirePermission("manage_reports"), reportLimiter, async (req, res) => {
     try {
       const userId = (req.user as any)?.id;
       const user = await authStorage.getUser(userId);
@@ -2431,7 +5781,7 @@ export async function registerRoutes(
   });
 
   // Create a report block
-  app.post("/api/reports/pages/:pageId/blocks", isAuthenticated, reportLimiter, async (req, res) => {
+  app.post("/api/reports/pages/:pageId/blocks", isAuthenticated, requirePermission("manage_reports"), reportLimiter, async (req, res) => {
     try {
       const userId = (req.user as any)?.id;
       const user = await authStorage.getUser(userId);
@@ -2498,7 +5848,7 @@ export async function registerRoutes(
   });
 
   // Update a report block
-  app.patch("/api/reports/blocks/:id", isAuthenticated, reportLimiter, async (req, res) => {
+  app.patch("/api/reports/blocks/:id", isAuthenticated, requirePermission("manage_reports"), reportLimiter, async (req, res) => {
     try {
       const userId = (req.user as any)?.id;
       const user = await authStorage.getUser(userId);
@@ -2560,7 +5910,7 @@ export async function registerRoutes(
   });
 
   // Delete a report block
-  app.delete("/api/reports/blocks/:id", isAuthenticated, reportLimiter, async (req, res) => {
+  app.delete("/api/reports/blocks/:id", isAuthenticated, requirePermission("manage_reports"), reportLimiter, async (req, res) => {
     try {
       const userId = (req.user as any)?.id;
       const user = await authStorage.getUser(userId);
@@ -2622,7 +5972,19 @@ export async function registerRoutes(
       const { id } = req.params;
       const { page: pageNum = 1, exportAll = false } = req.body; // Pagination support
       const currentPage = Math.max(1, parseInt(pageNum) || 1);
-      const MAX_EXPORT_ROWS = 10000; // Safety limit for exports
+
+      // Exports are sent as a file download in the requested format
+      const format = parseExportFormat(req.body.format);
+      if (!format) {
+        return res.status(400).json({ error: "Invalid export format" });
+      }
+      if (exportAll && !(await userCan(user, "export"))) {
+        return res.status(403).json({ error: "Export not available for your role" });
+      }
+      // A block export is every row of the block, so it also needs export_all
+      if (exportAll && !(await userCan(user, "export_all"))) {
+        return res.status(403).json({ error: "Your role can't export all rows" });
+      }
 
       // Get block and verify ownership through page
       const [block] = await db.select().from(reportBlocks).where(eq(reportBlocks.id, id));
@@ -2662,10 +6024,35 @@ export async function registerRoutes(
         return res.status(400).json({ error: "Invalid table name" });
       }
       const tableRef = `"${parsedTable.schema}"."${parsedTable.table}"`;
+      const masks = await getUserColumnMasks(config.database, parsedTable.schema, parsedTable.table, user);
+
+      // Joined tables bring their own masks
+      const joinConfig = (config as any).join as TableBlockConfig["join"] | undefined;
+      const joinParsedForMasks = joinConfig?.table ? parseTableName(joinConfig.table) : null;
+      const subJoinParsedForMasks = joinConfig?.subJoin?.table ? parseTableName(joinConfig.subJoin.table) : null;
+      const joinMasks: ColumnMasks = joinParsedForMasks
+        ? await getUserColumnMasks(config.database, joinParsedForMasks.schema, joinParsedForMasks.table, user)
+        : new Map();
+      const subJoinMasks: ColumnMasks = subJoinParsedForMasks
+        ? await getUserColumnMasks(config.database, subJoinParsedForMasks.schema, subJoinParsedForMasks.table, user)
+        : new Map();
+      const isMaskedColumn = (column: string) => {
+        if (!column.includes(".")) return masks.has(column);
+        const colName = column.split(".")[1];
+        return joinMasks.has(colName) || subJoinMasks.has(colName);
+      };
 
       let query: string;
       let params: any[] = [];
 
+      // Masked columns can't drive filters, sorting or aggregates, only be displayed through their mask
+      const maskedFilterColumn = collectFilterConditions(config.filters)
+        .map((f) => f.column)
+        .find(isMaskedColumn);
+      if (maskedFilterColumn) {
+        return res.status(400).json({ error: `Column ${maskedFilterColumn} is masked and can't be filtered on` });
+      }
+
       if (block.kind === "table") {
         const tableConfig = config as TableBlockConfig;
         const mainAlias = "t1";
@@ -2680,28 +6067,66 @@ export async function registerRoutes(
         // Build column list with proper table aliases for joins
         let columns: string;
         if (tableConfig.columns?.length > 0) {
-          columns = tableConfig.columns.map(c => {
+          const selectItems: string[] = [];
+          for (const c of tableConfig.columns) {
+            let ref: string;
+            let alias: string | null = null;
+            let mask: ColumnMask | undefined;
             if (c.includes(".")) {
               // Column from joined table (e.g., "joined.email" or "joined_district.name")
               const [prefix, colName] = c.split(".");
               validateIdentifier(colName, "column");
+              alias = c.replace(".", "_");
               // Determine which join table this column belongs to
               if (isSubJoinColumn(prefix) && tableConfig.join?.subJoin) {
-                return `${subJoinAlias}."${colName}" AS "${c.replace(".", "_")}"`;
+                ref = `${subJoinAlias}."${colName}"`;
+                mask = subJoinMasks.get(colName);
               } else {
-                return `${joinAlias}."${colName}" AS "${c.replace(".", "_")}"`;
+                ref = `${joinAlias}."${colName}"`;
+                mask = joinMasks.get(colName);
               }
             } else {
               validateIdentifier(c, "column");
-              return `${mainAlias}."${c}"`;
+              ref = `${mainAlias}."${c}"`;
+              mask = masks.get(c);
+              if (mask) alias = c;
             }
-          }).join(", ");
+            if (mask === "hide") continue;
+            const expr = mask ? maskColumnSQL(ref, mask) : ref;
+            selectItems.push(alias ? `${expr} AS "${alias}"` : expr);
+          }
+          if (selectItems.length === 0) {
+            return res.status(400).json({ error: "None of the block's columns are available" });
+          }
+          columns = selectItems.join(", ");
+        } else if (masks.size > 0) {
+          const mainColumnsResult = await pool.query(
+            `SELECT column_name FROM ${TABLE_COLUMNS_SQL} WHERE table_schema = $1 AND table_name = $2 ORDER BY ordinal_position`,
+            [parsedTable.schema, parsedTable.table]
+          );
+          columns = buildMaskedSelectList(mainColumnsResult.rows.map((r) => r.column_name), masks, mainAlias).join(", ");
         } else {
           columns = `${mainAlias}.*`;
         }
 
         query = `SELECT ${columns} FROM ${tableRef} AS ${mainAlias}`;
 
+        // Row predicates from the user's grants: the main table's go in WHERE, a joined
+        // table's in its ON clause so a LEFT JOIN still keeps the main row
+        const grantSQL = await buildGrantRowFilterSQL(
+          user, config.database, parsedTable.schema, parsedTable.table, params, (c) => `${mainAlias}."${c}"`
+        );
+        const joinGrantSQL = joinParsedForMasks
+          ? await buildGrantRowFilterSQL(
+            user, config.database, joinParsedForMasks.schema, joinParsedForMasks.table, params, (c) => `${joinAlias}."${c}"`
+          )
+          : null;
+        const subJoinGrantSQL = subJoinParsedForMasks
+          ? await buildGrantRowFilterSQL(
+            user, config.database, subJoinParsedForMasks.schema, subJoinParsedForMasks.table, params, (c) => `${subJoinAlias}."${c}"`
+          )
+          : null;
+
         // Add JOIN if specified
         if (tableConfig.join?.table) {
           const joinParsed = parseTableName(tableConfig.join.table);
@@ -2713,7 +6138,7 @@ export async function registerRoutes(
           const [fromCol, toCol] = tableConfig.join.on;
           validateIdentifier(fromCol, "column");
           validateIdentifier(toCol, "column");
-          query += ` ${joinType} ${joinTableRef} AS ${joinAlias} ON ${mainAlias}."${fromCol}" = ${joinAlias}."${toCol}"`;
+          query += ` ${joinType} ${joinTableRef} AS ${joinAlias} ON ${mainAlias}."${fromCol}" = ${joinAlias}."${toCol}"${joinGrantSQL ? ` AND ${joinGrantSQL}` : ""}`;
 
           // Add subJoin if specified (nested join: main -> join -> subJoin)
           if (tableConfig.join.subJoin?.table) {
@@ -2726,32 +6151,27 @@ export async function registerRoutes(
             const [subFromCol, subToCol] = tableConfig.join.subJoin.on;
             validateIdentifier(subFromCol, "column");
             validateIdentifier(subToCol, "column");
-            query += ` ${subJoinType} ${subJoinTableRef} AS ${subJoinAlias} ON ${joinAlias}."${subFromCol}" = ${subJoinAlias}."${subToCol}"`;
+            query += ` ${subJoinType} ${subJoinTableRef} AS ${subJoinAlias} ON ${joinAlias}."${subFromCol}" = ${subJoinAlias}."${subToCol}"${subJoinGrantSQL ? ` AND ${subJoinGrantSQL}` : ""}`;
           }
         }
 
         // Add filters (handle join columns with dots)
-        if (tableConfig.filters?.length > 0) {
-          const whereClauses: string[] = [];
-          tableConfig.filters.forEach((f) => {
-            let columnRef: string;
-            if (f.column.includes(".")) {
-              // Column from joined table (e.g., "joined.status" or "joined_district.name")
-              const [prefix, colName] = f.column.split(".");
-              validateIdentifier(colName, "column");
-              if (isSubJoinColumn(prefix) && tableConfig.join?.subJoin) {
-                columnRef = `${subJoinAlias}."${colName}"`;
-              } else {
-                columnRef = `${joinAlias}."${colName}"`;
-              }
-            } else {
-              validateIdentifier(f.column, "column");
-              columnRef = `${mainAlias}."${f.column}"`;
+        const blockFilterSQL = buildFilterSQL(tableConfig.filters, params, (column) => {
+          if (column.includes(".")) {
+            // Column from joined table (e.g., "joined.status" or "joined_district.name")
+            const [prefix, colName] = column.split(".");
+            validateIdentifier(colName, "column");
+            if (isSubJoinColumn(prefix) && tableConfig.join?.subJoin) {
+              return `${subJoinAlias}."${colName}"`;
             }
-            const filterWithAlias = { ...f, column: columnRef };
-            addFilterToQueryWithAlias(filterWithAlias as any, params, whereClauses);
-          });
-          query += ` WHERE ${whereClauses.join(" AND ")}`;
+            return `${joinAlias}."${colName}"`;
+          }
+          validateIdentifier(column, "column");
+          return `${mainAlias}."${column}"`;
+        });
+        const blockWhereSQL = [blockFilterSQL, grantSQL].filter(Boolean).join(" AND ");
+        if (blockWhereSQL) {
+          query += ` WHERE ${blockWhereSQL}`;
         }
 
         // Build base query for counting
@@ -2762,7 +6182,7 @@ export async function registerRoutes(
             const joinTableRef = `"${joinParsed.schema}"."${joinParsed.table}"`;
             const joinType = tableConfig.join.type === "inner" ? "INNER JOIN" : "LEFT JOIN";
             const [fromCol, toCol] = tableConfig.join.on;
-            baseQuery += ` ${joinType} ${joinTableRef} AS ${joinAlias} ON ${mainAlias}."${fromCol}" = ${joinAlias}."${toCol}"`;
+            baseQuery += ` ${joinType} ${joinTableRef} AS ${joinAlias} ON ${mainAlias}."${fromCol}" = ${joinAlias}."${toCol}"${joinGrantSQL ? ` AND ${joinGrantSQL}` : ""}`;
 
             // Add subJoin to base query if specified
             if (tableConfig.join.subJoin?.table) {
@@ -2771,13 +6191,13 @@ export async function registerRoutes(
                 const subJoinTableRef = `"${subJoinParsed.schema}"."${subJoinParsed.table}"`;
                 const subJoinType = tableConfig.join.subJoin.type === "inner" ? "INNER JOIN" : "LEFT JOIN";
                 const [subFromCol, subToCol] = tableConfig.join.subJoin.on;
-                baseQuery += ` ${subJoinType} ${subJoinTableRef} AS ${subJoinAlias} ON ${joinAlias}."${subFromCol}" = ${subJoinAlias}."${subToCol}"`;
+                baseQuery += ` ${subJoinType} ${subJoinTableRef} AS ${subJoinAlias} ON ${joinAlias}."${subFromCol}" = ${subJoinAlias}."${subToCol}"${subJoinGrantSQL ? ` AND ${subJoinGrantSQL}` : ""}`;
               }
             }
           }
         }
-        if (tableConfig.filters?.length > 0) {
-          baseQuery += ` WHERE ${query.split(" WHERE ")[1]?.split(" ORDER BY ")[0] || "1=1"}`;
+        if (blockWhereSQL) {
+          baseQuery += ` WHERE ${blockWhereSQL}`;
         }
 
         // Get total count
@@ -2789,6 +6209,9 @@ export async function registerRoutes(
 
         // Add order by (handle join columns with dots)
         if (tableConfig.orderBy && typeof tableConfig.orderBy === 'object' && !Array.isArray(tableConfig.orderBy) && tableConfig.orderBy.column) {
+          if (isMaskedColumn(tableConfig.orderBy.column)) {
+            return res.status(400).json({ error: `Column ${tableConfig.orderBy.column} is masked and can't be sorted on` });
+          }
           let orderColumnRef: string;
           if (tableConfig.orderBy.column.includes(".")) {
             const [prefix, colName] = tableConfig.orderBy.column.split(".");
@@ -2805,24 +6228,58 @@ export async function registerRoutes(
           query += ` ORDER BY ${orderColumnRef} ${tableConfig.orderBy.direction === "desc" ? "DESC" : "ASC"}`;
         }
 
-        // Add pagination or export limit
         if (exportAll) {
-          query += ` LIMIT ${MAX_EXPORT_ROWS}`;
-        } else {
-          query += ` LIMIT ${REPORT_BLOCK_PAGE_SIZE} OFFSET ${offset}`;
+          // Exports stream through a cursor, up to the role's export row limit. Exports over the
+          // user's remaining quota are refused rather than cut short.
+          const rowLimit = await getExportRowLimit(user);
+          const exportRows = Math.min(totalCount, rowLimit);
+          const quotaRemaining = await getRemainingExportQuota(user);
+          if (quotaRemaining !== null && exportRows > quotaRemaining) {
+            return res.status(429).json({ error: exportQuotaError(quotaRemaining, exportRows) });
+          }
+
+          // Approval thresholds on the grants of any of the block's tables apply as they do to
+          // table exports; approved exports go through the data viewer
+          const exportTables = [parsedTable, joinParsedForMasks, subJoinParsedForMasks].filter((t) => t !== null);
+          for (const exportTable of exportTables) {
+            const approvalThreshold = await getExportApprovalThreshold(
+              user, config.database, `${exportTable.schema}.${exportTable.table}`
+            );
+            if (approvalThreshold !== null && exportRows > approvalThreshold) {
+              return res.status(403).json({
+                error: `Exports of more than ${approvalThreshold.toLocaleString()} rows from this table need an administrator's approval`,
+              });
+            }
+          }
+          const { fields } = await pool.query(`${query} LIMIT 0`, params);
+          const title = block.title || "report";
+          setExportHeaders(res, format, `${title.replace(/[^\w.-]+/g, "_")}_${new Date().toISOString().split("T")[0]}`);
+          const writer = createExportWriter(format, res, fields.map((f) => f.name), title);
+          const rowCount = await streamQueryExport(pool, `${query} LIMIT ${rowLimit}`, params, writer);
+
+          await logAudit({
+            userId,
+            userEmail: user.email,
+            action: "REPORT_EXPORT",
+            database: config.database,
+            table: config.table,
+            details: `Table block export: ${rowCount} rows as ${format.toUpperCase()}${rowCount >= rowLimit ? ` (stopped at the ${rowLimit} row limit)` : ''}${tableConfig.join ? ` (joined with ${tableConfig.join.table})` : ''}`,
+            ip: req.ip || req.socket.remoteAddress,
+            rowCount,
+          });
+          return res.end();
         }
 
+        query += ` LIMIT ${REPORT_BLOCK_PAGE_SIZE} OFFSET ${offset}`;
         const result = await pool.query(query, params);
 
         await logAudit({
           userId,
           userEmail: user.email,
-          action: exportAll ? "REPORT_EXPORT" : "REPORT_QUERY",
+          action: "REPORT_QUERY",
           database: config.database,
           table: config.table,
-          details: exportAll
-            ? `Table block export: ${result.rows.length} rows${tableConfig.join ? ` (joined with ${tableConfig.join.table})` : ''}`
-            : `Table block query: page ${safePage} of ${totalPages} (${result.rows.length} rows)${tableConfig.join ? ` (joined with ${tableConfig.join.table})` : ''}`,
+          details: `Table block query: page ${safePage} of ${totalPages} (${result.rows.length} rows)${tableConfig.join ? ` (joined with ${tableConfig.join.table})` : ''}`,
           ip: req.ip || req.socket.remoteAddress,
         });
 
@@ -2831,15 +6288,24 @@ export async function registerRoutes(
           rows: result.rows,
           rowCount: result.rows.length,
           totalCount,
-          page: exportAll ? 1 : safePage,
-          pageSize: exportAll ? result.rows.length : REPORT_BLOCK_PAGE_SIZE,
-          totalPages: exportAll ? 1 : totalPages
+          page: safePage,
+          pageSize: REPORT_BLOCK_PAGE_SIZE,
+          totalPages
         });
 
       } else if (block.kind === "chart") {
         const chartConfig = config as ChartBlockConfig;
         validateIdentifier(chartConfig.xColumn, "column");
         validateIdentifier(chartConfig.yColumn, "column");
+        const maskedChartColumn = [chartConfig.xColumn, chartConfig.yColumn, chartConfig.groupBy]
+          .find((column) => column && masks.has(column));
+        if (maskedChartColumn) {
+          return res.status(400).json({ error: `Column ${maskedChartColumn} is masked and can't be charted` });
+        }
+
+        const chartGrantSQL = await buildGrantRowFilterSQL(
+          user, config.database, parsedTable.schema, parsedTable.table, params
+        );
 
         let selectPart: string;
         if (chartConfig.aggregateFunction && chartConfig.groupBy) {
@@ -2891,12 +6357,13 @@ export async function registerRoutes(
           query = `SELECT ${selectPart} FROM ${tableRef}`;
 
           // Add filters
-          if (chartConfig.filters?.length > 0) {
-            const whereClauses: string[] = [];
-            chartConfig.filters.forEach((f) => {
-              addFilterToQuery(f, params, whereClauses);
-            });
-            query += ` WHERE ${whereClauses.join(" AND ")}`;
+          const chartFilterSQL = buildFilterSQL(chartConfig.filters, params, (column) => {
+            validateIdentifier(column, "column");
+            return `"${column}"`;
+          });
+          const chartWhereSQL = [chartFilterSQL, chartGrantSQL].filter(Boolean).join(" AND ");
+          if (chartWhereSQL) {
+            query += ` WHERE ${chartWhereSQL}`;
           }
 
           query += ` GROUP BY ${groupByExpr} ORDER BY ${groupByExpr} LIMIT 500`;
@@ -2905,12 +6372,13 @@ export async function registerRoutes(
           query = `SELECT ${selectPart} FROM ${tableRef}`;
 
           // Add filters
-          if (chartConfig.filters?.length > 0) {
-            const whereClauses: string[] = [];
-            chartConfig.filters.forEach((f) => {
-              addFilterToQuery(f, params, whereClauses);
-            });
-            query += ` WHERE ${whereClauses.join(" AND ")}`;
+          const chartFilterSQL = buildFilterSQL(chartConfig.filters, params, (column) => {
+            validateIdentifier(column, "column");
+            return `"${column}"`;
+          });
+          const chartWhereSQL = [chartFilterSQL, chartGrantSQL].filter(Boolean).join(" AND ");
+          if (chartWhereSQL) {
+            query += ` WHERE ${chartWhereSQL}`;
           }
 
           query += ` LIMIT 500`;
@@ -2948,6 +6416,10 @@ export async function registerRoutes(
         let fromClause = `${tableRef} AS ${mainAlias}`;
         let columnRef: string;
 
+        if (isMaskedColumn(metricConfig.column)) {
+          return res.status(400).json({ error: `Column ${metricConfig.column} is masked and can't be aggregated` });
+        }
+
         // Determine if column is from joined table (e.g., "joined.price")
         if (metricConfig.column.includes(".")) {
           const parts = metricConfig.column.split(".");
@@ -2981,48 +6453,27 @@ export async function registerRoutes(
           const [fromCol, toCol] = joinConfig.on;
           validateIdentifier(fromCol, "column");
           validateIdentifier(toCol, "column");
-          fromClause += ` ${joinType} ${joinTableRef} AS ${joinAlias} ON ${mainAlias}."${fromCol}" = ${joinAlias}."${toCol}"`;
+          const joinGrantSQL = await buildGrantRowFilterSQL(
+            user, config.database, joinParsed.schema, joinParsed.table, params, (c) => `${joinAlias}."${c}"`
+          );
+          fromClause += ` ${joinType} ${joinTableRef} AS ${joinAlias} ON ${mainAlias}."${fromCol}" = ${joinAlias}."${toCol}"${joinGrantSQL ? ` AND ${joinGrantSQL}` : ""}`;
         }
 
         query = `SELECT ${aggFunc}(${columnRef}) as value FROM ${fromClause}`;
 
         // Add filters (need to handle aliased columns)
-        if (metricConfig.filters?.length > 0) {
-          const whereClauses: string[] = [];
-          metricConfig.filters.forEach((f) => {
-            // For filters, use main alias for non-dotted columns
-            const filterCol = f.column.includes(".")
-              ? `${f.column.split(".")[0]}."${f.column.split(".")[1]}"`
-              : `${mainAlias}."${f.column}"`;
-
-            const paramIndex = params.length + 1;
-            if (f.operator === "eq") {
-              whereClauses.push(`${filterCol} = $${paramIndex}`);
-              params.push(f.value);
-            } else if (f.operator === "contains") {
-              whereClauses.push(`${filterCol}::text ILIKE $${paramIndex}`);
-              params.push(`%${f.value}%`);
-            } else if (f.operator === "gt") {
-              whereClauses.push(`${filterCol} > $${paramIndex}`);
-              params.push(f.value);
-            } else if (f.operator === "gte") {
-              whereClauses.push(`${filterCol} >= $${paramIndex}`);
-              params.push(f.value);
-            } else if (f.operator === "lt") {
-              whereClauses.push(`${filterCol} < $${paramIndex}`);
-              params.push(f.value);
-            } else if (f.operator === "lte") {
-              whereClauses.push(`${filterCol} <= $${paramIndex}`);
-              params.push(f.value);
-            } else if (f.operator === "between" && Array.isArray(f.value) && f.value.length === 2) {
-              whereClauses.push(`${filterCol} >= $${paramIndex} AND ${filterCol} <= $${paramIndex + 1}`);
-              params.push(f.value[0], f.value[1]);
-            } else if (f.operator === "in" && Array.isArray(f.value)) {
-              whereClauses.push(`${filterCol} = ANY($${paramIndex})`);
-              params.push(f.value);
-            }
-          });
-          query += ` WHERE ${whereClauses.join(" AND ")}`;
+        const metricFilterSQL = buildFilterSQL(metricConfig.filters, params, (column) =>
+          // For filters, use main alias for non-dotted columns
+          column.includes(".")
+            ? `${column.split(".")[0]}."${column.split(".")[1]}"`
+            : `${mainAlias}."${column}"`
+        );
+        const metricGrantSQL = await buildGrantRowFilterSQL(
+          user, config.database, parsedTable.schema, parsedTable.table, params, (c) => `${mainAlias}."${c}"`
+        );
+        const metricWhereSQL = [metricFilterSQL, metricGrantSQL].filter(Boolean).join(" AND ");
+        if (metricWhereSQL) {
+          query += ` WHERE ${metricWhereSQL}`;
         }
 
         const result = await pool.query(query, params);
@@ -3046,7 +6497,9 @@ export async function registerRoutes(
       }
     } catch (err) {
       console.error("Error running report block:", err);
-      res.status(500).json({ error: err instanceof Error ? err.message : "Failed to run report block" });
+      if (!res.headersSent) {
+        res.status(500).json({ error: err instanceof Error ? err.message : "Failed to run report block" });
+      }
     }
   });
 
@@ -3084,7 +6537,7 @@ export async function registerRoutes(
   });
 
   // AI Chat endpoint for report building
-  app.post("/api/reports/ai/chat", isAuthenticated, reportAILimiter, async (req, res) => {
+  app.post("/api/reports/ai/chat", isAuthenticated, requirePermission("manage_reports"), reportAILimiter, async (req, res) => {
     try {
       const userId = (req.user as any)?.id;
       const user = await authStorage.getUser(userId);
@@ -3119,27 +6572,22 @@ export async function registerRoutes(
       for (const dbConn of dbs) {
         try {
           const pool = getPool(dbConn.name);
-          const tableResult = await pool.query(`
-            SELECT table_schema as schema, table_name as name
-            FROM information_schema.tables
-            WHERE table_schema = 'public' AND table_type = 'BASE TABLE'
-            ORDER BY table_name
-          `);
+          const objects = await listTableObjects(pool, await getExposedSchemas(dbConn.name));
 
           const allSettings = await storage.getAllTableSettings();
           let tables: Array<TableInfo & { columns: string[] }> = [];
 
-          // For external customers, get their allowed tables list once
-          const allowedTables = user.role === "external_customer"
+          // Without access to all tables, get the allowed tables list once
+          const allowedTables = !(await userCan(user, "access_all_tables"))
             ? await getAllowedTables(userId)
             : null;
 
-          for (const t of tableResult.rows) {
+          for (const t of objects) {
             const fullName = `${t.schema}.${t.name}`;
             const settingsKey = `${dbConn.name}:${fullName}`;
             const isVisible = allSettings[settingsKey]?.isVisible ?? true;
 
-            // External customers are limited to their granted tables only
+            // Roles without access to all tables are limited to their granted tables
             // (this is a real permission, not cosmetic visibility)
             if (allowedTables && !allowedTables.includes(`${dbConn.name}:${fullName}`)) continue;
 
@@ -3148,7 +6596,7 @@ export async function registerRoutes(
 
             // Fetch columns for this table
             const columnResult = await pool.query(`
-              SELECT column_name FROM information_schema.columns
+              SELECT column_name FROM ${TABLE_COLUMNS_SQL}
               WHERE table_schema = $1 AND table_name = $2
               ORDER BY ordinal_position
             `, [t.schema, t.name]);
@@ -3159,6 +6607,7 @@ export async function registerRoutes(
               fullName,
               displayName: allSettings[settingsKey]?.displayName || null,
               isVisible,
+              type: t.type,
               columns: columnResult.rows.map((c: any) => c.column_name),
             });
           }
@@ -3211,7 +6660,7 @@ IMPORTANT: You MUST only use the exact column names listed below. Do NOT guess o
 AVAILABLE TABLES AND COLUMNS:
 ${availableTablesWithColumns.map(db =>
         `Database: ${db.database}\n${db.tables.map(t =>
-          `  - ${t.displayName || t.name} (${t.fullName})\n    Columns: ${t.columns.slice(0, 20).join(", ")}${t.columns.length > 20 ? ` (and ${t.columns.length - 20} more)` : ""}`
+          `  - ${t.displayName || t.name} (${t.fullName}${t.type && t.type !== "table" ? `, ${t.type.replace("_", " ")}` : ""})\n    Columns: ${t.columns.slice(0, 20).join(", ")}${t.columns.length > 20 ? ` (and ${t.columns.length - 20} more)` : ""}`
         ).join("\n")}`
       ).join("\n\n")}
 
@@ -3274,10 +6723,15 @@ FILTER OPERATORS - ONLY USE THESE EXACT VALUES (no others allowed):
 - "lt" for less than
 - "lte" for less than or equal
 - "between" for date ranges (value must be array of two dates like ["2025-01-01", "2025-12-31"])
+- "neq" for not equal, "not_in" for matching NONE of a list of values (array)
+- "starts_with" / "ends_with" for prefix or suffix matches, "regex" for a case-insensitive regular expression
+- "is_null" / "is_not_null" for missing or present values (value must be "")
+- "last_n_days" for the last N days including today (value is the number of days like "30"), "this_week" and "this_month" for the current week or month (value must be "")
 
 ⚠️ CRITICAL - LIST FILTERING: When a user provides a LIST of values (multiple emails, IDs, names, etc.), you MUST use ONE filter with the "in" operator and an array of ALL values.
 CORRECT: {"column": "email", "operator": "in", "value": ["a@test.com", "b@test.com", "c@test.com"]}
 WRONG: Multiple filters with "eq" on the same column - this creates AND logic and returns ZERO results!
+For OR logic across different columns, a filter entry can be a group: {"type": "group", "connective": "or", "children": [{"column": "status", "operator": "eq", "value": "done"}, {"column": "rating", "operator": "is_not_null", "value": ""}]}. Groups can be nested and set "negate": true for NOT.
 IMPORTANT: Do NOT use "like", "!=", or any other operators not listed above.
 
 CRITICAL DATE RANGE COMPARISONS: When the user asks to compare TWO different date ranges (e.g., "Jan 5-11 vs Jan 12-18"), you MUST create TWO SEPARATE blocks - one for each date range. This is because all filters are combined with AND logic, so putting two "between" filters on the same column in one block will return zero results (a date cannot be in two non-overlapping ranges simultaneously). For comparisons, create separate blocks like:
@@ -3464,7 +6918,7 @@ Always be helpful and explain your suggestions in simple terms.`;
   });
 
   // Weekly Performance Dashboard API
-  app.get("/api/weekly-performance/:database", isAuthenticated, async (req, res) => {
+  app.get("/api/weekly-performance/:database", isAuthenticated, requirePermission("view_marketing_dashboard"), async (req, res) => {
     try {
       const { database } = req.params;
       const periodType = (req.query.periodType as string) || "weekly";
@@ -4008,7 +7462,7 @@ Always be helpful and explain your suggestions in simple terms.`;
   });
 
   // Weekly Performance Dashboard AI Chat
-  app.post("/api/weekly-performance/:database/chat", isAuthenticated, reportAILimiter, async (req, res) => {
+  app.post("/api/weekly-performance/:database/chat", isAuthenticated, requirePermission("view_marketing_dashboard"), reportAILimiter, async (req, res) => {
     try {
       const { database } = req.params;
       const { message, dashboardData, selectedWeek, periodType = "weekly" } = req.body;
@@ -4028,8 +7482,8 @@ Always be helpful and explain your suggestions in simple terms.`;
         return res.status(503).json({ error: "AI service not available" });
       }
 
-      // Check if user can drill down (Admin or WashOS User only)
-      const canDrillDown = user.role === "admin" || user.role === "washos_user";
+      // Check if user's role can drill down into metric rows
+      const canDrillDown = await userCan(user, "drill_down");
 
       // Import metric specs
       const { METRIC_SPECS, getAllMetricSpecs } = await import("./weeklyMetrics");
@@ -4208,6 +7662,8 @@ ${canDrillDown ? '8. When users want to see underlying data, use the tools to fe
 
             if (!spec) {
               functionResult = { error: "Metric not found" };
+            } else if (await isDrilldownRowRestricted(database, spec.sourceTables || [spec.sourceTable], user)) {
+              functionResult = { error: DRILLDOWN_ROW_RESTRICTED_ERROR };
             } else {
               let queryConfig;
 
@@ -4224,6 +7680,11 @@ ${canDrillDown ? '8. When users want to see underlying data, use the tools to fe
                 queryConfig = spec.getDrilldownQuery(args.weekStart, args.weekEnd);
               }
 
+              // Rows go into the model's context, so masks apply here as in exports
+              queryConfig = await getMaskedDrilldownQuery(
+                database, spec.sourceTables || [spec.sourceTable], queryConfig, user
+              );
+
               try {
                 const queryResult = await pool.query(
                   queryConfig.sql + " LIMIT 50",
@@ -4305,8 +7766,8 @@ ${canDrillDown ? '8. When users want to see underlying data, use the tools to fe
     }
   });
 
-  // CSV Export for drilldown data
-  app.get("/api/weekly-performance/:database/drilldown-export", isAuthenticated, exportLimiter, async (req, res) => {
+  // Export for drilldown data (CSV, XLSX, JSON or NDJSON)
+  app.get("/api/weekly-performance/:database/drilldown-export", isAuthenticated, requirePermission("view_marketing_dashboard"), exportLimiter, async (req, res) => {
     try {
       const { database } = req.params;
       const { metricId, subSourceId, weekStart, weekEnd } = req.query;
@@ -4317,8 +7778,8 @@ ${canDrillDown ? '8. When users want to see underlying data, use the tools to fe
         return res.status(401).json({ error: "Unauthorized" });
       }
 
-      // Check role - only Admin and WashOS users can export
-      if (user.role !== "admin" && user.role !== "washos_user") {
+      // Drill-down rows are exported under both permissions
+      if (!(await userCan(user, "drill_down")) || !(await userCan(user, "export"))) {
         return res.status(403).json({ error: "Export not available for your role" });
       }
 
@@ -4326,6 +7787,11 @@ ${canDrillDown ? '8. When users want to see underlying data, use the tools to fe
         return res.status(400).json({ error: "Missing required parameters" });
       }
 
+      const format = parseExportFormat(req.query.format);
+      if (!format) {
+        return res.status(400).json({ error: "Invalid export format" });
+      }
+
       const { METRIC_SPECS } = await import("./weeklyMetrics");
       const spec = METRIC_SPECS[metricId as string];
 
@@ -4333,6 +7799,10 @@ ${canDrillDown ? '8. When users want to see underlying data, use the tools to fe
         return res.status(400).json({ error: "Invalid metric" });
       }
 
+      if (await isDrilldownRowRestricted(database, spec.sourceTables || [spec.sourceTable], user)) {
+        return res.status(403).json({ error: DRILLDOWN_ROW_RESTRICTED_ERROR });
+      }
+
       let queryConfig;
       if (subSourceId && spec.subSources) {
         const subSource = spec.subSources.find(s => s.id === subSourceId);
@@ -4343,46 +7813,35 @@ ${canDrillDown ? '8. When users want to see underlying data, use the tools to fe
       if (!queryConfig) {
         queryConfig = spec.getDrilldownQuery(weekStart as string, weekEnd as string);
       }
+      queryConfig = await getMaskedDrilldownQuery(database, spec.sourceTables || [spec.sourceTable], queryConfig, user);
 
       const pool = getPool(database);
 
-      // Limit to 10,000 rows for safety
-      const result = await pool.query(
-        queryConfig.sql + " LIMIT 10000",
-        queryConfig.params
-      );
-
-      // Build CSV
-      const headers = queryConfig.columns.join(",");
-      const rows = result.rows.map((row: Record<string, unknown>) =>
-        queryConfig.columns.map((col: string) => {
-          const val = row[col];
-          if (val === null || val === undefined) return "";
-          const strVal = String(val);
-          if (strVal.includes(",") || strVal.includes('"') || strVal.includes("\n")) {
-            return `"${strVal.replace(/"/g, '""')}"`;
-          }
-          return strVal;
-        }).join(",")
-      );
-
-      const csv = [headers, ...rows].join("\n");
+      // Streamed up to the role's export row limit; refused when over the user's remaining quota
+      const rowLimit = await getExportRowLimit(user);
+      const quotaError = await checkDrilldownExportQuota(user, pool, queryConfig, rowLimit);
+      if (quotaError) {
+        return res.status(429).json({ error: quotaError });
+      }
+      setExportHeaders(res, format, `${spec.id}_${subSourceId || 'all'}_drilldown`);
+      const writer = createExportWriter(format, res, queryConfig.columns, spec.name);
+      const rowCount = await streamQueryExport(pool, `${queryConfig.sql} LIMIT ${rowLimit}`, queryConfig.params, writer);
 
       await logAudit({
         userId,
         userEmail: user.email,
         action: "WEEKLY_PERFORMANCE_DRILLDOWN_EXPORT",
         database,
-        details: `Metric: ${spec.name}${subSourceId ? ` (${subSourceId})` : ""}, ${result.rows.length} rows exported`,
+        details: `Metric: ${spec.name}${subSourceId ? ` (${subSourceId})` : ""}, ${rowCount} rows exported as ${format.toUpperCase()}`,
         ip: req.ip || undefined,
+        rowCount,
       });
-
-      res.setHeader("Content-Type", "text/csv");
-      res.setHeader("Content-Disposition", `attachment; filename="${spec.id}_${subSourceId || 'all'}_drilldown.csv"`);
-      res.send(csv);
+      res.end();
     } catch (err) {
       console.error("Error exporting drilldown data:", err);
-      res.status(500).json({ error: "Failed to export data" });
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to export data" });
+      }
     }
   });
 
@@ -4414,7 +7873,7 @@ ${canDrillDown ? '8. When users want to see underlying data, use the tools to fe
 
   // Stripe Metrics API for Weekly Performance Dashboard
   // Returns Stripe financial metrics (Gross Volume, Net Volume, Refunds, Disputes) for a given week
-  app.get("/api/stripe-metrics", isAuthenticated, async (req, res) => {
+  app.get("/api/stripe-metrics", isAuthenticated, requirePermission("view_marketing_dashboard"), async (req, res) => {
     try {
       const { weekStart, weekEnd } = req.query;
 
@@ -4463,7 +7922,7 @@ ${canDrillDown ? '8. When users want to see underlying data, use the tools to fe
   });
 
   // Operations Performance Dashboard endpoint
-  app.get("/api/operations-performance/:database", isAuthenticated, async (req, res) => {
+  app.get("/api/operations-performance/:database", isAuthenticated, requirePermission("view_operations_dashboard"), async (req, res) => {
     try {
       const { database } = req.params;
       const periodType = (req.query.periodType as string) || "weekly";
@@ -4621,7 +8080,7 @@ ${canDrillDown ? '8. When users want to see underlying data, use the tools to fe
   });
 
   // Operations Performance Dashboard AI Chat
-  app.post("/api/operations-performance/:database/chat", isAuthenticated, reportAILimiter, async (req, res) => {
+  app.post("/api/operations-performance/:database/chat", isAuthenticated, requirePermission("view_operations_dashboard"), reportAILimiter, async (req, res) => {
     try {
       const { database } = req.params;
       const { message, dashboardData, selectedPeriod, periodType } = req.body;
@@ -4644,8 +8103,8 @@ ${canDrillDown ? '8. When users want to see underlying data, use the tools to fe
 
       const pool = getPool(database);
 
-      // Check if user can drill down (Admin or WashOS User only)
-      const canDrillDown = user.role === "admin" || user.role === "washos_user";
+      // Check if user's role can drill down into metric rows
+      const canDrillDown = await userCan(user, "drill_down");
 
       // Build context about the dashboard data
       const currentYear = new Date().getFullYear();
@@ -4806,9 +8265,17 @@ ${canDrillDown ? '9. When users want to see underlying data, use the tools to fe
 
             if (!spec) {
               functionResult = { error: "Unknown metric" };
+            } else if (await isDrilldownRowRestricted(database, spec.sourceTables || [spec.sourceTable], user)) {
+              functionResult = { error: DRILLDOWN_ROW_RESTRICTED_ERROR };
             } else {
               try {
-                const queryConfig = spec.getDrilldownQuery(args.periodStart, args.periodEnd);
+                // Rows go into the model's context, so masks apply here as in exports
+                const queryConfig = await getMaskedDrilldownQuery(
+                  database,
+                  spec.sourceTables || [spec.sourceTable],
+                  spec.getDrilldownQuery(args.periodStart, args.periodEnd),
+                  user
+                );
 
                 const queryResult = await pool.query(
                   queryConfig.sql + " LIMIT 50",
@@ -4888,8 +8355,8 @@ ${canDrillDown ? '9. When users want to see underlying data, use the tools to fe
     }
   });
 
-  // CSV Export for operations drilldown data
-  app.get("/api/operations-performance/:database/drilldown-export", isAuthenticated, exportLimiter, async (req, res) => {
+  // Export for operations drilldown data (CSV, XLSX, JSON or NDJSON)
+  app.get("/api/operations-performance/:database/drilldown-export", isAuthenticated, requirePermission("view_operations_dashboard"), exportLimiter, async (req, res) => {
     try {
       const { database } = req.params;
       const { metricId, periodStart, periodEnd } = req.query;
@@ -4900,8 +8367,8 @@ ${canDrillDown ? '9. When users want to see underlying data, use the tools to fe
         return res.status(401).json({ error: "Unauthorized" });
       }
 
-      // Only Admin and WashOS User can export
-      if (user.role !== "admin" && user.role !== "washos_user") {
+      // Drill-down rows are exported under both permissions
+      if (!(await userCan(user, "drill_down")) || !(await userCan(user, "export"))) {
         return res.status(403).json({ error: "Export not available for this user role" });
       }
 
@@ -4909,57 +8376,58 @@ ${canDrillDown ? '9. When users want to see underlying data, use the tools to fe
         return res.status(400).json({ error: "Missing required parameters" });
       }
 
+      const format = parseExportFormat(req.query.format);
+      if (!format) {
+        return res.status(400).json({ error: "Invalid export format" });
+      }
+
       const spec = getOperationsMetricSpec(metricId as string);
       if (!spec) {
         return res.status(400).json({ error: "Unknown metric" });
       }
 
-      const pool = getPool(database);
-      const queryConfig = spec.getDrilldownQuery(periodStart as string, periodEnd as string);
+      if (await isDrilldownRowRestricted(database, spec.sourceTables || [spec.sourceTable], user)) {
+        return res.status(403).json({ error: DRILLDOWN_ROW_RESTRICTED_ERROR });
+      }
 
-      // Get up to 10,000 rows for export
-      const result = await pool.query(
-        queryConfig.sql + " LIMIT 10000",
-        queryConfig.params
+      const pool = getPool(database);
+      const queryConfig = await getMaskedDrilldownQuery(
+        database,
+        spec.sourceTables || [spec.sourceTable],
+        spec.getDrilldownQuery(periodStart as string, periodEnd as string),
+        user
       );
 
-      // Convert to CSV
-      const headers = queryConfig.columns.join(",");
-      const rows = result.rows.map((row: any) =>
-        queryConfig.columns.map(col => {
-          const val = row[col];
-          if (val === null || val === undefined) return "";
-          const str = String(val);
-          // Escape quotes and wrap in quotes if contains comma, quote, or newline
-          if (str.includes(",") || str.includes('"') || str.includes("\n")) {
-            return `"${str.replace(/"/g, '""')}"`;
-          }
-          return str;
-        }).join(",")
-      ).join("\n");
-
-      const csv = headers + "\n" + rows;
+      // Streamed up to the role's export row limit; refused when over the user's remaining quota
+      const rowLimit = await getExportRowLimit(user);
+      const quotaError = await checkDrilldownExportQuota(user, pool, queryConfig, rowLimit);
+      if (quotaError) {
+        return res.status(429).json({ error: quotaError });
+      }
+      setExportHeaders(res, format, `${metricId}_${periodStart}_to_${periodEnd}`);
+      const writer = createExportWriter(format, res, queryConfig.columns, spec.name);
+      const rowCount = await streamQueryExport(pool, `${queryConfig.sql} LIMIT ${rowLimit}`, queryConfig.params, writer);
 
       await logAudit({
         userId,
         userEmail: user.email,
         action: "OPERATIONS_DRILLDOWN_EXPORT",
         database,
-        details: `Metric: ${spec.name}, Exported ${result.rows.length} rows`,
+        details: `Metric: ${spec.name}, Exported ${rowCount} rows as ${format.toUpperCase()}`,
         ip: req.ip || undefined,
+        rowCount,
       });
-
-      res.setHeader("Content-Type", "text/csv");
-      res.setHeader("Content-Disposition", `attachment; filename="${metricId}_${periodStart}_to_${periodEnd}.csv"`);
-      res.send(csv);
+      res.end();
     } catch (err) {
       console.error("Error in operations drilldown export:", err);
-      res.status(500).json({ error: "Failed to export data" });
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to export data" });
+      }
     }
   });
 
   // Zone Comparison endpoint for Operations Dashboard - compare all zones for a specific metric
-  app.get("/api/operations-performance/:database/zone-comparison", isAuthenticated, async (req, res) => {
+  app.get("/api/operations-performance/:database/zone-comparison", isAuthenticated, requirePermission("view_operations_dashboard"), async (req, res) => {
     try {
       const { database } = req.params;
       const { metricId, periodStart, periodEnd, prevPeriodStart, prevPeriodEnd } = req.query;
@@ -5105,7 +8573,7 @@ ${canDrillDown ? '9. When users want to see underlying data, use the tools to fe
   });
 
   // Zone Time-Series endpoint - shows all zones across all periods for a specific metric
-  app.get("/api/operations-performance/:database/zone-time-series", isAuthenticated, async (req, res) => {
+  app.get("/api/operations-performance/:database/zone-time-series", isAuthenticated, requirePermission("view_operations_dashboard"), async (req, res) => {
     try {
       const { database } = req.params;
       const { metricId, periodType = "weekly" } = req.query;
@@ -5277,5 +8745,19 @@ ${canDrillDown ? '9. When users want to see underlying data, use the tools to fe
     }
   });
 
+  // Record grant expiries in the audit log; unref'd so the timer never keeps the process alive
+  void sweepExpiredGrants();
+  setInterval(() => void sweepExpiredGrants(), GRANT_EXPIRY_SWEEP_MS).unref();
+
+  // Background exports don't survive a restart: jobs owned by stopped instances are failed once
+  // their heartbeat goes stale. Finished files are removed once they expire.
+  void recoverExportJobs();
+  setInterval(() => {
+    void heartbeatExportJobs();
+    void recoverExportJobs();
+  }, EXPORT_JOB_HEARTBEAT_MS).unref();
+  void sweepExpiredExportJobs();
+  setInterval(() => void sweepExpiredExportJobs(), EXPORT_JOB_SWEEP_MS).unref();
+
   return httpServer;
 }
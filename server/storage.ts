@@ -1,13 +1,32 @@
 import * as fs from "fs";
 import * as path from "path";
-import type { FilterDefinition, FilterHistoryEntry, ActiveFilter } from "@shared/schema";
-
+import { and, count, desc, eq, inArray, sql } from "drizzle-orm";
+import {
+  tableFilters,
+  tableSettings,
+  schemaSettings,
+  filterHistory,
+  storageImports,
+  users,
+  type FilterDefinition,
+  type FilterHistoryEntry,
+  type ActiveFilter,
+  type ColumnMaskRules,
+} from "@shared/schema";
+import { db } from "./db";
+
+// Files the settings lived in before they moved to the database; read once by importJsonStorage
 const FILTERS_FILE = path.join(process.cwd(), "filters.json");
 const TABLE_SETTINGS_FILE = path.join(process.cwd(), "table_settings.json");
 const FILTER_HISTORY_FILE = path.join(process.cwd(), "filter_history.json");
+const SCHEMA_SETTINGS_FILE = path.join(process.cwd(), "schema_settings.json");
 
 const MAX_HISTORY_PER_TABLE = 5;
 
+// Table settings are read on nearly every request; other instances pick up edits within this window
+const SETTINGS_CACHE_TTL_MS = 30 * 1000;
+
+// Keyed by database:schema.table
 export interface FiltersConfig {
   [tableKey: string]: FilterDefinition[];
 }
@@ -16,146 +35,164 @@ export interface TableSettingsEntry {
   isVisible: boolean;
   displayName: string | null;
   hiddenColumns?: string[];
+  columnMasks?: ColumnMaskRules;
 }
 
 export interface TableSettingsConfig {
   [key: string]: TableSettingsEntry;
 }
 
+// Schemas listed per database; databases without an entry use the default (public only)
+export interface SchemaSettingsConfig {
+  [database: string]: string[];
+}
+
 export interface IStorage {
-  getFilters(table: string): Promise<FilterDefinition[]>;
-  setFilters(table: string, filters: FilterDefinition[]): Promise<void>;
+  getFilters(database: string, table: string): Promise<FilterDefinition[]>;
+  setFilters(database: string, table: string, filters: FilterDefinition[]): Promise<void>;
   getAllFilters(): Promise<FiltersConfig>;
   getTableSettings(database: string, tableName: string): Promise<TableSettingsEntry | null>;
   setTableSettings(database: string, tableName: string, settings: TableSettingsEntry): Promise<void>;
   getAllTableSettings(): Promise<TableSettingsConfig>;
+  getExposedSchemas(database: string): Promise<string[] | null>;
+  setExposedSchemas(database: string, schemas: string[]): Promise<void>;
   getFilterHistory(userId: string, database: string, table: string): Promise<FilterHistoryEntry[]>;
   saveFilterHistory(userId: string, database: string, table: string, filters: ActiveFilter[]): Promise<FilterHistoryEntry>;
   deleteFilterHistory(id: string, userId: string): Promise<boolean>;
 }
 
-function readFiltersFile(): FiltersConfig {
-  try {
-    if (fs.existsSync(FILTERS_FILE)) {
-      const content = fs.readFileSync(FILTERS_FILE, "utf-8");
-      return JSON.parse(content);
-    }
-  } catch (err) {
-    console.error("Error reading filters.json:", err);
-  }
-  return {};
-}
-
-function writeFiltersFile(config: FiltersConfig): void {
-  try {
-    fs.writeFileSync(FILTERS_FILE, JSON.stringify(config, null, 2));
-  } catch (err) {
-    console.error("Error writing filters.json:", err);
-    throw err;
-  }
-}
-
-function readTableSettingsFile(): TableSettingsConfig {
+function readJsonFile<T>(file: string): T | null {
   try {
-    if (fs.existsSync(TABLE_SETTINGS_FILE)) {
-      const content = fs.readFileSync(TABLE_SETTINGS_FILE, "utf-8");
-      return JSON.parse(content);
+    if (fs.existsSync(file)) {
+      return JSON.parse(fs.readFileSync(file, "utf-8"));
     }
   } catch (err) {
-    console.error("Error reading table_settings.json:", err);
-  }
-  return {};
-}
-
-function writeTableSettingsFile(config: TableSettingsConfig): void {
-  try {
-    fs.writeFileSync(TABLE_SETTINGS_FILE, JSON.stringify(config, null, 2));
-  } catch (err) {
-    console.error("Error writing table_settings.json:", err);
-    throw err;
-  }
-}
-
-function readFilterHistoryFile(): FilterHistoryEntry[] {
-  try {
-    if (fs.existsSync(FILTER_HISTORY_FILE)) {
-      const content = fs.readFileSync(FILTER_HISTORY_FILE, "utf-8");
-      return JSON.parse(content);
-    }
-  } catch (err) {
-    console.error("Error reading filter_history.json:", err);
-  }
-  return [];
-}
-
-function writeFilterHistoryFile(entries: FilterHistoryEntry[]): void {
-  try {
-    fs.writeFileSync(FILTER_HISTORY_FILE, JSON.stringify(entries, null, 2));
-  } catch (err) {
-    console.error("Error writing filter_history.json:", err);
-    throw err;
+    console.error(`Error reading ${path.basename(file)}:`, err);
   }
-}
-
-function generateId(): string {
-  return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+  return null;
 }
 
 function filtersEqual(a: ActiveFilter[], b: ActiveFilter[]): boolean {
   if (a.length !== b.length) return false;
   const sortedA = [...a].sort((x, y) => x.column.localeCompare(y.column));
   const sortedB = [...b].sort((x, y) => x.column.localeCompare(y.column));
-  return sortedA.every((f, i) => 
-    f.column === sortedB[i].column && 
-    f.operator === sortedB[i].operator && 
-    f.value === sortedB[i].value
+  return sortedA.every((f, i) =>
+    f.column === sortedB[i].column &&
+    f.operator === sortedB[i].operator &&
+    JSON.stringify(f.value) === JSON.stringify(sortedB[i].value)
   );
 }
 
-export class MemStorage implements IStorage {
-  private filters: FiltersConfig;
-  private tableSettings: TableSettingsConfig;
-  private filterHistory: FilterHistoryEntry[];
+function toHistoryEntry(row: typeof filterHistory.$inferSelect): FilterHistoryEntry {
+  return {
+    id: row.id,
+    userId: String(row.userId),
+    database: row.database,
+    table: row.tableName,
+    filters: row.filters,
+    lastUsedAt: row.lastUsedAt.toISOString(),
+  };
+}
+
+function toTableSettingsEntry(row: typeof tableSettings.$inferSelect): TableSettingsEntry {
+  return {
+    isVisible: row.isVisible,
+    displayName: row.displayName,
+    ...(row.hiddenColumns ? { hiddenColumns: row.hiddenColumns } : {}),
+    ...(row.columnMasks ? { columnMasks: row.columnMasks } : {}),
+  };
+}
+
+export class DatabaseStorage implements IStorage {
+  private tableSettingsCache: { settings: TableSettingsConfig; loadedAt: number } | null = null;
 
-  constructor() {
-    this.filters = readFiltersFile();
-    this.tableSettings = readTableSettingsFile();
-    this.filterHistory = readFilterHistoryFile();
+  invalidateCache(): void {
+    this.tableSettingsCache = null;
   }
 
-  async getFilters(table: string): Promise<FilterDefinition[]> {
-    return this.filters[table] || [];
+  async getFilters(database: string, table: string): Promise<FilterDefinition[]> {
+    const [row] = await db
+      .select()
+      .from(tableFilters)
+      .where(and(eq(tableFilters.database, database), eq(tableFilters.tableName, table)));
+    return row?.filters ?? [];
   }
 
-  async setFilters(table: string, filters: FilterDefinition[]): Promise<void> {
-    this.filters[table] = filters;
-    writeFiltersFile(this.filters);
+  async setFilters(database: string, table: string, filters: FilterDefinition[]): Promise<void> {
+    await db
+      .insert(tableFilters)
+      .values({ database, tableName: table, filters })
+      .onConflictDoUpdate({
+        target: [tableFilters.database, tableFilters.tableName],
+        set: { filters, updatedAt: new Date() },
+      });
   }
 
   async getAllFilters(): Promise<FiltersConfig> {
-    return this.filters;
+    const rows = await db.select().from(tableFilters);
+    return Object.fromEntries(rows.map((r) => [`${r.database}:${r.tableName}`, r.filters]));
   }
 
   async getTableSettings(database: string, tableName: string): Promise<TableSettingsEntry | null> {
-    const key = `${database}:${tableName}`;
-    return this.tableSettings[key] || null;
+    return (await this.getAllTableSettings())[`${database}:${tableName}`] || null;
   }
 
   async setTableSettings(database: string, tableName: string, settings: TableSettingsEntry): Promise<void> {
-    const key = `${database}:${tableName}`;
-    this.tableSettings[key] = settings;
-    writeTableSettingsFile(this.tableSettings);
+    const values = {
+      isVisible: settings.isVisible,
+      displayName: settings.displayName,
+      hiddenColumns: settings.hiddenColumns ?? null,
+      columnMasks: settings.columnMasks ?? null,
+    };
+    await db
+      .insert(tableSettings)
+      .values({ database, tableName, ...values })
+      .onConflictDoUpdate({
+        target: [tableSettings.database, tableSettings.tableName],
+        set: { ...values, updatedAt: new Date() },
+      });
+    this.invalidateCache();
   }
 
   async getAllTableSettings(): Promise<TableSettingsConfig> {
-    return this.tableSettings;
+    const cached = this.tableSettingsCache;
+    if (cached && Date.now() - cached.loadedAt < SETTINGS_CACHE_TTL_MS) return cached.settings;
+
+    const rows = await db.select().from(tableSettings);
+    const settings: TableSettingsConfig = Object.fromEntries(
+      rows.map((r) => [`${r.database}:${r.tableName}`, toTableSettingsEntry(r)])
+    );
+    this.tableSettingsCache = { settings, loadedAt: Date.now() };
+    return settings;
+  }
+
+  async getExposedSchemas(database: string): Promise<string[] | null> {
+    const [row] = await db.select().from(schemaSettings).where(eq(schemaSettings.database, database));
+    return row?.exposedSchemas ?? null;
+  }
+
+  async setExposedSchemas(database: string, schemas: string[]): Promise<void> {
+    await db
+      .insert(schemaSettings)
+      .values({ database, exposedSchemas: schemas })
+      .onConflictDoUpdate({
+        target: schemaSettings.database,
+        set: { exposedSchemas: schemas, updatedAt: new Date() },
+      });
   }
 
   async getFilterHistory(userId: string, database: string, table: string): Promise<FilterHistoryEntry[]> {
-    return this.filterHistory
-      .filter(e => e.userId === userId && e.database === database && e.table === table)
-      .sort((a, b) => new Date(b.lastUsedAt).getTime() - new Date(a.lastUsedAt).getTime())
-      .slice(0, MAX_HISTORY_PER_TABLE);
+    const rows = await db
+      .select()
+      .from(filterHistory)
+      .where(and(
+        eq(filterHistory.userId, Number(userId)),
+        eq(filterHistory.database, database),
+        eq(filterHistory.tableName, table),
+      ))
+      .orderBy(desc(filterHistory.lastUsedAt))
+      .limit(MAX_HISTORY_PER_TABLE);
+    return rows.map(toHistoryEntry);
   }
 
   async saveFilterHistory(userId: string, database: string, table: string, filters: ActiveFilter[]): Promise<FilterHistoryEntry> {
@@ -163,49 +200,140 @@ export class MemStorage implements IStorage {
       throw new Error("Cannot save empty filter history");
     }
 
-    const existingIndex = this.filterHistory.findIndex(
-      e => e.userId === userId && e.database === database && e.table === table && filtersEqual(e.filters, filters)
+    const scope = and(
+      eq(filterHistory.userId, Number(userId)),
+      eq(filterHistory.database, database),
+      eq(filterHistory.tableName, table),
     );
+    const existing = await db.select().from(filterHistory).where(scope).orderBy(desc(filterHistory.lastUsedAt));
+
+    const match = existing.find((e) => filtersEqual(e.filters, filters));
+    if (match) {
+      const [updated] = await db
+        .update(filterHistory)
+        .set({ lastUsedAt: new Date() })
+        .where(eq(filterHistory.id, match.id))
+        .returning();
+      return toHistoryEntry(updated);
+    }
 
-    const now = new Date().toISOString();
+    const [created] = await db
+      .insert(filterHistory)
+      .values({ userId: Number(userId), database, tableName: table, filters })
+      .returning();
 
-    if (existingIndex !== -1) {
-      this.filterHistory[existingIndex].lastUsedAt = now;
-      writeFilterHistoryFile(this.filterHistory);
-      return this.filterHistory[existingIndex];
+    // The new entry is the most recent; keep it plus the newest of the rest
+    const toRemove = existing.slice(MAX_HISTORY_PER_TABLE - 1).map((e) => e.id);
+    if (toRemove.length > 0) {
+      await db.delete(filterHistory).where(inArray(filterHistory.id, toRemove));
     }
 
-    const newEntry: FilterHistoryEntry = {
-      id: generateId(),
-      userId,
-      database,
-      table,
-      filters,
-      lastUsedAt: now,
-    };
-
-    this.filterHistory.push(newEntry);
+    return toHistoryEntry(created);
+  }
 
-    const userTableEntries = this.filterHistory
-      .filter(e => e.userId === userId && e.database === database && e.table === table)
-      .sort((a, b) => new Date(b.lastUsedAt).getTime() - new Date(a.lastUsedAt).getTime());
+  async deleteFilterHistory(id: string, userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(filterHistory)
+      .where(and(eq(filterHistory.id, id), eq(filterHistory.userId, Number(userId))))
+      .returning({ id: filterHistory.id });
+    return deleted.length > 0;
+  }
+}
 
-    if (userTableEntries.length > MAX_HISTORY_PER_TABLE) {
-      const toRemove = userTableEntries.slice(MAX_HISTORY_PER_TABLE);
-      this.filterHistory = this.filterHistory.filter(e => !toRemove.some(r => r.id === e.id));
+export const storage = new DatabaseStorage();
+
+// One-time import of the JSON files the settings used to live in. Each kind is recorded in
+// storage_imports once done, so later startups make one query and leave the data alone even after
+// admins or users delete it. Kinds are also skipped while their table already has rows (imports
+// from before storage_imports existed). filters.json was keyed by schema.table alone; its
+// definitions are copied to every configured database.
+export async function importJsonStorage(databases: string[]): Promise<void> {
+  const imported = new Set((await db.select({ key: storageImports.key }).from(storageImports)).map((r) => r.key));
+  const markImported = (key: string) => db.insert(storageImports).values({ key }).onConflictDoNothing();
+
+  if (!imported.has("filters")) {
+    const [{ count: filterRows }] = await db.select({ count: count() }).from(tableFilters);
+    const legacyFilters = filterRows === 0 ? readJsonFile<Record<string, FilterDefinition[]>>(FILTERS_FILE) : null;
+    if (legacyFilters) {
+      const rows = Object.entries(legacyFilters).flatMap(([tableName, filters]) =>
+        databases.map((database) => ({ database, tableName, filters }))
+      );
+      if (rows.length > 0) {
+        await db.insert(tableFilters).values(rows).onConflictDoNothing();
+        console.log(`Imported ${rows.length} filter definition sets from filters.json`);
+      }
     }
+    await markImported("filters");
+  }
 
-    writeFilterHistoryFile(this.filterHistory);
-    return newEntry;
+  if (!imported.has("table_settings")) {
+    const [{ count: settingsRows }] = await db.select({ count: count() }).from(tableSettings);
+    const legacySettings = settingsRows === 0 ? readJsonFile<TableSettingsConfig>(TABLE_SETTINGS_FILE) : null;
+    if (legacySettings) {
+      const rows = Object.entries(legacySettings).flatMap(([key, settings]) => {
+        // database:schema.table; database names don't contain ":"
+        const separator = key.indexOf(":");
+        if (separator === -1) return [];
+        return [{
+          database: key.slice(0, separator),
+          tableName: key.slice(separator + 1),
+          isVisible: settings.isVisible !== false,
+          displayName: settings.displayName ?? null,
+          hiddenColumns: settings.hiddenColumns ?? null,
+          columnMasks: settings.columnMasks ?? null,
+        }];
+      });
+      if (rows.length > 0) {
+        await db.insert(tableSettings).values(rows).onConflictDoNothing();
+        storage.invalidateCache();
+        console.log(`Imported ${rows.length} table settings from table_settings.json`);
+      }
+    }
+    await markImported("table_settings");
   }
 
-  async deleteFilterHistory(id: string, userId: string): Promise<boolean> {
-    const index = this.filterHistory.findIndex(e => e.id === id && e.userId === userId);
-    if (index === -1) return false;
-    this.filterHistory.splice(index, 1);
-    writeFilterHistoryFile(this.filterHistory);
-    return true;
+  if (!imported.has("schema_settings")) {
+    const [{ count: schemaRows }] = await db.select({ count: count() }).from(schemaSettings);
+    const legacySchemas = schemaRows === 0 ? readJsonFile<SchemaSettingsConfig>(SCHEMA_SETTINGS_FILE) : null;
+    if (legacySchemas) {
+      const rows = Object.entries(legacySchemas).map(([database, exposedSchemas]) => ({ database, exposedSchemas }));
+      if (rows.length > 0) {
+        await db.insert(schemaSettings).values(rows).onConflictDoNothing();
+        console.log(`Imported exposed schemas for ${rows.length} databases from schema_settings.json`);
+      }
+    }
+    await markImported("schema_settings");
   }
-}
 
-export const storage = new MemStorage();
+  if (imported.has("filter_history")) return;
+
+  // History rows have no natural key to conflict on, so the marker check and the insert run
+  // under a transaction-scoped advisory lock; a second instance starting at the same time
+  // waits for the first and then finds the import recorded
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('import_filter_history'))`);
+    const [marker] = await tx.select().from(storageImports).where(eq(storageImports.key, "filter_history"));
+    if (marker) return;
+    await tx.insert(storageImports).values({ key: "filter_history" });
+
+    const [{ count: historyRows }] = await tx.select({ count: count() }).from(filterHistory);
+    const legacyHistory = historyRows === 0 ? readJsonFile<FilterHistoryEntry[]>(FILTER_HISTORY_FILE) : null;
+    if (!legacyHistory?.length) return;
+
+    // Entries from accounts that no longer exist (e.g. the old string user ids) are dropped
+    const userIds = new Set((await tx.select({ id: users.id }).from(users)).map((u) => u.id));
+    const rows = legacyHistory
+      .filter((e) => userIds.has(Number(e.userId)) && e.filters?.length)
+      .map((e) => ({
+        userId: Number(e.userId),
+        database: e.database,
+        tableName: e.table,
+        filters: e.filters,
+        lastUsedAt: new Date(e.lastUsedAt),
+      }));
+    if (rows.length > 0) {
+      await tx.insert(filterHistory).values(rows);
+    }
+    console.log(`Imported ${rows.length} of ${legacyHistory.length} filter history entries from filter_history.json`);
+  });
+}
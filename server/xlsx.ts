@@ -0,0 +1,379 @@
+import * as zlib from "zlib";
+import type { Writable } from "stream";
+
+// Minimal streaming XLSX writer: one worksheet with typed cells, a bold frozen header row and
+// column widths sized from the header and the first batch of rows. The workbook is a zip
+// written straight to the output; the worksheet entry is deflated as rows arrive. Its size
+// isn't known up front, so it is written as a ZIP64 entry and may grow past 4 GB.
+
+export type XlsxCellType = "number" | "boolean" | "date" | "datetime" | "text";
+
+export interface XlsxColumn {
+  name: string;
+  // Type of the column's values when known; strings in a number column become numeric cells
+  type?: XlsxCellType;
+}
+
+// Excel keeps 15 significant digits; longer numbers (ids, bigints) stay text so nothing is lost
+const MAX_NUMERIC_DIGITS = 15;
+const MAX_CELL_CHARS = 32767;
+const MIN_COLUMN_WIDTH = 8;
+const MAX_COLUMN_WIDTH = 60;
+
+// Cell style indexes into styles.xml cellXfs
+const STYLE_HEADER = 1;
+const STYLE_DATE = 2;
+const STYLE_DATETIME = 3;
+
+// Zip fields past this are stored in ZIP64 extra fields and end records instead
+const ZIP32_MAX = 0xffffffff;
+const ZIP32_MAX_ENTRIES = 0xffff;
+const ZIP_VERSION = 20;
+const ZIP64_VERSION = 45;
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`;
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+const WORKBOOK_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`;
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><numFmts count="2"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/><numFmt numFmtId="165" formatCode="yyyy-mm-dd hh:mm:ss"/></numFmts><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="4"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs><cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles></styleSheet>`;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buf: Buffer, previous = 0): number {
+  let crc = ~previous >>> 0;
+  for (let i = 0; i < buf.length; i++) crc = CRC_TABLE[(crc ^ buf[i]) & 0xff] ^ (crc >>> 8);
+  return ~crc >>> 0;
+}
+
+// Zip timestamps are MS-DOS local date/time
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F￾￿]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// A, B, ..., Z, AA, AB, ...
+function columnLetter(index: number): string {
+  let letters = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+// Days since 1899-12-30 of the date's local wall-clock time, matching what the CSV shows
+function toExcelSerial(date: Date): number {
+  return (date.getTime() - date.getTimezoneOffset() * 60000) / 86400000 + 25569;
+}
+
+function isExactNumber(value: string): boolean {
+  if (!/^-?\d+(\.\d+)?$/.test(value)) return false;
+  return value.replace(/^-?0*/, "").replace(".", "").length <= MAX_NUMERIC_DIGITS;
+}
+
+function textCell(ref: string, text: string, style?: number): string {
+  const s = style ? ` s="${style}"` : "";
+  return `<c r="${ref}" t="inlineStr"${s}><is><t xml:space="preserve">${escapeXml(text.slice(0, MAX_CELL_CHARS))}</t></is></c>`;
+}
+
+function valueCell(ref: string, value: unknown, type: XlsxCellType | undefined): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return "";
+    return `<c r="${ref}" s="${type === "date" ? STYLE_DATE : STYLE_DATETIME}"><v>${toExcelSerial(value)}</v></c>`;
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? `<c r="${ref}"><v>${value}</v></c>` : textCell(ref, String(value));
+  }
+  if (typeof value === "boolean") {
+    return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  if (typeof value === "bigint") {
+    return isExactNumber(value.toString()) ? `<c r="${ref}"><v>${value}</v></c>` : textCell(ref, value.toString());
+  }
+  if (typeof value === "string") {
+    // int8 and numeric arrive as strings; anything else stays text so leading zeros survive
+    if (type === "number" && isExactNumber(value)) return `<c r="${ref}"><v>${value}</v></c>`;
+    return textCell(ref, value);
+  }
+  return textCell(ref, JSON.stringify(value));
+}
+
+function displayLength(value: unknown, type: XlsxCellType | undefined): number {
+  if (value === null || value === undefined) return 0;
+  if (value instanceof Date) return type === "date" ? 10 : 19;
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return text.length;
+}
+
+// Writes a chunk and, when the stream's buffer is full, waits for it to drain. Rejects if the
+// stream closes first (e.g. the client went away) so the caller stops producing rows.
+export function writeChunk(stream: Writable, chunk: Buffer | string): Promise<void> {
+  if (stream.destroyed) return Promise.reject(new Error("Export stream closed"));
+  if (stream.write(chunk)) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const onDrain = () => {
+      stream.off("close", onClose);
+      resolve();
+    };
+    const onClose = () => {
+      stream.off("drain", onDrain);
+      reject(new Error("Export stream closed"));
+    };
+    stream.once("drain", onDrain);
+    stream.once("close", onClose);
+  });
+}
+
+interface ZipEntry {
+  name: string;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  // Set when sizes and CRC follow the data in a descriptor; such entries are ZIP64 entries
+  streamed: boolean;
+}
+
+// ZIP64 extended information extra field holding the given 64-bit values in order
+function zip64Extra(values: number[]): Buffer {
+  const extra = Buffer.alloc(4 + values.length * 8);
+  extra.writeUInt16LE(0x0001, 0);
+  extra.writeUInt16LE(values.length * 8, 2);
+  values.forEach((value, i) => extra.writeBigUInt64LE(BigInt(value), 4 + i * 8));
+  return extra;
+}
+
+export class XlsxWriter {
+  private offset = 0;
+  private entries: ZipEntry[] = [];
+  private modified = dosDateTime(new Date());
+  private sheet: ZipEntry | null = null;
+  private deflate: zlib.DeflateRaw | null = null;
+  private rowCount = 0;
+
+  constructor(
+    private out: Writable,
+    private columns: XlsxColumn[],
+    private sheetName = "Export"
+  ) {}
+
+  async writeRows(rows: Record<string, unknown>[]): Promise<void> {
+    if (!this.sheet) await this.startSheet(rows);
+    const xml: string[] = [];
+    for (const row of rows) {
+      const r = ++this.rowCount + 1;
+      const cells = this.columns
+        .map((col, i) => valueCell(`${columnLetter(i)}${r}`, row[col.name], col.type))
+        .join("");
+      xml.push(`<row r="${r}">${cells}</row>`);
+    }
+    await this.writeSheetXml(xml.join(""));
+  }
+
+  async end(): Promise<void> {
+    if (!this.sheet) await this.startSheet([]);
+    const lastRef = `${columnLetter(Math.max(0, this.columns.length - 1))}${this.rowCount + 1}`;
+    const autoFilter = this.columns.length > 0 ? `<autoFilter ref="A1:${lastRef}"/>` : "";
+    await this.writeSheetXml(`</sheetData>${autoFilter}</worksheet>`);
+
+    const deflate = this.deflate!;
+    const done = new Promise<void>((resolve, reject) => {
+      deflate.once("end", resolve);
+      deflate.once("error", reject);
+      deflate.once("close", () => reject(new Error("Export stream closed")));
+    });
+    deflate.end();
+    await done;
+
+    // ZIP64 data descriptor: 8-byte sizes
+    const sheet = this.sheet!;
+    const descriptor = Buffer.alloc(24);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(sheet.crc, 4);
+    descriptor.writeBigUInt64LE(BigInt(sheet.compressedSize), 8);
+    descriptor.writeBigUInt64LE(BigInt(sheet.size), 16);
+    await this.write(descriptor);
+
+    await this.writeCentralDirectory();
+  }
+
+  // Fixed parts go first, then the worksheet, which is streamed
+  private async startSheet(firstRows: Record<string, unknown>[]): Promise<void> {
+    const sheetName = escapeXml(this.sheetName.replace(/[\[\]:*?/\\]/g, " ").slice(0, 31) || "Export");
+    await this.addFile("[Content_Types].xml", CONTENT_TYPES_XML);
+    await this.addFile("_rels/.rels", ROOT_RELS_XML);
+    await this.addFile(
+      "xl/workbook.xml",
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${sheetName}" sheetId="1" r:id="rId1"/></sheets></workbook>`
+    );
+    await this.addFile("xl/_rels/workbook.xml.rels", WORKBOOK_RELS_XML);
+    await this.addFile("xl/styles.xml", STYLES_XML);
+
+    this.sheet = await this.writeLocalHeader("xl/worksheets/sheet1.xml", null);
+
+    // Compressed output follows the response's pace: the deflate stream pauses while the response
+    // buffer is full, and writeSheetXml waits while the deflate buffer is full
+    const deflate = zlib.createDeflateRaw();
+    this.deflate = deflate;
+    deflate.on("data", (chunk: Buffer) => {
+      this.sheet!.compressedSize += chunk.length;
+      this.offset += chunk.length;
+      if (!this.out.write(chunk)) {
+        deflate.pause();
+        this.out.once("drain", () => deflate.resume());
+      }
+    });
+    this.out.once("close", () => deflate.destroy());
+
+    const widths = this.columns.map((col) => {
+      const longest = Math.max(col.name.length, ...firstRows.map((row) => displayLength(row[col.name], col.type)));
+      return Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, longest + 2));
+    });
+    const cols = widths.length > 0
+      ? `<cols>${widths.map((w, i) => `<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`).join("")}</cols>`
+      : "";
+    const header = this.columns.map((col, i) => textCell(`${columnLetter(i)}1`, col.name, STYLE_HEADER)).join("");
+
+    await this.writeSheetXml(
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetFormatPr defaultRowHeight="15"/>${cols}<sheetData><row r="1">${header}</row>`
+    );
+  }
+
+  private async writeSheetXml(xml: string): Promise<void> {
+    const buf = Buffer.from(xml, "utf8");
+    const sheet = this.sheet!;
+    sheet.crc = crc32(buf, sheet.crc);
+    sheet.size += buf.length;
+    await writeChunk(this.deflate!, buf);
+  }
+
+  private async addFile(name: string, content: string): Promise<void> {
+    const data = Buffer.from(content, "utf8");
+    const compressed = zlib.deflateRawSync(data);
+    await this.writeLocalHeader(name, { crc: crc32(data), compressedSize: compressed.length, size: data.length });
+    await this.write(compressed);
+  }
+
+  private async writeLocalHeader(
+    name: string,
+    known: { crc: number; compressedSize: number; size: number } | null
+  ): Promise<ZipEntry> {
+    const nameBuf = Buffer.from(name, "utf8");
+    const entry: ZipEntry = {
+      name,
+      crc: known?.crc ?? 0,
+      compressedSize: known?.compressedSize ?? 0,
+      size: known?.size ?? 0,
+      offset: this.offset,
+      streamed: !known,
+    };
+    // A streamed entry's sizes come later, in the descriptor and central directory; the
+    // header marks them as ZIP64 so they can exceed 32 bits
+    const extra = entry.streamed ? zip64Extra([0, 0]) : Buffer.alloc(0);
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(entry.streamed ? ZIP64_VERSION : ZIP_VERSION, 4);
+    header.writeUInt16LE(entry.streamed ? 0x0008 : 0, 6);
+    header.writeUInt16LE(8, 8);
+    header.writeUInt16LE(this.modified.time, 10);
+    header.writeUInt16LE(this.modified.date, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.streamed ? ZIP32_MAX : entry.compressedSize, 18);
+    header.writeUInt32LE(entry.streamed ? ZIP32_MAX : entry.size, 22);
+    header.writeUInt16LE(nameBuf.length, 26);
+    header.writeUInt16LE(extra.length, 28);
+    this.entries.push(entry);
+    await this.write(Buffer.concat([header, nameBuf, extra]));
+    return entry;
+  }
+
+  private async writeCentralDirectory(): Promise<void> {
+    const start = this.offset;
+    const records: Buffer[] = [];
+    for (const entry of this.entries) {
+      const nameBuf = Buffer.from(entry.name, "utf8");
+      // Values too large for their 32-bit field move to the ZIP64 extra field, in this order
+      const overflow = [entry.size, entry.compressedSize, entry.offset].filter((value) => value >= ZIP32_MAX);
+      const extra = overflow.length > 0 ? zip64Extra(overflow) : Buffer.alloc(0);
+      const version = entry.streamed || overflow.length > 0 ? ZIP64_VERSION : ZIP_VERSION;
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(version, 4);
+      header.writeUInt16LE(version, 6);
+      header.writeUInt16LE(entry.streamed ? 0x0008 : 0, 8);
+      header.writeUInt16LE(8, 10);
+      header.writeUInt16LE(this.modified.time, 12);
+      header.writeUInt16LE(this.modified.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(Math.min(entry.compressedSize, ZIP32_MAX), 20);
+      header.writeUInt32LE(Math.min(entry.size, ZIP32_MAX), 24);
+      header.writeUInt16LE(nameBuf.length, 28);
+      header.writeUInt16LE(extra.length, 30);
+      header.writeUInt32LE(Math.min(entry.offset, ZIP32_MAX), 42);
+      records.push(header, nameBuf, extra);
+    }
+    const directory = Buffer.concat(records);
+    const needsZip64 =
+      start >= ZIP32_MAX || directory.length >= ZIP32_MAX || this.entries.length >= ZIP32_MAX_ENTRIES;
+
+    const trailer: Buffer[] = [];
+    if (needsZip64) {
+      const zip64End = Buffer.alloc(56);
+      zip64End.writeUInt32LE(0x06064b50, 0);
+      zip64End.writeBigUInt64LE(BigInt(56 - 12), 4);
+      zip64End.writeUInt16LE(ZIP64_VERSION, 12);
+      zip64End.writeUInt16LE(ZIP64_VERSION, 14);
+      zip64End.writeBigUInt64LE(BigInt(this.entries.length), 24);
+      zip64End.writeBigUInt64LE(BigInt(this.entries.length), 32);
+      zip64End.writeBigUInt64LE(BigInt(directory.length), 40);
+      zip64End.writeBigUInt64LE(BigInt(start), 48);
+
+      const locator = Buffer.alloc(20);
+      locator.writeUInt32LE(0x07064b50, 0);
+      locator.writeBigUInt64LE(BigInt(start + directory.length), 8);
+      locator.writeUInt32LE(1, 16);
+      trailer.push(zip64End, locator);
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(Math.min(this.entries.length, ZIP32_MAX_ENTRIES), 8);
+    end.writeUInt16LE(Math.min(this.entries.length, ZIP32_MAX_ENTRIES), 10);
+    end.writeUInt32LE(Math.min(directory.length, ZIP32_MAX), 12);
+    end.writeUInt32LE(Math.min(start, ZIP32_MAX), 16);
+    trailer.push(end);
+    await this.write(Buffer.concat([directory, ...trailer]));
+  }
+
+  private async write(buf: Buffer): Promise<void> {
+    this.offset += buf.length;
+    await writeChunk(this.out, buf);
+  }
+}
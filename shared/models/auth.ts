@@ -1,8 +1,39 @@
 import { sql } from "drizzle-orm";
-import { boolean, index, jsonb, pgTable, text, timestamp, varchar, integer } from "drizzle-orm/pg-core";
+import { boolean, index, jsonb, pgTable, text, timestamp, uniqueIndex, varchar, integer } from "drizzle-orm/pg-core";
+import type { ActiveFilter, ColumnMaskRules, FilterDefinition, FilterGroup, FilterNode, SummarizeSpec } from "../schema";
 
-// User role enum type
-export type UserRole = "admin" | "washos_user" | "external_customer";
+// Roles that ship with the app; admins can define more (customRoles)
+export type BuiltInRole = "admin" | "washos_user" | "external_customer";
+
+export const BUILT_IN_ROLES: BuiltInRole[] = ["admin", "washos_user", "external_customer"];
+
+// Key of a built-in or admin-defined role
+export type UserRole = string;
+
+// Named permissions a role can hold; every route checks one of these instead of a role
+export const PERMISSIONS = [
+  "view_marketing_dashboard",
+  "view_operations_dashboard",
+  "use_nlq",
+  "export",
+  // Exports of every filtered row (and report block exports) rather than the current page; also
+  // raises the default export row limit of roles without their own
+  "export_all",
+  "manage_reports",
+  "view_audit_log",
+  // Dashboard drilldowns to individual records
+  "drill_down",
+  // Read every visible table without a table grant
+  "access_all_tables",
+  // See hidden tables and columns and unmasked values; grant predicates don't apply
+  "view_restricted_data",
+  "share_views",
+  "manage_access",
+  "manage_users",
+  "manage_settings",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
 
 // Session storage table.
 // (IMPORTANT) This table is mandatory for Replit Auth, don't drop it.
@@ -34,14 +65,84 @@ export const users = pgTable("users", {
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 
-// Table grants for External Customers - which tables they can access
-export const tableGrants = pgTable("table_grants", {
+// Admin-defined roles; the key is what users.role stores
+export const customRoles = pgTable("custom_roles", {
+  key: varchar("key").primaryKey(),
+  name: varchar("name").notNull(),
+  description: text("description"),
+  permissions: jsonb("permissions").$type<Permission[]>().default([]).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type CustomRole = typeof customRoles.$inferSelect;
+
+// Per-role export row limits for built-in and custom roles; roles without a row use the default
+export const roleExportLimits = pgTable("role_export_limits", {
+  role: varchar("role").primaryKey(),
+  rowLimit: integer("row_limit").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Daily and monthly caps on exported rows for a role or a single user; a user's own quota
+// replaces their role's. A null limit doesn't cap that period.
+export const exportQuotas = pgTable("export_quotas", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  role: varchar("role"),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  dailyRowLimit: integer("daily_row_limit"),
+  monthlyRowLimit: integer("monthly_row_limit"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_export_quotas_role").on(table.role),
+  uniqueIndex("idx_export_quotas_user").on(table.userId),
+]);
+
+export type ExportQuota = typeof exportQuotas.$inferSelect;
+
+// Groups of users (e.g. everyone from one partner company) that table grants can be attached to
+export const userGroups = pgTable("user_groups", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").unique().notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type UserGroup = typeof userGroups.$inferSelect;
+
+export const userGroupMembers = pgTable("user_group_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  groupId: varchar("group_id").notNull().references(() => userGroups.id, { onDelete: "cascade" }),
   userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  addedAt: timestamp("added_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_user_group_members_unique").on(table.groupId, table.userId),
+  index("idx_user_group_members_user").on(table.userId),
+]);
+
+export type UserGroupMember = typeof userGroupMembers.$inferSelect;
+
+// Table grants for External Customers - which tables they can access. A grant belongs to
+// either a user or a group; group grants apply to every member.
+export const tableGrants = pgTable("table_grants", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  groupId: varchar("group_id").references(() => userGroups.id, { onDelete: "cascade" }),
   database: varchar("database").notNull(),
   tableName: varchar("table_name").notNull(),
+  // Row-level predicate (implicit AND); null or empty grants every row of the table
+  rowFilter: jsonb("row_filter").$type<FilterNode[]>(),
+  // Column allowlist; null grants every column of the table
+  allowedColumns: jsonb("allowed_columns").$type<string[]>(),
   grantedBy: integer("granted_by").notNull().references(() => users.id),
   grantedAt: timestamp("granted_at").defaultNow(),
+  // Null for a permanent grant; an expired grant is kept so it can be extended
+  expiresAt: timestamp("expires_at"),
+  reason: text("reason"),
+  // Exports of more rows than this need an admin's approval; null never needs one
+  exportApprovalThreshold: integer("export_approval_threshold"),
+  // Set once the expiry sweep has written the grant's audit log entry
+  expiryLoggedAt: timestamp("expiry_logged_at"),
 });
 
 export type TableGrant = typeof tableGrants.$inferSelect;
@@ -57,6 +158,8 @@ export const auditLogs = pgTable("audit_logs", {
   tableName: varchar("table_name"),
   details: text("details"),
   ipAddress: varchar("ip_address"),
+  // Rows that left the system, set only on export entries; export quotas sum it
+  rowCount: integer("row_count"),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
 }, (table) => [
   index("idx_audit_logs_user").on(table.userId),
@@ -120,12 +223,15 @@ export interface JoinConfig {
   subJoin?: SubJoinConfig; // Optional nested join from this joined table to another table
 }
 
+// Report block filter: a condition or a nested AND/OR group (top-level entries are AND-ed)
+export type BlockFilter = { column: string; operator: string; value: string | string[] } | FilterGroup;
+
 // Report block configuration types
 export interface TableBlockConfig {
   database: string;
   table: string;
   columns: string[];
-  filters: { column: string; operator: string; value: string | string[] }[];
+  filters: BlockFilter[];
   orderBy?: { column: string; direction: "asc" | "desc" };
   rowLimit: number;
   join?: JoinConfig;
@@ -139,7 +245,7 @@ export interface ChartBlockConfig {
   yColumn: string;
   aggregateFunction?: AggregateFunction;
   groupBy?: string;
-  filters: { column: string; operator: string; value: string }[];
+  filters: BlockFilter[];
   rowLimit: number;
 }
 
@@ -148,7 +254,7 @@ export interface MetricBlockConfig {
   table: string;
   column: string;
   aggregateFunction: AggregateFunction;
-  filters: { column: string; operator: string; value: string }[];
+  filters: BlockFilter[];
   label?: string;
   format?: "number" | "currency" | "percentage";
 }
@@ -178,3 +284,177 @@ export interface ChatMessage {
   content: string;
   timestamp: string;
 }
+
+// Saved views - named column/filter/sort/page size presets for a table
+export type SavedViewVisibility = "private" | "shared" | "published";
+
+export interface SavedViewState {
+  visibleColumns: string[] | null; // null shows every column
+  filters: FilterNode[];
+  sort: { column: string; direction: "asc" | "desc" }[] | null;
+  pageSize: number;
+}
+
+export const savedViews = pgTable("saved_views", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  database: varchar("database").notNull(),
+  tableName: varchar("table_name").notNull(),
+  name: varchar("name").notNull(),
+  // private: owner only; shared: owner + saved_view_shares; published: anyone with table access
+  visibility: varchar("visibility").$type<SavedViewVisibility>().default("private").notNull(),
+  state: jsonb("state").$type<SavedViewState>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_saved_views_user").on(table.userId),
+  index("idx_saved_views_table").on(table.database, table.tableName),
+]);
+
+export type SavedView = typeof savedViews.$inferSelect;
+export type InsertSavedView = typeof savedViews.$inferInsert;
+
+// Users a "shared" saved view is shared with
+export const savedViewShares = pgTable("saved_view_shares", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  viewId: varchar("view_id").notNull().references(() => savedViews.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+}, (table) => [
+  index("idx_saved_view_shares_view").on(table.viewId),
+  index("idx_saved_view_shares_user").on(table.userId),
+]);
+
+export type SavedViewShare = typeof savedViewShares.$inferSelect;
+
+// Admin-defined quick filters for a table (schema.table), per database
+export const tableFilters = pgTable("table_filters", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  database: varchar("database").notNull(),
+  tableName: varchar("table_name").notNull(),
+  filters: jsonb("filters").$type<FilterDefinition[]>().default([]).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_table_filters_table").on(table.database, table.tableName),
+]);
+
+// Admin display settings for a table (schema.table): visibility, display name, hidden and masked columns
+export const tableSettings = pgTable("table_settings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  database: varchar("database").notNull(),
+  tableName: varchar("table_name").notNull(),
+  isVisible: boolean("is_visible").default(true).notNull(),
+  displayName: varchar("display_name"),
+  hiddenColumns: jsonb("hidden_columns").$type<string[]>(),
+  columnMasks: jsonb("column_masks").$type<ColumnMaskRules>(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_table_settings_table").on(table.database, table.tableName),
+]);
+
+// Schemas exposed in the viewer; databases without a row expose the default (public only)
+export const schemaSettings = pgTable("schema_settings", {
+  database: varchar("database").primaryKey(),
+  exposedSchemas: jsonb("exposed_schemas").$type<string[]>().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// A user's recently applied filters per table
+export const filterHistory = pgTable("filter_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  database: varchar("database").notNull(),
+  tableName: varchar("table_name").notNull(),
+  filters: jsonb("filters").$type<ActiveFilter[]>().notNull(),
+  lastUsedAt: timestamp("last_used_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_filter_history_user_table").on(table.userId, table.database, table.tableName),
+]);
+
+// Legacy JSON files already imported by importJsonStorage, so later startups skip them
+export const storageImports = pgTable("storage_imports", {
+  key: varchar("key").primaryKey(),
+  importedAt: timestamp("imported_at").defaultNow().notNull(),
+});
+
+export type ExportJobStatus = "queued" | "running" | "completed" | "failed" | "cancelled" | "expired";
+
+// Background data viewer exports; the file lives on disk until expiresAt
+export const exportJobs = pgTable("export_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  database: varchar("database").notNull(),
+  tableName: varchar("table_name").notNull(),
+  format: varchar("format").notNull(),
+  status: varchar("status").$type<ExportJobStatus>().default("queued").notNull(),
+  // Row count from the check when the job was created; rowsWritten counts up to it
+  estimatedRows: integer("estimated_rows").notNull(),
+  rowsWritten: integer("rows_written").default(0).notNull(),
+  // Name the file is downloaded as, without the format's extension
+  fileName: varchar("file_name").notNull(),
+  fileSize: integer("file_size"),
+  error: text("error"),
+  // Server process whose in-memory queue holds the job; it refreshes heartbeatAt while the job is
+  // queued or running, and other instances fail the job once the heartbeat goes stale
+  ownerId: varchar("owner_id"),
+  heartbeatAt: timestamp("heartbeat_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  expiresAt: timestamp("expires_at"),
+}, (table) => [
+  index("idx_export_jobs_user").on(table.userId, table.createdAt),
+]);
+
+export type ExportJob = typeof exportJobs.$inferSelect;
+
+export type ExportApprovalStatus = "pending" | "approved" | "denied";
+
+// Exports over a grant's approval threshold wait here for an admin. The request is kept as
+// sent so the approved export runs exactly what was reviewed; approving starts an export job.
+export const exportApprovals = pgTable("export_approvals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  database: varchar("database").notNull(),
+  tableName: varchar("table_name").notNull(),
+  format: varchar("format").notNull(),
+  filters: jsonb("filters").$type<FilterNode[] | FilterGroup>().notNull(),
+  search: text("search"),
+  searchColumns: jsonb("search_columns").$type<string[]>(),
+  summarize: jsonb("summarize").$type<SummarizeSpec>(),
+  // Row count and threshold when the request was made
+  estimatedRows: integer("estimated_rows").notNull(),
+  threshold: integer("threshold").notNull(),
+  reason: text("reason"),
+  status: varchar("status").$type<ExportApprovalStatus>().default("pending").notNull(),
+  reviewedBy: integer("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  reviewComment: text("review_comment"),
+  reviewedAt: timestamp("reviewed_at"),
+  exportJobId: varchar("export_job_id").references(() => exportJobs.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_export_approvals_status").on(table.status, table.createdAt),
+  index("idx_export_approvals_user").on(table.userId, table.createdAt),
+]);
+
+export type ExportApproval = typeof exportApprovals.$inferSelect;
+
+// Raised when a user's exports for the day far exceed their own daily average; admins
+// acknowledge them on the export usage tab
+export const exportAlerts = pgTable("export_alerts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  // The export that crossed the threshold
+  database: varchar("database"),
+  tableName: varchar("table_name"),
+  rowsToday: integer("rows_today").notNull(),
+  dailyAverage: integer("daily_average").notNull(),
+  threshold: integer("threshold").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  acknowledgedBy: integer("acknowledged_by").references(() => users.id, { onDelete: "set null" }),
+  acknowledgedAt: timestamp("acknowledged_at"),
+}, (table) => [
+  index("idx_export_alerts_created").on(table.createdAt),
+  index("idx_export_alerts_user").on(table.userId, table.createdAt),
+]);
+
+export type ExportAlert = typeof exportAlerts.$inferSelect;
@@ -9,28 +9,76 @@ export const databaseConnectionSchema = z.object({
 export type DatabaseConnection = z.infer<typeof databaseConnectionSchema>;
 
 // Table info from database
+export const tableObjectTypeSchema = z.enum(["table", "view", "materialized_view"]);
+
+export type TableObjectType = z.infer<typeof tableObjectTypeSchema>;
+
 export const tableInfoSchema = z.object({
   schema: z.string(),
   name: z.string(),
   fullName: z.string(), // schema.table
   displayName: z.string().nullable().optional(),
   isVisible: z.boolean().optional(),
+  type: tableObjectTypeSchema.optional(),
 });
 
 export type TableInfo = z.infer<typeof tableInfoSchema>;
 
+// Foreign key target for a column (single-column constraints only)
+export const foreignKeyRefSchema = z.object({
+  table: z.string(), // schema.table of the referenced table
+  column: z.string(),
+});
+
+export type ForeignKeyRef = z.infer<typeof foreignKeyRefSchema>;
+
+// How a column's values reach users of a role: left out entirely, partially masked
+// (j***@x.com), replaced by a hash, or nulled out
+export const columnMaskSchema = z.enum(["hide", "partial", "hash", "null"]);
+
+export type ColumnMask = z.infer<typeof columnMaskSchema>;
+
+// Masking rules of one table: column -> role key -> mask (roles that can view restricted
+// data always see raw values)
+export const columnMaskRulesSchema = z.record(
+  z.string(),
+  z.record(z.string(), columnMaskSchema)
+);
+
+export type ColumnMaskRules = z.infer<typeof columnMaskRulesSchema>;
+
 // Column info from database
 export const columnInfoSchema = z.object({
   name: z.string(),
   dataType: z.string(),
   isNullable: z.boolean(),
   isPrimaryKey: z.boolean(),
+  foreignKey: foreignKeyRefSchema.nullable().optional(),
+  mask: columnMaskSchema.nullable().optional(), // mask applied for the requesting user's role
 });
 
 export type ColumnInfo = z.infer<typeof columnInfoSchema>;
 
+// A foreign key in another table that references this table (reverse relationship)
+export const tableRelationshipSchema = z.object({
+  table: z.string(), // schema.table of the referencing (child) table
+  column: z.string(), // referencing column in the child table
+  referencedColumn: z.string(), // column in this table
+  displayName: z.string().nullable().optional(),
+});
+
+export type TableRelationship = z.infer<typeof tableRelationshipSchema>;
+
 // Filter operator types
-export const filterOperatorSchema = z.enum(["eq", "contains", "gt", "gte", "lt", "lte", "between", "in"]);
+export const filterOperatorSchema = z.enum([
+  "eq", "neq", "contains", "starts_with", "ends_with", "regex",
+  "gt", "gte", "lt", "lte", "between", "in", "not_in",
+  "is_null", "is_not_null",
+  // Relative dates, resolved in Pacific time when the query runs
+  "last_n_days", "this_week", "this_month",
+  // JSON columns: key exists / array contains a value
+  "has_key", "array_contains",
+]);
 export type FilterOperator = z.infer<typeof filterOperatorSchema>;
 
 // Filter definition (admin-configured)
@@ -47,17 +95,58 @@ export type FilterDefinition = z.infer<typeof filterDefinitionSchema>;
 export const activeFilterSchema = z.object({
   column: z.string(),
   operator: filterOperatorSchema,
-  value: z.string(),
+  // Lists for in/not_in, empty for operators that take no value
+  value: z.union([z.string(), z.array(z.string())]),
+  // Key path into a json/jsonb column, e.g. ["metadata", "source"] -> col #>> '{metadata,source}'
+  path: z.array(z.string()).optional(),
 });
 
 export type ActiveFilter = z.infer<typeof activeFilterSchema>;
 
+// Filter expression tree: conditions combined by nested AND/OR groups,
+// optionally negated. A flat ActiveFilter[] is an implicit AND group.
+export interface FilterGroup {
+  type: "group";
+  connective: "and" | "or";
+  negate?: boolean;
+  children: FilterNode[];
+}
+
+export type FilterNode = ActiveFilter | FilterGroup;
+
+export const filterNodeSchema: z.ZodType<FilterNode> = z.lazy(() =>
+  z.union([activeFilterSchema, filterGroupSchema])
+);
+
+export const filterGroupSchema: z.ZodType<FilterGroup> = z.lazy(() =>
+  z.object({
+    type: z.literal("group"),
+    connective: z.enum(["and", "or"]),
+    negate: z.boolean().optional(),
+    children: z.array(filterNodeSchema),
+  })
+);
+
+export const filterInputSchema = z.union([z.array(filterNodeSchema), filterGroupSchema]);
+
+export type FilterInput = z.infer<typeof filterInputSchema>;
+
+// Row predicate carried by a table grant (implicit AND group)
+export const grantRowFilterSchema = z.array(filterNodeSchema);
+
 // Query request for fetching rows
 export const queryRequestSchema = z.object({
   database: z.string(),
   table: z.string(),
   page: z.number().int().positive().default(1),
-  filters: z.array(activeFilterSchema).optional(),
+  filters: filterInputSchema.optional(),
+  // Keyset mode pages by the sort/primary-key tuple instead of OFFSET
+  pagination: z.enum(["offset", "keyset"]).default("offset"),
+  cursor: z.array(z.unknown()).nullable().optional(),
+  direction: z.enum(["first", "last", "next", "prev"]).default("next"),
+  // Use the pg_class.reltuples estimate when no filters are applied
+  approximateCount: z.boolean().default(false),
+  pageSize: z.number().int().positive().optional(), // one of PAGE_SIZE_OPTIONS, else the default
 });
 
 export type QueryRequest = z.infer<typeof queryRequestSchema>;
@@ -69,10 +158,48 @@ export const queryResponseSchema = z.object({
   page: z.number(),
   pageSize: z.number(),
   totalPages: z.number(),
+  isApproximateCount: z.boolean().optional(),
+  pagination: z.enum(["offset", "keyset"]).optional(),
+  prevCursor: z.array(z.unknown()).nullable().optional(),
+  nextCursor: z.array(z.unknown()).nullable().optional(),
+  hasPreviousPage: z.boolean().optional(),
+  hasNextPage: z.boolean().optional(),
 });
 
 export type QueryResponse = z.infer<typeof queryResponseSchema>;
 
+// Summarize (GROUP BY) mode: one or two group-by columns, timestamps optionally bucketed
+export const summarizeBucketSchema = z.enum(["day", "week", "month"]);
+export const summarizeFunctionSchema = z.enum(["count", "count_distinct", "sum", "avg", "min", "max"]);
+
+export const summarizeSpecSchema = z.object({
+  groupBy: z.array(z.object({
+    column: z.string(),
+    bucket: summarizeBucketSchema.optional(),
+  })).min(1).max(2),
+  aggregates: z.array(z.object({
+    function: summarizeFunctionSchema,
+    column: z.string().optional(), // omitted for COUNT(*)
+  })).min(1).max(10),
+  // Sort by an output column name (see SummarizeOutputColumn.name)
+  sort: z.object({
+    column: z.string(),
+    direction: z.enum(["asc", "desc"]),
+  }).nullable().optional(),
+});
+
+export type SummarizeBucket = z.infer<typeof summarizeBucketSchema>;
+export type SummarizeFunction = z.infer<typeof summarizeFunctionSchema>;
+export type SummarizeSpec = z.infer<typeof summarizeSpecSchema>;
+
+export interface SummarizeOutputColumn {
+  name: string;
+  kind: "group" | "aggregate";
+  column?: string;
+  bucket?: SummarizeBucket;
+  function?: SummarizeFunction;
+}
+
 // NLQ (Natural Language Query) request
 export const nlqRequestSchema = z.object({
   database: z.string(),
@@ -101,6 +228,7 @@ export const nlqFilterSchema = z.object({
   column: z.string(),
   op: filterOperatorSchema,
   value: z.union([z.string(), z.array(z.string())]),
+  path: z.array(z.string()).optional(),
 });
 export type NLQFilter = z.infer<typeof nlqFilterSchema>;
 
@@ -207,5 +335,36 @@ export const filterHistoryEntrySchema = z.object({
 
 export type FilterHistoryEntry = z.infer<typeof filterHistoryEntrySchema>;
 
+// Saved view create/update payload
+export const savedViewStateSchema = z.object({
+  visibleColumns: z.array(z.string()).nullable(),
+  filters: z.array(filterNodeSchema),
+  sort: z.array(z.object({
+    column: z.string(),
+    direction: z.enum(["asc", "desc"]),
+  })).nullable(),
+  pageSize: z.number().int().positive(),
+});
+
+export const savedViewInputSchema = z.object({
+  database: z.string(),
+  table: z.string(),
+  name: z.string().trim().min(1).max(100),
+  visibility: z.enum(["private", "shared", "published"]).default("private"),
+  sharedWith: z.array(z.number().int()).default([]),
+  state: savedViewStateSchema,
+});
+
+export type SavedViewInput = z.infer<typeof savedViewInputSchema>;
+
+// Database viewer state carried in a shareable link; the server re-validates it before use
+export const viewerLinkStateSchema = savedViewStateSchema.extend({
+  database: z.string(),
+  table: z.string(),
+  page: z.number().int().positive().default(1),
+});
+
+export type ViewerLinkState = z.infer<typeof viewerLinkStateSchema>;
+
 // Export auth models
 export * from "./models/auth";